@@ -28,6 +28,12 @@ const nextConfig = {
   
   // Experimental features for better performance
   experimental: {
+    // Server startup hook (src/instrumentation.ts) - starts the XML sync scheduler
+    instrumentationHook: true,
+
+    // Loaded by the catalog import at runtime - keep it out of the server bundle
+    serverComponentsExternalPackages: ['exceljs'],
+
     // Optimize package imports
     optimizePackageImports: [
       'lucide-react',
@@ -210,6 +210,21 @@ async function main() {
   });
   console.log("Created home banner");
 
+  // Create warehouse directory (codes formerly hardcoded in the XML sync)
+  const warehouses = [
+    { code: "1", name: "Москва", city: "Москва" },
+    { code: "2", name: "Новосибирск", city: "Новосибирск" },
+    { code: "3", name: "Санкт-Петербург", city: "Санкт-Петербург" },
+  ];
+  for (const warehouse of warehouses) {
+    await prisma.warehouse.upsert({
+      where: { code: warehouse.code },
+      update: {},
+      create: warehouse,
+    });
+  }
+  console.log("Created warehouses");
+
   console.log("Seeding completed!");
 }
 
@@ -0,0 +1,105 @@
+/**
+ * Локальная заглушка Telegram Bot API для проверки вебхука без настоящего бота.
+ *
+ *   node scripts/fake-telegram-api.mjs            # порт 8081, можно задать PORT
+ *
+ * В админке («Интеграции» → «Telegram-бот») укажите любой токен и адрес Bot API http://localhost:8081,
+ * затем нажмите «Установить вебхук». Ответы бота печатаются в консоль.
+ *
+ * Сообщение от имени пользователя (заглушка отправит его на вебхук с секретным заголовком):
+ *   curl -X POST localhost:8081/say -d '{"chatId": 1001, "text": "наличие AB123"}'
+ */
+
+import http from "node:http";
+
+const PORT = Number(process.env.PORT || 8081);
+
+let webhook = { url: "", secret: "" };
+let updateId = 1;
+let messageId = 1;
+
+const bot = { id: 1, is_bot: true, first_name: "Floor Service (dev)", username: "floor_service_dev_bot" };
+
+function readBody(req) {
+  return new Promise((resolve) => {
+    let data = "";
+    req.on("data", (chunk) => (data += chunk));
+    req.on("end", () => {
+      try {
+        resolve(data ? JSON.parse(data) : {});
+      } catch {
+        resolve({});
+      }
+    });
+  });
+}
+
+function reply(res, status, body) {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+async function say(body) {
+  if (!webhook.url) throw new Error("Webhook is not set");
+  const chatId = Number(body.chatId || 1001);
+  const update = {
+    update_id: updateId++,
+    message: {
+      message_id: messageId++,
+      from: { id: chatId, is_bot: false, first_name: body.firstName || "Dev", username: body.username || "dev_user" },
+      chat: { id: chatId, type: "private" },
+      date: Math.floor(Date.now() / 1000),
+      text: String(body.text || ""),
+    },
+  };
+  const response = await fetch(webhook.url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", "X-Telegram-Bot-Api-Secret-Token": webhook.secret },
+    body: JSON.stringify(update),
+  });
+  return { status: response.status, body: await response.text() };
+}
+
+const methods = {
+  getMe: () => bot,
+  setWebhook: (body) => {
+    webhook = { url: body.url, secret: body.secret_token || "" };
+    console.log(`[webhook] ${webhook.url}`);
+    return true;
+  },
+  getWebhookInfo: () => ({ url: webhook.url, has_custom_certificate: false, pending_update_count: 0 }),
+  sendChatAction: () => true,
+  sendMessage: (body) => {
+    console.log(`\n[sendMessage → ${body.chat_id}]\n${body.text}`);
+    if (body.reply_markup) console.log(JSON.stringify(body.reply_markup.inline_keyboard));
+    return { message_id: messageId++, chat: { id: body.chat_id, type: "private" }, text: body.text };
+  },
+  sendPhoto: (body) => {
+    console.log(`\n[sendPhoto → ${body.chat_id}] ${body.photo}\n${body.caption || ""}`);
+    if (body.reply_markup) console.log(JSON.stringify(body.reply_markup.inline_keyboard));
+    return { message_id: messageId++, chat: { id: body.chat_id, type: "private" } };
+  },
+};
+
+http
+  .createServer(async (req, res) => {
+    const body = await readBody(req);
+
+    if (req.url === "/say") {
+      try {
+        reply(res, 200, await say(body));
+      } catch (error) {
+        reply(res, 400, { error: error.message });
+      }
+      return;
+    }
+
+    const match = req.url?.match(/^\/bot[^/]+\/(\w+)/);
+    const method = match && methods[match[1]];
+    if (!method) {
+      reply(res, 404, { ok: false, error_code: 404, description: "Not Found: method not found" });
+      return;
+    }
+    reply(res, 200, { ok: true, result: method(body) });
+  })
+  .listen(PORT, () => console.log(`Fake Telegram Bot API on http://localhost:${PORT}`));
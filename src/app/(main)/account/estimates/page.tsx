@@ -0,0 +1,260 @@
+"use client";
+
+import React, { useState, useEffect } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/components/ui/use-toast";
+import { useCart } from "@/components/context/CartContext";
+import { api, SavedEstimate } from "@/lib/api";
+import { INSTALLATION_LABELS } from "@/lib/calculator";
+import {
+  Calculator,
+  Check,
+  Copy,
+  Heart,
+  Pencil,
+  RefreshCw,
+  ShoppingCart,
+  Trash2,
+  X,
+} from "lucide-react";
+import { format } from "date-fns";
+import { ru } from "date-fns/locale";
+
+const rub = (value: number) => `${value.toLocaleString("ru-RU", { maximumFractionDigits: 2 })} ₽`;
+
+export default function AccountEstimatesPage() {
+  const router = useRouter();
+  const { addItem } = useCart();
+  const [estimates, setEstimates] = useState<SavedEstimate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [editing, setEditing] = useState<{ id: string; title: string } | null>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    api
+      .getEstimates()
+      .then(setEstimates)
+      .catch((error) => console.error("Error loading estimates:", error))
+      .finally(() => setLoading(false));
+  }, []);
+
+  const replace = (estimate: SavedEstimate) =>
+    setEstimates((prev) => prev.map((e) => (e.id === estimate.id ? estimate : e)));
+
+  const run = async (id: string, action: () => Promise<void>, errorText: string) => {
+    setBusyId(id);
+    try {
+      await action();
+    } catch (error) {
+      toast({
+        title: "Ошибка",
+        description: error instanceof Error ? error.message : errorText,
+        variant: "destructive",
+      });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const rename = () => {
+    if (!editing || !editing.title.trim()) return;
+    const { id, title } = editing;
+    run(
+      id,
+      async () => {
+        replace(await api.renameEstimate(id, title.trim()));
+        setEditing(null);
+      },
+      "Не удалось переименовать расчёт."
+    );
+  };
+
+  const duplicate = (estimate: SavedEstimate) =>
+    run(
+      estimate.id,
+      async () => {
+        const copy = await api.duplicateEstimate(estimate.id);
+        setEstimates((prev) => [copy, ...prev]);
+      },
+      "Не удалось скопировать расчёт."
+    );
+
+  const reprice = (estimate: SavedEstimate) =>
+    run(
+      estimate.id,
+      async () => {
+        const updated = await api.repriceEstimate(estimate.id);
+        replace(updated);
+        const before = estimate.results.totalCost;
+        const after = updated.results.totalCost;
+        toast({
+          title: "Расчёт пересчитан",
+          description:
+            before === after
+              ? "Цена в каталоге не изменилась."
+              : `Итого: ${rub(before)} → ${rub(after)}`,
+        });
+      },
+      "Не удалось пересчитать расчёт."
+    );
+
+  // The order itself is placed from the cart through the usual checkout
+  const order = (estimate: SavedEstimate) =>
+    run(
+      estimate.id,
+      async () => {
+        await addItem(estimate.vendorCode, estimate.results.packagesNeeded, "CALCULATOR");
+        router.push("/cart");
+      },
+      "Не удалось добавить товар в корзину."
+    );
+
+  const remove = (estimate: SavedEstimate) => {
+    if (!confirm(`Удалить расчёт «${estimate.title}»?`)) return;
+    run(
+      estimate.id,
+      async () => {
+        await api.deleteEstimate(estimate.id);
+        setEstimates((prev) => prev.filter((e) => e.id !== estimate.id));
+      },
+      "Не удалось удалить расчёт."
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-blue-50 to-indigo-50 p-6">
+      <div className="max-w-4xl mx-auto w-full">
+        <div className="mb-8 flex flex-col md:flex-row md:items-end md:justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold bg-gradient-to-r from-[#0A84FF] to-[#007AFF] bg-clip-text text-transparent">
+              Сохранённые расчёты
+            </h1>
+            <p className="text-slate-600 mt-1">Расчёты калькулятора, отмеченные сердечком</p>
+          </div>
+          <Button asChild variant="outline">
+            <Link href="/calculator">
+              <Calculator className="w-4 h-4 mr-2" />
+              Новый расчёт
+            </Link>
+          </Button>
+        </div>
+
+        {loading ? (
+          <div className="space-y-4">
+            {[1, 2, 3].map((i) => (
+              <div key={i} className="h-32 bg-white/60 rounded-2xl animate-pulse" />
+            ))}
+          </div>
+        ) : estimates.length === 0 ? (
+          <Card className="bg-white/60 backdrop-blur-sm border-white/20 text-center p-12">
+            <CardContent>
+              <Heart className="w-16 h-16 text-slate-400 mx-auto mb-4" />
+              <h3 className="text-lg font-medium text-slate-800 mb-2">Сохранённых расчётов пока нет</h3>
+              <p className="text-slate-600">
+                Рассчитайте материал в калькуляторе и нажмите на сердечко в результатах расчёта.
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-3">
+            {estimates.map((estimate) => {
+              const busy = busyId === estimate.id;
+              return (
+                <Card key={estimate.id} className="bg-white/70 backdrop-blur-xl border-white/20 shadow-lg">
+                  <CardContent className="p-4 space-y-3">
+                    <div className="flex items-start justify-between gap-3">
+                      <div className="min-w-0 flex-1">
+                        {editing?.id === estimate.id ? (
+                          <div className="flex items-center gap-2">
+                            <Input
+                              value={editing.title}
+                              autoFocus
+                              onChange={(e) => setEditing({ id: estimate.id, title: e.target.value })}
+                              onKeyDown={(e) => {
+                                if (e.key === "Enter") rename();
+                                if (e.key === "Escape") setEditing(null);
+                              }}
+                            />
+                            <Button size="icon" variant="ghost" onClick={rename} disabled={busy} aria-label="Сохранить">
+                              <Check className="w-4 h-4" />
+                            </Button>
+                            <Button size="icon" variant="ghost" onClick={() => setEditing(null)} aria-label="Отмена">
+                              <X className="w-4 h-4" />
+                            </Button>
+                          </div>
+                        ) : (
+                          <button
+                            onClick={() => setEditing({ id: estimate.id, title: estimate.title })}
+                            className="group flex items-center gap-2 text-left"
+                          >
+                            <span className="font-semibold text-slate-900">{estimate.title}</span>
+                            <Pencil className="w-3.5 h-3.5 text-slate-400 opacity-0 group-hover:opacity-100" />
+                          </button>
+                        )}
+                        <div className="text-sm text-slate-500 mt-1">
+                          {estimate.productName} · арт. {estimate.vendorCode}
+                        </div>
+                      </div>
+                      <div className="text-right shrink-0">
+                        <div className="font-bold text-slate-900">{rub(estimate.results.totalCost)}</div>
+                        {estimate.discountPercent > 0 && (
+                          <div className="text-xs text-green-600">скидка {estimate.discountPercent}%</div>
+                        )}
+                      </div>
+                    </div>
+
+                    <div className="flex flex-wrap gap-2 text-xs">
+                      <Badge variant="outline">{estimate.area} м²</Badge>
+                      {estimate.shape && <Badge variant="outline">сложная форма</Badge>}
+                      <Badge variant="outline">{INSTALLATION_LABELS[estimate.installationType]}</Badge>
+                      <Badge variant="outline">{estimate.results.packagesNeeded} уп.</Badge>
+                      <Badge variant="outline">{rub(estimate.pricePerM2)}/м²</Badge>
+                      <span className="text-slate-500 self-center">
+                        цена на {format(new Date(estimate.pricedAt), "d MMMM yyyy", { locale: ru })}
+                      </span>
+                    </div>
+
+                    <div className="flex flex-wrap gap-2">
+                      <Button
+                        size="sm"
+                        onClick={() => order(estimate)}
+                        disabled={busy}
+                        className="bg-gradient-to-r from-[#0A84FF] to-[#007AFF]"
+                      >
+                        <ShoppingCart className="w-4 h-4 mr-1" />
+                        Оформить заказ
+                      </Button>
+                      <Button size="sm" variant="outline" onClick={() => reprice(estimate)} disabled={busy}>
+                        <RefreshCw className="w-4 h-4 mr-1" />
+                        Пересчитать по текущей цене
+                      </Button>
+                      <Button size="sm" variant="outline" onClick={() => duplicate(estimate)} disabled={busy}>
+                        <Copy className="w-4 h-4 mr-1" />
+                        Копия
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => remove(estimate)}
+                        disabled={busy}
+                        className="hover:bg-red-50 hover:text-red-600 ml-auto"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,175 @@
+"use client";
+
+import React, { useState, useEffect, useCallback } from "react";
+import { useRouter } from "next/navigation";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { api, NotificationItem } from "@/lib/api";
+import { NOTIFICATION_ICONS } from "@/components/notifications/NotificationBell";
+import { Bell, CheckCheck } from "lucide-react";
+import { format } from "date-fns";
+import { ru } from "date-fns/locale";
+
+const PAGE_SIZE = 20;
+
+export default function AccountNotificationsPage() {
+  const router = useRouter();
+  const [items, setItems] = useState<NotificationItem[]>([]);
+  const [total, setTotal] = useState(0);
+  const [unread, setUnread] = useState(0);
+  const [unreadOnly, setUnreadOnly] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+
+  const loadData = useCallback(async () => {
+    setLoading(true);
+    try {
+      const inbox = await api.getNotifications({ limit: PAGE_SIZE, unread: unreadOnly });
+      setItems(inbox.items);
+      setTotal(inbox.total);
+      setUnread(inbox.unread);
+    } catch (error) {
+      console.error("Error loading notifications:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [unreadOnly]);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  const loadMore = async () => {
+    setLoadingMore(true);
+    try {
+      const inbox = await api.getNotifications({
+        limit: PAGE_SIZE,
+        offset: items.length,
+        unread: unreadOnly,
+      });
+      setItems((prev) => [...prev, ...inbox.items]);
+      setTotal(inbox.total);
+      setUnread(inbox.unread);
+    } catch (error) {
+      console.error("Error loading notifications:", error);
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  const readAll = async () => {
+    try {
+      await api.markNotificationsRead();
+      loadData();
+    } catch (error) {
+      console.error("Error marking notifications as read:", error);
+    }
+  };
+
+  const open = (item: NotificationItem) => {
+    if (!item.readAt) {
+      setItems((prev) =>
+        prev.map((n) => (n.id === item.id ? { ...n, readAt: new Date().toISOString() } : n))
+      );
+      setUnread((prev) => Math.max(0, prev - 1));
+      api.markNotificationsRead([item.id]).catch((error) =>
+        console.error("Error marking notification as read:", error)
+      );
+    }
+    if (item.link) router.push(item.link);
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-blue-50 to-indigo-50 p-6">
+      <div className="max-w-3xl mx-auto w-full">
+        <div className="mb-8 flex flex-col md:flex-row md:items-end md:justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold bg-gradient-to-r from-[#0A84FF] to-[#007AFF] bg-clip-text text-transparent">
+              Уведомления
+            </h1>
+            <p className="text-slate-600 mt-1">
+              {unread > 0 ? `Непрочитанных: ${unread}` : "Все уведомления прочитаны"}
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <Button
+              variant={unreadOnly ? "default" : "outline"}
+              size="sm"
+              onClick={() => setUnreadOnly(!unreadOnly)}
+            >
+              Только непрочитанные
+            </Button>
+            <Button variant="outline" size="sm" onClick={readAll} disabled={unread === 0}>
+              <CheckCheck className="w-4 h-4 mr-2" />
+              Прочитать все
+            </Button>
+          </div>
+        </div>
+
+        {loading ? (
+          <div className="space-y-3">
+            {[1, 2, 3].map((i) => (
+              <div key={i} className="h-20 bg-white/60 rounded-2xl animate-pulse" />
+            ))}
+          </div>
+        ) : items.length === 0 ? (
+          <Card className="bg-white/60 backdrop-blur-sm border-white/20 text-center p-12">
+            <CardContent>
+              <Bell className="w-16 h-16 text-slate-400 mx-auto mb-4" />
+              <h3 className="text-lg font-medium text-slate-800 mb-2">Уведомлений нет</h3>
+              <p className="text-slate-600">
+                Здесь появятся новости о заказах, статусе аккаунта и новых материалах.
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-3">
+            {items.map((item) => {
+              const Icon = NOTIFICATION_ICONS[item.type] || Bell;
+              return (
+                <button
+                  key={item.id}
+                  onClick={() => open(item)}
+                  className={`w-full text-left flex items-start gap-3 rounded-2xl border px-4 py-3 transition-colors ${
+                    item.readAt
+                      ? "bg-white/50 border-white/20 hover:bg-white/70"
+                      : "bg-white/80 border-blue-100 shadow-sm hover:bg-white"
+                  }`}
+                >
+                  <div
+                    className={`w-9 h-9 rounded-xl flex items-center justify-center shrink-0 ${
+                      item.readAt ? "bg-slate-100" : "bg-blue-50"
+                    }`}
+                  >
+                    <Icon
+                      className={`w-5 h-5 ${item.readAt ? "text-slate-400" : "text-[#007AFF]"}`}
+                    />
+                  </div>
+                  <div className="min-w-0 flex-1">
+                    <div
+                      className={item.readAt ? "text-slate-700" : "font-semibold text-slate-900"}
+                    >
+                      {item.title}
+                    </div>
+                    {item.body && <p className="text-sm text-slate-600 mt-0.5">{item.body}</p>}
+                    <div className="text-xs text-slate-400 mt-1">
+                      {format(new Date(item.createdAt), "d MMMM yyyy, HH:mm", { locale: ru })}
+                    </div>
+                  </div>
+                  {!item.readAt && <span className="w-2 h-2 rounded-full bg-[#007AFF] mt-2" />}
+                </button>
+              );
+            })}
+            {items.length < total && (
+              <div className="text-center pt-2">
+                <Button variant="outline" onClick={loadMore} disabled={loadingMore}>
+                  {loadingMore ? "Загрузка..." : "Показать ещё"}
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -17,9 +17,10 @@ import { format } from "date-fns";
 import { ru } from "date-fns/locale";
 
 interface OrderItem {
-  id: string;
+  articleCode?: string;
   productName: string;
   quantity: number;
+  unit?: string;
   price: number;
 }
 
@@ -33,19 +34,21 @@ interface Order {
 }
 
 const statusColors: Record<string, string> = {
-  pending: "bg-yellow-100 text-yellow-800 border-yellow-200",
-  processing: "bg-blue-100 text-blue-800 border-blue-200",
-  shipped: "bg-purple-100 text-purple-800 border-purple-200",
-  delivered: "bg-green-100 text-green-800 border-green-200",
-  cancelled: "bg-red-100 text-red-800 border-red-200",
+  PENDING: "bg-yellow-100 text-yellow-800 border-yellow-200",
+  CONFIRMED: "bg-sky-100 text-sky-800 border-sky-200",
+  PROCESSING: "bg-blue-100 text-blue-800 border-blue-200",
+  SHIPPED: "bg-purple-100 text-purple-800 border-purple-200",
+  DELIVERED: "bg-green-100 text-green-800 border-green-200",
+  CANCELLED: "bg-red-100 text-red-800 border-red-200",
 };
 
 const statusLabels: Record<string, string> = {
-  pending: "Ожидает",
-  processing: "В обработке",
-  shipped: "Отправлен",
-  delivered: "Доставлен",
-  cancelled: "Отменён",
+  PENDING: "Ожидает",
+  CONFIRMED: "Подтверждён",
+  PROCESSING: "В обработке",
+  SHIPPED: "Отправлен",
+  DELIVERED: "Доставлен",
+  CANCELLED: "Отменён",
 };
 
 export default function AccountOrdersPage() {
@@ -118,7 +121,7 @@ export default function AccountOrdersPage() {
                             </h3>
                             <Badge
                               variant="outline"
-                              className={statusColors[order.status] || statusColors.pending}
+                              className={statusColors[order.status] || statusColors.PENDING}
                             >
                               {statusLabels[order.status] || order.status}
                             </Badge>
@@ -147,9 +150,9 @@ export default function AccountOrdersPage() {
                   {expandedOrder === order.id && order.items && (
                     <div className="px-6 pb-6 pt-0 border-t border-slate-100">
                       <div className="space-y-3 mt-4">
-                        {order.items.map((item) => (
+                        {order.items.map((item, index) => (
                           <div
-                            key={item.id}
+                            key={`${item.articleCode}-${index}`}
                             className="flex items-center justify-between py-2"
                           >
                             <div className="flex items-center gap-3">
@@ -159,7 +162,7 @@ export default function AccountOrdersPage() {
                               </span>
                             </div>
                             <div className="text-sm text-slate-600">
-                              {item.quantity} × {item.price.toLocaleString("ru-RU")} ₽
+                              {item.quantity} {item.unit || "шт."} × {item.price.toLocaleString("ru-RU")} ₽
                             </div>
                           </div>
                         ))}
@@ -13,9 +13,34 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
 import { useUser } from "@/components/context/UserContext";
-import { api } from "@/lib/api";
+import {
+  api,
+  LeaderboardVisibility,
+  PointsStatement,
+  PointsTransactionType,
+  TelegramLinkStatus,
+} from "@/lib/api";
 import { useToast } from "@/components/ui/use-toast";
-import { User, Award, Star, TrendingUp } from "lucide-react";
+import TierProgressCard from "@/components/dealer/TierProgressCard";
+import { User, Award, Star, TrendingUp, History, Trophy, Send } from "lucide-react";
+import { format } from "date-fns";
+import { ru } from "date-fns/locale";
+
+const POINTS_TYPE_LABELS: Record<PointsTransactionType, string> = {
+  ACCRUAL: "Начисление",
+  REDEMPTION: "Списание",
+  ADJUSTMENT: "Корректировка",
+  EXPIRY: "Сгорание",
+  OPENING: "Остаток",
+};
+
+const STATEMENT_PAGE_SIZE = 20;
+
+const VISIBILITY_OPTIONS: Array<{ key: LeaderboardVisibility; label: string; hint: string }> = [
+  { key: "NAME", label: "Имя", hint: "Как в личных данных" },
+  { key: "ALIAS", label: "Псевдоним", hint: "Вместо имени" },
+  { key: "ANONYMOUS", label: "Анонимно", hint: "«Анонимный дилер»" },
+];
 
 function DealerStatusCard() {
   const { user, dealerProfile, bonusEnabled, effectiveTier } = useUser();
@@ -103,6 +128,324 @@ function DealerStatusCard() {
   );
 }
 
+function PointsStatementCard() {
+  const { user, dealerProfile, bonusEnabled } = useUser();
+  const [statement, setStatement] = useState<PointsStatement | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+
+  const isDealer = !!user && user.userType === "DEALER" && !!dealerProfile && bonusEnabled;
+
+  useEffect(() => {
+    if (!isDealer) return;
+    api
+      .getPointsStatement({ limit: STATEMENT_PAGE_SIZE })
+      .then(setStatement)
+      .catch((error) => console.error("Error loading points statement:", error))
+      .finally(() => setLoading(false));
+  }, [isDealer]);
+
+  const loadMore = async () => {
+    if (!statement) return;
+    setLoadingMore(true);
+    try {
+      const next = await api.getPointsStatement({
+        limit: STATEMENT_PAGE_SIZE,
+        offset: statement.items.length,
+      });
+      setStatement({ ...next, items: [...statement.items, ...next.items] });
+    } catch (error) {
+      console.error("Error loading points statement:", error);
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  if (!isDealer) return null;
+
+  return (
+    <Card className="bg-white/70 backdrop-blur-xl border-white/20 shadow-lg mb-6">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="w-5 h-5" />
+          История баллов
+        </CardTitle>
+        <CardDescription>
+          Все начисления и списания бонусных баллов с указанием причины.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="space-y-2">
+            {[0, 1, 2].map((i) => (
+              <div key={i} className="h-12 w-full bg-slate-200 rounded animate-pulse" />
+            ))}
+          </div>
+        ) : !statement || statement.items.length === 0 ? (
+          <p className="text-sm text-slate-500">Операций с баллами пока не было.</p>
+        ) : (
+          <div className="space-y-2">
+            {statement.items.map((entry) => (
+              <div
+                key={entry.id}
+                className="flex items-start justify-between gap-4 rounded-lg border border-slate-100 bg-white/60 px-3 py-2"
+              >
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2 text-sm font-medium text-slate-900">
+                    {POINTS_TYPE_LABELS[entry.type]}
+                    {entry.order && (
+                      <span className="text-xs font-normal text-slate-500">
+                        заказ {entry.order.orderNumber}
+                      </span>
+                    )}
+                  </div>
+                  <div className="text-sm text-slate-600 break-words">{entry.reason}</div>
+                  <div className="text-xs text-slate-400">
+                    {format(new Date(entry.createdAt), "d MMMM yyyy, HH:mm", { locale: ru })}
+                  </div>
+                </div>
+                <div className="text-right shrink-0">
+                  <div
+                    className={`font-semibold ${
+                      entry.amount > 0 ? "text-green-600" : "text-red-600"
+                    }`}
+                  >
+                    {entry.amount > 0 ? "+" : ""}
+                    {entry.amount.toLocaleString("ru-RU")}
+                  </div>
+                  <div className="text-xs text-slate-400">
+                    остаток {entry.balanceAfter.toLocaleString("ru-RU")}
+                  </div>
+                </div>
+              </div>
+            ))}
+            {statement.items.length < statement.total && (
+              <Button
+                variant="outline"
+                className="w-full"
+                onClick={loadMore}
+                disabled={loadingMore}
+              >
+                {loadingMore ? "Загрузка..." : "Показать ещё"}
+              </Button>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function LeaderboardPrivacyCard() {
+  const { user, dealerProfile, bonusEnabled, refreshUser } = useUser();
+  const [visibility, setVisibility] = useState<LeaderboardVisibility>("NAME");
+  const [alias, setAlias] = useState("");
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  const isDealer = !!user && user.userType === "DEALER" && !!dealerProfile && bonusEnabled;
+
+  useEffect(() => {
+    if (dealerProfile) {
+      setVisibility(dealerProfile.leaderboardVisibility || "NAME");
+      setAlias(dealerProfile.leaderboardAlias || "");
+    }
+  }, [dealerProfile]);
+
+  const save = async () => {
+    if (visibility === "ALIAS" && !alias.trim()) {
+      toast({
+        title: "Ошибка",
+        description: "Укажите псевдоним.",
+        variant: "destructive",
+      });
+      return;
+    }
+    setSaving(true);
+    try {
+      await api.updateProfile({
+        leaderboardVisibility: visibility,
+        leaderboardAlias: alias.trim() || null,
+      });
+      refreshUser();
+      toast({
+        title: "Успех!",
+        description: "Настройки рейтинга сохранены.",
+      });
+    } catch (error) {
+      toast({
+        title: "Ошибка",
+        description: "Не удалось сохранить настройки. Попробуйте снова.",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!isDealer) return null;
+
+  return (
+    <Card className="bg-white/70 backdrop-blur-xl border-white/20 shadow-lg mb-6">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Trophy className="w-5 h-5" />
+          Рейтинг дилеров
+        </CardTitle>
+        <CardDescription>
+          Как другие дилеры видят вас в рейтинге. Вы всегда видите свою строку полностью.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+          {VISIBILITY_OPTIONS.map((option) => (
+            <button
+              key={option.key}
+              type="button"
+              onClick={() => setVisibility(option.key)}
+              className={`rounded-lg border px-3 py-2 text-left transition-colors ${
+                visibility === option.key
+                  ? "border-[#007AFF] bg-blue-50"
+                  : "border-slate-200 bg-white/60 hover:bg-slate-50"
+              }`}
+            >
+              <div className="font-medium text-slate-900">{option.label}</div>
+              <div className="text-xs text-slate-500">{option.hint}</div>
+            </button>
+          ))}
+        </div>
+        {visibility === "ALIAS" && (
+          <div className="max-w-sm">
+            <Label htmlFor="leaderboardAlias">Псевдоним</Label>
+            <Input
+              id="leaderboardAlias"
+              value={alias}
+              maxLength={40}
+              onChange={(e) => setAlias(e.target.value)}
+            />
+          </div>
+        )}
+        <Button onClick={save} disabled={saving}>
+          {saving ? "Сохранение..." : "Сохранить"}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
+
+function TelegramLinkCard() {
+  const [status, setStatus] = useState<TelegramLinkStatus | null>(null);
+  const [pending, setPending] = useState<{ code: string; url: string; expiresAt: string } | null>(
+    null
+  );
+  const [working, setWorking] = useState(false);
+  const { toast } = useToast();
+
+  const loadStatus = async () => {
+    try {
+      const data = await api.getTelegramLink();
+      setStatus(data);
+      if (data.linked) setPending(null);
+    } catch (error) {
+      console.error("Error loading Telegram link:", error);
+    }
+  };
+
+  useEffect(() => {
+    loadStatus();
+  }, []);
+
+  const link = async () => {
+    setWorking(true);
+    try {
+      const data = await api.createTelegramLinkCode();
+      setPending(data);
+      window.open(data.url, "_blank", "noopener,noreferrer");
+    } catch (error) {
+      toast({
+        title: "Ошибка",
+        description: "Не удалось получить код привязки. Попробуйте снова.",
+        variant: "destructive",
+      });
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const unlink = async () => {
+    setWorking(true);
+    try {
+      await api.unlinkTelegram();
+      await loadStatus();
+      toast({ title: "Готово", description: "Telegram отвязан от аккаунта." });
+    } catch (error) {
+      toast({
+        title: "Ошибка",
+        description: "Не удалось отвязать Telegram. Попробуйте снова.",
+        variant: "destructive",
+      });
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  if (!status || (!status.enabled && !status.linked)) return null;
+
+  return (
+    <Card className="bg-white/70 backdrop-blur-xl border-white/20 shadow-lg mb-6">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Send className="w-5 h-5" />
+          Telegram
+        </CardTitle>
+        <CardDescription>
+          Задавайте вопросы ассистенту и проверяйте наличие по артикулу прямо в Telegram
+          {status.botUsername ? ` — бот @${status.botUsername}` : ""}.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {status.linked ? (
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+            <div className="text-slate-700">
+              Привязан{status.username ? ` аккаунт @${status.username}` : ""}
+              {status.linkedAt &&
+                ` с ${format(new Date(status.linkedAt), "d MMMM yyyy", { locale: ru })}`}
+            </div>
+            <Button variant="outline" onClick={unlink} disabled={working}>
+              Отвязать
+            </Button>
+          </div>
+        ) : pending ? (
+          <div className="space-y-3">
+            <p className="text-sm text-slate-600">
+              Нажмите «Start» в открывшемся чате с ботом. Если бот не открылся, отправьте ему
+              команду до {format(new Date(pending.expiresAt), "HH:mm")}:
+            </p>
+            <code className="block rounded-lg bg-slate-100 px-3 py-2 text-sm break-all">
+              /start {pending.code}
+            </code>
+            <div className="flex gap-2">
+              <Button asChild>
+                <a href={pending.url} target="_blank" rel="noopener noreferrer">
+                  Открыть бота
+                </a>
+              </Button>
+              <Button variant="outline" onClick={loadStatus}>
+                Я привязал
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <Button onClick={link} disabled={working}>
+            <Send className="w-4 h-4 mr-2" />
+            Привязать Telegram
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
 function ProfileDetails() {
   const { user, loading: contextLoading, refreshUser } = useUser();
   const [formData, setFormData] = useState({
@@ -241,6 +584,10 @@ export default function AccountProfilePage() {
         </div>
 
         <DealerStatusCard />
+        <TierProgressCard />
+        <PointsStatementCard />
+        <LeaderboardPrivacyCard />
+        <TelegramLinkCard />
         <ProfileDetails />
       </div>
     </div>
@@ -0,0 +1,115 @@
+"use client";
+
+import React, { useState, useEffect } from "react";
+import Link from "next/link";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/components/ui/use-toast";
+import { api, CalculatorProject } from "@/lib/api";
+import { Home, Calculator, ChevronRight, Trash2 } from "lucide-react";
+import { format } from "date-fns";
+import { ru } from "date-fns/locale";
+
+export default function AccountProjectsPage() {
+  const [projects, setProjects] = useState<CalculatorProject[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    api
+      .getProjects()
+      .then(setProjects)
+      .catch((error) => console.error("Error loading projects:", error))
+      .finally(() => setLoading(false));
+  }, []);
+
+  const remove = async (project: CalculatorProject) => {
+    if (!confirm(`Удалить проект «${project.name}»?`)) {
+      return;
+    }
+    try {
+      await api.deleteProject(project.id);
+      setProjects((prev) => prev.filter((p) => p.id !== project.id));
+    } catch (error) {
+      toast({
+        title: "Ошибка",
+        description: "Не удалось удалить проект.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-blue-50 to-indigo-50 p-6">
+      <div className="max-w-4xl mx-auto w-full">
+        <div className="mb-8 flex flex-col md:flex-row md:items-end md:justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold bg-gradient-to-r from-[#0A84FF] to-[#007AFF] bg-clip-text text-transparent">
+              Проекты
+            </h1>
+            <p className="text-slate-600 mt-1">Расчёты объектов из нескольких помещений</p>
+          </div>
+          <Button asChild variant="outline">
+            <Link href="/calculator/project">
+              <Calculator className="w-4 h-4 mr-2" />
+              Новый проект
+            </Link>
+          </Button>
+        </div>
+
+        {loading ? (
+          <div className="space-y-4">
+            {[1, 2, 3].map((i) => (
+              <div key={i} className="h-20 bg-white/60 rounded-2xl animate-pulse" />
+            ))}
+          </div>
+        ) : projects.length === 0 ? (
+          <Card className="bg-white/60 backdrop-blur-sm border-white/20 text-center p-12">
+            <CardContent>
+              <Home className="w-16 h-16 text-slate-400 mx-auto mb-4" />
+              <h3 className="text-lg font-medium text-slate-800 mb-2">Проектов пока нет</h3>
+              <p className="text-slate-600">
+                Добавьте помещения в расчёте объекта и сохраните проект.
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-3">
+            {projects.map((project) => (
+              <Card key={project.id} className="bg-white/70 backdrop-blur-xl border-white/20 shadow-lg">
+                <CardContent className="p-4 flex items-center gap-4">
+                  <div className="w-12 h-12 rounded-xl bg-blue-100 flex items-center justify-center shrink-0">
+                    <Home className="w-6 h-6 text-blue-600" />
+                  </div>
+                  <Link href={`/calculator/project/${project.id}`} className="flex-1 min-w-0">
+                    <div className="font-semibold text-slate-900 truncate">{project.name}</div>
+                    <div className="text-sm text-slate-500">
+                      {format(new Date(project.updatedAt), "d MMMM yyyy", { locale: ru })} ·{" "}
+                      {project.rooms.length} пом. · {project.totalArea} м²
+                    </div>
+                  </Link>
+                  <div className="text-right shrink-0">
+                    <div className="font-bold text-slate-900">
+                      {project.totalCost.toLocaleString("ru-RU")} ₽
+                    </div>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => remove(project)}
+                    className="hover:bg-red-50 hover:text-red-600"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                  <Link href={`/calculator/project/${project.id}`}>
+                    <ChevronRight className="w-5 h-5 text-slate-400" />
+                  </Link>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,92 @@
+"use client";
+
+import React, { useState, useEffect, useRef } from "react";
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { useUser } from "@/components/context/UserContext";
+import QuoteDocument from "@/components/quotes/QuoteDocument";
+import QuoteShareActions from "@/components/quotes/QuoteShareActions";
+import { api, Quote } from "@/lib/api";
+import { ArrowLeft, TrendingUp } from "lucide-react";
+
+const rub = (value: number) => `${value.toLocaleString("ru-RU", { maximumFractionDigits: 2 })} ₽`;
+
+export default function AccountQuotePage() {
+  const { id } = useParams<{ id: string }>();
+  const { user, dealerProfile } = useUser();
+  const [quote, setQuote] = useState<Quote | null>(null);
+  const [loading, setLoading] = useState(true);
+  const documentRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    api
+      .getQuote(id)
+      .then(setQuote)
+      .catch((error) => console.error("Error loading quote:", error))
+      .finally(() => setLoading(false));
+  }, [id]);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-blue-50 to-indigo-50 p-6">
+      <div className="max-w-4xl mx-auto w-full">
+        <Button asChild variant="ghost" className="mb-4 -ml-2">
+          <Link href="/account/quotes">
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Все предложения
+          </Link>
+        </Button>
+
+        {loading ? (
+          <div className="h-96 bg-white/60 rounded-2xl animate-pulse" />
+        ) : !quote ? (
+          <p className="text-slate-600">Предложение не найдено.</p>
+        ) : (
+          <div className="space-y-4">
+            <QuoteShareActions quote={quote} documentRef={documentRef} />
+            {/* Outside the document: the client never sees purchase prices */}
+            {quote.dealerPricing && (
+              <Card className="bg-white/70 backdrop-blur-xl border-white/20 shadow-lg">
+                <CardContent className="p-4 space-y-2 text-sm">
+                  <div className="flex items-center gap-2 font-semibold text-slate-900">
+                    <TrendingUp className="w-4 h-4 text-green-600" />
+                    Ваша маржа: {rub(quote.dealerPricing.margin)} ({quote.dealerPricing.marginPercent}%)
+                  </div>
+                  <div className="text-slate-600">
+                    Закупка {rub(quote.dealerPricing.purchaseTotal)} по ценам «{quote.dealerPricing.priceType}» на
+                    дату предложения, с учётом скидки клиенту.
+                  </div>
+                  <div className="space-y-1">
+                    {quote.dealerPricing.lines.map((line, index) => (
+                      <div key={`${line.vendorCode}-${index}`} className="flex justify-between text-xs text-slate-500">
+                        <span>
+                          {line.vendorCode}: {rub(line.purchasePricePerM2)}/м²
+                        </span>
+                        <span>{rub(line.purchaseCost)}</span>
+                      </div>
+                    ))}
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+            <QuoteDocument
+              ref={documentRef}
+              quote={{
+                ...quote,
+                sender: user
+                  ? {
+                      name: user.fullName || user.displayName || null,
+                      companyName: dealerProfile?.companyName || null,
+                      phone: user.phone || null,
+                      email: user.email,
+                    }
+                  : null,
+              }}
+            />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,116 @@
+"use client";
+
+import React, { useState, useEffect } from "react";
+import Link from "next/link";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/components/ui/use-toast";
+import { api, Quote } from "@/lib/api";
+import { FileText, Calculator, ChevronRight, Trash2 } from "lucide-react";
+import { format } from "date-fns";
+import { ru } from "date-fns/locale";
+
+export default function AccountQuotesPage() {
+  const [quotes, setQuotes] = useState<Quote[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    api
+      .getQuotes()
+      .then(setQuotes)
+      .catch((error) => console.error("Error loading quotes:", error))
+      .finally(() => setLoading(false));
+  }, []);
+
+  const remove = async (quote: Quote) => {
+    if (!confirm(`Удалить предложение «${quote.title}»? Ссылка на него перестанет работать.`)) {
+      return;
+    }
+    try {
+      await api.deleteQuote(quote.id);
+      setQuotes((prev) => prev.filter((q) => q.id !== quote.id));
+    } catch (error) {
+      toast({
+        title: "Ошибка",
+        description: "Не удалось удалить предложение.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-blue-50 to-indigo-50 p-6">
+      <div className="max-w-4xl mx-auto w-full">
+        <div className="mb-8 flex flex-col md:flex-row md:items-end md:justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold bg-gradient-to-r from-[#0A84FF] to-[#007AFF] bg-clip-text text-transparent">
+              Коммерческие предложения
+            </h1>
+            <p className="text-slate-600 mt-1">Расчёты из калькулятора для ваших клиентов</p>
+          </div>
+          <Button asChild variant="outline">
+            <Link href="/calculator">
+              <Calculator className="w-4 h-4 mr-2" />
+              Новый расчёт
+            </Link>
+          </Button>
+        </div>
+
+        {loading ? (
+          <div className="space-y-4">
+            {[1, 2, 3].map((i) => (
+              <div key={i} className="h-20 bg-white/60 rounded-2xl animate-pulse" />
+            ))}
+          </div>
+        ) : quotes.length === 0 ? (
+          <Card className="bg-white/60 backdrop-blur-sm border-white/20 text-center p-12">
+            <CardContent>
+              <FileText className="w-16 h-16 text-slate-400 mx-auto mb-4" />
+              <h3 className="text-lg font-medium text-slate-800 mb-2">Предложений пока нет</h3>
+              <p className="text-slate-600">
+                Рассчитайте материал в калькуляторе и нажмите «Добавить в коммерческое предложение».
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-3">
+            {quotes.map((quote) => (
+              <Card key={quote.id} className="bg-white/70 backdrop-blur-xl border-white/20 shadow-lg">
+                <CardContent className="p-4 flex items-center gap-4">
+                  <div className="w-12 h-12 rounded-xl bg-blue-100 flex items-center justify-center shrink-0">
+                    <FileText className="w-6 h-6 text-blue-600" />
+                  </div>
+                  <Link href={`/account/quotes/${quote.id}`} className="flex-1 min-w-0">
+                    <div className="font-semibold text-slate-900 truncate">{quote.title}</div>
+                    <div className="text-sm text-slate-500">
+                      {format(new Date(quote.createdAt), "d MMMM yyyy", { locale: ru })} ·{" "}
+                      {quote.lines.length} поз.
+                      {quote.customerName && ` · ${quote.customerName}`}
+                    </div>
+                  </Link>
+                  <div className="text-right shrink-0">
+                    <div className="font-bold text-slate-900">
+                      {quote.totalCost.toLocaleString("ru-RU")} ₽
+                    </div>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => remove(quote)}
+                    className="hover:bg-red-50 hover:text-red-600"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                  <Link href={`/account/quotes/${quote.id}`}>
+                    <ChevronRight className="w-5 h-5 text-slate-400" />
+                  </Link>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,323 @@
+"use client";
+
+import React, { useState, useEffect, useCallback } from "react";
+import Image from "next/image";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useUser } from "@/components/context/UserContext";
+import { useToast } from "@/components/ui/use-toast";
+import { api, RewardItem, RewardRedemption } from "@/lib/api";
+import { Gift, Star, Lock, Calendar } from "lucide-react";
+import { format } from "date-fns";
+import { ru } from "date-fns/locale";
+
+const statusColors: Record<string, string> = {
+  REQUESTED: "bg-yellow-100 text-yellow-800 border-yellow-200",
+  APPROVED: "bg-blue-100 text-blue-800 border-blue-200",
+  ISSUED: "bg-green-100 text-green-800 border-green-200",
+  REJECTED: "bg-red-100 text-red-800 border-red-200",
+};
+
+const statusLabels: Record<string, string> = {
+  REQUESTED: "Заявка отправлена",
+  APPROVED: "Одобрена",
+  ISSUED: "Выдана",
+  REJECTED: "Отклонена",
+};
+
+const tierLabels: Record<string, string> = {
+  TIER1: "Базовый",
+  TIER2: "Серебряный",
+  TIER3: "Золотой",
+  TIER4: "Платиновый",
+};
+
+const errorMessages: Record<string, string> = {
+  "Insufficient points balance": "Недостаточно баллов",
+  "Reward is out of stock": "Награда закончилась",
+  "Reward is not available for your tier": "Награда недоступна для вашего статуса",
+  "Bonus program is disabled": "Бонусная программа сейчас не действует",
+};
+
+export default function AccountRewardsPage() {
+  const { user, dealerProfile, bonusEnabled, refreshUser } = useUser();
+  const [rewards, setRewards] = useState<RewardItem[]>([]);
+  const [balance, setBalance] = useState(0);
+  const [redemptions, setRedemptions] = useState<RewardRedemption[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selected, setSelected] = useState<RewardItem | null>(null);
+  const [comment, setComment] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const { toast } = useToast();
+
+  const isDealer = !!user && user.userType === "DEALER" && !!dealerProfile;
+
+  const loadData = useCallback(async () => {
+    if (!isDealer) {
+      setLoading(false);
+      return;
+    }
+    try {
+      setLoading(true);
+      const [catalog, mine] = await Promise.all([api.getRewards(), api.getMyRedemptions()]);
+      setRewards(catalog.rewards);
+      setBalance(catalog.balance);
+      setRedemptions(mine);
+    } catch (error) {
+      console.error("Error loading rewards:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [isDealer]);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  const redeem = async () => {
+    if (!selected) return;
+    setSubmitting(true);
+    try {
+      await api.redeemReward(selected.id, comment.trim() || undefined);
+      toast({
+        title: "Заявка отправлена",
+        description: `Баллы списаны. Мы сообщим, когда награда «${selected.title}» будет готова.`,
+      });
+      setSelected(null);
+      setComment("");
+      loadData();
+      refreshUser();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "";
+      toast({
+        title: "Ошибка",
+        description: errorMessages[message] || "Не удалось оформить заявку. Попробуйте снова.",
+        variant: "destructive",
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (user && (!isDealer || !bonusEnabled)) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-slate-50 via-blue-50 to-indigo-50 p-6">
+        <div className="max-w-4xl mx-auto w-full">
+          <Card className="bg-white/60 backdrop-blur-sm border-white/20 text-center p-12">
+            <CardContent>
+              <Gift className="w-16 h-16 text-slate-400 mx-auto mb-4" />
+              <h3 className="text-lg font-medium text-slate-800 mb-2">
+                Награды доступны дилерам
+              </h3>
+              <p className="text-slate-600">
+                Обмен баллов на награды доступен участникам бонусной программы.
+              </p>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-blue-50 to-indigo-50 p-6">
+      <div className="max-w-4xl mx-auto w-full">
+        <div className="mb-8 flex flex-col md:flex-row md:items-end md:justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold bg-gradient-to-r from-[#0A84FF] to-[#007AFF] bg-clip-text text-transparent">
+              Мои награды
+            </h1>
+            <p className="text-slate-600 mt-1">Обменивайте бонусные баллы на подарки</p>
+          </div>
+          <div className="flex items-center gap-2 rounded-xl bg-white/70 px-4 py-2 shadow-sm">
+            <Star className="w-5 h-5 text-amber-500" />
+            <span className="text-sm text-slate-600">Баланс:</span>
+            <span className="text-xl font-bold text-slate-900">
+              {balance.toLocaleString("ru-RU")}
+            </span>
+          </div>
+        </div>
+
+        {loading ? (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {[1, 2, 3, 4].map((i) => (
+              <div key={i} className="h-40 bg-white/60 rounded-2xl animate-pulse" />
+            ))}
+          </div>
+        ) : (
+          <>
+            <h2 className="text-lg font-semibold text-slate-900 mb-3">Каталог наград</h2>
+            {rewards.length === 0 ? (
+              <p className="text-slate-600 mb-8">Каталог наград пока пуст.</p>
+            ) : (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-8">
+                {rewards.map((reward) => {
+                  const outOfStock = reward.stock === 0;
+                  const affordable = balance >= reward.pointsCost;
+                  return (
+                    <Card
+                      key={reward.id}
+                      className={`bg-white/70 backdrop-blur-xl border-white/20 shadow-lg ${
+                        !reward.eligible || outOfStock ? "opacity-70" : ""
+                      }`}
+                    >
+                      <CardContent className="p-4 flex gap-4">
+                        {reward.imageUrl ? (
+                          <div className="relative w-24 h-24 shrink-0">
+                            <Image
+                              src={reward.imageUrl}
+                              alt={reward.title}
+                              fill
+                              className="object-cover rounded-xl"
+                              sizes="96px"
+                              unoptimized
+                            />
+                          </div>
+                        ) : (
+                          <div className="w-24 h-24 rounded-xl bg-blue-50 flex items-center justify-center shrink-0">
+                            <Gift className="w-10 h-10 text-blue-400" />
+                          </div>
+                        )}
+                        <div className="flex-1 min-w-0 flex flex-col">
+                          <h3 className="font-semibold text-slate-900">{reward.title}</h3>
+                          {reward.description && (
+                            <p className="text-sm text-slate-600 line-clamp-2">
+                              {reward.description}
+                            </p>
+                          )}
+                          <div className="mt-auto pt-2 flex items-center justify-between gap-2">
+                            <span className="font-bold text-[#007AFF]">
+                              {reward.pointsCost.toLocaleString("ru-RU")} баллов
+                            </span>
+                            {!reward.eligible ? (
+                              <span className="flex items-center gap-1 text-xs text-slate-500">
+                                <Lock className="w-3 h-3" />
+                                {reward.tiers.map((t) => tierLabels[t] || t).join(", ")}
+                              </span>
+                            ) : outOfStock ? (
+                              <span className="text-xs text-slate-500">Нет в наличии</span>
+                            ) : (
+                              <Button
+                                size="sm"
+                                disabled={!affordable}
+                                onClick={() => setSelected(reward)}
+                              >
+                                {affordable ? "Обменять" : "Не хватает баллов"}
+                              </Button>
+                            )}
+                          </div>
+                          {reward.stock !== null && reward.stock > 0 && reward.stock <= 5 && (
+                            <span className="text-xs text-amber-700 mt-1">
+                              Осталось: {reward.stock}
+                            </span>
+                          )}
+                        </div>
+                      </CardContent>
+                    </Card>
+                  );
+                })}
+              </div>
+            )}
+
+            <Card className="bg-white/70 backdrop-blur-xl border-white/20 shadow-lg">
+              <CardHeader>
+                <CardTitle>Мои заявки</CardTitle>
+                <CardDescription>
+                  Баллы списываются при отправке заявки и возвращаются, если она отклонена.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {redemptions.length === 0 ? (
+                  <p className="text-sm text-slate-500">Вы ещё не обменивали баллы.</p>
+                ) : (
+                  <div className="space-y-3">
+                    {redemptions.map((redemption) => (
+                      <div
+                        key={redemption.id}
+                        className="flex items-start justify-between gap-4 rounded-lg border border-slate-100 bg-white/60 px-3 py-2"
+                      >
+                        <div className="min-w-0">
+                          <div className="flex items-center gap-2 flex-wrap">
+                            <span className="font-medium text-slate-900">
+                              {redemption.rewardTitle}
+                            </span>
+                            <Badge
+                              variant="outline"
+                              className={statusColors[redemption.status]}
+                            >
+                              {statusLabels[redemption.status]}
+                            </Badge>
+                          </div>
+                          <div className="flex items-center gap-1 text-xs text-slate-500 mt-1">
+                            <Calendar className="w-3 h-3" />
+                            {format(new Date(redemption.createdAt), "d MMMM yyyy", {
+                              locale: ru,
+                            })}
+                          </div>
+                          {redemption.adminComment && (
+                            <p className="text-sm text-slate-600 mt-1">
+                              {redemption.adminComment}
+                            </p>
+                          )}
+                        </div>
+                        <span className="text-sm font-semibold text-slate-700 shrink-0">
+                          −{redemption.pointsCost.toLocaleString("ru-RU")}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+
+      <Dialog open={!!selected} onOpenChange={(open) => !open && setSelected(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Обмен баллов</DialogTitle>
+            <DialogDescription>
+              {selected &&
+                `«${selected.title}» за ${selected.pointsCost.toLocaleString("ru-RU")} баллов. После отправки заявки баллы будут списаны.`}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="redemption-comment">Комментарий (необязательно)</Label>
+            <Textarea
+              id="redemption-comment"
+              value={comment}
+              placeholder="Размер, цвет, адрес доставки…"
+              onChange={(e) => setComment(e.target.value)}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setSelected(null)}>
+              Отмена
+            </Button>
+            <Button onClick={redeem} disabled={submitting}>
+              {submitting ? "Отправка..." : "Обменять"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,689 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Coins, Plus, RefreshCw, Edit, Trash2, Save, Calculator } from "lucide-react";
+import { format } from "date-fns";
+import { ru } from "date-fns/locale";
+import { useToast } from "@/hooks/use-toast";
+
+type Tier = "TIER1" | "TIER2" | "TIER3" | "TIER4";
+
+interface AccrualRule {
+  id: string;
+  name: string;
+  isActive: boolean;
+  vendor: string | null;
+  vendorCode: string | null;
+  paramName: string | null;
+  paramValue: string | null;
+  tiers: Tier[];
+  startsAt: string | null;
+  endsAt: string | null;
+  multiplier: number;
+}
+
+type Rates = Record<
+  "tier1PointsPerRuble" | "tier2PointsPerRuble" | "tier3PointsPerRuble" | "tier4PointsPerRuble",
+  number
+>;
+
+interface DryRunResult {
+  orderNumber: string;
+  status: string;
+  evaluatedAt: string;
+  bonusEnabled: boolean;
+  dealerProfileId: string | null;
+  tier: Tier | null;
+  pointsPerRuble: number;
+  lines: Array<{
+    articleCode: string;
+    productName: string;
+    total: number;
+    multiplier: number;
+    rule: { id: string; name: string } | null;
+    points: number;
+  }>;
+  totalPoints: number;
+  alreadyAccrued: number | null;
+}
+
+const TIER_OPTIONS: Array<{ key: Tier; label: string; rateKey: keyof Rates }> = [
+  { key: "TIER1", label: "Базовый", rateKey: "tier1PointsPerRuble" },
+  { key: "TIER2", label: "Серебряный", rateKey: "tier2PointsPerRuble" },
+  { key: "TIER3", label: "Золотой", rateKey: "tier3PointsPerRuble" },
+  { key: "TIER4", label: "Платиновый", rateKey: "tier4PointsPerRuble" },
+];
+
+const emptyRule: AccrualRule = {
+  id: "",
+  name: "",
+  isActive: true,
+  vendor: "",
+  vendorCode: "",
+  paramName: "",
+  paramValue: "",
+  tiers: [],
+  startsAt: null,
+  endsAt: null,
+  multiplier: 2,
+};
+
+function describeConditions(rule: AccrualRule): string {
+  const parts = [
+    rule.vendor && `бренд ${rule.vendor}`,
+    rule.vendorCode && `артикул ${rule.vendorCode}`,
+    rule.paramName &&
+      (rule.paramValue ? `${rule.paramName}: ${rule.paramValue}` : `есть «${rule.paramName}»`),
+    rule.tiers.length > 0 &&
+      TIER_OPTIONS.filter((t) => rule.tiers.includes(t.key))
+        .map((t) => t.label)
+        .join(", "),
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join("; ") : "все позиции";
+}
+
+function describePeriod(rule: AccrualRule): string {
+  if (!rule.startsAt && !rule.endsAt) return "бессрочно";
+  const fmt = (value: string) => format(new Date(value), "d MMM yyyy", { locale: ru });
+  if (rule.startsAt && rule.endsAt) return `${fmt(rule.startsAt)} — ${fmt(rule.endsAt)}`;
+  return rule.startsAt ? `с ${fmt(rule.startsAt)}` : `по ${fmt(rule.endsAt!)}`;
+}
+
+/**
+ * Points accrual: rates by tier, multiplier rules and promo campaigns, dry run for an order
+ */
+export default function BonusRulesManager() {
+  const [rules, setRules] = useState<AccrualRule[]>([]);
+  const [rates, setRates] = useState<Rates | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [savingRates, setSavingRates] = useState(false);
+  const [editing, setEditing] = useState<AccrualRule | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [dryRunOrder, setDryRunOrder] = useState("");
+  const [dryRun, setDryRun] = useState<DryRunResult | null>(null);
+  const [dryRunning, setDryRunning] = useState(false);
+  const { toast } = useToast();
+
+  const loadRules = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await fetch("/api/admin/bonus-rules");
+      if (response.ok) {
+        const data = await response.json();
+        setRules(data.rules);
+        setRates(data.rates);
+      }
+    } catch (error) {
+      console.error("Error loading bonus rules:", error);
+      toast({
+        title: "Ошибка",
+        description: "Не удалось загрузить правила начисления",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    loadRules();
+  }, [loadRules]);
+
+  const saveRates = async () => {
+    if (!rates) return;
+    setSavingRates(true);
+    try {
+      const response = await fetch("/api/admin/dealers/bonus-settings", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(rates),
+      });
+      if (!response.ok) throw new Error("Failed to save rates");
+      toast({ title: "Успех", description: "Ставки начисления сохранены" });
+    } catch (error) {
+      console.error("Error saving rates:", error);
+      toast({
+        title: "Ошибка",
+        description: "Не удалось сохранить ставки",
+        variant: "destructive",
+      });
+    } finally {
+      setSavingRates(false);
+    }
+  };
+
+  const sendRule = async (rule: AccrualRule) => {
+    const response = await fetch("/api/admin/bonus-rules", {
+      method: rule.id ? "PATCH" : "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(rule),
+    });
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      throw new Error(data.message || "Failed to save rule");
+    }
+  };
+
+  const saveRule = async () => {
+    if (!editing?.name.trim()) {
+      toast({
+        title: "Ошибка",
+        description: "Укажите название правила",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await sendRule(editing);
+      toast({
+        title: "Успех",
+        description: editing.id ? "Правило обновлено" : "Правило добавлено",
+      });
+      setEditing(null);
+      loadRules();
+    } catch (error) {
+      console.error("Error saving rule:", error);
+      toast({
+        title: "Ошибка",
+        description:
+          error instanceof Error && error.message === "Promo period ends before it starts"
+            ? "Дата окончания акции раньше даты начала"
+            : "Не удалось сохранить",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleActive = async (rule: AccrualRule) => {
+    try {
+      await sendRule({ ...rule, isActive: !rule.isActive });
+      loadRules();
+    } catch (error) {
+      console.error("Error updating rule:", error);
+      toast({
+        title: "Ошибка",
+        description: "Не удалось обновить правило",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const removeRule = async (rule: AccrualRule) => {
+    if (!confirm(`Удалить правило «${rule.name}»? Уже начисленные баллы не изменятся.`)) return;
+
+    try {
+      await fetch(`/api/admin/bonus-rules?id=${rule.id}`, { method: "DELETE" });
+      toast({ title: "Успех", description: "Правило удалено" });
+      loadRules();
+    } catch (error) {
+      console.error("Error deleting rule:", error);
+      toast({
+        title: "Ошибка",
+        description: "Не удалось удалить",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const runDryRun = async () => {
+    if (!dryRunOrder.trim()) return;
+    setDryRunning(true);
+    setDryRun(null);
+    try {
+      const response = await fetch(
+        `/api/admin/bonus-rules/dry-run?orderNumber=${encodeURIComponent(dryRunOrder.trim())}`
+      );
+      if (response.status === 404) {
+        toast({
+          title: "Ошибка",
+          description: `Заказ ${dryRunOrder.trim()} не найден`,
+          variant: "destructive",
+        });
+        return;
+      }
+      if (!response.ok) throw new Error("Dry run failed");
+      setDryRun(await response.json());
+    } catch (error) {
+      console.error("Error running dry run:", error);
+      toast({
+        title: "Ошибка",
+        description: "Не удалось выполнить расчёт",
+        variant: "destructive",
+      });
+    } finally {
+      setDryRunning(false);
+    }
+  };
+
+  const setField = (field: keyof AccrualRule, value: unknown) =>
+    setEditing((prev) => (prev ? { ...prev, [field]: value } : prev));
+
+  const toggleTier = (tier: Tier, checked: boolean) =>
+    setEditing((prev) =>
+      prev
+        ? {
+            ...prev,
+            tiers: checked ? [...prev.tiers, tier] : prev.tiers.filter((t) => t !== tier),
+          }
+        : prev
+    );
+
+  return (
+    <div className="space-y-6">
+      {/* Rates by tier */}
+      <Card className="bg-white/70 backdrop-blur-xl border-white/20 shadow-lg">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Coins className="w-5 h-5" />
+            Баллы за рубль по тирам
+          </CardTitle>
+          <p className="text-sm text-slate-500">
+            Баллы начисляются автоматически, когда заказ дилера переходит в статус
+            «Доставлен». Например, 0,01 — один балл за каждые 100 ₽.
+          </p>
+        </CardHeader>
+        <CardContent>
+          {!rates ? (
+            <Skeleton className="h-16 w-full" />
+          ) : (
+            <div className="flex flex-col md:flex-row md:items-end gap-4">
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4 flex-1">
+                {TIER_OPTIONS.map((tier) => (
+                  <div key={tier.key} className="space-y-2">
+                    <Label htmlFor={`rate-${tier.key}`}>{tier.label}</Label>
+                    <Input
+                      id={`rate-${tier.key}`}
+                      type="number"
+                      step="0.001"
+                      min="0"
+                      value={rates[tier.rateKey]}
+                      onChange={(e) =>
+                        setRates({ ...rates, [tier.rateKey]: parseFloat(e.target.value || "0") })
+                      }
+                    />
+                  </div>
+                ))}
+              </div>
+              <Button onClick={saveRates} disabled={savingRates}>
+                <Save className="w-4 h-4 mr-2" />
+                {savingRates ? "Сохранение..." : "Сохранить"}
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Rules */}
+      <Card className="bg-white/70 backdrop-blur-xl border-white/20 shadow-lg">
+        <CardHeader className="flex flex-row items-center justify-between">
+          <div>
+            <CardTitle>Правила и акции ({rules.length})</CardTitle>
+            <p className="text-sm text-slate-500 mt-1">
+              Множитель умножает ставку тира для подходящих позиций заказа. Если подходит
+              несколько правил, применяется наибольший множитель.
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={loadRules} disabled={loading}>
+              <RefreshCw className={`w-4 h-4 mr-2 ${loading ? "animate-spin" : ""}`} />
+              Обновить
+            </Button>
+            <Button size="sm" onClick={() => setEditing({ ...emptyRule })}>
+              <Plus className="w-4 h-4 mr-2" />
+              Добавить
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <div className="rounded-lg border bg-white overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Название</TableHead>
+                  <TableHead>Условия</TableHead>
+                  <TableHead>Период</TableHead>
+                  <TableHead>Множитель</TableHead>
+                  <TableHead>Активно</TableHead>
+                  <TableHead className="text-right">Действия</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {loading ? (
+                  Array(3)
+                    .fill(0)
+                    .map((_, i) => (
+                      <TableRow key={i}>
+                        <TableCell colSpan={6}>
+                          <Skeleton className="h-4 w-full" />
+                        </TableCell>
+                      </TableRow>
+                    ))
+                ) : rules.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center text-slate-500 py-8">
+                      Правил нет — баллы начисляются по базовой ставке тира
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  rules.map((rule) => (
+                    <TableRow key={rule.id}>
+                      <TableCell className="font-medium">{rule.name}</TableCell>
+                      <TableCell className="text-sm text-slate-600">
+                        {describeConditions(rule)}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {rule.startsAt || rule.endsAt ? (
+                          <Badge
+                            variant="outline"
+                            className="bg-amber-50 text-amber-700 border-amber-200"
+                          >
+                            {describePeriod(rule)}
+                          </Badge>
+                        ) : (
+                          describePeriod(rule)
+                        )}
+                      </TableCell>
+                      <TableCell>×{rule.multiplier}</TableCell>
+                      <TableCell>
+                        <Switch
+                          checked={rule.isActive}
+                          onCheckedChange={() => toggleActive(rule)}
+                          aria-label={`Активность правила ${rule.name}`}
+                        />
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex gap-2 justify-end">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() =>
+                              setEditing({
+                                ...rule,
+                                vendor: rule.vendor || "",
+                                vendorCode: rule.vendorCode || "",
+                                paramName: rule.paramName || "",
+                                paramValue: rule.paramValue || "",
+                              })
+                            }
+                          >
+                            <Edit className="w-4 h-4" />
+                          </Button>
+                          <Button variant="outline" size="sm" onClick={() => removeRule(rule)}>
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Dry run */}
+      <Card className="bg-white/70 backdrop-blur-xl border-white/20 shadow-lg">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Calculator className="w-5 h-5" />
+            Пробный расчёт
+          </CardTitle>
+          <p className="text-sm text-slate-500">
+            Сколько баллов принесёт заказ по текущим правилам. Баллы не начисляются.
+          </p>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex gap-2 max-w-md">
+            <Input
+              placeholder="Номер заказа, например FS-2026-000123"
+              value={dryRunOrder}
+              onChange={(e) => setDryRunOrder(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && runDryRun()}
+            />
+            <Button onClick={runDryRun} disabled={dryRunning || !dryRunOrder.trim()}>
+              {dryRunning ? "Расчёт..." : "Рассчитать"}
+            </Button>
+          </div>
+
+          {dryRun && (
+            <div className="space-y-3">
+              <div className="flex flex-wrap gap-x-6 gap-y-1 text-sm text-slate-600">
+                <span>
+                  Тир:{" "}
+                  <b>
+                    {TIER_OPTIONS.find((t) => t.key === dryRun.tier)?.label ||
+                      "не дилер"}
+                  </b>
+                </span>
+                <span>
+                  Ставка: <b>{dryRun.pointsPerRuble}</b> балла за рубль
+                </span>
+                <span>
+                  Дата расчёта:{" "}
+                  {format(new Date(dryRun.evaluatedAt), "d MMMM yyyy", { locale: ru })}
+                </span>
+              </div>
+              {!dryRun.bonusEnabled && (
+                <p className="text-sm text-amber-700">
+                  Бонусная программа выключена — при доставке баллы не будут начислены.
+                </p>
+              )}
+              {dryRun.alreadyAccrued !== null && (
+                <p className="text-sm text-slate-600">
+                  За этот заказ уже начислено {dryRun.alreadyAccrued.toLocaleString("ru-RU")}{" "}
+                  баллов.
+                </p>
+              )}
+              <div className="rounded-lg border bg-white overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Позиция</TableHead>
+                      <TableHead className="text-right">Сумма</TableHead>
+                      <TableHead>Правило</TableHead>
+                      <TableHead className="text-right">Баллы</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {dryRun.lines.map((line, index) => (
+                      <TableRow key={`${line.articleCode}-${index}`}>
+                        <TableCell>
+                          <div className="font-medium">{line.productName}</div>
+                          <div className="text-xs text-slate-500 font-mono">
+                            {line.articleCode}
+                          </div>
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {line.total.toLocaleString("ru-RU")} ₽
+                        </TableCell>
+                        <TableCell className="text-sm">
+                          {line.rule ? `${line.rule.name} (×${line.multiplier})` : "—"}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {line.points.toLocaleString("ru-RU")}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                    <TableRow>
+                      <TableCell colSpan={3} className="font-medium">
+                        Итого (с округлением вниз)
+                      </TableCell>
+                      <TableCell className="text-right font-semibold">
+                        {dryRun.totalPoints.toLocaleString("ru-RU")}
+                      </TableCell>
+                    </TableRow>
+                  </TableBody>
+                </Table>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Edit Dialog */}
+      <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editing?.id ? "Редактирование правила" : "Новое правило"}</DialogTitle>
+          </DialogHeader>
+          {editing && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-3 gap-4">
+                <div className="space-y-2 col-span-2">
+                  <Label htmlFor="rule-name">Название</Label>
+                  <Input
+                    id="rule-name"
+                    value={editing.name}
+                    placeholder="Двойные баллы за Quick-Step"
+                    onChange={(e) => setField("name", e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="rule-multiplier">Множитель</Label>
+                  <Input
+                    id="rule-multiplier"
+                    type="number"
+                    step="0.1"
+                    min="0"
+                    value={editing.multiplier}
+                    onChange={(e) => setField("multiplier", parseFloat(e.target.value || "0"))}
+                  />
+                </div>
+              </div>
+              <p className="text-xs text-slate-500">
+                Пустые условия не ограничивают правило: без условий оно действует на все позиции.
+              </p>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="rule-vendor">Бренд</Label>
+                  <Input
+                    id="rule-vendor"
+                    value={editing.vendor || ""}
+                    onChange={(e) => setField("vendor", e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="rule-sku">Артикул</Label>
+                  <Input
+                    id="rule-sku"
+                    value={editing.vendorCode || ""}
+                    onChange={(e) => setField("vendorCode", e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="rule-param-name">Характеристика</Label>
+                  <Input
+                    id="rule-param-name"
+                    value={editing.paramName || ""}
+                    placeholder="Коллекция"
+                    onChange={(e) => setField("paramName", e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="rule-param-value">Значение</Label>
+                  <Input
+                    id="rule-param-value"
+                    value={editing.paramValue || ""}
+                    onChange={(e) => setField("paramValue", e.target.value)}
+                    disabled={!editing.paramName}
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label>Тиры (не выбрано — все)</Label>
+                <div className="flex flex-wrap gap-4">
+                  {TIER_OPTIONS.map((tier) => (
+                    <div key={tier.key} className="flex items-center gap-2">
+                      <Checkbox
+                        id={`rule-tier-${tier.key}`}
+                        checked={editing.tiers.includes(tier.key)}
+                        onCheckedChange={(v) => toggleTier(tier.key, !!v)}
+                      />
+                      <Label htmlFor={`rule-tier-${tier.key}`} className="text-sm">
+                        {tier.label}
+                      </Label>
+                    </div>
+                  ))}
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="rule-starts">Акция с</Label>
+                  <Input
+                    id="rule-starts"
+                    type="date"
+                    value={editing.startsAt ? format(new Date(editing.startsAt), "yyyy-MM-dd") : ""}
+                    onChange={(e) =>
+                      setField(
+                        "startsAt",
+                        e.target.value ? new Date(`${e.target.value}T00:00:00`).toISOString() : null
+                      )
+                    }
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="rule-ends">Акция по</Label>
+                  <Input
+                    id="rule-ends"
+                    type="date"
+                    value={editing.endsAt ? format(new Date(editing.endsAt), "yyyy-MM-dd") : ""}
+                    onChange={(e) =>
+                      setField(
+                        "endsAt",
+                        e.target.value ? new Date(`${e.target.value}T23:59:59`).toISOString() : null
+                      )
+                    }
+                  />
+                </div>
+              </div>
+              <div className="flex items-center justify-between">
+                <Label htmlFor="rule-active">Правило действует</Label>
+                <Switch
+                  id="rule-active"
+                  checked={editing.isActive}
+                  onCheckedChange={(checked) => setField("isActive", checked)}
+                />
+              </div>
+              <div className="flex justify-end gap-2">
+                <Button variant="outline" onClick={() => setEditing(null)}>
+                  Отмена
+                </Button>
+                <Button onClick={saveRule} disabled={saving}>
+                  <Save className="w-4 h-4 mr-2" />
+                  {saving ? "Сохранение..." : "Сохранить"}
+                </Button>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
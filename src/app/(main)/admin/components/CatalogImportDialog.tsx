@@ -0,0 +1,253 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Columns, Upload } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import type { CatalogFormat } from "@/lib/api";
+
+interface CatalogPreview {
+  format: CatalogFormat;
+  headers: string[];
+  rows: string[][];
+  mapping: Record<string, string>;
+  warehouses: Array<{ code: string; name: string; city: string | null }>;
+}
+
+const FORMAT_LABELS: Record<CatalogFormat, string> = {
+  YML: "YML (XML)",
+  CSV: "CSV",
+  XLSX: "Excel (XLSX)",
+  COMMERCEML: "CommerceML (1С)",
+};
+
+const FIELD_OPTIONS = [
+  { value: "vendorCode", label: "Артикул" },
+  { value: "name", label: "Название" },
+  { value: "price", label: "Цена" },
+  { value: "vendor", label: "Производитель" },
+  { value: "description", label: "Описание" },
+  { value: "url", label: "Ссылка на товар" },
+  { value: "picture", label: "Фото" },
+  { value: "stock", label: "Остаток (общий)" },
+  { value: "param", label: "Характеристика" },
+  { value: "skip", label: "Не загружать" },
+];
+
+/**
+ * Catalog import from a file (YML, CSV, XLSX, CommerceML) with column mapping for price lists
+ */
+export default function CatalogImportDialog({
+  feed,
+  onImported,
+}: {
+  feed: { id: string; url?: string; feedFormat?: CatalogFormat };
+  onImported: () => void;
+}) {
+  const [files, setFiles] = useState<File[]>([]);
+  const [preview, setPreview] = useState<CatalogPreview | null>(null);
+  const [mapping, setMapping] = useState<Record<string, string>>({});
+  const [loadingPreview, setLoadingPreview] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const { toast } = useToast();
+
+  const loadPreview = async (file?: File) => {
+    setLoadingPreview(true);
+    try {
+      const formData = new FormData();
+      formData.append("knowledgeBaseId", feed.id);
+      if (file) formData.append("file", file);
+
+      const response = await fetch("/api/admin/xml/preview", {
+        method: "POST",
+        body: formData,
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.message);
+
+      setPreview(data);
+      setMapping(data.mapping);
+    } catch (error) {
+      console.error("Error previewing catalog:", error);
+      setPreview(null);
+      toast({
+        title: "Ошибка",
+        description: "Не удалось прочитать файл",
+        variant: "destructive",
+      });
+    } finally {
+      setLoadingPreview(false);
+    }
+  };
+
+  const handleFilesChange = (selected: File[]) => {
+    setFiles(selected);
+    setPreview(null);
+    if (selected.length > 0) loadPreview(selected[0]);
+  };
+
+  const handleImport = async () => {
+    if (preview?.headers.length && !Object.values(mapping).includes("vendorCode")) {
+      toast({
+        title: "Ошибка",
+        description: "Укажите колонку с артикулом",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setImporting(true);
+    try {
+      const formData = new FormData();
+      formData.append("knowledgeBaseId", feed.id);
+      files.forEach((file) => formData.append("file", file));
+      if (preview) formData.append("format", preview.format);
+      if (preview?.headers.length) formData.append("mapping", JSON.stringify(mapping));
+
+      const response = await fetch("/api/admin/xml/import", {
+        method: "POST",
+        body: formData,
+      });
+      const result = await response.json();
+      if (!response.ok || !result.success) throw new Error(result.error);
+
+      toast({
+        title: "Импорт завершён",
+        description: `Загружено ${result.products_count || 0} товаров (новых: ${result.added_count || 0}, удалено: ${result.removed_count || 0}, изменено: ${result.changed_count || 0})`,
+      });
+      onImported();
+    } catch (error) {
+      console.error("Error importing catalog:", error);
+      toast({
+        title: "Ошибка импорта",
+        description: error instanceof Error && error.message ? error.message : "Не удалось импортировать каталог",
+        variant: "destructive",
+      });
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const targetOptions = (header: string) => [
+    ...FIELD_OPTIONS,
+    ...(preview?.warehouses || []).map((w) => ({
+      value: `warehouse:${w.code}`,
+      label: `Остаток: ${w.name}`,
+    })),
+    // Unknown warehouse - the column header becomes its code and the directory picks it up
+    ...(preview?.warehouses.some((w) => w.code === header)
+      ? []
+      : [{ value: `warehouse:${header}`, label: `Остаток: новый склад «${header}»` }]),
+  ];
+
+  const canImport = files.length > 0 || !!feed.url;
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="catalog-files">Файл каталога</Label>
+        <Input
+          id="catalog-files"
+          type="file"
+          multiple
+          accept=".xml,.yml,.csv,.txt,.xlsx"
+          onChange={(e) => handleFilesChange(Array.from(e.target.files || []))}
+        />
+        <p className="text-xs text-slate-500">
+          YML, CSV, Excel (XLSX) или выгрузка 1С CommerceML — для неё выберите
+          import.xml и offers.xml вместе. Без файла загружается фид по URL.
+        </p>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        {preview && <Badge variant="outline">{FORMAT_LABELS[preview.format]}</Badge>}
+        {files.length === 0 && feed.url && (
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => loadPreview()}
+            disabled={loadingPreview}
+          >
+            <Columns className="w-4 h-4 mr-2" />
+            {loadingPreview ? "Загрузка..." : "Колонки прайс-листа по URL"}
+          </Button>
+        )}
+        {loadingPreview && files.length > 0 && (
+          <span className="text-sm text-slate-500">Чтение файла...</span>
+        )}
+      </div>
+
+      {preview && preview.headers.length > 0 && (
+        <div className="rounded-lg border bg-white overflow-x-auto max-h-[50vh]">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Колонка</TableHead>
+                <TableHead>Пример</TableHead>
+                <TableHead className="w-64">Загружать как</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {preview.headers.map((header, i) => (
+                <TableRow key={header}>
+                  <TableCell className="font-medium">{header}</TableCell>
+                  <TableCell className="text-sm text-slate-500 max-w-xs truncate">
+                    {preview.rows
+                      .map((row) => row[i])
+                      .filter(Boolean)
+                      .slice(0, 2)
+                      .join(" · ") || "—"}
+                  </TableCell>
+                  <TableCell>
+                    <Select
+                      value={mapping[header] || "skip"}
+                      onValueChange={(value) =>
+                        setMapping((prev) => ({ ...prev, [header]: value }))
+                      }
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {targetOptions(header).map((opt) => (
+                          <SelectItem key={opt.value} value={opt.value}>
+                            {opt.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      <div className="flex justify-end">
+        <Button onClick={handleImport} disabled={!canImport || importing || loadingPreview}>
+          <Upload className={`w-4 h-4 mr-2 ${importing ? "animate-pulse" : ""}`} />
+          {importing ? "Импорт..." : "Импортировать"}
+        </Button>
+      </div>
+    </div>
+  );
+}
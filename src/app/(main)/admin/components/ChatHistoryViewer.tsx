@@ -20,6 +20,21 @@ interface ChatMessage {
   content: string;
   timestamp: string;
   attachments?: unknown[];
+  productCard?: { name: string; vendorCode: string };
+  downloads?: Array<{ title: string }>;
+  citations?: Array<{ title: string }>;
+  error?: string;
+}
+
+// Streamed replies keep cards in fields and leave content empty
+function messageText(msg: ChatMessage): string {
+  if (msg.productCard) {
+    return `Карточка товара: ${msg.productCard.name} (арт. ${msg.productCard.vendorCode})`;
+  }
+  if (msg.downloads?.length) {
+    return `Ссылки на скачивание: ${msg.downloads.map((d) => d.title).join(", ")}`;
+  }
+  return msg.error ? `${msg.content}\n\n⚠️ ${msg.error}` : msg.content;
 }
 
 interface ChatSession {
@@ -166,8 +181,13 @@ export default function ChatHistoryViewer() {
                             </span>
                           </div>
                           <p className="whitespace-pre-wrap text-sm leading-relaxed">
-                            {msg.content}
+                            {messageText(msg)}
                           </p>
+                          {msg.citations && msg.citations.length > 0 && (
+                            <div className="mt-2 text-xs text-slate-500">
+                              Источники: {msg.citations.map((c) => c.title).join(", ")}
+                            </div>
+                          )}
                           {msg.attachments && msg.attachments.length > 0 && (
                             <div className="mt-2 text-xs text-slate-500">
                               📎 {msg.attachments.length} файл(ов) прикреплено
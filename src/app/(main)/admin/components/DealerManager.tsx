@@ -29,9 +29,10 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { RefreshCw, Pencil, Sparkles, Award } from "lucide-react";
+import { RefreshCw, Pencil, Sparkles, Award, Coins, Trophy } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { api } from "@/lib/api";
+import DealerPointsDialog from "./DealerPointsDialog";
 
 interface DealerProfile {
   id: string;
@@ -57,6 +58,25 @@ interface DealerUser {
   profile: DealerProfile | null;
 }
 
+type LeaderboardFieldKey =
+  | "leaderboardShowNames"
+  | "leaderboardShowCompany"
+  | "leaderboardShowLocation"
+  | "leaderboardShowTier"
+  | "leaderboardShowPoints";
+
+const LEADERBOARD_FIELDS: Array<{ key: LeaderboardFieldKey; label: string; hint: string }> = [
+  {
+    key: "leaderboardShowNames",
+    label: "Имена дилеров",
+    hint: "Если выключено — дилеры видны под псевдонимом или анонимно",
+  },
+  { key: "leaderboardShowCompany", label: "Компания", hint: "Только для дилеров, показанных по имени" },
+  { key: "leaderboardShowLocation", label: "Регион и город", hint: "Вместе с фильтром по региону" },
+  { key: "leaderboardShowTier", label: "Тир", hint: "Статус дилера в программе" },
+  { key: "leaderboardShowPoints", label: "Баллы", hint: "Порядок мест сохраняется и без них" },
+];
+
 const TIER_OPTIONS = [
   { key: "TIER1", label: "Базовый" },
   { key: "TIER2", label: "Серебряный" },
@@ -72,11 +92,11 @@ export default function DealerManager() {
     user: DealerUser;
     profile: DealerProfile;
   } | null>(null);
+  const [pointsDealer, setPointsDealer] = useState<DealerUser | null>(null);
   const [recalcRunning, setRecalcRunning] = useState(false);
-  const [bonusSettings, setBonusSettings] = useState<{
-    id?: string;
-    enabled: boolean;
-  } | null>(null);
+  const [bonusSettings, setBonusSettings] = useState<
+    ({ id?: string; enabled: boolean } & Partial<Record<LeaderboardFieldKey, boolean>>) | null
+  >(null);
   const [bonusLoading, setBonusLoading] = useState(true);
   const { toast } = useToast();
 
@@ -182,7 +202,7 @@ export default function DealerManager() {
       if (result.success) {
         toast({
           title: "Успех",
-          description: `Пересчитано профилей: ${result.updated || 0}`,
+          description: `Обновлено профилей: ${result.updated || 0} из ${result.processed || 0}, смен тира: ${result.tierChanges || 0}`,
         });
       } else if (result.error) {
         toast({
@@ -230,6 +250,27 @@ export default function DealerManager() {
     }
   };
 
+  const toggleLeaderboardField = async (key: LeaderboardFieldKey, checked: boolean) => {
+    setBonusSettings((prev) => ({ enabled: true, ...(prev || {}), [key]: checked }));
+
+    try {
+      const response = await fetch("/api/admin/dealers/bonus-settings", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ [key]: checked }),
+      });
+      if (!response.ok) throw new Error("Failed to update leaderboard settings");
+    } catch (error) {
+      console.error("Error updating leaderboard settings:", error);
+      setBonusSettings((prev) => (prev ? { ...prev, [key]: !checked } : prev));
+      toast({
+        title: "Ошибка",
+        description: "Не удалось изменить настройку",
+        variant: "destructive",
+      });
+    }
+  };
+
   return (
     <div className="space-y-4">
       {/* Bonus Program Toggle */}
@@ -267,6 +308,37 @@ export default function DealerManager() {
         </CardContent>
       </Card>
 
+      {/* Leaderboard privacy */}
+      <Card className="bg-white/70 backdrop-blur-xl border-white/20 shadow-lg">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Trophy className="w-5 h-5" />
+            Рейтинг дилеров
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <div className="text-sm text-slate-600">
+            Какие данные других участников видят дилеры в рейтинге. Свою строку дилер
+            видит полностью, а имя может заменить псевдонимом или скрыть в личном кабинете.
+          </div>
+          {LEADERBOARD_FIELDS.map((field) => (
+            <div key={field.key} className="flex items-center justify-between gap-4">
+              <div>
+                <div className="font-medium text-slate-900">{field.label}</div>
+                <div className="text-xs text-slate-500">{field.hint}</div>
+              </div>
+              <Switch
+                checked={
+                  bonusSettings?.[field.key] ?? field.key !== "leaderboardShowCompany"
+                }
+                onCheckedChange={(checked) => toggleLeaderboardField(field.key, checked)}
+                disabled={bonusLoading}
+              />
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
       {/* Dealers List */}
       <Card className="bg-white/70 backdrop-blur-xl border-white/20 shadow-lg">
         <CardHeader className="flex flex-col md:flex-row md:items-center md:justify-between gap-3">
@@ -387,6 +459,16 @@ export default function DealerManager() {
                         )?.label || "—"}
                       </TableCell>
                       <TableCell className="text-right">
+                        {dealer.profile && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            title="Баллы"
+                            onClick={() => setPointsDealer(dealer)}
+                          >
+                            <Coins className="w-4 h-4" />
+                          </Button>
+                        )}
                         <Button
                           variant="ghost"
                           size="icon"
@@ -427,35 +509,17 @@ export default function DealerManager() {
                   }
                 />
               </div>
-              <div className="grid grid-cols-2 gap-3">
-                <div>
-                  <Label>Регион</Label>
-                  <Input
-                    value={editing.profile.region || ""}
-                    onChange={(e) =>
-                      setEditing({
-                        ...editing,
-                        profile: { ...editing.profile, region: e.target.value },
-                      })
-                    }
-                  />
-                </div>
-                <div>
-                  <Label>Баллы</Label>
-                  <Input
-                    type="number"
-                    value={editing.profile.pointsBalance || 0}
-                    onChange={(e) =>
-                      setEditing({
-                        ...editing,
-                        profile: {
-                          ...editing.profile,
-                          pointsBalance: parseFloat(e.target.value || "0"),
-                        },
-                      })
-                    }
-                  />
-                </div>
+              <div>
+                <Label>Регион</Label>
+                <Input
+                  value={editing.profile.region || ""}
+                  onChange={(e) =>
+                    setEditing({
+                      ...editing,
+                      profile: { ...editing.profile, region: e.target.value },
+                    })
+                  }
+                />
               </div>
               <div className="grid grid-cols-2 gap-3">
                 <div>
@@ -533,6 +597,21 @@ export default function DealerManager() {
           </DialogContent>
         </Dialog>
       )}
+
+      {/* Points Ledger Dialog */}
+      {pointsDealer?.profile && (
+        <DealerPointsDialog
+          profileId={pointsDealer.profile.id}
+          dealerName={
+            pointsDealer.profile.companyName ||
+            pointsDealer.displayName ||
+            pointsDealer.fullName ||
+            pointsDealer.email
+          }
+          onClose={() => setPointsDealer(null)}
+          onChanged={loadData}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,282 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { format } from "date-fns";
+import { ru } from "date-fns/locale";
+import { useToast } from "@/hooks/use-toast";
+import type { PointsStatement, PointsTransactionType } from "@/lib/api";
+
+const TYPE_OPTIONS: Array<{ key: PointsTransactionType; label: string }> = [
+  { key: "ACCRUAL", label: "Начисление" },
+  { key: "REDEMPTION", label: "Списание" },
+  { key: "ADJUSTMENT", label: "Корректировка" },
+  { key: "EXPIRY", label: "Сгорание" },
+];
+
+const TYPE_LABELS: Record<PointsTransactionType, string> = {
+  ...(Object.fromEntries(TYPE_OPTIONS.map((t) => [t.key, t.label])) as Record<PointsTransactionType, string>),
+  OPENING: "Остаток",
+};
+
+const PAGE_SIZE = 50;
+
+/**
+ * Points ledger of one dealer: statement and manual entries
+ */
+export default function DealerPointsDialog({
+  profileId,
+  dealerName,
+  onClose,
+  onChanged,
+}: {
+  profileId: string;
+  dealerName: string;
+  onClose: () => void;
+  onChanged: () => void;
+}) {
+  const [statement, setStatement] = useState<PointsStatement | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [form, setForm] = useState<{
+    type: PointsTransactionType;
+    amount: string;
+    reason: string;
+    orderNumber: string;
+  }>({ type: "ACCRUAL", amount: "", reason: "", orderNumber: "" });
+  const { toast } = useToast();
+
+  const loadStatement = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await fetch(
+        `/api/admin/dealers/${profileId}/points?limit=${PAGE_SIZE}`
+      );
+      if (response.ok) {
+        setStatement(await response.json());
+      }
+    } catch (error) {
+      console.error("Error loading points statement:", error);
+      toast({
+        title: "Ошибка",
+        description: "Не удалось загрузить историю баллов",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [profileId, toast]);
+
+  useEffect(() => {
+    loadStatement();
+  }, [loadStatement]);
+
+  const submit = async () => {
+    const amount = parseInt(form.amount, 10);
+    if (!amount || !form.reason.trim()) {
+      toast({
+        title: "Ошибка",
+        description: "Укажите количество баллов и причину",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const response = await fetch(`/api/admin/dealers/${profileId}/points`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...form, amount }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        toast({
+          title: "Ошибка",
+          description:
+            data.message === "Insufficient points balance"
+              ? "Недостаточно баллов для списания"
+              : data.message === "Order not found"
+                ? "Заказ с таким номером у дилера не найден"
+                : "Не удалось провести операцию",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      toast({ title: "Успех", description: "Операция проведена" });
+      setForm({ type: form.type, amount: "", reason: "", orderNumber: "" });
+      loadStatement();
+      onChanged();
+    } catch (error) {
+      console.error("Error adding points transaction:", error);
+      toast({
+        title: "Ошибка",
+        description: "Не удалось провести операцию",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={true} onOpenChange={onClose}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Баллы: {dealerName}</DialogTitle>
+        </DialogHeader>
+
+        <div className="text-sm text-slate-600">
+          Текущий баланс:{" "}
+          <span className="font-semibold text-slate-900">
+            {(statement?.balance || 0).toLocaleString("ru-RU")}
+          </span>
+        </div>
+
+        <div className="rounded-lg border bg-slate-50 p-3 space-y-3">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <div>
+              <Label>Операция</Label>
+              <Select
+                value={form.type}
+                onValueChange={(v) =>
+                  setForm({ ...form, type: v as PointsTransactionType })
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {TYPE_OPTIONS.map((t) => (
+                    <SelectItem key={t.key} value={t.key}>
+                      {t.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Баллы</Label>
+              <Input
+                type="number"
+                value={form.amount}
+                placeholder={form.type === "ADJUSTMENT" ? "±100" : "100"}
+                onChange={(e) => setForm({ ...form, amount: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label>Заказ (необязательно)</Label>
+              <Input
+                value={form.orderNumber}
+                placeholder="FS-2026-000123"
+                onChange={(e) => setForm({ ...form, orderNumber: e.target.value })}
+              />
+            </div>
+          </div>
+          <div>
+            <Label>Причина</Label>
+            <Input
+              value={form.reason}
+              onChange={(e) => setForm({ ...form, reason: e.target.value })}
+            />
+          </div>
+          <div className="flex justify-end">
+            <Button onClick={submit} disabled={saving}>
+              {saving ? "Сохранение..." : "Провести"}
+            </Button>
+          </div>
+        </div>
+
+        <div className="rounded-lg border bg-white overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Дата</TableHead>
+                <TableHead>Операция</TableHead>
+                <TableHead>Причина</TableHead>
+                <TableHead className="text-right">Баллы</TableHead>
+                <TableHead className="text-right">Остаток</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {loading && !statement ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center text-slate-500 py-6">
+                    Загрузка...
+                  </TableCell>
+                </TableRow>
+              ) : !statement || statement.items.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center text-slate-500 py-6">
+                    Операций пока нет
+                  </TableCell>
+                </TableRow>
+              ) : (
+                statement.items.map((entry) => (
+                  <TableRow key={entry.id}>
+                    <TableCell className="whitespace-nowrap text-sm">
+                      {format(new Date(entry.createdAt), "dd.MM.yyyy HH:mm", {
+                        locale: ru,
+                      })}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {TYPE_LABELS[entry.type]}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      <div>{entry.reason}</div>
+                      <div className="text-xs text-slate-500">
+                        {[entry.order?.orderNumber, entry.createdBy?.name || "автоматически"]
+                          .filter(Boolean)
+                          .join(" · ")}
+                      </div>
+                    </TableCell>
+                    <TableCell
+                      className={`text-right font-medium ${
+                        entry.amount > 0 ? "text-green-600" : "text-red-600"
+                      }`}
+                    >
+                      {entry.amount > 0 ? "+" : ""}
+                      {entry.amount.toLocaleString("ru-RU")}
+                    </TableCell>
+                    <TableCell className="text-right text-sm">
+                      {entry.balanceAfter.toLocaleString("ru-RU")}
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+        {statement && statement.total > statement.items.length && (
+          <div className="text-xs text-slate-500">
+            Показаны последние {statement.items.length} из {statement.total} операций
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,482 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Switch } from "@/components/ui/switch";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Mail, Save, Send, RefreshCw, Bot, Webhook } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+
+interface Integration {
+  name: string;
+  isEnabled: boolean;
+  config: Record<string, unknown>;
+}
+
+interface EmailForm {
+  host: string;
+  port: string;
+  secure: boolean;
+  user: string;
+  password: string;
+  passwordSet: boolean;
+  fromEmail: string;
+  fromName: string;
+  replyTo: string;
+}
+
+function toEmailForm(config: Record<string, unknown>): EmailForm {
+  return {
+    host: String(config.host || ""),
+    port: String(config.port || 587),
+    secure: config.secure === true,
+    user: String(config.user || ""),
+    password: "",
+    passwordSet: config.passwordSet === true,
+    fromEmail: String(config.fromEmail || ""),
+    fromName: String(config.fromName || ""),
+    replyTo: String(config.replyTo || ""),
+  };
+}
+
+function EmailIntegrationCard({
+  integration,
+  onSaved,
+}: {
+  integration: Integration;
+  onSaved: (integration: Integration) => void;
+}) {
+  const [form, setForm] = useState<EmailForm>(() => toEmailForm(integration.config));
+  const [isEnabled, setIsEnabled] = useState(integration.isEnabled);
+  const [testTo, setTestTo] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [testing, setTesting] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    setForm(toEmailForm(integration.config));
+    setIsEnabled(integration.isEnabled);
+  }, [integration]);
+
+  const set = <K extends keyof EmailForm>(key: K, value: EmailForm[K]) =>
+    setForm((prev) => ({ ...prev, [key]: value }));
+
+  const save = async () => {
+    setSaving(true);
+    try {
+      const response = await fetch("/api/admin/integrations", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name: "email",
+          isEnabled,
+          config: {
+            host: form.host,
+            port: Number(form.port) || 587,
+            secure: form.secure,
+            user: form.user,
+            password: form.password,
+            fromEmail: form.fromEmail,
+            fromName: form.fromName,
+            replyTo: form.replyTo,
+          },
+        }),
+      });
+      if (!response.ok) throw new Error("Failed to save email settings");
+      onSaved(await response.json());
+      toast({ title: "Успех", description: "Настройки почты сохранены" });
+    } catch (error) {
+      console.error("Error saving email settings:", error);
+      toast({
+        title: "Ошибка",
+        description: "Не удалось сохранить настройки почты",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const sendTest = async () => {
+    setTesting(true);
+    try {
+      const response = await fetch("/api/admin/integrations/email/test", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ to: testTo }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.message || "Failed to send test email");
+      toast({ title: "Письмо отправлено", description: `Тестовое письмо отправлено на ${data.to}` });
+    } catch (error) {
+      toast({
+        title: "Ошибка отправки",
+        description: error instanceof Error ? error.message : "Не удалось отправить письмо",
+        variant: "destructive",
+      });
+    } finally {
+      setTesting(false);
+    }
+  };
+
+  return (
+    <Card className="bg-white/70 backdrop-blur-xl border-white/20 shadow-lg">
+      <CardHeader className="flex flex-row items-center justify-between gap-4">
+        <CardTitle className="flex items-center gap-2">
+          <Mail className="w-5 h-5" />
+          Электронная почта (SMTP)
+        </CardTitle>
+        <div className="flex items-center gap-3">
+          <span className={`text-sm ${isEnabled ? "text-green-600" : "text-slate-500"}`}>
+            {isEnabled ? "Включено" : "Выключено"}
+          </span>
+          <Switch checked={isEnabled} onCheckedChange={setIsEnabled} />
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <p className="text-sm text-slate-600">
+          Письма об одобрении регистрации, подтверждении заказа и коммерческие предложения.
+          Для разработки подойдёт локальный перехватчик писем, например Mailpit: сервер
+          localhost, порт 1025, без логина и TLS.
+        </p>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="md:col-span-2">
+            <Label htmlFor="smtp-host">SMTP-сервер</Label>
+            <Input
+              id="smtp-host"
+              value={form.host}
+              placeholder="smtp.example.ru"
+              onChange={(e) => set("host", e.target.value)}
+            />
+          </div>
+          <div>
+            <Label htmlFor="smtp-port">Порт</Label>
+            <Input
+              id="smtp-port"
+              type="number"
+              value={form.port}
+              onChange={(e) => set("port", e.target.value)}
+            />
+          </div>
+          <div>
+            <Label htmlFor="smtp-user">Логин</Label>
+            <Input
+              id="smtp-user"
+              value={form.user}
+              autoComplete="off"
+              onChange={(e) => set("user", e.target.value)}
+            />
+          </div>
+          <div>
+            <Label htmlFor="smtp-password">Пароль</Label>
+            <Input
+              id="smtp-password"
+              type="password"
+              value={form.password}
+              autoComplete="new-password"
+              placeholder={form.passwordSet ? "•••••••• (задан)" : ""}
+              onChange={(e) => set("password", e.target.value)}
+            />
+          </div>
+          <div className="flex items-end gap-3 pb-2">
+            <Switch
+              id="smtp-secure"
+              checked={form.secure}
+              onCheckedChange={(checked) => set("secure", checked)}
+            />
+            <Label htmlFor="smtp-secure">SSL/TLS (порт 465)</Label>
+          </div>
+          <div>
+            <Label htmlFor="smtp-from">Адрес отправителя</Label>
+            <Input
+              id="smtp-from"
+              type="email"
+              value={form.fromEmail}
+              placeholder="noreply@example.ru"
+              onChange={(e) => set("fromEmail", e.target.value)}
+            />
+          </div>
+          <div>
+            <Label htmlFor="smtp-from-name">Имя отправителя</Label>
+            <Input
+              id="smtp-from-name"
+              value={form.fromName}
+              onChange={(e) => set("fromName", e.target.value)}
+            />
+          </div>
+          <div>
+            <Label htmlFor="smtp-reply-to">Адрес для ответов</Label>
+            <Input
+              id="smtp-reply-to"
+              type="email"
+              value={form.replyTo}
+              onChange={(e) => set("replyTo", e.target.value)}
+            />
+          </div>
+        </div>
+
+        <Button onClick={save} disabled={saving}>
+          <Save className="w-4 h-4 mr-2" />
+          {saving ? "Сохранение..." : "Сохранить"}
+        </Button>
+
+        <div className="border-t border-slate-200 pt-4">
+          <Label htmlFor="smtp-test-to">Тестовое письмо</Label>
+          <div className="flex flex-col sm:flex-row gap-2 mt-1">
+            <Input
+              id="smtp-test-to"
+              type="email"
+              value={testTo}
+              placeholder="Ваш email, если не указано"
+              onChange={(e) => setTestTo(e.target.value)}
+            />
+            <Button variant="outline" onClick={sendTest} disabled={testing}>
+              <Send className="w-4 h-4 mr-2" />
+              {testing ? "Отправка..." : "Отправить"}
+            </Button>
+          </div>
+          <p className="text-xs text-slate-500 mt-1">
+            Используются сохранённые настройки, даже если канал выключен.
+          </p>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+interface WebhookInfo {
+  url: string;
+  pendingUpdateCount: number;
+  lastErrorDate: string | null;
+  lastErrorMessage: string | null;
+}
+
+function TelegramIntegrationCard({
+  integration,
+  onSaved,
+}: {
+  integration: Integration;
+  onSaved: (integration: Integration) => void;
+}) {
+  const [isEnabled, setIsEnabled] = useState(integration.isEnabled);
+  const [botToken, setBotToken] = useState("");
+  const [apiBaseUrl, setApiBaseUrl] = useState(String(integration.config.apiBaseUrl || ""));
+  const [webhookInfo, setWebhookInfo] = useState<WebhookInfo | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [settingWebhook, setSettingWebhook] = useState(false);
+  const { toast } = useToast();
+
+  const botUsername = String(integration.config.botUsername || "");
+  const tokenSet = integration.config.botTokenSet === true;
+
+  useEffect(() => {
+    setIsEnabled(integration.isEnabled);
+    setApiBaseUrl(String(integration.config.apiBaseUrl || ""));
+    setBotToken("");
+  }, [integration]);
+
+  const save = async () => {
+    setSaving(true);
+    try {
+      const response = await fetch("/api/admin/integrations", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name: "telegram",
+          isEnabled,
+          config: { botToken, apiBaseUrl: apiBaseUrl || "https://api.telegram.org" },
+        }),
+      });
+      if (!response.ok) throw new Error("Failed to save Telegram settings");
+      onSaved(await response.json());
+      toast({ title: "Успех", description: "Настройки Telegram сохранены" });
+    } catch (error) {
+      console.error("Error saving Telegram settings:", error);
+      toast({
+        title: "Ошибка",
+        description: "Не удалось сохранить настройки Telegram",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const loadWebhookInfo = async () => {
+    try {
+      const response = await fetch("/api/admin/integrations/telegram/webhook");
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.message || "Failed to load webhook info");
+      setWebhookInfo(data);
+    } catch (error) {
+      toast({
+        title: "Ошибка",
+        description: error instanceof Error ? error.message : "Не удалось получить статус вебхука",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const setWebhook = async () => {
+    setSettingWebhook(true);
+    try {
+      const response = await fetch("/api/admin/integrations/telegram/webhook", { method: "POST" });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.message || "Failed to set webhook");
+      onSaved({
+        ...integration,
+        config: { ...integration.config, botUsername: data.botUsername, webhookSecretSet: true },
+      });
+      toast({ title: "Вебхук установлен", description: data.url });
+      loadWebhookInfo();
+    } catch (error) {
+      toast({
+        title: "Ошибка",
+        description: error instanceof Error ? error.message : "Не удалось установить вебхук",
+        variant: "destructive",
+      });
+    } finally {
+      setSettingWebhook(false);
+    }
+  };
+
+  return (
+    <Card className="bg-white/70 backdrop-blur-xl border-white/20 shadow-lg">
+      <CardHeader className="flex flex-row items-center justify-between gap-4">
+        <CardTitle className="flex items-center gap-2">
+          <Bot className="w-5 h-5" />
+          Telegram-бот
+          {botUsername && <span className="text-sm font-normal text-slate-500">@{botUsername}</span>}
+        </CardTitle>
+        <div className="flex items-center gap-3">
+          <span className={`text-sm ${isEnabled ? "text-green-600" : "text-slate-500"}`}>
+            {isEnabled ? "Включено" : "Выключено"}
+          </span>
+          <Switch checked={isEnabled} onCheckedChange={setIsEnabled} />
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <p className="text-sm text-slate-600">
+          Бот отвечает пользователям, которые привязали Telegram в профиле: карточки товаров по
+          артикулу, ссылки на материалы и ответы по базе знаний. После сохранения токена нажмите
+          «Установить вебхук» — адрес берётся из NEXTAUTH_URL.
+        </p>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <Label htmlFor="telegram-token">Токен бота</Label>
+            <Input
+              id="telegram-token"
+              type="password"
+              value={botToken}
+              autoComplete="off"
+              placeholder={tokenSet ? "•••••••• (задан)" : "123456:ABC..."}
+              onChange={(e) => setBotToken(e.target.value)}
+            />
+          </div>
+          <div>
+            <Label htmlFor="telegram-api">Адрес Bot API</Label>
+            <Input
+              id="telegram-api"
+              value={apiBaseUrl}
+              placeholder="https://api.telegram.org"
+              onChange={(e) => setApiBaseUrl(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          <Button onClick={save} disabled={saving}>
+            <Save className="w-4 h-4 mr-2" />
+            {saving ? "Сохранение..." : "Сохранить"}
+          </Button>
+          <Button variant="outline" onClick={setWebhook} disabled={settingWebhook || !tokenSet}>
+            <Webhook className="w-4 h-4 mr-2" />
+            {settingWebhook ? "Установка..." : "Установить вебхук"}
+          </Button>
+          <Button variant="outline" onClick={loadWebhookInfo} disabled={!tokenSet}>
+            <RefreshCw className="w-4 h-4 mr-2" />
+            Статус вебхука
+          </Button>
+        </div>
+
+        {webhookInfo && (
+          <div className="rounded-lg border border-slate-200 bg-white/60 p-3 text-sm space-y-1">
+            <div>
+              Адрес: <span className="font-mono break-all">{webhookInfo.url || "не установлен"}</span>
+            </div>
+            <div>Необработанных обновлений: {webhookInfo.pendingUpdateCount}</div>
+            {webhookInfo.lastErrorMessage && (
+              <div className="text-red-600">
+                Последняя ошибка
+                {webhookInfo.lastErrorDate &&
+                  ` (${new Date(webhookInfo.lastErrorDate).toLocaleString("ru-RU")})`}
+                : {webhookInfo.lastErrorMessage}
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * External channels stored in integration_configs
+ */
+export default function IntegrationsManager() {
+  const [integrations, setIntegrations] = useState<Integration[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { toast } = useToast();
+
+  const loadIntegrations = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await fetch("/api/admin/integrations");
+      if (response.ok) {
+        const data = await response.json();
+        setIntegrations(data.integrations);
+      }
+    } catch (error) {
+      console.error("Error loading integrations:", error);
+      toast({
+        title: "Ошибка",
+        description: "Не удалось загрузить интеграции",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    loadIntegrations();
+  }, [loadIntegrations]);
+
+  const replace = (updated: Integration) =>
+    setIntegrations((prev) => prev.map((i) => (i.name === updated.name ? updated : i)));
+
+  if (loading) {
+    return <Skeleton className="h-96 w-full" />;
+  }
+
+  const email = integrations.find((i) => i.name === "email");
+  const telegram = integrations.find((i) => i.name === "telegram");
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-end">
+        <Button variant="outline" onClick={loadIntegrations}>
+          <RefreshCw className="w-4 h-4 mr-2" />
+          Обновить
+        </Button>
+      </div>
+      {email && <EmailIntegrationCard integration={email} onSaved={replace} />}
+      {telegram && <TelegramIntegrationCard integration={telegram} onSaved={replace} />}
+    </div>
+  );
+}
@@ -38,9 +38,16 @@ import {
   Trash2,
   Copy,
   Database,
+  Sparkles,
+  History,
+  Upload,
 } from "lucide-react";
+import { format } from "date-fns";
+import { ru } from "date-fns/locale";
 import { useToast } from "@/hooks/use-toast";
-import { api } from "@/lib/api";
+import SyncChangesReport from "./SyncChangesReport";
+import CatalogImportDialog from "./CatalogImportDialog";
+import { api, CatalogFormat, XmlSyncRun } from "@/lib/api";
 
 interface KnowledgeItem {
   id: string;
@@ -57,18 +64,50 @@ interface KnowledgeItem {
   isAiSource: boolean;
   xmlData?: unknown;
   lastSync?: string;
+  syncIntervalMinutes?: number | null;
+  feedFormat?: CatalogFormat;
+  indexedAt?: string;
   createdAt: string;
   updatedAt: string;
 }
 
 const TYPE_OPTIONS = [
   { value: "DOCUMENT", label: "Документ" },
-  { value: "XML_FEED", label: "XML фид" },
+  { value: "XML_FEED", label: "Фид каталога" },
   { value: "ARTICLE", label: "Статья" },
   { value: "LINK", label: "Ссылка" },
   { value: "FILE", label: "Файл" },
 ];
 
+const SYNC_INTERVAL_OPTIONS = [
+  { value: "0", label: "Вручную" },
+  { value: "15", label: "Каждые 15 минут" },
+  { value: "60", label: "Каждый час" },
+  { value: "360", label: "Каждые 6 часов" },
+  { value: "1440", label: "Раз в сутки" },
+];
+
+const SYNC_TRIGGER_LABELS: Record<XmlSyncRun["trigger"], string> = {
+  MANUAL: "Вручную",
+  SCHEDULED: "По расписанию",
+  UPLOAD: "Загрузка файла",
+};
+
+const SYNC_STATUS_LABELS: Record<XmlSyncRun["status"], { label: string; className: string }> = {
+  RUNNING: { label: "Выполняется", className: "text-blue-600" },
+  SUCCESS: { label: "Успешно", className: "text-green-600" },
+  FAILED: { label: "Ошибка", className: "text-red-600" },
+};
+
+// Stock in chat/calculator is considered stale after two missed intervals (or a day for manual feeds)
+function isFeedStale(item: KnowledgeItem): boolean {
+  if (!item.lastSync) return true;
+  const maxAgeMinutes = item.syncIntervalMinutes
+    ? item.syncIntervalMinutes * 2
+    : 24 * 60;
+  return Date.now() - new Date(item.lastSync).getTime() > maxAgeMinutes * 60 * 1000;
+}
+
 export default function KnowledgeManager() {
   const [items, setItems] = useState<KnowledgeItem[]>([]);
   const [filteredItems, setFilteredItems] = useState<KnowledgeItem[]>([]);
@@ -77,6 +116,9 @@ export default function KnowledgeManager() {
   const [showForm, setShowForm] = useState(false);
   const [editingItem, setEditingItem] = useState<KnowledgeItem | null>(null);
   const [syncing, setSyncing] = useState<string | null>(null);
+  const [reindexing, setReindexing] = useState(false);
+  const [historyFeed, setHistoryFeed] = useState<KnowledgeItem | null>(null);
+  const [importFeed, setImportFeed] = useState<KnowledgeItem | null>(null);
   const { toast } = useToast();
 
   const loadItems = useCallback(async () => {
@@ -184,7 +226,7 @@ export default function KnowledgeManager() {
       if (result.success) {
         toast({
           title: "Синхронизация завершена",
-          description: `Загружено ${result.products_count || 0} товаров`,
+          description: `Загружено ${result.products_count || 0} товаров (новых: ${result.added_count || 0}, удалено: ${result.removed_count || 0}, изменено: ${result.changed_count || 0})`,
         });
         loadItems();
       }
@@ -200,6 +242,29 @@ export default function KnowledgeManager() {
     }
   };
 
+  const handleReindex = async () => {
+    setReindexing(true);
+    try {
+      const result = await api.reindexKnowledgeBase();
+      if (result.success) {
+        toast({
+          title: "Индекс обновлён",
+          description: `Проиндексировано источников: ${result.items || 0}, фрагментов: ${result.chunks || 0}`,
+        });
+        loadItems();
+      }
+    } catch (error) {
+      console.error("Error reindexing knowledge base:", error);
+      toast({
+        title: "Ошибка индексации",
+        description: "Не удалось переиндексировать базу знаний",
+        variant: "destructive",
+      });
+    } finally {
+      setReindexing(false);
+    }
+  };
+
   return (
     <div className="space-y-6">
       <Card className="bg-white/70 backdrop-blur-xl border-white/20 shadow-lg">
@@ -213,6 +278,15 @@ export default function KnowledgeManager() {
               <RefreshCw className={`w-4 h-4 mr-2 ${loading ? "animate-spin" : ""}`} />
               Обновить
             </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleReindex}
+              disabled={reindexing}
+            >
+              <Sparkles className={`w-4 h-4 mr-2 ${reindexing ? "animate-spin" : ""}`} />
+              Индекс ИИ
+            </Button>
             <Button
               onClick={() => {
                 setEditingItem(null);
@@ -298,6 +372,20 @@ export default function KnowledgeManager() {
                             {item.articleCode}
                           </div>
                         )}
+                        {item.type === "XML_FEED" && (
+                          <div
+                            className={`text-xs ${isFeedStale(item) ? "text-orange-600" : "text-slate-500"}`}
+                          >
+                            {item.lastSync
+                              ? `Синхронизирован ${format(new Date(item.lastSync), "d MMM yyyy, HH:mm", { locale: ru })}`
+                              : "Не синхронизирован"}
+                            {" · "}
+                            {SYNC_INTERVAL_OPTIONS.find(
+                              (o) => o.value === String(item.syncIntervalMinutes || 0)
+                            )?.label || `Каждые ${item.syncIntervalMinutes} мин`}
+                            {item.feedFormat && item.feedFormat !== "YML" && ` · ${item.feedFormat}`}
+                          </div>
+                        )}
                       </TableCell>
                       <TableCell>
                         <Badge variant="outline">
@@ -321,6 +409,11 @@ export default function KnowledgeManager() {
                         <span className={item.isAiSource ? "text-blue-600" : "text-slate-400"}>
                           {item.isAiSource ? "Да" : "Нет"}
                         </span>
+                        {item.isAiSource && item.type !== "XML_FEED" && (
+                          <div className="text-xs text-slate-500">
+                            {item.indexedAt ? "в индексе" : "не проиндексирован"}
+                          </div>
+                        )}
                       </TableCell>
                       <TableCell className="text-right">
                         <div className="flex gap-1 justify-end">
@@ -336,6 +429,24 @@ export default function KnowledgeManager() {
                               />
                             </Button>
                           )}
+                          {item.type === "XML_FEED" && (
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              onClick={() => setImportFeed(item)}
+                            >
+                              <Upload className="w-3 h-3" />
+                            </Button>
+                          )}
+                          {item.type === "XML_FEED" && (
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              onClick={() => setHistoryFeed(item)}
+                            >
+                              <History className="w-3 h-3" />
+                            </Button>
+                          )}
                           <Button
                             size="sm"
                             variant="ghost"
@@ -390,6 +501,151 @@ export default function KnowledgeManager() {
           />
         </DialogContent>
       </Dialog>
+
+      {/* Sync History Dialog */}
+      <Dialog
+        open={!!historyFeed}
+        onOpenChange={(open) => !open && setHistoryFeed(null)}
+      >
+        <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>История синхронизации: {historyFeed?.title}</DialogTitle>
+          </DialogHeader>
+          {historyFeed && <SyncHistory feedId={historyFeed.id} />}
+        </DialogContent>
+      </Dialog>
+
+      {/* Catalog Import Dialog */}
+      <Dialog
+        open={!!importFeed}
+        onOpenChange={(open) => !open && setImportFeed(null)}
+      >
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Импорт каталога: {importFeed?.title}</DialogTitle>
+          </DialogHeader>
+          {importFeed && (
+            <CatalogImportDialog
+              feed={importFeed}
+              onImported={() => {
+                setImportFeed(null);
+                loadItems();
+              }}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
+
+function SyncHistory({ feedId }: { feedId: string }) {
+  const [runs, setRuns] = useState<XmlSyncRun[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [reportRunId, setReportRunId] = useState<string | null>(null);
+
+  useEffect(() => {
+    setLoading(true);
+    api
+      .getXmlSyncRuns(feedId)
+      .then(setRuns)
+      .catch((error) => console.error("Error loading sync history:", error))
+      .finally(() => setLoading(false));
+  }, [feedId]);
+
+  if (loading) {
+    return <Skeleton className="h-32 w-full" />;
+  }
+
+  if (reportRunId) {
+    return (
+      <SyncChangesReport runId={reportRunId} onBack={() => setReportRunId(null)} />
+    );
+  }
+
+  if (runs.length === 0) {
+    return (
+      <div className="text-center text-slate-500 py-8">
+        Синхронизаций ещё не было
+      </div>
+    );
+  }
+
+  return (
+    <div className="rounded-lg border bg-white overflow-x-auto">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Начало</TableHead>
+            <TableHead>Длительность</TableHead>
+            <TableHead>Запуск</TableHead>
+            <TableHead>Статус</TableHead>
+            <TableHead>Офферов</TableHead>
+            <TableHead>Новые / удалённые / изменённые</TableHead>
+            <TableHead>Формат</TableHead>
+            <TableHead />
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {runs.map((run) => (
+            <TableRow key={run.id}>
+              <TableCell className="whitespace-nowrap">
+                {format(new Date(run.startedAt), "d MMM yyyy, HH:mm", { locale: ru })}
+              </TableCell>
+              <TableCell>
+                {run.finishedAt
+                  ? `${Math.round(
+                      (new Date(run.finishedAt).getTime() -
+                        new Date(run.startedAt).getTime()) /
+                        1000
+                    )} с`
+                  : "—"}
+              </TableCell>
+              <TableCell>
+                <Badge variant="outline">{SYNC_TRIGGER_LABELS[run.trigger]}</Badge>
+                {run.fileName && (
+                  <div className="text-xs text-slate-500 max-w-[10rem] truncate">
+                    {run.fileName}
+                  </div>
+                )}
+              </TableCell>
+              <TableCell>
+                <span className={SYNC_STATUS_LABELS[run.status].className}>
+                  {SYNC_STATUS_LABELS[run.status].label}
+                </span>
+                {run.error && (
+                  <div className="text-xs text-red-500 max-w-xs break-words">
+                    {run.error}
+                  </div>
+                )}
+              </TableCell>
+              <TableCell>{run.offersCount}</TableCell>
+              <TableCell>
+                <span className="text-green-600">+{run.addedCount}</span>
+                {" / "}
+                <span className="text-red-600">−{run.removedCount}</span>
+                {" / "}
+                <span className="text-blue-600">~{run.changedCount}</span>
+              </TableCell>
+              <TableCell className="text-xs text-slate-500">
+                {run.format}
+                {run.encoding && <div>{run.encoding}</div>}
+              </TableCell>
+              <TableCell>
+                {run.status === "SUCCESS" && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => setReportRunId(run.id)}
+                  >
+                    Изменения
+                  </Button>
+                )}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
     </div>
   );
 }
@@ -415,6 +671,7 @@ function KnowledgeForm({
     articleCode: item?.articleCode || "",
     isPublic: item?.isPublic ?? true,
     isAiSource: item?.isAiSource ?? false,
+    syncIntervalMinutes: String(item?.syncIntervalMinutes || 0),
   });
   const [saving, setSaving] = useState(false);
 
@@ -423,6 +680,7 @@ function KnowledgeForm({
     setSaving(true);
     await onSave({
       ...formData,
+      syncIntervalMinutes: parseInt(formData.syncIntervalMinutes) || null,
       categories: formData.categories
         .split(",")
         .map((c) => c.trim())
@@ -462,6 +720,29 @@ function KnowledgeForm({
         </Select>
       </div>
 
+      {formData.type === "XML_FEED" && (
+        <div>
+          <Label htmlFor="syncIntervalMinutes">Автосинхронизация</Label>
+          <Select
+            value={formData.syncIntervalMinutes}
+            onValueChange={(value) =>
+              setFormData({ ...formData, syncIntervalMinutes: value })
+            }
+          >
+            <SelectTrigger id="syncIntervalMinutes">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {SYNC_INTERVAL_OPTIONS.map((opt) => (
+                <SelectItem key={opt.value} value={opt.value}>
+                  {opt.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
       <div>
         <Label htmlFor="description">Описание</Label>
         <Textarea
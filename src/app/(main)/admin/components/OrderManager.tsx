@@ -0,0 +1,527 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ShoppingCart, RefreshCw, Search, Package, Clock } from "lucide-react";
+import { format } from "date-fns";
+import { ru } from "date-fns/locale";
+import { useToast } from "@/hooks/use-toast";
+
+type OrderStatus =
+  | "PENDING"
+  | "CONFIRMED"
+  | "PROCESSING"
+  | "SHIPPED"
+  | "DELIVERED"
+  | "CANCELLED";
+
+interface OrderListItem {
+  id: string;
+  orderNumber: string;
+  status: OrderStatus;
+  totalCost: number;
+  itemsCount: number;
+  contactName: string | null;
+  contactPhone: string | null;
+  customerEmail: string | null;
+  customerName: string | null;
+  legalEntityName: string | null;
+  createdAt: string;
+}
+
+interface OrderDetails {
+  id: string;
+  orderNumber: string;
+  status: OrderStatus;
+  allowedTransitions: OrderStatus[];
+  totalCost: number;
+  items: Array<{
+    articleCode?: string;
+    productName?: string;
+    quantity?: number;
+    unit?: string;
+    price?: number;
+  }>;
+  comment: string | null;
+  contactName: string | null;
+  contactPhone: string | null;
+  contactEmail: string | null;
+  deliveryAddress: string | null;
+  user: { email: string; fullName: string | null; displayName: string | null } | null;
+  legalEntity: { name: string; inn: string | null; kpp: string | null } | null;
+  history: Array<{
+    id: string;
+    fromStatus: OrderStatus | null;
+    toStatus: OrderStatus;
+    comment: string | null;
+    changedBy: string | null;
+    createdAt: string;
+  }>;
+  createdAt: string;
+}
+
+const STATUS_LABELS: Record<OrderStatus, string> = {
+  PENDING: "Ожидает",
+  CONFIRMED: "Подтверждён",
+  PROCESSING: "В обработке",
+  SHIPPED: "Отправлен",
+  DELIVERED: "Доставлен",
+  CANCELLED: "Отменён",
+};
+
+const STATUS_COLORS: Record<OrderStatus, string> = {
+  PENDING: "bg-yellow-100 text-yellow-800 border-yellow-200",
+  CONFIRMED: "bg-sky-100 text-sky-800 border-sky-200",
+  PROCESSING: "bg-blue-100 text-blue-800 border-blue-200",
+  SHIPPED: "bg-purple-100 text-purple-800 border-purple-200",
+  DELIVERED: "bg-green-100 text-green-800 border-green-200",
+  CANCELLED: "bg-red-100 text-red-800 border-red-200",
+};
+
+// Button captions for moving an order to the status
+const TRANSITION_LABELS: Record<OrderStatus, string> = {
+  PENDING: "Вернуть в ожидание",
+  CONFIRMED: "Подтвердить",
+  PROCESSING: "В работу",
+  SHIPPED: "Отгрузить",
+  DELIVERED: "Доставлен",
+  CANCELLED: "Отменить",
+};
+
+const PAGE_SIZE = 50;
+
+function StatusBadge({ status }: { status: OrderStatus }) {
+  return (
+    <Badge variant="outline" className={STATUS_COLORS[status]}>
+      {STATUS_LABELS[status] || status}
+    </Badge>
+  );
+}
+
+/**
+ * Orders of all customers: filtering, search and the status workflow
+ */
+export default function OrderManager() {
+  const [orders, setOrders] = useState<OrderListItem[]>([]);
+  const [total, setTotal] = useState(0);
+  const [counts, setCounts] = useState<Partial<Record<OrderStatus, number>>>({});
+  const [loading, setLoading] = useState(true);
+  const [statusFilter, setStatusFilter] = useState<string>("all");
+  const [search, setSearch] = useState("");
+  const [query, setQuery] = useState("");
+  const [offset, setOffset] = useState(0);
+  const [selected, setSelected] = useState<OrderDetails | null>(null);
+  const [transitionComment, setTransitionComment] = useState("");
+  const [updating, setUpdating] = useState(false);
+  const { toast } = useToast();
+
+  const loadOrders = useCallback(async () => {
+    setLoading(true);
+    try {
+      const params = new URLSearchParams({
+        limit: String(PAGE_SIZE),
+        offset: String(offset),
+      });
+      if (statusFilter !== "all") params.set("status", statusFilter);
+      if (query) params.set("search", query);
+
+      const response = await fetch(`/api/admin/orders?${params}`);
+      if (response.ok) {
+        const data = await response.json();
+        setOrders(data.items);
+        setTotal(data.total);
+        setCounts(data.counts);
+      }
+    } catch (error) {
+      console.error("Error loading orders:", error);
+      toast({
+        title: "Ошибка",
+        description: "Не удалось загрузить заказы",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [statusFilter, query, offset, toast]);
+
+  useEffect(() => {
+    loadOrders();
+  }, [loadOrders]);
+
+  const openOrder = async (id: string) => {
+    try {
+      const response = await fetch(`/api/admin/orders/${id}`);
+      if (!response.ok) throw new Error("Failed to load order");
+      setSelected(await response.json());
+      setTransitionComment("");
+    } catch (error) {
+      console.error("Error loading order:", error);
+      toast({
+        title: "Ошибка",
+        description: "Не удалось открыть заказ",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const changeStatus = async (status: OrderStatus) => {
+    if (!selected) return;
+    if (status === "CANCELLED" && !transitionComment.trim()) {
+      toast({
+        title: "Ошибка",
+        description: "Укажите причину отмены в комментарии",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setUpdating(true);
+    try {
+      const response = await fetch(`/api/admin/orders/${selected.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ status, comment: transitionComment }),
+      });
+
+      if (response.status === 409) {
+        toast({
+          title: "Ошибка",
+          description: "Статус заказа уже изменён другим сотрудником",
+          variant: "destructive",
+        });
+        openOrder(selected.id);
+        return;
+      }
+      if (!response.ok) throw new Error("Failed to update order status");
+
+      setSelected(await response.json());
+      setTransitionComment("");
+      toast({
+        title: "Успех",
+        description: `Заказ ${selected.orderNumber}: ${STATUS_LABELS[status]}`,
+      });
+      loadOrders();
+    } catch (error) {
+      console.error("Error updating order status:", error);
+      toast({
+        title: "Ошибка",
+        description: "Не удалось изменить статус",
+        variant: "destructive",
+      });
+    } finally {
+      setUpdating(false);
+    }
+  };
+
+  const applySearch = () => {
+    setOffset(0);
+    setQuery(search.trim());
+  };
+
+  const allCount = Object.values(counts).reduce((sum, n) => sum + (n || 0), 0);
+
+  return (
+    <div className="space-y-6">
+      <Card className="bg-white/70 backdrop-blur-xl border-white/20 shadow-lg">
+        <CardHeader className="flex flex-row items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <ShoppingCart className="w-5 h-5" />
+            Заказы ({total})
+          </CardTitle>
+          <Button variant="outline" size="sm" onClick={loadOrders} disabled={loading}>
+            <RefreshCw className={`w-4 h-4 mr-2 ${loading ? "animate-spin" : ""}`} />
+            Обновить
+          </Button>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-col sm:flex-row gap-2">
+            <Select
+              value={statusFilter}
+              onValueChange={(value) => {
+                setOffset(0);
+                setStatusFilter(value);
+              }}
+            >
+              <SelectTrigger className="sm:w-56">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Все статусы ({allCount})</SelectItem>
+                {(Object.keys(STATUS_LABELS) as OrderStatus[]).map((status) => (
+                  <SelectItem key={status} value={status}>
+                    {STATUS_LABELS[status]} ({counts[status] || 0})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <div className="flex flex-1 gap-2">
+              <Input
+                placeholder="Номер заказа, имя, телефон или email"
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                onKeyDown={(e) => e.key === "Enter" && applySearch()}
+              />
+              <Button variant="outline" onClick={applySearch}>
+                <Search className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
+
+          <div className="rounded-lg border bg-white overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Номер</TableHead>
+                  <TableHead>Дата</TableHead>
+                  <TableHead>Клиент</TableHead>
+                  <TableHead>Позиций</TableHead>
+                  <TableHead className="text-right">Сумма</TableHead>
+                  <TableHead>Статус</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {loading ? (
+                  Array(5)
+                    .fill(0)
+                    .map((_, i) => (
+                      <TableRow key={i}>
+                        <TableCell colSpan={6}>
+                          <Skeleton className="h-4 w-full" />
+                        </TableCell>
+                      </TableRow>
+                    ))
+                ) : orders.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center text-slate-500 py-8">
+                      Заказы не найдены
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  orders.map((order) => (
+                    <TableRow
+                      key={order.id}
+                      className="cursor-pointer hover:bg-slate-50"
+                      onClick={() => openOrder(order.id)}
+                    >
+                      <TableCell className="font-mono text-xs">{order.orderNumber}</TableCell>
+                      <TableCell className="text-sm text-slate-600">
+                        {format(new Date(order.createdAt), "d MMM yyyy, HH:mm", { locale: ru })}
+                      </TableCell>
+                      <TableCell>
+                        <div className="font-medium">{order.customerName || "—"}</div>
+                        <div className="text-xs text-slate-500">
+                          {[order.legalEntityName, order.contactPhone, order.customerEmail]
+                            .filter(Boolean)
+                            .join(" · ")}
+                        </div>
+                      </TableCell>
+                      <TableCell>{order.itemsCount}</TableCell>
+                      <TableCell className="text-right font-medium">
+                        {order.totalCost.toLocaleString("ru-RU")} ₽
+                      </TableCell>
+                      <TableCell>
+                        <StatusBadge status={order.status} />
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+
+          {total > PAGE_SIZE && (
+            <div className="flex items-center justify-between text-sm text-slate-600">
+              <span>
+                {offset + 1}–{Math.min(offset + PAGE_SIZE, total)} из {total}
+              </span>
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={offset === 0 || loading}
+                  onClick={() => setOffset(Math.max(0, offset - PAGE_SIZE))}
+                >
+                  Назад
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={offset + PAGE_SIZE >= total || loading}
+                  onClick={() => setOffset(offset + PAGE_SIZE)}
+                >
+                  Далее
+                </Button>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Order Dialog */}
+      <Dialog open={!!selected} onOpenChange={(open) => !open && setSelected(null)}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-3">
+              Заказ {selected?.orderNumber}
+              {selected && <StatusBadge status={selected.status} />}
+            </DialogTitle>
+          </DialogHeader>
+          {selected && (
+            <div className="space-y-6">
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 text-sm">
+                <div>
+                  <div className="text-slate-500">Клиент</div>
+                  <div className="font-medium">
+                    {selected.contactName ||
+                      selected.user?.displayName ||
+                      selected.user?.fullName ||
+                      "—"}
+                  </div>
+                  <div>{selected.contactPhone || "—"}</div>
+                  <div>{selected.contactEmail || selected.user?.email || "—"}</div>
+                </div>
+                <div>
+                  <div className="text-slate-500">Доставка</div>
+                  <div>{selected.deliveryAddress || "—"}</div>
+                  {selected.legalEntity && (
+                    <div className="mt-2">
+                      <div className="text-slate-500">Юрлицо</div>
+                      <div>
+                        {selected.legalEntity.name}
+                        {selected.legalEntity.inn && `, ИНН ${selected.legalEntity.inn}`}
+                      </div>
+                    </div>
+                  )}
+                </div>
+              </div>
+
+              {selected.comment && (
+                <div className="text-sm">
+                  <div className="text-slate-500">Комментарий клиента</div>
+                  <div className="whitespace-pre-wrap">{selected.comment}</div>
+                </div>
+              )}
+
+              <div className="space-y-2">
+                {selected.items.map((item, i) => (
+                  <div
+                    key={`${item.articleCode}-${i}`}
+                    className="flex items-center justify-between text-sm py-1"
+                  >
+                    <div className="flex items-center gap-2">
+                      <Package className="w-4 h-4 text-slate-400" />
+                      <span>{item.productName || item.articleCode}</span>
+                      {item.articleCode && (
+                        <span className="font-mono text-xs text-slate-500">
+                          {item.articleCode}
+                        </span>
+                      )}
+                    </div>
+                    <span className="text-slate-600">
+                      {item.quantity || 1} {item.unit || "шт."} × {(item.price || 0).toLocaleString("ru-RU")} ₽
+                    </span>
+                  </div>
+                ))}
+                <div className="flex justify-end border-t pt-2 font-semibold">
+                  Итого: {selected.totalCost.toLocaleString("ru-RU")} ₽
+                </div>
+              </div>
+
+              <div className="space-y-3">
+                <div className="text-sm font-medium">История статусов</div>
+                {selected.history.length === 0 ? (
+                  <p className="text-sm text-slate-500">Переходов ещё не было</p>
+                ) : (
+                  <div className="space-y-3 border-l-2 border-slate-200 pl-4">
+                    {selected.history.map((entry) => (
+                      <div key={entry.id} className="text-sm">
+                        <div className="flex flex-wrap items-center gap-2">
+                          <Clock className="w-3 h-3 text-slate-400" />
+                          <span className="text-slate-500">
+                            {format(new Date(entry.createdAt), "d MMM yyyy, HH:mm", {
+                              locale: ru,
+                            })}
+                          </span>
+                          {entry.fromStatus ? (
+                            <>
+                              <StatusBadge status={entry.fromStatus} />→
+                            </>
+                          ) : (
+                            <span className="text-slate-500">создан</span>
+                          )}
+                          <StatusBadge status={entry.toStatus} />
+                          {entry.changedBy && (
+                            <span className="text-slate-500">{entry.changedBy}</span>
+                          )}
+                        </div>
+                        {entry.comment && (
+                          <div className="mt-1 text-slate-700 whitespace-pre-wrap">
+                            {entry.comment}
+                          </div>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              {selected.allowedTransitions.length > 0 && (
+                <div className="space-y-3 border-t pt-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="order-transition-comment">Комментарий к переходу</Label>
+                    <Textarea
+                      id="order-transition-comment"
+                      value={transitionComment}
+                      onChange={(e) => setTransitionComment(e.target.value)}
+                      placeholder="Например, трек-номер или причина отмены"
+                      rows={2}
+                    />
+                  </div>
+                  <div className="flex flex-wrap justify-end gap-2">
+                    {selected.allowedTransitions.map((status) => (
+                      <Button
+                        key={status}
+                        variant={status === "CANCELLED" ? "destructive" : "default"}
+                        disabled={updating}
+                        onClick={() => changeStatus(status)}
+                      >
+                        {TRANSITION_LABELS[status]}
+                      </Button>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
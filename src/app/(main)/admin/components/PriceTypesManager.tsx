@@ -0,0 +1,196 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Tags, RefreshCw, Save } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+
+type PriceAudience = "TIER1" | "TIER2" | "TIER3" | "TIER4" | "DEALER" | "MANAGER" | "USER";
+
+interface PriceTypesData {
+  priceTypes: string[];
+  mappings: Partial<Record<PriceAudience, string>>;
+  tiers: Array<{ tier: PriceAudience; name: string }>;
+}
+
+const USER_TYPE_AUDIENCES: Array<{ audience: PriceAudience; label: string; hint: string }> = [
+  { audience: "DEALER", label: "Дилер", hint: "если для тира дилера тип цены не выбран" },
+  { audience: "MANAGER", label: "Менеджер", hint: "" },
+  { audience: "USER", label: "Пользователь", hint: "" },
+];
+
+// Radix Select has no empty value
+const NONE = "__none__";
+
+/**
+ * Which feed price type is the purchase price of each dealer tier and user type
+ */
+export default function PriceTypesManager() {
+  const [data, setData] = useState<PriceTypesData | null>(null);
+  const [mappings, setMappings] = useState<Partial<Record<PriceAudience, string>>>({});
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  const loadMappings = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await fetch("/api/admin/price-types");
+      if (response.ok) {
+        const loaded: PriceTypesData = await response.json();
+        setData(loaded);
+        setMappings(loaded.mappings);
+      }
+    } catch (error) {
+      console.error("Error loading price types:", error);
+      toast({
+        title: "Ошибка",
+        description: "Не удалось загрузить типы цен",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    loadMappings();
+  }, [loadMappings]);
+
+  const saveMappings = async () => {
+    if (!data) return;
+    setSaving(true);
+    try {
+      const audiences = [...data.tiers.map((t) => t.tier), ...USER_TYPE_AUDIENCES.map((a) => a.audience)];
+      const response = await fetch("/api/admin/price-types", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          mappings: Object.fromEntries(audiences.map((audience) => [audience, mappings[audience] || null])),
+        }),
+      });
+      if (!response.ok) throw new Error("Failed to save price type mappings");
+
+      const saved = await response.json();
+      setMappings(saved.mappings);
+      toast({ title: "Успех", description: "Сопоставление типов цен сохранено" });
+    } catch (error) {
+      console.error("Error saving price types:", error);
+      toast({
+        title: "Ошибка",
+        description: "Не удалось сохранить сопоставление",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderRow = (audience: PriceAudience, label: string, hint?: string) => {
+    const value = mappings[audience];
+    // A mapped type may be gone from the feed after a sync - keep it selectable
+    const feedTypes = data?.priceTypes || [];
+    const options = value && !feedTypes.includes(value) ? [value, ...feedTypes] : feedTypes;
+    return (
+      <div key={audience} className="grid grid-cols-1 md:grid-cols-2 gap-2 md:items-center py-2 border-b last:border-0">
+        <div>
+          <Label>{label}</Label>
+          {hint && <p className="text-xs text-slate-500">{hint}</p>}
+        </div>
+        <Select
+          value={value || NONE}
+          onValueChange={(next) => setMappings((prev) => ({ ...prev, [audience]: next === NONE ? undefined : next }))}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NONE}>Не показывать закупочную цену</SelectItem>
+            {options.map((type) => (
+              <SelectItem key={type} value={type}>
+                {type}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="flex items-center gap-2">
+          <Tags className="w-5 h-5" />
+          Типы цен
+        </CardTitle>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={loadMappings} disabled={loading}>
+            <RefreshCw className={`w-4 h-4 mr-2 ${loading ? "animate-spin" : ""}`} />
+            Обновить
+          </Button>
+          <Button size="sm" onClick={saveMappings} disabled={saving || loading || !data}>
+            <Save className="w-4 h-4 mr-2" />
+            Сохранить
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <p className="text-sm text-slate-600">
+          Розничная цена (RRC) видна всем. Закупочную цену пользователь видит рядом с ней в карточке товара в
+          чате, калькуляторе, корзине и своих предложениях — вместе с маржой. Клиентам в предложениях она не
+          показывается.
+        </p>
+
+        {loading ? (
+          <div className="space-y-2">
+            {[1, 2, 3, 4].map((i) => (
+              <Skeleton key={i} className="h-10 w-full" />
+            ))}
+          </div>
+        ) : data ? (
+          <>
+            <div>
+              <div className="text-sm font-medium text-slate-700 mb-2">Типы цен в фидах</div>
+              {data.priceTypes.length === 0 ? (
+                <p className="text-sm text-slate-500">
+                  В каталоге нет типизированных цен. Они появятся после синхронизации фида с несколькими
+                  ценами на товар.
+                </p>
+              ) : (
+                <div className="flex flex-wrap gap-2">
+                  {data.priceTypes.map((type) => (
+                    <Badge key={type} variant="outline">
+                      {type}
+                    </Badge>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div>
+              <div className="text-sm font-medium text-slate-700 mb-1">Тиры дилеров</div>
+              {data.tiers.map((tier) => renderRow(tier.tier, `${tier.name} (${tier.tier})`))}
+            </div>
+
+            <div>
+              <div className="text-sm font-medium text-slate-700 mb-1">Типы пользователей</div>
+              {USER_TYPE_AUDIENCES.map((item) => renderRow(item.audience, item.label, item.hint))}
+            </div>
+          </>
+        ) : null}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,662 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Gift, Plus, RefreshCw, Edit, Trash2, Save } from "lucide-react";
+import { format } from "date-fns";
+import { ru } from "date-fns/locale";
+import { useToast } from "@/hooks/use-toast";
+import type { RedemptionStatus } from "@/lib/api";
+
+type Tier = "TIER1" | "TIER2" | "TIER3" | "TIER4";
+
+interface Reward {
+  id: string;
+  title: string;
+  description: string | null;
+  imageUrl: string | null;
+  pointsCost: number;
+  stock: number | null;
+  tiers: Tier[];
+  isActive: boolean;
+  sortOrder: number;
+  redemptionsCount?: number;
+}
+
+interface Redemption {
+  id: string;
+  rewardTitle: string;
+  pointsCost: number;
+  status: RedemptionStatus;
+  allowedTransitions: RedemptionStatus[];
+  comment: string | null;
+  adminComment: string | null;
+  createdAt: string;
+  dealer: { profileId: string; companyName: string | null; name: string; email: string };
+  processedBy: string | null;
+}
+
+const TIER_OPTIONS: Array<{ key: Tier; label: string }> = [
+  { key: "TIER1", label: "Базовый" },
+  { key: "TIER2", label: "Серебряный" },
+  { key: "TIER3", label: "Золотой" },
+  { key: "TIER4", label: "Платиновый" },
+];
+
+const STATUS_LABELS: Record<RedemptionStatus, string> = {
+  REQUESTED: "Новая",
+  APPROVED: "Одобрена",
+  ISSUED: "Выдана",
+  REJECTED: "Отклонена",
+};
+
+const STATUS_COLORS: Record<RedemptionStatus, string> = {
+  REQUESTED: "bg-yellow-100 text-yellow-800 border-yellow-200",
+  APPROVED: "bg-blue-100 text-blue-800 border-blue-200",
+  ISSUED: "bg-green-100 text-green-800 border-green-200",
+  REJECTED: "bg-red-100 text-red-800 border-red-200",
+};
+
+const ACTION_LABELS: Record<RedemptionStatus, string> = {
+  REQUESTED: "",
+  APPROVED: "Одобрить",
+  ISSUED: "Выдана",
+  REJECTED: "Отклонить",
+};
+
+const emptyReward: Reward = {
+  id: "",
+  title: "",
+  description: "",
+  imageUrl: "",
+  pointsCost: 1000,
+  stock: null,
+  tiers: [],
+  isActive: true,
+  sortOrder: 0,
+};
+
+/**
+ * Rewards catalog and processing of dealers' redemption requests
+ */
+export default function RewardsManager() {
+  const [rewards, setRewards] = useState<Reward[]>([]);
+  const [redemptions, setRedemptions] = useState<Redemption[]>([]);
+  const [counts, setCounts] = useState<Partial<Record<RedemptionStatus, number>>>({});
+  const [statusFilter, setStatusFilter] = useState<RedemptionStatus | "">("REQUESTED");
+  const [loading, setLoading] = useState(true);
+  const [editing, setEditing] = useState<Reward | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [processing, setProcessing] = useState<{
+    redemption: Redemption;
+    status: RedemptionStatus;
+    comment: string;
+  } | null>(null);
+  const { toast } = useToast();
+
+  const loadRewards = useCallback(async () => {
+    try {
+      const response = await fetch("/api/admin/rewards");
+      if (response.ok) {
+        setRewards(await response.json());
+      }
+    } catch (error) {
+      console.error("Error loading rewards:", error);
+      toast({
+        title: "Ошибка",
+        description: "Не удалось загрузить награды",
+        variant: "destructive",
+      });
+    }
+  }, [toast]);
+
+  const loadRedemptions = useCallback(async () => {
+    try {
+      const response = await fetch(
+        `/api/admin/rewards/redemptions${statusFilter ? `?status=${statusFilter}` : ""}`
+      );
+      if (response.ok) {
+        const data = await response.json();
+        setRedemptions(data.items);
+        setCounts(data.counts);
+      }
+    } catch (error) {
+      console.error("Error loading redemptions:", error);
+      toast({
+        title: "Ошибка",
+        description: "Не удалось загрузить заявки",
+        variant: "destructive",
+      });
+    }
+  }, [statusFilter, toast]);
+
+  const loadData = useCallback(async () => {
+    setLoading(true);
+    await Promise.all([loadRewards(), loadRedemptions()]);
+    setLoading(false);
+  }, [loadRewards, loadRedemptions]);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  const sendReward = async (reward: Reward) => {
+    const response = await fetch("/api/admin/rewards", {
+      method: reward.id ? "PATCH" : "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(reward),
+    });
+    if (!response.ok) throw new Error("Failed to save reward");
+  };
+
+  const saveReward = async () => {
+    if (!editing?.title.trim() || !(editing.pointsCost > 0)) {
+      toast({
+        title: "Ошибка",
+        description: "Укажите название и стоимость в баллах",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await sendReward(editing);
+      toast({
+        title: "Успех",
+        description: editing.id ? "Награда обновлена" : "Награда добавлена",
+      });
+      setEditing(null);
+      loadRewards();
+    } catch (error) {
+      console.error("Error saving reward:", error);
+      toast({
+        title: "Ошибка",
+        description: "Не удалось сохранить",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleActive = async (reward: Reward) => {
+    try {
+      await sendReward({ ...reward, isActive: !reward.isActive });
+      loadRewards();
+    } catch (error) {
+      console.error("Error updating reward:", error);
+      toast({
+        title: "Ошибка",
+        description: "Не удалось обновить награду",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const removeReward = async (reward: Reward) => {
+    if (!confirm(`Удалить награду «${reward.title}»?`)) return;
+
+    try {
+      const response = await fetch(`/api/admin/rewards?id=${reward.id}`, { method: "DELETE" });
+      if (response.status === 409) {
+        toast({
+          title: "Ошибка",
+          description: "По награде есть заявки — её можно только отключить",
+          variant: "destructive",
+        });
+        return;
+      }
+      if (!response.ok) throw new Error("Failed to delete reward");
+      toast({ title: "Успех", description: "Награда удалена" });
+      loadRewards();
+    } catch (error) {
+      console.error("Error deleting reward:", error);
+      toast({
+        title: "Ошибка",
+        description: "Не удалось удалить",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const processRedemption = async () => {
+    if (!processing) return;
+    if (processing.status === "REJECTED" && !processing.comment.trim()) {
+      toast({
+        title: "Ошибка",
+        description: "Укажите причину отклонения",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      const response = await fetch("/api/admin/rewards/redemptions", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          id: processing.redemption.id,
+          status: processing.status,
+          comment: processing.comment,
+        }),
+      });
+      if (response.status === 409) {
+        toast({
+          title: "Ошибка",
+          description: "Заявку уже обработал другой администратор",
+          variant: "destructive",
+        });
+      } else if (!response.ok) {
+        throw new Error("Failed to update redemption");
+      } else {
+        toast({
+          title: "Успех",
+          description:
+            processing.status === "REJECTED"
+              ? "Заявка отклонена, баллы возвращены дилеру"
+              : "Статус заявки обновлён",
+        });
+      }
+      setProcessing(null);
+      loadData();
+    } catch (error) {
+      console.error("Error updating redemption:", error);
+      toast({
+        title: "Ошибка",
+        description: "Не удалось обновить заявку",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const setField = (field: keyof Reward, value: unknown) =>
+    setEditing((prev) => (prev ? { ...prev, [field]: value } : prev));
+
+  const toggleTier = (tier: Tier, checked: boolean) =>
+    setEditing((prev) =>
+      prev
+        ? {
+            ...prev,
+            tiers: checked ? [...prev.tiers, tier] : prev.tiers.filter((t) => t !== tier),
+          }
+        : prev
+    );
+
+  return (
+    <div className="space-y-6">
+      {/* Redemption requests */}
+      <Card className="bg-white/70 backdrop-blur-xl border-white/20 shadow-lg">
+        <CardHeader className="flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+          <CardTitle>Заявки на награды</CardTitle>
+          <div className="flex flex-wrap gap-2">
+            {(["REQUESTED", "APPROVED", "ISSUED", "REJECTED", ""] as const).map((status) => (
+              <Button
+                key={status || "all"}
+                size="sm"
+                variant={statusFilter === status ? "default" : "outline"}
+                onClick={() => setStatusFilter(status)}
+              >
+                {status ? STATUS_LABELS[status] : "Все"}
+                {status && counts[status] ? ` (${counts[status]})` : ""}
+              </Button>
+            ))}
+          </div>
+        </CardHeader>
+        <CardContent>
+          <div className="rounded-lg border bg-white overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Дата</TableHead>
+                  <TableHead>Дилер</TableHead>
+                  <TableHead>Награда</TableHead>
+                  <TableHead>Статус</TableHead>
+                  <TableHead className="text-right">Действия</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {loading ? (
+                  <TableRow>
+                    <TableCell colSpan={5}>
+                      <Skeleton className="h-4 w-full" />
+                    </TableCell>
+                  </TableRow>
+                ) : redemptions.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={5} className="text-center text-slate-500 py-8">
+                      Заявок нет
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  redemptions.map((redemption) => (
+                    <TableRow key={redemption.id}>
+                      <TableCell className="whitespace-nowrap text-sm">
+                        {format(new Date(redemption.createdAt), "dd.MM.yyyy HH:mm", {
+                          locale: ru,
+                        })}
+                      </TableCell>
+                      <TableCell>
+                        <div className="font-medium">
+                          {redemption.dealer.companyName || redemption.dealer.name}
+                        </div>
+                        <div className="text-xs text-slate-500">{redemption.dealer.email}</div>
+                      </TableCell>
+                      <TableCell>
+                        <div>{redemption.rewardTitle}</div>
+                        <div className="text-xs text-slate-500">
+                          {redemption.pointsCost.toLocaleString("ru-RU")} баллов
+                        </div>
+                        {redemption.comment && (
+                          <div className="text-xs text-slate-600 mt-1">
+                            «{redemption.comment}»
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="outline" className={STATUS_COLORS[redemption.status]}>
+                          {STATUS_LABELS[redemption.status]}
+                        </Badge>
+                        {redemption.adminComment && (
+                          <div className="text-xs text-slate-500 mt-1">
+                            {redemption.adminComment}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex gap-2 justify-end">
+                          {redemption.allowedTransitions.map((status) => (
+                            <Button
+                              key={status}
+                              size="sm"
+                              variant={status === "REJECTED" ? "outline" : "default"}
+                              onClick={() =>
+                                setProcessing({ redemption, status, comment: "" })
+                              }
+                            >
+                              {ACTION_LABELS[status]}
+                            </Button>
+                          ))}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Catalog */}
+      <Card className="bg-white/70 backdrop-blur-xl border-white/20 shadow-lg">
+        <CardHeader className="flex flex-row items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <Gift className="w-5 h-5" />
+            Каталог наград ({rewards.length})
+          </CardTitle>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={loadData} disabled={loading}>
+              <RefreshCw className={`w-4 h-4 mr-2 ${loading ? "animate-spin" : ""}`} />
+              Обновить
+            </Button>
+            <Button size="sm" onClick={() => setEditing({ ...emptyReward })}>
+              <Plus className="w-4 h-4 mr-2" />
+              Добавить
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <div className="rounded-lg border bg-white overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Награда</TableHead>
+                  <TableHead>Стоимость</TableHead>
+                  <TableHead>Остаток</TableHead>
+                  <TableHead>Тиры</TableHead>
+                  <TableHead>Активна</TableHead>
+                  <TableHead className="text-right">Действия</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {loading ? (
+                  Array(3)
+                    .fill(0)
+                    .map((_, i) => (
+                      <TableRow key={i}>
+                        <TableCell colSpan={6}>
+                          <Skeleton className="h-4 w-full" />
+                        </TableCell>
+                      </TableRow>
+                    ))
+                ) : rewards.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center text-slate-500 py-8">
+                      Наград пока нет
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  rewards.map((reward) => (
+                    <TableRow key={reward.id}>
+                      <TableCell>
+                        <div className="font-medium">{reward.title}</div>
+                        {!!reward.redemptionsCount && (
+                          <div className="text-xs text-slate-500">
+                            Заявок: {reward.redemptionsCount}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell>{reward.pointsCost.toLocaleString("ru-RU")}</TableCell>
+                      <TableCell>{reward.stock ?? "∞"}</TableCell>
+                      <TableCell className="text-sm text-slate-600">
+                        {reward.tiers.length === 0
+                          ? "Все"
+                          : TIER_OPTIONS.filter((t) => reward.tiers.includes(t.key))
+                              .map((t) => t.label)
+                              .join(", ")}
+                      </TableCell>
+                      <TableCell>
+                        <Switch
+                          checked={reward.isActive}
+                          onCheckedChange={() => toggleActive(reward)}
+                          aria-label={`Активность награды ${reward.title}`}
+                        />
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex gap-2 justify-end">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() =>
+                              setEditing({
+                                ...reward,
+                                description: reward.description || "",
+                                imageUrl: reward.imageUrl || "",
+                              })
+                            }
+                          >
+                            <Edit className="w-4 h-4" />
+                          </Button>
+                          <Button variant="outline" size="sm" onClick={() => removeReward(reward)}>
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Edit Dialog */}
+      <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editing?.id ? "Редактирование награды" : "Новая награда"}</DialogTitle>
+          </DialogHeader>
+          {editing && (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="reward-title">Название</Label>
+                <Input
+                  id="reward-title"
+                  value={editing.title}
+                  onChange={(e) => setField("title", e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="reward-description">Описание</Label>
+                <Textarea
+                  id="reward-description"
+                  value={editing.description || ""}
+                  onChange={(e) => setField("description", e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="reward-image">Ссылка на изображение</Label>
+                <Input
+                  id="reward-image"
+                  value={editing.imageUrl || ""}
+                  onChange={(e) => setField("imageUrl", e.target.value)}
+                />
+              </div>
+              <div className="grid grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="reward-cost">Баллы</Label>
+                  <Input
+                    id="reward-cost"
+                    type="number"
+                    min="1"
+                    value={editing.pointsCost}
+                    onChange={(e) => setField("pointsCost", parseInt(e.target.value || "0", 10))}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="reward-stock">Остаток</Label>
+                  <Input
+                    id="reward-stock"
+                    type="number"
+                    min="0"
+                    placeholder="без ограничений"
+                    value={editing.stock ?? ""}
+                    onChange={(e) =>
+                      setField("stock", e.target.value === "" ? null : parseInt(e.target.value, 10))
+                    }
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="reward-sort">Порядок</Label>
+                  <Input
+                    id="reward-sort"
+                    type="number"
+                    value={editing.sortOrder}
+                    onChange={(e) => setField("sortOrder", parseInt(e.target.value || "0", 10))}
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label>Доступна тирам (не выбрано — всем)</Label>
+                <div className="flex flex-wrap gap-4">
+                  {TIER_OPTIONS.map((tier) => (
+                    <div key={tier.key} className="flex items-center gap-2">
+                      <Checkbox
+                        id={`reward-tier-${tier.key}`}
+                        checked={editing.tiers.includes(tier.key)}
+                        onCheckedChange={(v) => toggleTier(tier.key, !!v)}
+                      />
+                      <Label htmlFor={`reward-tier-${tier.key}`} className="text-sm">
+                        {tier.label}
+                      </Label>
+                    </div>
+                  ))}
+                </div>
+              </div>
+              <div className="flex items-center justify-between">
+                <Label htmlFor="reward-active">Показывать в каталоге</Label>
+                <Switch
+                  id="reward-active"
+                  checked={editing.isActive}
+                  onCheckedChange={(checked) => setField("isActive", checked)}
+                />
+              </div>
+              <div className="flex justify-end gap-2">
+                <Button variant="outline" onClick={() => setEditing(null)}>
+                  Отмена
+                </Button>
+                <Button onClick={saveReward} disabled={saving}>
+                  <Save className="w-4 h-4 mr-2" />
+                  {saving ? "Сохранение..." : "Сохранить"}
+                </Button>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Process Dialog */}
+      <Dialog open={!!processing} onOpenChange={(open) => !open && setProcessing(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>
+              {processing && `${ACTION_LABELS[processing.status]}: ${processing.redemption.rewardTitle}`}
+            </DialogTitle>
+          </DialogHeader>
+          {processing && (
+            <div className="space-y-4">
+              {processing.status === "REJECTED" && (
+                <p className="text-sm text-slate-600">
+                  {processing.redemption.pointsCost.toLocaleString("ru-RU")} баллов вернутся
+                  дилеру.
+                </p>
+              )}
+              <div className="space-y-2">
+                <Label htmlFor="redemption-admin-comment">
+                  {processing.status === "REJECTED"
+                    ? "Причина отклонения"
+                    : "Комментарий для дилера (необязательно)"}
+                </Label>
+                <Textarea
+                  id="redemption-admin-comment"
+                  value={processing.comment}
+                  onChange={(e) => setProcessing({ ...processing, comment: e.target.value })}
+                />
+              </div>
+              <div className="flex justify-end gap-2">
+                <Button variant="outline" onClick={() => setProcessing(null)}>
+                  Отмена
+                </Button>
+                <Button onClick={processRedemption}>Подтвердить</Button>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
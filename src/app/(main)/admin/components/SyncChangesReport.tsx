@@ -0,0 +1,230 @@
+"use client";
+
+import { useState, useEffect, useMemo } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ArrowLeft, Download, Search } from "lucide-react";
+import { api, XmlSyncChange, XmlSyncChangeType } from "@/lib/api";
+
+type ChangeFilter = XmlSyncChangeType | "PRICE_UP" | "PRICE_DOWN" | "ALL";
+
+const CHANGE_TYPE_LABELS: Record<XmlSyncChangeType, { label: string; className: string }> = {
+  ADDED: { label: "Новые", className: "bg-green-50 text-green-700 border-green-200" },
+  REMOVED: { label: "Удалённые", className: "bg-red-50 text-red-700 border-red-200" },
+  PRICE_CHANGED: { label: "Цена", className: "bg-blue-50 text-blue-700 border-blue-200" },
+  OUT_OF_STOCK: { label: "Закончились", className: "bg-orange-50 text-orange-700 border-orange-200" },
+  BACK_IN_STOCK: { label: "Снова в наличии", className: "bg-emerald-50 text-emerald-700 border-emerald-200" },
+  PARAMS_CHANGED: { label: "Характеристики", className: "bg-slate-50 text-slate-700 border-slate-200" },
+};
+
+function formatPrice(price: number | null | undefined): string {
+  return price != null ? `${price.toLocaleString("ru-RU")} ₽` : "—";
+}
+
+function describeChange(change: XmlSyncChange): { before: string; after: string } {
+  switch (change.type) {
+    case "ADDED":
+      return { before: "—", after: formatPrice(change.newPrice) };
+    case "REMOVED":
+      return { before: formatPrice(change.oldPrice), after: "—" };
+    case "PRICE_CHANGED":
+      return { before: formatPrice(change.oldPrice), after: formatPrice(change.newPrice) };
+    case "OUT_OF_STOCK":
+    case "BACK_IN_STOCK":
+      return { before: change.oldValue || "—", after: change.newValue || "—" };
+    case "PARAMS_CHANGED":
+      return {
+        before: (change.details || []).map((d) => `${d.name}: ${d.oldValue ?? "—"}`).join("; "),
+        after: (change.details || []).map((d) => `${d.name}: ${d.newValue ?? "—"}`).join("; "),
+      };
+  }
+}
+
+function matchesFilter(change: XmlSyncChange, filter: ChangeFilter): boolean {
+  if (filter === "ALL") return true;
+  if (filter === "PRICE_UP" || filter === "PRICE_DOWN") {
+    if (change.type !== "PRICE_CHANGED") return false;
+    const delta = (change.newPrice ?? 0) - (change.oldPrice ?? 0);
+    return filter === "PRICE_UP" ? delta > 0 : delta < 0;
+  }
+  return change.type === filter;
+}
+
+/**
+ * Product change report of one XML sync run (diff against the previous catalog)
+ */
+export default function SyncChangesReport({
+  runId,
+  onBack,
+}: {
+  runId: string;
+  onBack: () => void;
+}) {
+  const [changes, setChanges] = useState<XmlSyncChange[]>([]);
+  const [summary, setSummary] = useState<Partial<Record<XmlSyncChangeType, number>>>({});
+  const [loading, setLoading] = useState(true);
+  const [filter, setFilter] = useState<ChangeFilter>("ALL");
+  const [searchQuery, setSearchQuery] = useState("");
+
+  useEffect(() => {
+    setLoading(true);
+    api
+      .getXmlSyncChanges(runId)
+      .then((data) => {
+        setChanges(data.changes);
+        setSummary(data.summary);
+      })
+      .catch((error) => console.error("Error loading sync changes:", error))
+      .finally(() => setLoading(false));
+  }, [runId]);
+
+  const priceUp = useMemo(
+    () => changes.filter((c) => matchesFilter(c, "PRICE_UP")).length,
+    [changes]
+  );
+  const priceDown = useMemo(
+    () => changes.filter((c) => matchesFilter(c, "PRICE_DOWN")).length,
+    [changes]
+  );
+
+  const filteredChanges = useMemo(() => {
+    const query = searchQuery.trim().toLowerCase();
+    return changes.filter(
+      (change) =>
+        matchesFilter(change, filter) &&
+        (!query ||
+          change.vendorCode.toLowerCase().includes(query) ||
+          change.productName.toLowerCase().includes(query))
+    );
+  }, [changes, filter, searchQuery]);
+
+  const handleExport = () => {
+    const escape = (value: string) => `"${value.replace(/"/g, '""')}"`;
+    const rows = filteredChanges.map((change) => {
+      const { before, after } = describeChange(change);
+      return [
+        change.vendorCode,
+        change.productName,
+        CHANGE_TYPE_LABELS[change.type].label,
+        before,
+        after,
+      ]
+        .map(escape)
+        .join(";");
+    });
+    const csv = ["Артикул;Товар;Изменение;Было;Стало", ...rows].join("\n");
+
+    // BOM so Excel opens the file as UTF-8
+    const blob = new Blob(["\uFEFF" + csv], { type: "text/csv;charset=utf-8" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `feed-changes-${runId}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const filterButton = (value: ChangeFilter, label: string, count: number) => (
+    <Button
+      key={value}
+      size="sm"
+      variant={filter === value ? "default" : "outline"}
+      onClick={() => setFilter(value)}
+    >
+      {label}: {count}
+    </Button>
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-2">
+        <Button variant="ghost" size="sm" onClick={onBack}>
+          <ArrowLeft className="w-4 h-4 mr-2" />
+          К истории
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={handleExport}
+          disabled={filteredChanges.length === 0}
+        >
+          <Download className="w-4 h-4 mr-2" />
+          CSV
+        </Button>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {filterButton("ALL", "Все", changes.length)}
+        {(Object.keys(CHANGE_TYPE_LABELS) as XmlSyncChangeType[]).map((type) =>
+          filterButton(type, CHANGE_TYPE_LABELS[type].label, summary[type] || 0)
+        )}
+        {filterButton("PRICE_UP", "Подорожали", priceUp)}
+        {filterButton("PRICE_DOWN", "Подешевели", priceDown)}
+      </div>
+
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400 w-4 h-4" />
+        <Input
+          placeholder="Поиск по артикулу или названию..."
+          value={searchQuery}
+          onChange={(e) => setSearchQuery(e.target.value)}
+          className="pl-10"
+        />
+      </div>
+
+      {loading ? (
+        <Skeleton className="h-32 w-full" />
+      ) : filteredChanges.length === 0 ? (
+        <div className="text-center text-slate-500 py-8">
+          {changes.length === 0
+            ? "Изменений нет (или это первая синхронизация фида)"
+            : "Ничего не найдено"}
+        </div>
+      ) : (
+        <div className="rounded-lg border bg-white overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Артикул</TableHead>
+                <TableHead>Товар</TableHead>
+                <TableHead>Изменение</TableHead>
+                <TableHead>Было</TableHead>
+                <TableHead>Стало</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {filteredChanges.map((change) => {
+                const { before, after } = describeChange(change);
+                return (
+                  <TableRow key={change.id}>
+                    <TableCell className="font-mono text-xs">{change.vendorCode}</TableCell>
+                    <TableCell className="max-w-xs">{change.productName}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline" className={CHANGE_TYPE_LABELS[change.type].className}>
+                        {CHANGE_TYPE_LABELS[change.type].label}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-sm text-slate-600 max-w-xs break-words">
+                      {before}
+                    </TableCell>
+                    <TableCell className="text-sm max-w-xs break-words">{after}</TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,378 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Warehouse as WarehouseIcon, Plus, RefreshCw, Edit, Trash2, Save } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+
+interface Warehouse {
+  id: string;
+  code: string;
+  name: string;
+  city: string | null;
+  region: string | null;
+  address: string | null;
+  isActive: boolean;
+  isAutoDiscovered: boolean;
+}
+
+const emptyWarehouse: Warehouse = {
+  id: "",
+  code: "",
+  name: "",
+  city: "",
+  region: "",
+  address: "",
+  isActive: true,
+  isAutoDiscovered: false,
+};
+
+/**
+ * Warehouse directory: names and cities for warehouse codes from the XML feeds
+ */
+export default function WarehouseManager() {
+  const [warehouses, setWarehouses] = useState<Warehouse[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editing, setEditing] = useState<Warehouse | null>(null);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  const loadWarehouses = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await fetch("/api/admin/warehouses");
+      if (response.ok) {
+        setWarehouses(await response.json());
+      }
+    } catch (error) {
+      console.error("Error loading warehouses:", error);
+      toast({
+        title: "Ошибка",
+        description: "Не удалось загрузить склады",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    loadWarehouses();
+  }, [loadWarehouses]);
+
+  const newCount = warehouses.filter((w) => w.isAutoDiscovered).length;
+
+  const saveWarehouse = async () => {
+    if (!editing?.code.trim() || !editing.name.trim()) {
+      toast({
+        title: "Ошибка",
+        description: "Код и название склада обязательны",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const response = await fetch("/api/admin/warehouses", {
+        method: editing.id ? "PATCH" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(editing),
+      });
+
+      if (response.status === 409) {
+        toast({
+          title: "Ошибка",
+          description: `Склад с кодом ${editing.code} уже существует`,
+          variant: "destructive",
+        });
+        return;
+      }
+      if (!response.ok) throw new Error("Failed to save warehouse");
+
+      toast({
+        title: "Успех",
+        description: editing.id ? "Склад обновлён" : "Склад добавлен",
+      });
+      setEditing(null);
+      loadWarehouses();
+    } catch (error) {
+      console.error("Error saving warehouse:", error);
+      toast({
+        title: "Ошибка",
+        description: "Не удалось сохранить",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (warehouse: Warehouse) => {
+    try {
+      const response = await fetch("/api/admin/warehouses", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ id: warehouse.id, isActive: !warehouse.isActive }),
+      });
+      if (!response.ok) throw new Error("Failed to update warehouse");
+      loadWarehouses();
+    } catch (error) {
+      console.error("Error updating warehouse:", error);
+      toast({
+        title: "Ошибка",
+        description: "Не удалось обновить склад",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const removeWarehouse = async (warehouse: Warehouse) => {
+    if (
+      !confirm(
+        `Удалить склад «${warehouse.name}»? Если он останется в фиде, то появится снова при следующей синхронизации.`
+      )
+    )
+      return;
+
+    try {
+      await fetch(`/api/admin/warehouses?id=${warehouse.id}`, { method: "DELETE" });
+      toast({ title: "Успех", description: "Склад удалён" });
+      loadWarehouses();
+    } catch (error) {
+      console.error("Error deleting warehouse:", error);
+      toast({
+        title: "Ошибка",
+        description: "Не удалось удалить",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const setField = (field: keyof Warehouse, value: string | boolean) =>
+    setEditing((prev) => (prev ? { ...prev, [field]: value } : prev));
+
+  return (
+    <div className="space-y-6">
+      <Card className="bg-white/70 backdrop-blur-xl border-white/20 shadow-lg">
+        <CardHeader className="flex flex-row items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <WarehouseIcon className="w-5 h-5" />
+              Склады ({warehouses.length})
+            </CardTitle>
+            <p className="text-sm text-slate-500 mt-1">
+              Склады из XML-фидов добавляются автоматически. Укажите название и
+              город, чтобы пользователи видели остатки своего города.
+              {newCount > 0 && ` Новых, требующих проверки: ${newCount}.`}
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={loadWarehouses}
+              disabled={loading}
+            >
+              <RefreshCw
+                className={`w-4 h-4 mr-2 ${loading ? "animate-spin" : ""}`}
+              />
+              Обновить
+            </Button>
+            <Button size="sm" onClick={() => setEditing({ ...emptyWarehouse })}>
+              <Plus className="w-4 h-4 mr-2" />
+              Добавить
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <div className="rounded-lg border bg-white overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Код</TableHead>
+                  <TableHead>Название</TableHead>
+                  <TableHead>Город</TableHead>
+                  <TableHead>Регион</TableHead>
+                  <TableHead>Адрес</TableHead>
+                  <TableHead>Активен</TableHead>
+                  <TableHead className="text-right">Действия</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {loading ? (
+                  Array(3)
+                    .fill(0)
+                    .map((_, i) => (
+                      <TableRow key={i}>
+                        <TableCell colSpan={7}>
+                          <Skeleton className="h-4 w-full" />
+                        </TableCell>
+                      </TableRow>
+                    ))
+                ) : warehouses.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={7} className="text-center text-slate-500 py-8">
+                      Склады появятся после синхронизации XML-фида
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  warehouses.map((warehouse) => (
+                    <TableRow key={warehouse.id}>
+                      <TableCell className="font-mono text-xs">{warehouse.code}</TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          <span className="font-medium">{warehouse.name}</span>
+                          {warehouse.isAutoDiscovered && (
+                            <Badge
+                              variant="outline"
+                              className="bg-amber-50 text-amber-700 border-amber-200"
+                            >
+                              новый
+                            </Badge>
+                          )}
+                        </div>
+                      </TableCell>
+                      <TableCell>{warehouse.city || "—"}</TableCell>
+                      <TableCell>{warehouse.region || "—"}</TableCell>
+                      <TableCell className="max-w-xs text-sm text-slate-600">
+                        {warehouse.address || "—"}
+                      </TableCell>
+                      <TableCell>
+                        <Switch
+                          checked={warehouse.isActive}
+                          onCheckedChange={() => handleToggleActive(warehouse)}
+                          aria-label={`Активность склада ${warehouse.name}`}
+                        />
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex gap-2 justify-end">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() =>
+                              setEditing({
+                                ...warehouse,
+                                city: warehouse.city || "",
+                                region: warehouse.region || "",
+                                address: warehouse.address || "",
+                              })
+                            }
+                          >
+                            <Edit className="w-4 h-4" />
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => removeWarehouse(warehouse)}
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Edit Dialog */}
+      <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>
+              {editing?.id ? "Редактирование склада" : "Новый склад"}
+            </DialogTitle>
+          </DialogHeader>
+          {editing && (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="warehouse-code">Код в фиде (warehouse_id)</Label>
+                <Input
+                  id="warehouse-code"
+                  value={editing.code}
+                  onChange={(e) => setField("code", e.target.value)}
+                  disabled={!!editing.id}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="warehouse-name">Название</Label>
+                <Input
+                  id="warehouse-name"
+                  value={editing.name}
+                  onChange={(e) => setField("name", e.target.value)}
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="warehouse-city">Город</Label>
+                  <Input
+                    id="warehouse-city"
+                    value={editing.city || ""}
+                    onChange={(e) => setField("city", e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="warehouse-region">Регион</Label>
+                  <Input
+                    id="warehouse-region"
+                    value={editing.region || ""}
+                    onChange={(e) => setField("region", e.target.value)}
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="warehouse-address">Адрес</Label>
+                <Input
+                  id="warehouse-address"
+                  value={editing.address || ""}
+                  onChange={(e) => setField("address", e.target.value)}
+                />
+              </div>
+              <div className="flex items-center justify-between">
+                <Label htmlFor="warehouse-active">Показывать остатки склада</Label>
+                <Switch
+                  id="warehouse-active"
+                  checked={editing.isActive}
+                  onCheckedChange={(checked) => setField("isActive", checked)}
+                />
+              </div>
+              <div className="flex justify-end gap-2">
+                <Button variant="outline" onClick={() => setEditing(null)}>
+                  Отмена
+                </Button>
+                <Button onClick={saveWarehouse} disabled={saving}>
+                  <Save className="w-4 h-4 mr-2" />
+                  {saving ? "Сохранение..." : "Сохранить"}
+                </Button>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
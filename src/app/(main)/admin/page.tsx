@@ -15,6 +15,12 @@ import {
   Image,
   Award,
   BookOpen,
+  Warehouse,
+  ShoppingCart,
+  Coins,
+  Gift,
+  Plug,
+  Tags,
 } from "lucide-react";
 
 // Admin managers
@@ -27,17 +33,30 @@ import VideoManager from "./components/VideoManager";
 import BannerManager from "./components/BannerManager";
 import DealerManager from "./components/DealerManager";
 import TipsAdmin from "./components/TipsAdmin";
+import WarehouseManager from "./components/WarehouseManager";
+import OrderManager from "./components/OrderManager";
+import BonusRulesManager from "./components/BonusRulesManager";
+import RewardsManager from "./components/RewardsManager";
+import IntegrationsManager from "./components/IntegrationsManager";
+import PriceTypesManager from "./components/PriceTypesManager";
 
 export default function AdminPage() {
-  const { user, loading: userLoading } = useUser();
+  const { user, loading: userLoading, isAdmin, canManageOrders } = useUser();
   const router = useRouter();
   const [activeTab, setActiveTab] = useState("knowledge");
 
   useEffect(() => {
-    if (!userLoading && (!user || user.role !== "ADMIN")) {
+    if (!userLoading && !canManageOrders) {
       router.push("/chat");
     }
-  }, [user, userLoading, router]);
+  }, [canManageOrders, userLoading, router]);
+
+  // Managers only work with orders
+  useEffect(() => {
+    if (!userLoading && canManageOrders && !isAdmin) {
+      setActiveTab("orders");
+    }
+  }, [isAdmin, canManageOrders, userLoading]);
 
   if (userLoading) {
     return (
@@ -48,12 +67,15 @@ export default function AdminPage() {
     );
   }
 
-  if (!user || user.role !== "ADMIN") {
+  if (!user || !canManageOrders) {
     return null;
   }
 
-  const tabs = [
+  const allTabs = [
     { id: "knowledge", label: "База знаний", icon: Database },
+    { id: "orders", label: "Заказы", icon: ShoppingCart },
+    { id: "warehouses", label: "Склады", icon: Warehouse },
+    { id: "price-types", label: "Типы цен", icon: Tags },
     { id: "settings", label: "Настройки ИИ", icon: Settings },
     { id: "chat", label: "История чатов", icon: MessageSquare },
     { id: "users", label: "Пользователи", icon: Users },
@@ -62,12 +84,18 @@ export default function AdminPage() {
     { id: "tips", label: "Советы", icon: BookOpen },
     { id: "banners", label: "Баннеры", icon: Image },
     { id: "dealers", label: "Дилеры", icon: Award },
+    { id: "bonus-rules", label: "Начисление баллов", icon: Coins },
+    { id: "rewards", label: "Награды", icon: Gift },
+    { id: "integrations", label: "Интеграции", icon: Plug },
   ];
+  const tabs = isAdmin ? allTabs : allTabs.filter((tab) => tab.id === "orders");
 
   return (
     <div className="container mx-auto px-4 py-8">
       <div className="mb-8">
-        <h1 className="text-2xl font-bold text-slate-900">Панель администратора</h1>
+        <h1 className="text-2xl font-bold text-slate-900">
+          {isAdmin ? "Панель администратора" : "Управление заказами"}
+        </h1>
         <p className="text-slate-600 mt-1">
           Управление системой Floor Service Hub
         </p>
@@ -91,6 +119,18 @@ export default function AdminPage() {
           <KnowledgeManager />
         </TabsContent>
 
+        <TabsContent value="orders">
+          <OrderManager />
+        </TabsContent>
+
+        <TabsContent value="warehouses">
+          <WarehouseManager />
+        </TabsContent>
+
+        <TabsContent value="price-types">
+          <PriceTypesManager />
+        </TabsContent>
+
         <TabsContent value="settings">
           <SettingsManager />
         </TabsContent>
@@ -122,6 +162,18 @@ export default function AdminPage() {
         <TabsContent value="dealers">
           <DealerManager />
         </TabsContent>
+
+        <TabsContent value="bonus-rules">
+          <BonusRulesManager />
+        </TabsContent>
+
+        <TabsContent value="rewards">
+          <RewardsManager />
+        </TabsContent>
+
+        <TabsContent value="integrations">
+          <IntegrationsManager />
+        </TabsContent>
       </Tabs>
     </div>
   );
@@ -1,7 +1,8 @@
 "use client";
 
-import React, { useState, useEffect, useMemo, useDeferredValue, useCallback } from "react";
+import React, { useState, useEffect, useDeferredValue, useCallback } from "react";
 import Image from "next/image";
+import Link from "next/link";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -15,6 +16,7 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Separator } from "@/components/ui/separator";
+import { Switch } from "@/components/ui/switch";
 import {
   Collapsible,
   CollapsibleContent,
@@ -30,6 +32,9 @@ import {
   Info,
   Percent,
   Heart,
+  FilePlus,
+  Home,
+  PenLine,
 } from "lucide-react";
 import {
   Tooltip,
@@ -38,91 +43,82 @@ import {
   TooltipTrigger,
 } from "@/components/ui/tooltip";
 import { useProductData } from "@/components/context/ProductDataContext";
+import { useUser } from "@/components/context/UserContext";
 import { parseStock } from "@/components/sku/SkuUtils";
-import type { Product } from "@/lib/api";
+import { useToast } from "@/components/ui/use-toast";
+import AddToCartButton from "@/components/cart/AddToCartButton";
+import QuoteDraftPanel from "@/components/quotes/QuoteDraftPanel";
+import RoomShapeDialog from "@/components/calculator/RoomShapeDialog";
+import { useQuoteDraft, QuoteDraftLine } from "@/hooks/useQuoteDraft";
+import { api, Product } from "@/lib/api";
+import {
+  areaPerPackageFromParams,
+  calculateFlooring,
+  CalculatorResults,
+  EMPTY_RESULTS,
+  InstallationType,
+} from "@/lib/calculator";
+import { measureShape, RoomShape } from "@/lib/room-shape";
 
 interface CalculatorState {
   area: string;
-  installationType: string;
+  shape: RoomShape | null;
+  installationType: InstallationType;
   discount: string;
 }
 
-interface CalculatorResults {
-  cleanArea: number;
-  areaWithReserve: number;
-  packagesNeeded: number;
-  baseCost: number;
-  totalCost: number;
-  myEarnings: number;
-}
-
-function ProductCalculator({ product }: { product: Product }) {
-  const [state, setState] = useState<CalculatorState>({
-    area: "",
-    installationType: "straight",
-    discount: "",
-  });
-  const [results, setResults] = useState<CalculatorResults>({
-    cleanArea: 0,
-    areaWithReserve: 0,
-    packagesNeeded: 0,
-    baseCost: 0,
-    totalCost: 0,
-    myEarnings: 0,
-  });
+const EMPTY_STATE: CalculatorState = {
+  area: "",
+  shape: null,
+  installationType: "straight",
+  discount: "",
+};
+
+function ProductCalculator({
+  product,
+  onAddToQuote,
+}: {
+  product: Product;
+  onAddToQuote: (line: QuoteDraftLine, discount: string) => void;
+}) {
+  const [state, setState] = useState<CalculatorState>(EMPTY_STATE);
+  const [results, setResults] = useState<CalculatorResults>(EMPTY_RESULTS);
   const [isOpen, setIsOpen] = useState(false);
+  const [shapeOpen, setShapeOpen] = useState(false);
+  const [savedEstimateId, setSavedEstimateId] = useState<string | null>(null);
+  const [savingEstimate, setSavingEstimate] = useState(false);
+  const { toast } = useToast();
+  const shapeMeasurements = state.shape ? measureShape(state.shape) : null;
 
-  const areaPerPackage = product.params?.["Кол-во м2 в упаковке"]
-    ? parseFloat(
-        String(product.params["Кол-во м2 в упаковке"]).replace(",", ".")
-      )
-    : null;
+  const areaPerPackage = areaPerPackageFromParams(product.params);
   const pricePerM2 = product.price || 0;
 
   const calculateResults = useCallback(() => {
-    const reserveCoefficients: Record<string, number> = {
-      straight: 1.05,
-      diagonal: 1.1,
-      herringbone: 1.15,
-    };
-
     if (!areaPerPackage || !pricePerM2) return;
 
-    const cleanArea = parseFloat(state.area) || 0;
-    const userDiscount = Math.min(
-      Math.max(0, parseFloat(state.discount) || 0),
-      10
+    setResults(
+      calculateFlooring({
+        area: parseFloat(state.area) || 0,
+        installationType: state.installationType,
+        discountPercent: parseFloat(state.discount) || 0,
+        areaPerPackage,
+        pricePerM2,
+      })
     );
-
-    if (cleanArea <= 0) {
-      setResults({
-        cleanArea: 0,
-        areaWithReserve: 0,
-        packagesNeeded: 0,
-        baseCost: 0,
-        totalCost: 0,
-        myEarnings: 0,
-      });
-      return;
-    }
-
-    const reserveCoeff = reserveCoefficients[state.installationType];
-    const areaWithReserve = cleanArea * reserveCoeff;
-    const packagesNeeded = Math.ceil(areaWithReserve / areaPerPackage);
-    const baseCost = areaWithReserve * pricePerM2;
-    const earnings = baseCost * (userDiscount / 100);
-    const totalCost = baseCost - earnings;
-
-    setResults({
-      cleanArea: Math.round(cleanArea * 100) / 100,
-      areaWithReserve: Math.round(areaWithReserve * 100) / 100,
-      packagesNeeded,
-      baseCost: Math.round(baseCost * 100) / 100,
-      totalCost: Math.round(totalCost * 100) / 100,
-      myEarnings: Math.round(earnings * 100) / 100,
-    });
   }, [state, areaPerPackage, pricePerM2]);
 
+  // Purchase cost of the same amount at the user's own price; margin is taken after the discount
+  const purchaseCost =
+    product.dealerPrice && areaPerPackage && results.cleanArea > 0
+      ? calculateFlooring({
+          area: results.cleanArea,
+          installationType: state.installationType,
+          discountPercent: 0,
+          areaPerPackage,
+          pricePerM2: product.dealerPrice.purchasePrice,
+        }).baseCost
+      : null;
+
   useEffect(() => {
     calculateResults();
   }, [calculateResults]);
@@ -142,15 +138,61 @@ function ProductCalculator({ product }: { product: Product }) {
   };
 
   const clearCalculation = () => {
-    setState({ area: "", installationType: "straight", discount: "" });
-    setResults({
-      cleanArea: 0,
-      areaWithReserve: 0,
-      packagesNeeded: 0,
-      baseCost: 0,
-      totalCost: 0,
-      myEarnings: 0,
-    });
+    setState(EMPTY_STATE);
+    setResults(EMPTY_RESULTS);
+  };
+
+  // A changed calculation is a new one: the heart shows whether the current inputs are saved
+  useEffect(() => {
+    setSavedEstimateId(null);
+  }, [state]);
+
+  const toggleSavedEstimate = async () => {
+    setSavingEstimate(true);
+    try {
+      if (savedEstimateId) {
+        await api.deleteEstimate(savedEstimateId);
+        setSavedEstimateId(null);
+        toast({ title: "Расчёт удалён из сохранённых" });
+      } else {
+        const estimate = await api.createEstimate({
+          vendorCode: product.vendorCode,
+          area: results.cleanArea,
+          shape: state.shape,
+          installationType: state.installationType,
+          discountPercent: parseFloat(state.discount) || 0,
+        });
+        setSavedEstimateId(estimate.id);
+        toast({ title: "Расчёт сохранён", description: "Он доступен в «Сохранённых расчётах» личного кабинета." });
+      }
+    } catch (error) {
+      toast({
+        title: "Ошибка",
+        description: error instanceof Error ? error.message : "Не удалось сохранить расчёт.",
+        variant: "destructive",
+      });
+    } finally {
+      setSavingEstimate(false);
+    }
+  };
+
+  // The shape replaces the typed area; results are calculated from its exact area
+  const applyShape = (shape: RoomShape) =>
+    setState((prev) => ({ ...prev, shape, area: String(measureShape(shape).area) }));
+
+  const addToQuote = () => {
+    if (!areaPerPackage) return;
+    onAddToQuote(
+      {
+        vendorCode: product.vendorCode,
+        productName: product.name,
+        area: results.cleanArea,
+        installationType: state.installationType,
+        areaPerPackage,
+        pricePerM2,
+      },
+      state.discount
+    );
   };
 
   if (!areaPerPackage || !pricePerM2) {
@@ -186,10 +228,33 @@ function ProductCalculator({ product }: { product: Product }) {
               type="text"
               inputMode="decimal"
               value={state.area}
+              disabled={Boolean(state.shape)}
               onChange={(e) => handleNumberInput(e.target.value, "area")}
               placeholder="Например, 40"
               className="mt-1 text-sm"
             />
+            <div className="flex flex-wrap items-center gap-2 mt-2">
+              <Button variant="outline" size="sm" onClick={() => setShapeOpen(true)} className="text-xs">
+                <PenLine className="w-3.5 h-3.5 mr-1" />
+                {state.shape ? "Изменить форму помещения" : "Помещение сложной формы"}
+              </Button>
+              {state.shape && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setState((prev) => ({ ...prev, shape: null }))}
+                  className="text-xs"
+                >
+                  Ввести площадь вручную
+                </Button>
+              )}
+            </div>
+            <RoomShapeDialog
+              open={shapeOpen}
+              shape={state.shape}
+              onApply={applyShape}
+              onOpenChange={setShapeOpen}
+            />
           </div>
 
           <div>
@@ -211,7 +276,7 @@ function ProductCalculator({ product }: { product: Product }) {
             <Select
               value={state.installationType}
               onValueChange={(value) =>
-                setState((prev) => ({ ...prev, installationType: value }))
+                setState((prev) => ({ ...prev, installationType: value as InstallationType }))
               }
             >
               <SelectTrigger className="text-sm">
@@ -263,16 +328,33 @@ function ProductCalculator({ product }: { product: Product }) {
         {results.cleanArea > 0 && (
           <div className="space-y-3 mt-3">
             <Card className="bg-white/80 border-slate-200">
-              <CardHeader className="p-3 pb-2">
+              <CardHeader className="p-3 pb-2 flex flex-row items-center justify-between space-y-0">
                 <CardTitle className="text-sm font-semibold text-slate-800">
                   Результаты расчета
                 </CardTitle>
+                <button
+                  onClick={toggleSavedEstimate}
+                  disabled={savingEstimate}
+                  className="text-slate-400 hover:text-red-500 disabled:opacity-50 transition"
+                  aria-label={savedEstimateId ? "Убрать из сохранённых" : "Сохранить расчёт"}
+                  title={savedEstimateId ? "Убрать из сохранённых" : "Сохранить расчёт"}
+                >
+                  <Heart className={`w-5 h-5 ${savedEstimateId ? "text-red-500 fill-current" : ""}`} />
+                </button>
               </CardHeader>
               <CardContent className="p-3 pt-0 space-y-2 text-xs">
                 <div className="flex justify-between">
                   <span>Площадь с запасом:</span>
                   <span className="font-bold">{results.areaWithReserve} м²</span>
                 </div>
+                {shapeMeasurements && (
+                  <div className="flex justify-between">
+                    <span>Длина плинтуса (без вычета дверей):</span>
+                    <span className="font-bold">
+                      {Math.round((shapeMeasurements.perimeter + shapeMeasurements.columnsPerimeter) * 100) / 100} м
+                    </span>
+                  </div>
+                )}
                 <div className="flex justify-between">
                   <span>Нужно упаковок:</span>
                   <span className="font-bold text-[#007AFF]">
@@ -301,6 +383,20 @@ function ProductCalculator({ product }: { product: Product }) {
                     {results.totalCost.toLocaleString("ru-RU")} ₽
                   </span>
                 </div>
+                {purchaseCost !== null && (
+                  <>
+                    <div className="flex justify-between text-slate-600">
+                      <span>Ваша закупка:</span>
+                      <span className="font-bold">{purchaseCost.toLocaleString("ru-RU")} ₽</span>
+                    </div>
+                    <div className="flex justify-between text-green-600">
+                      <span>Ваша маржа:</span>
+                      <span className="font-bold">
+                        {(Math.round((results.totalCost - purchaseCost) * 100) / 100).toLocaleString("ru-RU")} ₽
+                      </span>
+                    </div>
+                  </>
+                )}
               </CardContent>
             </Card>
 
@@ -321,6 +417,18 @@ function ProductCalculator({ product }: { product: Product }) {
                 </div>
               </div>
             )}
+
+            <AddToCartButton
+              vendorCode={product.vendorCode}
+              quantity={results.packagesNeeded}
+              source="CALCULATOR"
+              label={`Добавить ${results.packagesNeeded} уп. в корзину`}
+              className="w-full"
+            />
+            <Button variant="outline" onClick={addToQuote} className="w-full">
+              <FilePlus className="w-4 h-4 mr-2" />
+              Добавить в коммерческое предложение
+            </Button>
           </div>
         )}
       </CollapsibleContent>
@@ -329,34 +437,62 @@ function ProductCalculator({ product }: { product: Product }) {
 }
 
 export default function CalculatorPage() {
-  const { calculatorProducts, loading } = useProductData();
+  const { searchProducts } = useProductData();
+  const { user } = useUser();
+  const { draft, addLine, removeLine, setDiscount, clear } = useQuoteDraft();
+  const { toast } = useToast();
   const [searchQuery, setSearchQuery] = useState("");
+  const [onlyMyCity, setOnlyMyCity] = useState(false);
   const deferredQuery = useDeferredValue(searchQuery);
   const [page, setPage] = useState(1);
+  const [pagedProducts, setPagedProducts] = useState<Product[]>([]);
+  const [totalProducts, setTotalProducts] = useState(0);
+  const [loading, setLoading] = useState(true);
   const pageSize = 12;
 
-  const filteredProducts = useMemo(() => {
-    if (!deferredQuery.trim()) return calculatorProducts;
-
-    const query = deferredQuery.toLowerCase();
-    return calculatorProducts.filter(
-      (product) =>
-        product.name?.toLowerCase().includes(query) ||
-        product.vendorCode?.toLowerCase().includes(query) ||
-        product.vendor?.toLowerCase().includes(query)
-    );
-  }, [calculatorProducts, deferredQuery]);
+  const cityFilter = onlyMyCity && user?.city ? user.city : undefined;
 
   useEffect(() => {
     setPage(1);
-  }, [deferredQuery]);
+  }, [deferredQuery, cityFilter]);
 
-  const start = (page - 1) * pageSize;
-  const end = start + pageSize;
-  const pagedProducts = filteredProducts.slice(start, end);
+  // Calculator products (with price and area per package) are paged on the server
+  useEffect(() => {
+    let cancelled = false;
+
+    searchProducts(deferredQuery, {
+      calculator: true,
+      city: cityFilter,
+      limit: pageSize,
+      offset: (page - 1) * pageSize,
+    })
+      .then((result) => {
+        if (cancelled) return;
+        setPagedProducts(result.items);
+        setTotalProducts(result.total);
+      })
+      .catch((error) => console.error("Error loading products:", error))
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [searchProducts, deferredQuery, cityFilter, page]);
+
+  const handleAddToQuote = (line: QuoteDraftLine, discount: string) => {
+    addLine(line, discount);
+    toast({
+      title: "Добавлено в предложение",
+      description: `${line.productName}, ${line.area} м²`,
+    });
+  };
+
+  const end = page * pageSize;
 
   const canPrev = page > 1;
-  const canNext = end < filteredProducts.length;
+  const canNext = end < totalProducts;
   const goPrev = () => setPage((p) => Math.max(1, p - 1));
   const goNext = () => setPage((p) => p + 1);
 
@@ -396,15 +532,34 @@ export default function CalculatorPage() {
             />
           </div>
 
-          <div className="mt-4 md:mt-6 text-center">
+          <div className="mt-4 md:mt-6 flex flex-wrap items-center justify-center gap-4">
             <Badge variant="outline" className="bg-white/50 border-slate-200">
-              Найдено товаров с возможностью расчета: {filteredProducts.length}
+              Найдено товаров с возможностью расчета: {totalProducts}
             </Badge>
+            <Button asChild variant="outline" size="sm">
+              <Link href="/calculator/project">
+                <Home className="w-4 h-4 mr-2" />
+                Расчёт объекта из нескольких помещений
+              </Link>
+            </Button>
+            {user?.city && (
+              <label className="flex items-center gap-2 text-sm text-slate-600">
+                <Switch checked={onlyMyCity} onCheckedChange={setOnlyMyCity} />
+                В наличии в г. {user.city}
+              </label>
+            )}
           </div>
         </div>
 
+        <QuoteDraftPanel
+          draft={draft}
+          onRemove={removeLine}
+          onDiscountChange={setDiscount}
+          onClear={clear}
+        />
+
         {/* Products Grid */}
-        {filteredProducts.length > 0 ? (
+        {totalProducts > 0 ? (
           <>
             <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 md:gap-8">
               {pagedProducts.map((product, index) => {
@@ -469,6 +624,16 @@ export default function CalculatorPage() {
                             {product.price} ₽/м²
                           </span>
                         </div>
+                        {product.dealerPrice && (
+                          <div className="flex items-center gap-1">
+                            <span className="font-semibold text-slate-700">
+                              Ваша цена {product.dealerPrice.purchasePrice.toLocaleString("ru-RU")} ₽/м²
+                            </span>
+                            <span className="text-green-600">
+                              (маржа {product.dealerPrice.marginPercent}%)
+                            </span>
+                          </div>
+                        )}
                         <div className="flex items-center gap-1">
                           <Archive
                             className={`w-4 h-4 ${stockInfo.inStock ? "text-green-600" : "text-red-600"}`}
@@ -487,14 +652,14 @@ export default function CalculatorPage() {
                     </CardHeader>
 
                     <CardContent className="w-full">
-                      <ProductCalculator product={product} />
+                      <ProductCalculator product={product} onAddToQuote={handleAddToQuote} />
                     </CardContent>
                   </Card>
                 );
               })}
             </div>
             {/* Pagination */}
-            {filteredProducts.length > pageSize && (
+            {totalProducts > pageSize && (
               <div className="flex justify-center items-center gap-3 mt-6">
                 <Button variant="outline" onClick={goPrev} disabled={!canPrev}>
                   Назад
@@ -0,0 +1,9 @@
+"use client";
+
+import { useParams } from "next/navigation";
+import ProjectCalculator from "@/components/projects/ProjectCalculator";
+
+export default function ProjectPage() {
+  const { id } = useParams<{ id: string }>();
+  return <ProjectCalculator projectId={id} />;
+}
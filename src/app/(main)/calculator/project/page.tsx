@@ -0,0 +1,7 @@
+"use client";
+
+import ProjectCalculator from "@/components/projects/ProjectCalculator";
+
+export default function NewProjectPage() {
+  return <ProjectCalculator />;
+}
@@ -0,0 +1,472 @@
+"use client";
+
+import React, { useState, useEffect, useRef } from "react";
+import Link from "next/link";
+import Image from "next/image";
+import { useRouter } from "next/navigation";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Separator } from "@/components/ui/separator";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  Loader2,
+  PlusCircle,
+  ShoppingCart,
+  Trash2,
+  Minus,
+  Plus,
+  AlertCircle,
+} from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useUser } from "@/components/context/UserContext";
+import { useCart } from "@/components/context/CartContext";
+import { api, CartLine } from "@/lib/api";
+
+interface LegalEntity {
+  id: string;
+  name: string;
+  inn: string;
+  isDefault?: boolean;
+}
+
+function issueText(line: CartLine): string | null {
+  switch (line.issue) {
+    case "NOT_FOUND":
+      return "Товара больше нет в каталоге";
+    case "NO_PRICE":
+      return "Цена не указана — уточните у менеджера";
+    case "OUT_OF_STOCK":
+      return "Нет в наличии";
+    case "NOT_ENOUGH_STOCK":
+      return `В наличии только ${line.availableQty} ${line.unit}`;
+    default:
+      return null;
+  }
+}
+
+export default function CartPage() {
+  const { user } = useUser();
+  const { cart, loading, updateQuantity, removeItem, refresh } = useCart();
+  const router = useRouter();
+  const { toast } = useToast();
+  const [formData, setFormData] = useState({
+    userName: "",
+    userEmail: "",
+    phoneNumber: "",
+    city: "",
+    retailPoint: "",
+    legalEntityId: "",
+    comment: "",
+  });
+  const [legalEntities, setLegalEntities] = useState<LegalEntity[]>([]);
+  const [entitiesLoading, setEntitiesLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  // One key per checkout attempt: a retried or double submit returns the same order
+  const idempotencyKey = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!user) return;
+
+    // Fill form with user data
+    setFormData((prev) => ({
+      ...prev,
+      userName: user.displayName || user.fullName || "",
+      userEmail: user.email || "",
+      phoneNumber: user.phone || "",
+      city: user.city || "",
+      retailPoint: user.retailPoint || "",
+    }));
+
+    const loadLegalEntities = async () => {
+      try {
+        const response = await fetch("/api/legal-entities");
+        if (response.ok) {
+          const entities: LegalEntity[] = await response.json();
+          setLegalEntities(entities);
+
+          // Set default entity
+          if (entities.length > 0) {
+            const defaultEntity = entities.find((e) => e.isDefault);
+            setFormData((prev) => ({
+              ...prev,
+              legalEntityId: defaultEntity?.id || entities[0].id,
+            }));
+          }
+        }
+      } catch (error) {
+        console.error("Failed to load legal entities:", error);
+      } finally {
+        setEntitiesLoading(false);
+      }
+    };
+
+    loadLegalEntities();
+  }, [user]);
+
+  // Cart may have changed in another tab or after a feed sync
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const handleChange = (
+    e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>
+  ) => {
+    const { id, value } = e.target;
+    setFormData((prev) => ({ ...prev, [id]: value }));
+  };
+
+  const changeQuantity = async (line: CartLine, quantity: number) => {
+    if (quantity < 1) return;
+    try {
+      await updateQuantity(line.vendorCode, quantity);
+    } catch (error) {
+      console.error("Failed to update cart", error);
+      toast({
+        title: "Ошибка",
+        description: "Не удалось изменить количество",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleRemove = async (line: CartLine) => {
+    try {
+      await removeItem(line.vendorCode);
+    } catch (error) {
+      console.error("Failed to remove from cart", error);
+      toast({
+        title: "Ошибка",
+        description: "Не удалось удалить товар",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    idempotencyKey.current ??= crypto.randomUUID();
+
+    try {
+      const order = await api.createOrder({
+        userName: formData.userName,
+        userEmail: formData.userEmail,
+        phoneNumber: formData.phoneNumber,
+        city: formData.city,
+        retailPoint: formData.retailPoint,
+        legalEntityId: formData.legalEntityId || undefined,
+        comment: formData.comment,
+      }, idempotencyKey.current);
+
+      idempotencyKey.current = null;
+      toast({
+        title: "Заказ успешно создан!",
+        description: `Номер вашего заказа: ${order.orderNumber}`,
+      });
+      await refresh();
+      router.push("/account/orders");
+    } catch (error) {
+      console.error("Failed to create order", error);
+      // Prices or stock may have changed - show the current state of the cart
+      await refresh();
+      toast({
+        title: "Ошибка создания заказа",
+        description: "Проверьте позиции корзины и попробуйте еще раз.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const isSubmitDisabled =
+    isSaving ||
+    cart.lines.length === 0 ||
+    cart.hasIssues ||
+    (!formData.legalEntityId && legalEntities.length > 0);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-blue-50 to-indigo-50 p-6">
+      <div className="max-w-4xl mx-auto w-full space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold bg-gradient-to-r from-[#0A84FF] to-[#007AFF] bg-clip-text text-transparent">
+            Корзина
+          </h1>
+          <p className="text-slate-600 mt-1">
+            Цены и наличие пересчитываются по актуальному каталогу
+          </p>
+        </div>
+
+        {loading && cart.lines.length === 0 ? (
+          <div className="h-32 bg-white/60 rounded-2xl animate-pulse" />
+        ) : cart.lines.length === 0 ? (
+          <Card className="bg-white/60 backdrop-blur-sm border-white/20 text-center p-12">
+            <CardContent>
+              <ShoppingCart className="w-16 h-16 text-slate-400 mx-auto mb-4" />
+              <h3 className="text-lg font-medium text-slate-800 mb-2">
+                Корзина пуста
+              </h3>
+              <p className="text-slate-600">
+                Добавляйте товары из чата, калькулятора или подбора по цвету
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            <Card className="bg-white/70 backdrop-blur-xl border-white/20 shadow-lg">
+              <CardContent className="p-4 space-y-3">
+                {cart.lines.map((line) => {
+                  const issue = issueText(line);
+                  return (
+                    <div
+                      key={line.vendorCode}
+                      className="flex flex-col sm:flex-row sm:items-center gap-3 py-2 border-b border-slate-100 last:border-0"
+                    >
+                      <div className="flex items-center gap-3 flex-1 min-w-0">
+                        {line.picture && (
+                          <div className="relative w-14 h-14 flex-shrink-0">
+                            <Image
+                              src={line.picture}
+                              alt={line.productName}
+                              fill
+                              className="object-cover rounded-lg"
+                              sizes="56px"
+                              unoptimized
+                            />
+                          </div>
+                        )}
+                        <div className="min-w-0">
+                          <div className="font-medium text-slate-900 truncate">
+                            {line.productName}
+                          </div>
+                          <div className="text-xs text-slate-500">
+                            Артикул: {line.vendorCode}
+                            {line.areaPerPackage && ` · ${line.areaPerPackage} м²/уп.`}
+                            {line.unitPrice > 0 &&
+                              ` · ${line.unitPrice.toLocaleString("ru-RU")} ₽/${line.unit}`}
+                          </div>
+                          {line.dealerPrice && (
+                            <div className="text-xs text-slate-600">
+                              Ваша цена {line.dealerPrice.purchasePrice.toLocaleString("ru-RU")} ₽/{line.unit}
+                              <span className="text-green-600">
+                                {" "}· маржа {line.dealerPrice.margin.toLocaleString("ru-RU")} ₽ (
+                                {line.dealerPrice.marginPercent}%)
+                              </span>
+                            </div>
+                          )}
+                          {issue && (
+                            <div className="flex items-center gap-1 text-xs text-red-600 mt-1">
+                              <AlertCircle className="w-3 h-3" />
+                              {issue}
+                            </div>
+                          )}
+                        </div>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => changeQuantity(line, line.quantity - 1)}
+                          disabled={line.quantity <= 1}
+                        >
+                          <Minus className="w-3 h-3" />
+                        </Button>
+                        <Input
+                          type="number"
+                          min="1"
+                          value={line.quantity}
+                          onChange={(e) =>
+                            changeQuantity(line, parseInt(e.target.value, 10) || 1)
+                          }
+                          className="w-20 text-center"
+                          aria-label={`Количество ${line.vendorCode}`}
+                        />
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => changeQuantity(line, line.quantity + 1)}
+                        >
+                          <Plus className="w-3 h-3" />
+                        </Button>
+                        <span className="text-sm text-slate-500 w-8">{line.unit}</span>
+                        <span className="font-semibold text-slate-900 w-28 text-right">
+                          {line.lineTotal.toLocaleString("ru-RU")} ₽
+                        </span>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleRemove(line)}
+                        >
+                          <Trash2 className="w-4 h-4 text-slate-500" />
+                        </Button>
+                      </div>
+                    </div>
+                  );
+                })}
+                <Separator />
+                <div className="flex justify-between items-center">
+                  <span className="font-bold">Итого:</span>
+                  <span className="font-bold text-lg text-[#007AFF]">
+                    {cart.total.toLocaleString("ru-RU")} ₽
+                  </span>
+                </div>
+                {cart.purchase && (
+                  <div className="rounded-lg bg-green-50 border border-green-100 p-3 text-sm space-y-1">
+                    <div className="flex justify-between text-slate-700">
+                      <span>Ваша закупка:</span>
+                      <span className="font-semibold">
+                        {cart.purchase.purchaseTotal.toLocaleString("ru-RU")} ₽
+                      </span>
+                    </div>
+                    <div className="flex justify-between text-green-700">
+                      <span>Ваша маржа:</span>
+                      <span className="font-semibold">
+                        {cart.purchase.margin.toLocaleString("ru-RU")} ₽ ({cart.purchase.marginPercent}%)
+                      </span>
+                    </div>
+                    {cart.lines.some((line) => !line.dealerPrice && !line.issue) && (
+                      <p className="text-xs text-slate-500">
+                        Без позиций, для которых в прайсе нет вашей цены.
+                      </p>
+                    )}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card className="bg-white/70 backdrop-blur-xl border-white/20 shadow-lg">
+              <CardHeader>
+                <CardTitle>Оформление заказа</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <form onSubmit={handleSubmit} className="space-y-4">
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div>
+                      <Label htmlFor="userName">Имя</Label>
+                      <Input
+                        id="userName"
+                        value={formData.userName}
+                        onChange={handleChange}
+                        required
+                      />
+                    </div>
+                    <div>
+                      <Label htmlFor="userEmail">Email</Label>
+                      <Input
+                        id="userEmail"
+                        type="email"
+                        value={formData.userEmail}
+                        onChange={handleChange}
+                        required
+                      />
+                    </div>
+                    <div>
+                      <Label htmlFor="phoneNumber">Номер телефона</Label>
+                      <Input
+                        id="phoneNumber"
+                        value={formData.phoneNumber}
+                        onChange={handleChange}
+                        required
+                      />
+                    </div>
+                    <div>
+                      <Label htmlFor="city">Город</Label>
+                      <Input
+                        id="city"
+                        value={formData.city}
+                        onChange={handleChange}
+                        required
+                      />
+                    </div>
+                    <div className="md:col-span-2">
+                      <Label htmlFor="retailPoint">Торговая точка</Label>
+                      <Input
+                        id="retailPoint"
+                        value={formData.retailPoint}
+                        onChange={handleChange}
+                        required
+                      />
+                    </div>
+
+                    {/* Legal Entity Selection */}
+                    <div className="md:col-span-2">
+                      <Label htmlFor="legalEntityId">Юр. лицо</Label>
+                      {entitiesLoading ? (
+                        <div className="h-10 w-full bg-slate-200 animate-pulse rounded-md" />
+                      ) : legalEntities.length > 0 ? (
+                        <Select
+                          value={formData.legalEntityId}
+                          onValueChange={(value) =>
+                            setFormData((prev) => ({ ...prev, legalEntityId: value }))
+                          }
+                        >
+                          <SelectTrigger className="w-full">
+                            <SelectValue placeholder="Выберите юр. лицо..." />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {legalEntities.map((entity) => (
+                              <SelectItem key={entity.id} value={entity.id}>
+                                {entity.name} (ИНН: {entity.inn}){" "}
+                                {entity.isDefault ? "(По умолчанию)" : ""}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      ) : (
+                        <Alert variant="default" className="bg-amber-50 border-amber-200">
+                          <PlusCircle className="h-4 w-4 text-amber-700" />
+                          <AlertDescription className="text-amber-800">
+                            Юр. лица не найдены. Вы можете{" "}
+                            <Link
+                              href="/account/legal"
+                              className="font-bold underline hover:text-amber-900"
+                            >
+                              добавить их в профиле
+                            </Link>
+                            .
+                          </AlertDescription>
+                        </Alert>
+                      )}
+                    </div>
+                  </div>
+                  <div>
+                    <Label htmlFor="comment">Комментарий для менеджера</Label>
+                    <Textarea
+                      id="comment"
+                      value={formData.comment}
+                      onChange={handleChange}
+                    />
+                  </div>
+
+                  <Button
+                    type="submit"
+                    disabled={isSubmitDisabled}
+                    className="w-full bg-gradient-to-r from-[#0A84FF] to-[#007AFF] hover:from-[#0A84FF] hover:to-[#0a6cff] text-white rounded-xl shadow-lg"
+                  >
+                    {isSaving ? (
+                      <>
+                        <Loader2 className="mr-2 h-4 w-4 animate-spin" /> Отправка...
+                      </>
+                    ) : (
+                      `Оформить заказ на ${cart.total.toLocaleString("ru-RU")} ₽`
+                    )}
+                  </Button>
+                </form>
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -12,12 +12,12 @@ import React, {
 import dynamic from "next/dynamic";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
-import { Send, RotateCcw, Loader2, ArrowDown, StopCircle } from "lucide-react";
+import { Send, RotateCcw, ArrowDown, StopCircle } from "lucide-react";
 import { motion, AnimatePresence } from "framer-motion";
 import { useUser } from "@/components/context/UserContext";
-import { useProductData } from "@/components/context/ProductDataContext";
 import { api, ChatMessage as ChatMessageType } from "@/lib/api";
 import { generateSessionId } from "@/lib/utils";
+import { useStreamChat } from "@/hooks/useStreamChat";
 import TypingIndicator from "@/components/chat/TypingIndicator";
 
 // Dynamic import for heavy ChatMessage component (reduces initial bundle)
@@ -28,6 +28,17 @@ const ChatMessage = dynamic(() => import("@/components/chat/ChatMessage"), {
   ssr: false,
 });
 
+// Cards are sent to the model as a short line instead of their data
+function toHistoryEntry(message: ChatMessageType): Pick<ChatMessageType, "role" | "content"> {
+  if (message.productCard) {
+    return { role: message.role, content: `${message.productCard.name} (арт. ${message.productCard.vendorCode})` };
+  }
+  if (message.downloads?.length) {
+    return { role: message.role, content: message.downloads.map((d) => d.text).join("\n") };
+  }
+  return { role: message.role, content: message.content };
+}
+
 // Memoized message list to prevent re-renders
 const MemoizedMessageList = memo(function MessageList({
   messages,
@@ -55,20 +66,25 @@ const MemoizedMessageList = memo(function MessageList({
 export default function ChatPage() {
   const [messages, setMessages] = useState<ChatMessageType[]>([]);
   const [inputMessage, setInputMessage] = useState("");
-  const [isTyping, setIsTyping] = useState(false);
-  const [isStreaming, setIsStreaming] = useState(false);
-  const [streamingContent, setStreamingContent] = useState("");
   const [sessionId, setSessionId] = useState<string | null>(null);
   const [showScrollButton, setShowScrollButton] = useState(false);
 
   const { user, effectiveTier, bonusEnabled } = useUser();
-  const { productIndex } = useProductData();
+  const { sendMessage, stopStreaming, isStreaming, streamingMessage } = useStreamChat();
+
+  // Nothing has arrived yet: show the typing indicator instead of an empty bubble
+  const isTyping =
+    isStreaming &&
+    !streamingMessage?.content &&
+    !streamingMessage?.productCard &&
+    !streamingMessage?.downloads?.length;
 
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const chatContainerRef = useRef<HTMLDivElement>(null);
   const resizeObserverRef = useRef<ResizeObserver | null>(null);
-  const abortControllerRef = useRef<AbortController | null>(null);
+  // Current session for replies that arrive after the chat was cleared
+  const sessionIdRef = useRef<string | null>(null);
 
   // --- Helpers ---
   const isNearBottom = useCallback(() => {
@@ -102,7 +118,7 @@ export default function ChatPage() {
         requestAnimationFrame(() => scrollToBottom(true))
       );
     }
-  }, [messages, isTyping, isStreaming, streamingContent, isNearBottom, scrollToBottom]);
+  }, [messages, isTyping, isStreaming, streamingMessage, isNearBottom, scrollToBottom]);
 
   useEffect(() => {
     const container = chatContainerRef.current;
@@ -139,6 +155,7 @@ export default function ChatPage() {
         await api.updateUser({ sessionId: currentSessionId });
       }
 
+      sessionIdRef.current = currentSessionId;
       setSessionId(currentSessionId);
       await loadChatHistory(currentSessionId);
     } catch (error) {
@@ -173,7 +190,7 @@ export default function ChatPage() {
 
   // === STREAMING MESSAGE HANDLER ===
   const handleSendMessageWithStreaming = async () => {
-    if (!inputMessage.trim() || !sessionId) return;
+    if (!inputMessage.trim() || !sessionId || isStreaming) return;
 
     const userMessage: ChatMessageType = {
       id: Date.now().toString(),
@@ -188,150 +205,29 @@ export default function ChatPage() {
     const currentInput = inputMessage;
     setInputMessage("");
 
-    // First, try the regular chat API (handles products, downloads, etc.)
-    setIsTyping(true);
-
     try {
-      const response = await api.sendChatMessage({
-        message: currentInput,
-        sessionId,
-        chatHistory: messages,
-      });
-
-      // If we got a product_info or download response, use it directly
-      try {
-        const parsed = JSON.parse(response.content);
-        if (
-          parsed.type === "product_info" ||
-          parsed.type === "download_link" ||
-          parsed.type === "multi_download_links"
-        ) {
-          const assistantMessage: ChatMessageType = {
-            id: (Date.now() + 1).toString(),
-            role: "assistant",
-            content: response.content,
-            timestamp: new Date().toISOString(),
-            attachments: response.attachments || [],
-          };
-
-          const finalMessages = [...updatedMessages, assistantMessage];
-          setMessages(finalMessages);
-          await saveChatSession(finalMessages);
-          setIsTyping(false);
-          return;
-        }
-      } catch {
-        // Not JSON, continue
-      }
+      const reply = await sendMessage(currentInput, messages.slice(-5).map(toHistoryEntry));
+      // Cleared while streaming: the aborted reply belongs to the old conversation
+      if (!reply || sessionIdRef.current !== sessionId) return;
 
-      // For text responses, use streaming for better UX
-      setIsTyping(false);
-      setIsStreaming(true);
-      setStreamingContent("");
-
-      // Abort any ongoing stream
-      if (abortControllerRef.current) {
-        abortControllerRef.current.abort();
-      }
-      abortControllerRef.current = new AbortController();
-
-      const streamResponse = await fetch("/api/chat/stream", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          message: currentInput,
-          chatHistory: messages.slice(-5),
-        }),
-        signal: abortControllerRef.current.signal,
-      });
-
-      if (!streamResponse.ok) {
-        throw new Error("Stream failed");
-      }
-
-      const reader = streamResponse.body?.getReader();
-      if (!reader) throw new Error("No reader");
-
-      const decoder = new TextDecoder();
-      let fullContent = "";
-
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-
-        const chunk = decoder.decode(value);
-        const lines = chunk.split("\n");
-
-        for (const line of lines) {
-          if (line.startsWith("data: ") && line !== "data: [DONE]") {
-            try {
-              const data = JSON.parse(line.slice(6));
-              if (data.content) {
-                fullContent += data.content;
-                setStreamingContent(fullContent);
-              }
-            } catch {
-              // Skip invalid JSON
-            }
-          }
-        }
-      }
-
-      // Add final message
-      const assistantMessage: ChatMessageType = {
+      const finalMessages = [...updatedMessages, reply];
+      setMessages(finalMessages);
+      await saveChatSession(finalMessages);
+    } catch (error) {
+      console.error("Error getting response:", error);
+      if (sessionIdRef.current !== sessionId) return;
+      const errorMessage: ChatMessageType = {
         id: (Date.now() + 1).toString(),
         role: "assistant",
-        content: fullContent || response.content,
+        content:
+          "Извините, произошла ошибка при обработке вашего запроса. Попробуйте ещё раз.",
         timestamp: new Date().toISOString(),
         attachments: [],
       };
-
-      const finalMessages = [...updatedMessages, assistantMessage];
-      setMessages(finalMessages);
-      setStreamingContent("");
-      await saveChatSession(finalMessages);
-    } catch (error) {
-      if (error instanceof Error && error.name === "AbortError") {
-        // Stream was stopped
-        if (streamingContent) {
-          const assistantMessage: ChatMessageType = {
-            id: (Date.now() + 1).toString(),
-            role: "assistant",
-            content: streamingContent,
-            timestamp: new Date().toISOString(),
-            attachments: [],
-          };
-          const finalMessages = [...updatedMessages, assistantMessage];
-          setMessages(finalMessages);
-          await saveChatSession(finalMessages);
-        }
-      } else {
-        console.error("Error getting response:", error);
-        const errorMessage: ChatMessageType = {
-          id: (Date.now() + 1).toString(),
-          role: "assistant",
-          content:
-            "Извините, произошла ошибка при обработке вашего запроса. Попробуйте ещё раз.",
-          timestamp: new Date().toISOString(),
-          attachments: [],
-        };
-        const finalMessages = [...updatedMessages, errorMessage];
-        setMessages(finalMessages);
-      }
-    } finally {
-      setIsTyping(false);
-      setIsStreaming(false);
-      setStreamingContent("");
-      abortControllerRef.current = null;
+      setMessages([...updatedMessages, errorMessage]);
     }
   };
 
-  const stopStreaming = useCallback(() => {
-    if (abortControllerRef.current) {
-      abortControllerRef.current.abort();
-    }
-  }, []);
-
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === "Enter" && !e.shiftKey) {
       e.preventDefault();
@@ -340,9 +236,10 @@ export default function ChatPage() {
   };
 
   const clearChat = async () => {
+    stopStreaming();
     setMessages([]);
-    setStreamingContent("");
     const newSessionId = generateSessionId();
+    sessionIdRef.current = newSessionId;
     setSessionId(newSessionId);
     if (user) {
       await api.updateUser({ sessionId: newSessionId });
@@ -393,27 +290,16 @@ export default function ChatPage() {
         </AnimatePresence>
 
         {/* Streaming message preview */}
-        {isStreaming && streamingContent && (
-          <motion.div
-            initial={{ opacity: 0, y: 10 }}
-            animate={{ opacity: 1, y: 0 }}
-            className="flex gap-4"
-          >
-            <div className="w-10 h-10 rounded-full bg-white/80 border border-white/50 flex items-center justify-center flex-shrink-0 mt-2">
-              <Loader2 className="w-5 h-5 text-slate-600 animate-spin" />
-            </div>
-            <div className="flex-1 max-w-3xl">
-              <div className="bg-white rounded-2xl px-5 py-3 border border-white/60 shadow-sm">
-                <div className="prose prose-sm max-w-none prose-slate">
-                  {streamingContent}
-                  <span className="inline-block w-2 h-4 bg-blue-500 animate-pulse ml-1" />
-                </div>
-              </div>
-            </div>
-          </motion.div>
+        {streamingMessage && !isTyping && (
+          <ChatMessage
+            message={streamingMessage}
+            tier={effectiveTier}
+            bonusEnabled={bonusEnabled}
+            streaming
+          />
         )}
 
-        {isTyping && !isStreaming && <TypingIndicator />}
+        {isTyping && <TypingIndicator />}
         <div ref={messagesEndRef} />
       </div>
 
@@ -450,7 +336,7 @@ export default function ChatPage() {
                 onKeyPress={handleKeyPress}
                 placeholder="Введите сообщение..."
                 className="min-h-[52px] max-h-[150px] bg-white/80 border-slate-200 focus:border-[#007AFF] focus:ring-[#007AFF]/20 rounded-xl resize-none w-full"
-                disabled={isTyping || isStreaming}
+                disabled={isStreaming}
               />
             </div>
 
@@ -464,14 +350,10 @@ export default function ChatPage() {
             ) : (
               <Button
                 onClick={handleSendMessageWithStreaming}
-                disabled={!inputMessage.trim() || isTyping}
+                disabled={!inputMessage.trim()}
                 className="bg-gradient-to-r from-[#0A84FF] to-[#007AFF] hover:from-[#0A84FF] hover:to-[#0a6cff] text-white rounded-xl px-5 h-[52px] transition-all duration-300 shadow-lg disabled:opacity-50 flex items-center justify-center flex-shrink-0"
               >
-                {isTyping ? (
-                  <Loader2 className="w-5 h-5 animate-spin" />
-                ) : (
-                  <Send className="w-5 h-5" />
-                )}
+                <Send className="w-5 h-5" />
               </Button>
             )}
           </div>
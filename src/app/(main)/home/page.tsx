@@ -9,6 +9,7 @@ import { Badge } from "@/components/ui/badge";
 import Link from "next/link";
 import { api } from "@/lib/api";
 import { useUser } from "@/components/context/UserContext";
+import TierProgressCard from "@/components/dealer/TierProgressCard";
 import {
   MessageSquare,
   BookOpen,
@@ -326,6 +327,9 @@ export default function HomeSplashPage() {
           <div className="pointer-events-none absolute right-0 top-0 h-full w-1/2 opacity-30 bg-[radial-gradient(600px_300px_at_100%_0%,white,transparent)]" />
         </div>
 
+        {/* Прогресс дилера до следующего уровня */}
+        <TierProgressCard compact />
+
         {/* Динамический баннер из админки */}
         {banner && <Banner data={banner} />}
 
@@ -3,6 +3,7 @@
 import { usePathname, useRouter } from "next/navigation";
 import Link from "next/link";
 import { useUser } from "@/components/context/UserContext";
+import { useCart } from "@/components/context/CartContext";
 import { Button } from "@/components/ui/button";
 import {
   MessageSquare,
@@ -21,6 +22,11 @@ import {
   Building,
   History,
   Home,
+  ShoppingCart,
+  Gift,
+  FileText,
+  Ruler,
+  Heart,
 } from "lucide-react";
 import {
   DropdownMenu,
@@ -30,6 +36,7 @@ import {
 } from "@/components/ui/dropdown-menu";
 import { useState, useEffect } from "react";
 import { createPageUrl } from "@/lib/utils";
+import NotificationBell from "@/components/notifications/NotificationBell";
 
 const navigationItems = [
   { title: "Главная", url: "/home", icon: Home },
@@ -40,6 +47,7 @@ const navigationItems = [
   { title: "FAQ", url: "/faq", icon: HelpCircle },
   { title: "Видео", url: "/video", icon: PlayCircle },
   { title: "Калькулятор", url: "/calculator", icon: Calculator },
+  { title: "Корзина", url: "/cart", icon: ShoppingCart },
 ];
 
 const adminItems = [{ title: "Админ-панель", url: "/admin", icon: Settings }];
@@ -60,10 +68,12 @@ export default function MainLayout({
     isBlocked,
     needsApproval,
     isAdmin,
+    canManageOrders,
     displayName,
     logout,
     login,
   } = useUser();
+  const { itemsCount: cartItemsCount } = useCart();
 
   // Tier helpers
   const effectiveTier = (() => {
@@ -250,33 +260,62 @@ export default function MainLayout({
             </div>
           </div>
 
-          <DropdownMenu>
-            <DropdownMenuTrigger asChild>
-              <button className="w-7 h-7 bg-gradient-to-br from-slate-200 to-slate-300 rounded-full flex items-center justify-center hover:from-slate-300 hover:to-slate-400 transition-colors">
-                <Settings className="w-4 h-4 text-slate-600" />
-              </button>
-            </DropdownMenuTrigger>
-            <DropdownMenuContent align="end">
-              <DropdownMenuItem asChild>
-                <Link href="/account/profile" className="flex items-center gap-2 w-full">
-                  <User className="w-4 h-4" />
-                  Личные данные
-                </Link>
-              </DropdownMenuItem>
-              <DropdownMenuItem asChild>
-                <Link href="/account/legal" className="flex items-center gap-2 w-full">
-                  <Building className="w-4 h-4" />
-                  Юр. лица
-                </Link>
-              </DropdownMenuItem>
-              <DropdownMenuItem asChild>
-                <Link href="/account/orders" className="flex items-center gap-2 w-full">
-                  <History className="w-4 h-4" />
-                  История заказов
-                </Link>
-              </DropdownMenuItem>
-            </DropdownMenuContent>
-          </DropdownMenu>
+          <div className="flex items-center gap-1">
+            <NotificationBell className="w-8 h-8" />
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <button className="w-7 h-7 bg-gradient-to-br from-slate-200 to-slate-300 rounded-full flex items-center justify-center hover:from-slate-300 hover:to-slate-400 transition-colors">
+                  <Settings className="w-4 h-4 text-slate-600" />
+                </button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuItem asChild>
+                  <Link href="/account/profile" className="flex items-center gap-2 w-full">
+                    <User className="w-4 h-4" />
+                    Личные данные
+                  </Link>
+                </DropdownMenuItem>
+                <DropdownMenuItem asChild>
+                  <Link href="/account/legal" className="flex items-center gap-2 w-full">
+                    <Building className="w-4 h-4" />
+                    Юр. лица
+                  </Link>
+                </DropdownMenuItem>
+                <DropdownMenuItem asChild>
+                  <Link href="/account/orders" className="flex items-center gap-2 w-full">
+                    <History className="w-4 h-4" />
+                    История заказов
+                  </Link>
+                </DropdownMenuItem>
+                <DropdownMenuItem asChild>
+                  <Link href="/account/quotes" className="flex items-center gap-2 w-full">
+                    <FileText className="w-4 h-4" />
+                    Коммерческие предложения
+                  </Link>
+                </DropdownMenuItem>
+                <DropdownMenuItem asChild>
+                  <Link href="/account/projects" className="flex items-center gap-2 w-full">
+                    <Ruler className="w-4 h-4" />
+                    Проекты
+                  </Link>
+                </DropdownMenuItem>
+                <DropdownMenuItem asChild>
+                  <Link href="/account/estimates" className="flex items-center gap-2 w-full">
+                    <Heart className="w-4 h-4" />
+                    Сохранённые расчёты
+                  </Link>
+                </DropdownMenuItem>
+                {bonusEnabled && dealerProfile && (
+                  <DropdownMenuItem asChild>
+                    <Link href="/account/rewards" className="flex items-center gap-2 w-full">
+                      <Gift className="w-4 h-4" />
+                      Мои награды
+                    </Link>
+                  </DropdownMenuItem>
+                )}
+              </DropdownMenuContent>
+            </DropdownMenu>
+          </div>
         </div>
       </div>
 
@@ -344,11 +383,16 @@ export default function MainLayout({
                     className={`w-5 h-5 ${isActive ? "text-[#007AFF]" : "text-slate-700"}`}
                   />
                   <span className="font-medium">{item.title}</span>
+                  {item.url === "/cart" && cartItemsCount > 0 && (
+                    <span className="ml-auto min-w-[1.5rem] px-1.5 py-0.5 rounded-full bg-[#007AFF] text-white text-xs text-center">
+                      {cartItemsCount}
+                    </span>
+                  )}
                 </Link>
               );
             })}
 
-            {isAdmin && (
+            {canManageOrders && (
               <>
                 <div className="text-xs font-semibold text-slate-500 uppercase tracking-wider px-3 py-2 mt-4">
                   Администрирование
@@ -399,6 +443,7 @@ export default function MainLayout({
                 </div>
               </div>
               <div className="flex items-center">
+                <NotificationBell />
                 <DropdownMenu>
                   <DropdownMenuTrigger asChild>
                     <Button
@@ -437,6 +482,44 @@ export default function MainLayout({
                         История заказов
                       </Link>
                     </DropdownMenuItem>
+                    <DropdownMenuItem asChild>
+                      <Link
+                        href="/account/quotes"
+                        className="flex items-center gap-2 w-full"
+                      >
+                        <FileText className="w-4 h-4" />
+                        Коммерческие предложения
+                      </Link>
+                    </DropdownMenuItem>
+                    <DropdownMenuItem asChild>
+                      <Link
+                        href="/account/projects"
+                        className="flex items-center gap-2 w-full"
+                      >
+                        <Ruler className="w-4 h-4" />
+                        Проекты
+                      </Link>
+                    </DropdownMenuItem>
+                    <DropdownMenuItem asChild>
+                      <Link
+                        href="/account/estimates"
+                        className="flex items-center gap-2 w-full"
+                      >
+                        <Heart className="w-4 h-4" />
+                        Сохранённые расчёты
+                      </Link>
+                    </DropdownMenuItem>
+                    {bonusEnabled && dealerProfile && (
+                      <DropdownMenuItem asChild>
+                        <Link
+                          href="/account/rewards"
+                          className="flex items-center gap-2 w-full"
+                        >
+                          <Gift className="w-4 h-4" />
+                          Мои награды
+                        </Link>
+                      </DropdownMenuItem>
+                    )}
                   </DropdownMenuContent>
                 </DropdownMenu>
                 <Button
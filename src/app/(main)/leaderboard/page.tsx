@@ -1,19 +1,60 @@
 "use client";
 
-import React, { useEffect, useMemo, useState } from "react";
+import React, { useCallback, useEffect, useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { ArrowLeft, Award, Trophy } from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ArrowLeft, Award, Trophy, ArrowUp, ArrowDown, Minus, Lock } from "lucide-react";
 import Link from "next/link";
-import { api } from "@/lib/api";
-import { useUser } from "@/components/context/UserContext";
+import { format } from "date-fns";
+import { ru } from "date-fns/locale";
+import { api, Leaderboard, LeaderboardEntry, LeaderboardPeriod } from "@/lib/api";
 
-interface DealerRanking {
-  userId: string;
-  name: string;
-  tier: string;
-  points: number;
+const PERIOD_OPTIONS: Array<{ key: LeaderboardPeriod; label: string }> = [
+  { key: "month", label: "Месяц" },
+  { key: "quarter", label: "Квартал" },
+  { key: "all", label: "Всё время" },
+];
+
+const ALL = "all";
+
+function periodLabel(period: LeaderboardPeriod, key: string | null): string {
+  if (!key) return "Всё время";
+  const [year, part] = key.split("-");
+  if (period === "quarter") return `${part.replace("Q", "")} квартал ${year}`;
+  const label = format(new Date(Number(year), Number(part) - 1, 1), "LLLL yyyy", { locale: ru });
+  return label.charAt(0).toUpperCase() + label.slice(1);
+}
+
+function RankMove({ entry }: { entry: LeaderboardEntry }) {
+  if (entry.previousRank === null) {
+    return <span className="text-xs text-slate-400">новый</span>;
+  }
+  const delta = entry.previousRank - entry.rank;
+  if (delta > 0) {
+    return (
+      <span className="flex items-center gap-0.5 text-xs text-green-600">
+        <ArrowUp className="w-3 h-3" />
+        {delta}
+      </span>
+    );
+  }
+  if (delta < 0) {
+    return (
+      <span className="flex items-center gap-0.5 text-xs text-red-600">
+        <ArrowDown className="w-3 h-3" />
+        {-delta}
+      </span>
+    );
+  }
+  return <Minus className="w-3 h-3 text-slate-400" />;
 }
 
 function TierBadge({
@@ -24,7 +65,7 @@ function TierBadge({
   animated?: boolean;
 }) {
   const getTierInfo = (tier: string) => {
-    switch (tier) {
+    switch (tier?.toLowerCase()) {
       case "tier4":
         return {
           name: "Платиновый",
@@ -60,32 +101,55 @@ function TierBadge({
 }
 
 export default function LeaderboardPage() {
-  const [rankings, setRankings] = useState<DealerRanking[]>([]);
+  const [board, setBoard] = useState<Leaderboard | null>(null);
   const [loading, setLoading] = useState(true);
-  const { user } = useUser();
+  const [period, setPeriod] = useState<LeaderboardPeriod>("month");
+  const [periodKey, setPeriodKey] = useState<string | null>(null);
+  const [region, setRegion] = useState(ALL);
+  const [city, setCity] = useState(ALL);
 
-  useEffect(() => {
-    loadData();
-  }, []);
-
-  const loadData = async () => {
+  const loadData = useCallback(async () => {
     setLoading(true);
     try {
-      const data = await api.getDealerLeaderboard();
-      setRankings(data);
+      const data = await api.getDealerLeaderboard({
+        period,
+        key: periodKey || undefined,
+        region: region !== ALL ? region : undefined,
+        city: city !== ALL ? city : undefined,
+      });
+      setBoard(data);
     } catch (error) {
       console.error("Error loading leaderboard:", error);
     } finally {
       setLoading(false);
     }
+  }, [period, periodKey, region, city]);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  const changePeriod = (next: LeaderboardPeriod) => {
+    setPeriod(next);
+    setPeriodKey(null);
   };
 
+  const rankings = board?.entries || [];
   const top10 = rankings.slice(0, 10);
-  const myIndex = user?.id ? rankings.findIndex((r) => r.userId === user.id) : -1;
+  const me = rankings.find((r) => r.isMe);
+  const meOutsideTop = !!me && !top10.includes(me);
+  const showTier = board?.fields.showTier ?? true;
+  const showPoints = board?.fields.showPoints ?? true;
   const total = rankings.length;
 
+  // The current period is not in the frozen list until it ends
+  const periodKeys =
+    board && board.key && period !== "all"
+      ? Array.from(new Set([board.key, ...board.pastKeys])).sort().reverse()
+      : [];
+
   const frameByTier = (tier: string) => {
-    switch (tier) {
+    switch (tier?.toLowerCase()) {
       case "tier4":
         return "bg-white/80 ring-2 ring-indigo-300/70 shadow-[0_0_32px_rgba(99,102,241,0.35)]";
       case "tier3":
@@ -97,7 +161,57 @@ export default function LeaderboardPage() {
     }
   };
 
-  const myTier = myIndex >= 0 ? rankings[myIndex]?.tier || "tier1" : "tier1";
+  const myTier = me?.tier || "tier1";
+
+  const renderRow = (r: LeaderboardEntry, index: number) => {
+    const isMe = r.isMe;
+    return (
+      <tr key={isMe ? "me" : index} className={`border-t ${isMe ? "bg-blue-50/60" : ""}`}>
+        <td className="px-4 py-3">
+          <div className="flex items-center gap-2">
+            {r.rank <= 3 && r.points !== 0 && (
+              <Award
+                className={`w-4 h-4 ${
+                  r.rank === 1
+                    ? "text-amber-500"
+                    : r.rank === 2
+                      ? "text-gray-400"
+                      : "text-orange-600"
+                }`}
+              />
+            )}
+            {r.rank}
+          </div>
+        </td>
+        <td className="px-4 py-3">
+          <span className={`font-medium ${isMe ? "text-indigo-700" : "text-slate-900"}`}>
+            {r.name}
+            {isMe && <span className="ml-1 text-xs text-slate-500">(вы)</span>}
+          </span>
+          {(r.company || r.city || r.region) && (
+            <div className="text-xs text-slate-500">
+              {[r.company, r.city || r.region].filter(Boolean).join(" · ")}
+            </div>
+          )}
+        </td>
+        {showTier && (
+          <td className="px-4 py-3">
+            {r.tier && <TierBadge tier={r.tier} animated={r.tier.toLowerCase() === "tier4"} />}
+          </td>
+        )}
+        {showPoints && (
+          <td className="px-4 py-3 text-right font-semibold text-slate-900">
+            {r.points !== null && r.points.toLocaleString("ru-RU")}
+          </td>
+        )}
+        {period !== "all" && (
+          <td className="px-4 py-3">
+            <RankMove entry={r} />
+          </td>
+        )}
+      </tr>
+    );
+  };
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-50 via-blue-50 to-indigo-50 p-6">
@@ -116,20 +230,94 @@ export default function LeaderboardPage() {
           </Button>
         </div>
 
-        {myIndex >= 0 && (
+        <div className="flex flex-wrap items-center gap-2 mb-4">
+          {PERIOD_OPTIONS.map((option) => (
+            <Button
+              key={option.key}
+              size="sm"
+              variant={period === option.key ? "default" : "outline"}
+              onClick={() => changePeriod(option.key)}
+            >
+              {option.label}
+            </Button>
+          ))}
+          {periodKeys.length > 1 && (
+            <Select value={board?.key || undefined} onValueChange={setPeriodKey}>
+              <SelectTrigger className="w-48 bg-white/70">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {periodKeys.map((key) => (
+                  <SelectItem key={key} value={key}>
+                    {periodLabel(period, key)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          {board && board.regions.length > 0 && (
+            <Select value={region} onValueChange={setRegion}>
+              <SelectTrigger className="w-44 bg-white/70">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>Все регионы</SelectItem>
+                {board.regions.map((value) => (
+                  <SelectItem key={value} value={value}>
+                    {value}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          {board && board.cities.length > 0 && (
+            <Select value={city} onValueChange={setCity}>
+              <SelectTrigger className="w-44 bg-white/70">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>Все города</SelectItem>
+                {board.cities.map((value) => (
+                  <SelectItem key={value} value={value}>
+                    {value}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        </div>
+
+        {me && (
           <div
             className={`rounded-2xl px-5 py-4 border border-white/20 ${frameByTier(myTier)} mb-6 flex items-center justify-between`}
           >
-            <div className="text-sm text-slate-700">
-              Ваше место: <b>{myIndex + 1}</b> из {total}
+            <div className="text-sm text-slate-700 flex items-center gap-3">
+              <span>
+                Ваше место: <b>{me.rank}</b> из {total}
+                {me.points !== null && <> · {me.points.toLocaleString("ru-RU")} баллов</>}
+              </span>
+              {period !== "all" && me.previousRank !== null && (
+                <span className="flex items-center gap-1 text-slate-500">
+                  в прошлом периоде — {me.previousRank}
+                  <RankMove entry={me} />
+                </span>
+              )}
             </div>
-            <TierBadge tier={myTier} animated={myTier === "tier4"} />
+            <TierBadge tier={myTier} animated={myTier.toLowerCase() === "tier4"} />
           </div>
         )}
 
         <Card className="bg-white/70 backdrop-blur-xl border-white/20 shadow-lg">
           <CardHeader className="pb-3">
-            <CardTitle>Топ‑10 по баллам</CardTitle>
+            <CardTitle className="flex flex-wrap items-center gap-2">
+              Топ‑10: {board ? periodLabel(board.period, board.key).toLowerCase() : "…"}
+              {board?.frozen && board.frozenAt && (
+                <Badge variant="outline" className="font-normal text-slate-600">
+                  <Lock className="w-3 h-3 mr-1" />
+                  итоги от {format(new Date(board.frozenAt), "d MMMM yyyy", { locale: ru })}
+                </Badge>
+              )}
+            </CardTitle>
           </CardHeader>
           <CardContent>
             {loading ? (
@@ -141,55 +329,26 @@ export default function LeaderboardPage() {
                     <tr className="bg-slate-50 text-slate-600">
                       <th className="text-left px-4 py-3 w-16">#</th>
                       <th className="text-left px-4 py-3">Имя дилера</th>
-                      <th className="text-left px-4 py-3">Тир</th>
+                      {showTier && <th className="text-left px-4 py-3">Тир</th>}
+                      {showPoints && <th className="text-right px-4 py-3">Баллы</th>}
+                      {period !== "all" && <th className="px-4 py-3 w-16" />}
                     </tr>
                   </thead>
                   <tbody>
-                    {top10.map((r, idx) => {
-                      const isMe = user?.id === r.userId;
-                      return (
-                        <tr
-                          key={r.userId}
-                          className={`border-t ${isMe ? "bg-blue-50/60" : ""}`}
-                        >
-                          <td className="px-4 py-3">
-                            <div className="flex items-center gap-2">
-                              {idx < 3 && (
-                                <Award
-                                  className={`w-4 h-4 ${
-                                    idx === 0
-                                      ? "text-amber-500"
-                                      : idx === 1
-                                        ? "text-gray-400"
-                                        : "text-orange-600"
-                                  }`}
-                                />
-                              )}
-                              {idx + 1}
-                            </div>
-                          </td>
-                          <td className="px-4 py-3">
-                            <span
-                              className={`font-medium ${isMe ? "text-indigo-700" : "text-slate-900"}`}
-                            >
-                              {r.name}
-                            </span>
-                          </td>
-                          <td className="px-4 py-3">
-                            <TierBadge
-                              tier={r.tier}
-                              animated={r.tier === "tier4"}
-                            />
+                    {top10.map(renderRow)}
+                    {meOutsideTop && me && (
+                      <>
+                        <tr className="border-t">
+                          <td colSpan={5} className="px-4 py-1 text-center text-slate-400">
+                            …
                           </td>
                         </tr>
-                      );
-                    })}
+                        {renderRow(me, top10.length)}
+                      </>
+                    )}
                     {top10.length === 0 && (
                       <tr>
-                        <td
-                          colSpan={3}
-                          className="px-4 py-6 text-center text-slate-500"
-                        >
+                        <td colSpan={5} className="px-4 py-6 text-center text-slate-500">
                           Нет данных для рейтинга
                         </td>
                       </tr>
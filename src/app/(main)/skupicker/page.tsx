@@ -4,9 +4,11 @@ import React, { useState, useCallback, useRef } from "react";
 import NextImage from "next/image";
 import { parseColorText, colorDistance, parseStock } from "@/components/sku/SkuUtils";
 import { useProductData } from "@/components/context/ProductDataContext";
+import { api } from "@/lib/api";
 import { Palette, Upload, Loader2, AlertCircle } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import AddToCartButton from "@/components/cart/AddToCartButton";
 
 interface RGB {
   r: number;
@@ -270,16 +272,21 @@ function ResultItem({
                 Δ {Math.round(distance)}
               </span>
             </div>
-            {url && (
-              <a
-                href={url}
-                target="_blank"
-                rel="noopener noreferrer"
-                className="mt-2 inline-block text-sm text-blue-600 hover:underline"
-              >
-                Подробнее →
-              </a>
-            )}
+            <div className="mt-2 flex items-center gap-4">
+              {stockInfo.inStock && (
+                <AddToCartButton vendorCode={vendorCode} source="SKU_PICKER" size="sm" />
+              )}
+              {url && (
+                <a
+                  href={url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="inline-block text-sm text-blue-600 hover:underline"
+                >
+                  Подробнее →
+                </a>
+              )}
+            </div>
           </div>
         </div>
       </CardContent>
@@ -297,7 +304,7 @@ export default function SkuPickerPage() {
   const [isDragActive, setIsDragActive] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
-  const { products: feedData, loading: feedLoading } = useProductData();
+  const { totalProducts, loading: feedLoading } = useProductData();
 
   const handleFileDrop = useCallback(async (file: File) => {
     if (!file) return;
@@ -371,12 +378,12 @@ export default function SkuPickerPage() {
     fileInputRef.current?.click();
   };
 
-  const handleProcess = () => {
+  const handleProcess = async () => {
     if (!dominantColor) {
       setError("Сначала загрузите изображение, чтобы определить цвет.");
       return;
     }
-    if (!feedData?.length) {
+    if (!totalProducts) {
       setError("Данные фида не загружены.");
       return;
     }
@@ -385,7 +392,9 @@ export default function SkuPickerPage() {
     setError("");
 
     try {
-      const products: ProductResult[] = feedData
+      // Closest colors are selected on the server from the catalog params
+      const { items } = await api.getProductsByColor(dominantColor);
+      const products: ProductResult[] = items
         .map((product) => {
           const colorText = (product.params?.["Цвет"] as string) || "";
           const stockText = (product.params?.["Остаток"] as string) || "";
@@ -417,7 +426,7 @@ export default function SkuPickerPage() {
         return 0;
       });
 
-      setResults(products.slice(0, 5));
+      setResults(products);
 
       if (products.length === 0) {
         setError(
@@ -530,7 +539,7 @@ export default function SkuPickerPage() {
                     isDetectingColor ||
                     !dominantColor ||
                     feedLoading ||
-                    !feedData?.length
+                    !totalProducts
                   }
                   className="w-full bg-gradient-to-r from-[#0A84FF] to-[#007AFF] text-white py-6 text-lg"
                   size="lg"
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getCurrentUser } from "@/lib/auth";
+import { notifyArticlePublished } from "@/lib/notifications";
 
 export const dynamic = "force-dynamic";
 
@@ -9,6 +10,10 @@ const getPrisma = async () => {
   return prisma;
 };
 
+// The admin form sends lowercase statuses, seeded articles use uppercase
+const isPublishedStatus = (status: unknown) =>
+  typeof status === "string" && status.toUpperCase() === "PUBLISHED";
+
 
 export async function GET() {
   try {
@@ -76,9 +81,16 @@ export async function POST(request: NextRequest) {
         allowedUserTypes: body.allowedUserTypes || [],
         checklist: body.checklist,
         coverMediaId: body.coverMediaId,
+        ...(isPublishedStatus(body.status) && { publishedAt: new Date() }),
       },
     });
 
+    if (isPublishedStatus(article.status)) {
+      await notifyArticlePublished(article).catch((error) =>
+        console.error("Error sending article notifications:", error)
+      );
+    }
+
     return NextResponse.json({ id: article.id });
   } catch (error) {
     console.error("Error creating advice article:", error);
@@ -96,7 +108,18 @@ export async function PATCH(request: NextRequest) {
     const body = await request.json();
     const { id, ...data } = body;
 
-    await (await getPrisma()).adviceArticle.update({
+    const previous = await (await getPrisma()).adviceArticle.findUnique({
+      where: { id },
+      select: { status: true, publishedAt: true },
+    });
+    // Notify once: on the first transition to published
+    const publishing =
+      !!previous &&
+      isPublishedStatus(data.status) &&
+      !isPublishedStatus(previous.status) &&
+      !previous.publishedAt;
+
+    const article = await (await getPrisma()).adviceArticle.update({
       where: { id },
       data: {
         title: data.title,
@@ -111,9 +134,16 @@ export async function PATCH(request: NextRequest) {
         allowedUserTypes: data.allowedUserTypes,
         checklist: data.checklist,
         coverMediaId: data.coverMediaId,
+        ...(publishing && { publishedAt: new Date() }),
       },
     });
 
+    if (publishing) {
+      await notifyArticlePublished(article).catch((error) =>
+        console.error("Error sending article notifications:", error)
+      );
+    }
+
     return NextResponse.json({ success: true });
   } catch (error) {
     console.error("Error updating advice article:", error);
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCurrentUser } from "@/lib/auth";
+import { previewOrderPoints } from "@/lib/points-accrual";
+
+export const dynamic = "force-dynamic";
+
+// Lazy prisma import to avoid build-time issues
+const getPrisma = async () => {
+  const { default: prisma } = await import("@/lib/prisma");
+  return prisma;
+};
+
+
+/**
+ * Dry run: points an order would earn under the current rules, nothing is written
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const currentUser = await getCurrentUser();
+    if (!currentUser || currentUser.role !== "ADMIN") {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const orderNumber = searchParams.get("orderNumber")?.trim();
+    if (!orderNumber) {
+      return NextResponse.json({ message: "Order number required" }, { status: 400 });
+    }
+
+    const order = await (await getPrisma()).order.findUnique({
+      where: { orderNumber },
+      select: { id: true },
+    });
+    const preview = order ? await previewOrderPoints(order.id) : null;
+    if (!preview) {
+      return NextResponse.json({ message: "Order not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(preview);
+  } catch (error) {
+    console.error("Error running points dry run:", error);
+    return NextResponse.json({ message: "Error running dry run" }, { status: 500 });
+  }
+}
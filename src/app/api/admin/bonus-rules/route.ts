@@ -0,0 +1,160 @@
+import { NextRequest, NextResponse } from "next/server";
+import { DealerTier, Prisma } from "@prisma/client";
+import { getCurrentUser } from "@/lib/auth";
+
+export const dynamic = "force-dynamic";
+
+// Lazy prisma import to avoid build-time issues
+const getPrisma = async () => {
+  const { default: prisma } = await import("@/lib/prisma");
+  return prisma;
+};
+
+
+const optionalText = (value: unknown) =>
+  typeof value === "string" && value.trim() ? value.trim() : null;
+
+const optionalDate = (value: unknown) => {
+  if (!value) return null;
+  const date = new Date(String(value));
+  return Number.isNaN(date.getTime()) ? null : date;
+};
+
+/**
+ * Validate rule fields from the request body
+ */
+function parseRule(
+  body: Record<string, unknown>
+): { data: Prisma.PointsAccrualRuleCreateInput } | { error: string } {
+  const name = optionalText(body.name);
+  const multiplier = Number(body.multiplier ?? 1);
+  const tiers = Array.isArray(body.tiers)
+    ? body.tiers.filter((tier): tier is DealerTier =>
+        Object.values(DealerTier).includes(tier as DealerTier)
+      )
+    : [];
+  const startsAt = optionalDate(body.startsAt);
+  const endsAt = optionalDate(body.endsAt);
+
+  if (!name) return { error: "Name is required" };
+  if (!Number.isFinite(multiplier) || multiplier < 0) {
+    return { error: "Multiplier must be a non-negative number" };
+  }
+  if (startsAt && endsAt && endsAt < startsAt) {
+    return { error: "Promo period ends before it starts" };
+  }
+
+  return {
+    data: {
+      name,
+      isActive: body.isActive !== false,
+      vendor: optionalText(body.vendor),
+      vendorCode: optionalText(body.vendorCode),
+      paramName: optionalText(body.paramName),
+      paramValue: optionalText(body.paramValue),
+      tiers,
+      startsAt,
+      endsAt,
+      multiplier,
+    },
+  };
+}
+
+export async function GET() {
+  try {
+    const currentUser = await getCurrentUser();
+    if (!currentUser || currentUser.role !== "ADMIN") {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 403 });
+    }
+
+    const [rules, settings] = await Promise.all([
+      (await getPrisma()).pointsAccrualRule.findMany({
+        orderBy: [{ isActive: "desc" }, { createdAt: "desc" }],
+      }),
+      (await getPrisma()).bonusSettings.findFirst(),
+    ]);
+
+    return NextResponse.json({
+      rules,
+      rates: {
+        tier1PointsPerRuble: settings?.tier1PointsPerRuble ?? 0.01,
+        tier2PointsPerRuble: settings?.tier2PointsPerRuble ?? 0.015,
+        tier3PointsPerRuble: settings?.tier3PointsPerRuble ?? 0.02,
+        tier4PointsPerRuble: settings?.tier4PointsPerRuble ?? 0.03,
+      },
+    });
+  } catch (error) {
+    console.error("Error fetching bonus rules:", error);
+    return NextResponse.json({ message: "Error fetching bonus rules" }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const currentUser = await getCurrentUser();
+    if (!currentUser || currentUser.role !== "ADMIN") {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 403 });
+    }
+
+    const parsed = parseRule(await request.json());
+    if ("error" in parsed) {
+      return NextResponse.json({ message: parsed.error }, { status: 400 });
+    }
+
+    const rule = await (await getPrisma()).pointsAccrualRule.create({ data: parsed.data });
+    return NextResponse.json({ id: rule.id });
+  } catch (error) {
+    console.error("Error creating bonus rule:", error);
+    return NextResponse.json({ message: "Error creating bonus rule" }, { status: 500 });
+  }
+}
+
+export async function PATCH(request: NextRequest) {
+  try {
+    const currentUser = await getCurrentUser();
+    if (!currentUser || currentUser.role !== "ADMIN") {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 403 });
+    }
+
+    const body = await request.json();
+    if (!body.id) {
+      return NextResponse.json({ message: "ID required" }, { status: 400 });
+    }
+
+    const parsed = parseRule(body);
+    if ("error" in parsed) {
+      return NextResponse.json({ message: parsed.error }, { status: 400 });
+    }
+
+    await (await getPrisma()).pointsAccrualRule.update({
+      where: { id: body.id },
+      data: parsed.data,
+    });
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error updating bonus rule:", error);
+    return NextResponse.json({ message: "Error updating bonus rule" }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const currentUser = await getCurrentUser();
+    if (!currentUser || currentUser.role !== "ADMIN") {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const id = searchParams.get("id");
+
+    if (!id) {
+      return NextResponse.json({ message: "ID required" }, { status: 400 });
+    }
+
+    await (await getPrisma()).pointsAccrualRule.delete({ where: { id } });
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting bonus rule:", error);
+    return NextResponse.json({ message: "Error deleting bonus rule" }, { status: 500 });
+  }
+}
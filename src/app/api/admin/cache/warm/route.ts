@@ -2,6 +2,7 @@ import { NextResponse } from "next/server";
 import { getCurrentUser } from "@/lib/auth";
 import { aiResponseCache, COMMON_QUESTIONS } from "@/lib/ai-cache";
 import { withCache, knowledgeBaseCache, aiSettingsCache } from "@/lib/cache";
+import { countProducts } from "@/lib/product-catalog";
 
 export const dynamic = "force-dynamic";
 
@@ -42,23 +43,12 @@ export async function POST() {
     );
     results.knowledgeBase = { itemsLoaded: knowledgeItems.length };
 
-    // 3. Warm XML feed cache
-    const xmlFeeds = await withCache(
-      knowledgeBaseCache,
-      "xml-feeds",
-      async () => (await getPrisma()).knowledgeBase.findMany({ where: { type: "XML_FEED" } }),
-      10 * 60 * 1000
-    );
-    
-    // Count total products
-    let totalProducts = 0;
-    for (const feed of xmlFeeds) {
-      const xmlData = feed.xmlData as { products?: unknown[] } | null;
-      if (xmlData?.products) {
-        totalProducts += xmlData.products.length;
-      }
-    }
-    results.xmlFeeds = { feedsLoaded: xmlFeeds.length, totalProducts };
+    // 3. Warm product catalog cache
+    const xmlFeeds = await (await getPrisma()).knowledgeBase.count({
+      where: { type: "XML_FEED" },
+    });
+    const totalProducts = await countProducts();
+    results.xmlFeeds = { feedsLoaded: xmlFeeds, totalProducts };
 
     // 4. Warm AI settings cache
     const settings = await withCache(
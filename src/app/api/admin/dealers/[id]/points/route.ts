@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from "next/server";
+import { PointsTransactionType } from "@prisma/client";
+import { getCurrentUser } from "@/lib/auth";
+import { addPointsTransaction, getPointsStatement } from "@/lib/dealer-points";
+
+export const dynamic = "force-dynamic";
+
+// Lazy prisma import to avoid build-time issues
+const getPrisma = async () => {
+  const { default: prisma } = await import("@/lib/prisma");
+  return prisma;
+};
+
+
+/**
+ * Points statement of a dealer profile
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const currentUser = await getCurrentUser();
+    if (!currentUser || currentUser.role !== "ADMIN") {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const { searchParams } = new URL(request.url);
+    const statement = await getPointsStatement(id, {
+      limit: parseInt(searchParams.get("limit") || "50", 10) || 50,
+      offset: parseInt(searchParams.get("offset") || "0", 10) || 0,
+    });
+    if (!statement) {
+      return NextResponse.json({ message: "Dealer profile not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(statement);
+  } catch (error) {
+    console.error("Error fetching points statement:", error);
+    return NextResponse.json({ message: "Error fetching points statement" }, { status: 500 });
+  }
+}
+
+/**
+ * Manual ledger entry: { type, amount, reason, orderNumber? }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const currentUser = await getCurrentUser();
+    if (!currentUser || currentUser.role !== "ADMIN") {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const type = body.type as PointsTransactionType;
+    const amount = Number(body.amount);
+
+    // The opening entry is written by the ledger itself
+    if (!Object.values(PointsTransactionType).includes(type) || type === PointsTransactionType.OPENING) {
+      return NextResponse.json({ message: "Invalid transaction type" }, { status: 400 });
+    }
+    if (!Number.isFinite(amount)) {
+      return NextResponse.json({ message: "Invalid amount" }, { status: 400 });
+    }
+
+    // The related order is entered by its number and must belong to the dealer
+    let orderId: string | null = null;
+    const orderNumber = typeof body.orderNumber === "string" ? body.orderNumber.trim() : "";
+    if (orderNumber) {
+      const prisma = await getPrisma();
+      const profile = await prisma.dealerProfile.findUnique({
+        where: { id },
+        select: { userId: true },
+      });
+      const order = profile
+        ? await prisma.order.findFirst({
+            where: { orderNumber, userId: profile.userId },
+            select: { id: true },
+          })
+        : null;
+      if (!order) {
+        return NextResponse.json({ message: "Order not found" }, { status: 400 });
+      }
+      orderId = order.id;
+    }
+
+    const result = await addPointsTransaction({
+      dealerProfileId: id,
+      type,
+      amount,
+      reason: String(body.reason || ""),
+      orderId,
+      createdById: currentUser.id,
+    });
+    if (!result.success) {
+      return NextResponse.json({ message: result.error }, { status: result.status });
+    }
+
+    return NextResponse.json({ success: true, entry: result.entry, balance: result.balance });
+  } catch (error) {
+    console.error("Error adding points transaction:", error);
+    return NextResponse.json({ message: "Error adding points transaction" }, { status: 500 });
+  }
+}
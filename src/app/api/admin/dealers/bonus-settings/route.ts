@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from "next/server";
+import { Prisma } from "@prisma/client";
 import { getCurrentUser } from "@/lib/auth";
 
 export const dynamic = "force-dynamic";
@@ -9,6 +10,20 @@ const getPrisma = async () => {
   return prisma;
 };
 
+const POINTS_RATE_KEYS = [
+  "tier1PointsPerRuble",
+  "tier2PointsPerRuble",
+  "tier3PointsPerRuble",
+  "tier4PointsPerRuble",
+] as const;
+
+const LEADERBOARD_FIELD_KEYS = [
+  "leaderboardShowNames",
+  "leaderboardShowCompany",
+  "leaderboardShowLocation",
+  "leaderboardShowTier",
+  "leaderboardShowPoints",
+] as const;
 
 export async function PATCH(request: NextRequest) {
   try {
@@ -18,18 +33,32 @@ export async function PATCH(request: NextRequest) {
     }
 
     const body = await request.json();
-    const { enabled } = body;
+    const data: Prisma.BonusSettingsUpdateInput = {};
+    if (typeof body.enabled === "boolean") data.enabled = body.enabled;
+    for (const key of LEADERBOARD_FIELD_KEYS) {
+      if (typeof body[key] === "boolean") data[key] = body[key];
+    }
+
+    // Points per ruble by tier
+    for (const key of POINTS_RATE_KEYS) {
+      if (body[key] === undefined) continue;
+      const rate = Number(body[key]);
+      if (!Number.isFinite(rate) || rate < 0) {
+        return NextResponse.json({ message: `Invalid ${key}` }, { status: 400 });
+      }
+      data[key] = rate;
+    }
 
     let settings = await (await getPrisma()).bonusSettings.findFirst();
 
     if (settings) {
       await (await getPrisma()).bonusSettings.update({
         where: { id: settings.id },
-        data: { enabled },
+        data,
       });
     } else {
       settings = await (await getPrisma()).bonusSettings.create({
-        data: { enabled },
+        data: data as Prisma.BonusSettingsCreateInput,
       });
     }
 
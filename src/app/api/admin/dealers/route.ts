@@ -52,7 +52,15 @@ export async function GET() {
           : null,
       })),
       bonusSettings: bonusSettings
-        ? { id: bonusSettings.id, enabled: bonusSettings.enabled }
+        ? {
+            id: bonusSettings.id,
+            enabled: bonusSettings.enabled,
+            leaderboardShowNames: bonusSettings.leaderboardShowNames,
+            leaderboardShowCompany: bonusSettings.leaderboardShowCompany,
+            leaderboardShowLocation: bonusSettings.leaderboardShowLocation,
+            leaderboardShowTier: bonusSettings.leaderboardShowTier,
+            leaderboardShowPoints: bonusSettings.leaderboardShowPoints,
+          }
         : null,
     });
   } catch (error) {
@@ -69,6 +77,7 @@ export async function PATCH(request: NextRequest) {
     }
 
     const body = await request.json();
+    // Points are not editable here: they change only through the points ledger
     const { userId, profileId, ...profileData } = body;
 
     if (profileId) {
@@ -78,7 +87,6 @@ export async function PATCH(request: NextRequest) {
         data: {
           companyName: profileData.companyName,
           region: profileData.region,
-          pointsBalance: profileData.pointsBalance,
           manualTier: profileData.manualTier,
           manualTierEnabled: profileData.manualTierEnabled,
           manualTierExpiresAt: profileData.manualTierExpiresAt
@@ -96,7 +104,6 @@ export async function PATCH(request: NextRequest) {
           userId,
           companyName: profileData.companyName,
           region: profileData.region,
-          pointsBalance: profileData.pointsBalance || 0,
           autoTier: "TIER1",
           currentTier: profileData.manualTier || "TIER1",
           manualTier: profileData.manualTier,
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCurrentUser } from "@/lib/auth";
+import { sendTemplateEmail } from "@/lib/email";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Send a test email with the saved SMTP settings: { to }.
+ * Works while the channel is still disabled, so it can be checked before switching on.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const currentUser = await getCurrentUser();
+    if (!currentUser || currentUser.role !== "ADMIN") {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const to = typeof body.to === "string" && body.to.trim() ? body.to.trim() : currentUser.email;
+
+    const result = await sendTemplateEmail(
+      to,
+      "test",
+      { sentBy: currentUser.fullName || currentUser.email },
+      { force: true }
+    );
+    if (!result.success) {
+      return NextResponse.json({ message: result.error }, { status: 502 });
+    }
+
+    return NextResponse.json({ success: true, messageId: result.messageId, to });
+  } catch (error) {
+    console.error("Error sending test email:", error);
+    return NextResponse.json({ message: "Error sending test email" }, { status: 500 });
+  }
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCurrentUser } from "@/lib/auth";
+import {
+  getIntegration,
+  INTEGRATION_NAMES,
+  isIntegrationName,
+  maskIntegration,
+  saveIntegration,
+} from "@/lib/integrations";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Integration channels with their settings; secrets are replaced with "<key>Set" flags
+ */
+export async function GET() {
+  try {
+    const currentUser = await getCurrentUser();
+    if (!currentUser || currentUser.role !== "ADMIN") {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 403 });
+    }
+
+    const integrations = await Promise.all(INTEGRATION_NAMES.map((name) => getIntegration(name)));
+    return NextResponse.json({ integrations: integrations.map(maskIntegration) });
+  } catch (error) {
+    console.error("Error fetching integrations:", error);
+    return NextResponse.json({ message: "Error fetching integrations" }, { status: 500 });
+  }
+}
+
+/**
+ * Save a channel: { name, isEnabled?, config? }. An empty secret keeps the stored one.
+ */
+export async function PATCH(request: NextRequest) {
+  try {
+    const currentUser = await getCurrentUser();
+    if (!currentUser || currentUser.role !== "ADMIN") {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 403 });
+    }
+
+    const body = await request.json();
+    if (!isIntegrationName(body.name)) {
+      return NextResponse.json({ message: "Unknown integration" }, { status: 400 });
+    }
+    if (body.config !== undefined && (typeof body.config !== "object" || body.config === null)) {
+      return NextResponse.json({ message: "Invalid config" }, { status: 400 });
+    }
+
+    const integration = await saveIntegration(body.name, {
+      isEnabled: typeof body.isEnabled === "boolean" ? body.isEnabled : undefined,
+      config: body.config,
+    });
+
+    return NextResponse.json(maskIntegration(integration));
+  } catch (error) {
+    console.error("Error saving integration:", error);
+    return NextResponse.json({ message: "Error saving integration" }, { status: 500 });
+  }
+}
@@ -0,0 +1,52 @@
+import { NextResponse } from "next/server";
+import { getCurrentUser } from "@/lib/auth";
+import { getTelegramWebhookInfo, setTelegramWebhook } from "@/lib/telegram";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Webhook status as reported by Bot API (url, pending updates, last delivery error)
+ */
+export async function GET() {
+  try {
+    const currentUser = await getCurrentUser();
+    if (!currentUser || currentUser.role !== "ADMIN") {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 403 });
+    }
+
+    const info = await getTelegramWebhookInfo();
+    return NextResponse.json({
+      url: info.url,
+      pendingUpdateCount: info.pending_update_count,
+      lastErrorDate: info.last_error_date ? new Date(info.last_error_date * 1000) : null,
+      lastErrorMessage: info.last_error_message || null,
+    });
+  } catch (error) {
+    console.error("Error fetching Telegram webhook info:", error);
+    return NextResponse.json(
+      { message: error instanceof Error ? error.message : "Error fetching webhook info" },
+      { status: 502 }
+    );
+  }
+}
+
+/**
+ * Point the bot at /api/telegram/webhook of this app with a fresh secret token
+ */
+export async function POST() {
+  try {
+    const currentUser = await getCurrentUser();
+    if (!currentUser || currentUser.role !== "ADMIN") {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 403 });
+    }
+
+    const result = await setTelegramWebhook();
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    console.error("Error setting Telegram webhook:", error);
+    return NextResponse.json(
+      { message: error instanceof Error ? error.message : "Error setting webhook" },
+      { status: 502 }
+    );
+  }
+}
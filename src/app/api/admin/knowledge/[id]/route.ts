@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getCurrentUser } from "@/lib/auth";
+import { indexKnowledgeItem, invalidateChunkCache } from "@/lib/rag-service";
 
 export const dynamic = "force-dynamic";
 
@@ -37,9 +38,20 @@ export async function PATCH(
         articleCode: body.articleCode,
         isPublic: body.isPublic,
         isAiSource: body.isAiSource,
+        syncIntervalMinutes:
+          body.syncIntervalMinutes !== undefined
+            ? body.syncIntervalMinutes || null
+            : undefined,
       },
     });
 
+    // Rebuild RAG chunks; a failed embedding call must not fail the save
+    try {
+      await indexKnowledgeItem(id);
+    } catch (error) {
+      console.error("Error indexing knowledge base item:", error);
+    }
+
     return NextResponse.json({ success: true });
   } catch (error) {
     console.error("Error updating knowledge base item:", error);
@@ -59,7 +71,9 @@ export async function DELETE(
 
     const { id } = await params;
 
+    // Chunks are removed by cascade
     await (await getPrisma()).knowledgeBase.delete({ where: { id } });
+    invalidateChunkCache();
 
     return NextResponse.json({ success: true });
   } catch (error) {
@@ -0,0 +1,27 @@
+import { NextResponse } from "next/server";
+import { getCurrentUser } from "@/lib/auth";
+import { reindexKnowledgeBase } from "@/lib/rag-service";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Rebuild RAG chunks and embeddings for all AI sources
+ */
+export async function POST() {
+  try {
+    const currentUser = await getCurrentUser();
+    if (!currentUser || currentUser.role !== "ADMIN") {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 403 });
+    }
+
+    const result = await reindexKnowledgeBase();
+
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    console.error("Error reindexing knowledge base:", error);
+    return NextResponse.json(
+      { success: false, message: "Error reindexing knowledge base" },
+      { status: 500 }
+    );
+  }
+}
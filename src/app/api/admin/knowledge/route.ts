@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getCurrentUser } from "@/lib/auth";
+import { indexKnowledgeItem } from "@/lib/rag-service";
 
 export const dynamic = "force-dynamic";
 
@@ -37,6 +38,9 @@ export async function GET() {
         isAiSource: item.isAiSource,
         xmlData: item.xmlData,
         lastSync: item.lastSync?.toISOString(),
+        syncIntervalMinutes: item.syncIntervalMinutes,
+        feedFormat: item.feedFormat,
+        indexedAt: item.indexedAt?.toISOString(),
         createdAt: item.createdAt.toISOString(),
         updatedAt: item.updatedAt.toISOString(),
       }))
@@ -67,6 +71,7 @@ export async function POST(request: NextRequest) {
       articleCode,
       isPublic,
       isAiSource,
+      syncIntervalMinutes,
     } = body;
 
     const item = await (await getPrisma()).knowledgeBase.create({
@@ -82,9 +87,17 @@ export async function POST(request: NextRequest) {
         articleCode,
         isPublic: isPublic ?? true,
         isAiSource: isAiSource ?? false,
+        syncIntervalMinutes: syncIntervalMinutes || null,
       },
     });
 
+    // Build RAG chunks; a failed embedding call must not fail the save
+    try {
+      await indexKnowledgeItem(item.id);
+    } catch (error) {
+      console.error("Error indexing knowledge base item:", error);
+    }
+
     return NextResponse.json({ id: item.id });
   } catch (error) {
     console.error("Error creating knowledge base item:", error);
@@ -0,0 +1,122 @@
+import { NextRequest, NextResponse } from "next/server";
+import { OrderStatus } from "@prisma/client";
+import { getCurrentUser } from "@/lib/auth";
+import {
+  canManageOrders,
+  changeOrderStatus,
+  ORDER_STATUS_TRANSITIONS,
+} from "@/lib/order-workflow";
+
+export const dynamic = "force-dynamic";
+
+// Lazy prisma import to avoid build-time issues
+const getPrisma = async () => {
+  const { default: prisma } = await import("@/lib/prisma");
+  return prisma;
+};
+
+
+async function getOrderDetails(id: string) {
+  const order = await (await getPrisma()).order.findUnique({
+    where: { id },
+    include: {
+      user: {
+        select: { email: true, fullName: true, displayName: true, phone: true, city: true },
+      },
+      legalEntity: { select: { name: true, inn: true, kpp: true, address: true } },
+      statusHistory: {
+        orderBy: { createdAt: "asc" },
+        include: {
+          changedBy: { select: { email: true, fullName: true, displayName: true } },
+        },
+      },
+    },
+  });
+
+  if (!order) return null;
+
+  return {
+    id: order.id,
+    orderNumber: order.orderNumber,
+    status: order.status,
+    allowedTransitions: ORDER_STATUS_TRANSITIONS[order.status],
+    totalCost: order.totalCost,
+    items: order.items,
+    comment: order.comment,
+    contactName: order.contactName,
+    contactPhone: order.contactPhone,
+    contactEmail: order.contactEmail,
+    deliveryAddress: order.deliveryAddress,
+    user: order.user,
+    legalEntity: order.legalEntity,
+    history: order.statusHistory.map((entry) => ({
+      id: entry.id,
+      fromStatus: entry.fromStatus,
+      toStatus: entry.toStatus,
+      comment: entry.comment,
+      changedBy: entry.changedBy
+        ? entry.changedBy.displayName || entry.changedBy.fullName || entry.changedBy.email
+        : null,
+      createdAt: entry.createdAt.toISOString(),
+    })),
+    createdAt: order.createdAt.toISOString(),
+    updatedAt: order.updatedAt.toISOString(),
+  };
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const currentUser = await getCurrentUser();
+    if (!canManageOrders(currentUser)) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const order = await getOrderDetails(id);
+
+    if (!order) {
+      return NextResponse.json({ message: "Order not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(order);
+  } catch (error) {
+    console.error("Error fetching order:", error);
+    return NextResponse.json({ message: "Error fetching order" }, { status: 500 });
+  }
+}
+
+/**
+ * Move the order through the status workflow: { status, comment }
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const currentUser = await getCurrentUser();
+    if (!currentUser || !canManageOrders(currentUser)) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const { status, comment } = body;
+
+    if (!Object.values(OrderStatus).includes(status)) {
+      return NextResponse.json({ message: "Invalid status" }, { status: 400 });
+    }
+
+    const result = await changeOrderStatus(id, status, currentUser.id, comment);
+    if (!result.success) {
+      return NextResponse.json({ message: result.error }, { status: result.status });
+    }
+
+    return NextResponse.json(await getOrderDetails(id));
+  } catch (error) {
+    console.error("Error updating order status:", error);
+    return NextResponse.json({ message: "Error updating order status" }, { status: 500 });
+  }
+}
@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from "next/server";
+import { OrderStatus, Prisma } from "@prisma/client";
+import { getCurrentUser } from "@/lib/auth";
+import { canManageOrders } from "@/lib/order-workflow";
+
+export const dynamic = "force-dynamic";
+
+// Lazy prisma import to avoid build-time issues
+const getPrisma = async () => {
+  const { default: prisma } = await import("@/lib/prisma");
+  return prisma;
+};
+
+
+/**
+ * Orders of all customers (admins and managers)
+ * ?status=    one OrderStatus
+ * ?search=    order number, contact name / phone / email, customer email
+ * ?from=&to=  creation date range (YYYY-MM-DD)
+ * ?limit=&offset=
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const currentUser = await getCurrentUser();
+    if (!canManageOrders(currentUser)) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const status = searchParams.get("status");
+    const search = searchParams.get("search")?.trim();
+    const from = searchParams.get("from");
+    const to = searchParams.get("to");
+    const limit = searchParams.get("limit");
+    const offset = searchParams.get("offset");
+
+    const conditions: Prisma.OrderWhereInput[] = [];
+
+    if (status && Object.values(OrderStatus).includes(status as OrderStatus)) {
+      conditions.push({ status: status as OrderStatus });
+    }
+
+    if (search) {
+      const contains = { contains: search, mode: "insensitive" as const };
+      conditions.push({
+        OR: [
+          { orderNumber: contains },
+          { contactName: contains },
+          { contactPhone: contains },
+          { contactEmail: contains },
+          { user: { email: contains } },
+        ],
+      });
+    }
+
+    if (from) conditions.push({ createdAt: { gte: new Date(from) } });
+    if (to) {
+      // Inclusive end date
+      const end = new Date(to);
+      end.setDate(end.getDate() + 1);
+      conditions.push({ createdAt: { lt: end } });
+    }
+
+    const where: Prisma.OrderWhereInput = conditions.length > 0 ? { AND: conditions } : {};
+    const prisma = await getPrisma();
+
+    const [orders, total, statusCounts] = await Promise.all([
+      prisma.order.findMany({
+        where,
+        orderBy: { createdAt: "desc" },
+        take: Math.min(limit ? parseInt(limit) : 50, 200),
+        skip: offset ? parseInt(offset) : 0,
+        include: {
+          user: { select: { email: true, fullName: true, displayName: true } },
+          legalEntity: { select: { name: true } },
+        },
+      }),
+      prisma.order.count({ where }),
+      prisma.order.groupBy({ by: ["status"], _count: { _all: true } }),
+    ]);
+
+    return NextResponse.json({
+      items: orders.map((order) => ({
+        id: order.id,
+        orderNumber: order.orderNumber,
+        status: order.status,
+        totalCost: order.totalCost,
+        itemsCount: Array.isArray(order.items) ? order.items.length : 0,
+        contactName: order.contactName,
+        contactPhone: order.contactPhone,
+        customerEmail: order.user?.email || order.contactEmail,
+        customerName: order.user?.displayName || order.user?.fullName || order.contactName,
+        legalEntityName: order.legalEntity?.name || null,
+        createdAt: order.createdAt.toISOString(),
+        updatedAt: order.updatedAt.toISOString(),
+      })),
+      total,
+      counts: Object.fromEntries(statusCounts.map((row) => [row.status, row._count._all])),
+    });
+  } catch (error) {
+    console.error("Error fetching orders:", error);
+    return NextResponse.json({ message: "Error fetching orders" }, { status: 500 });
+  }
+}
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCurrentUser } from "@/lib/auth";
+import { tierLevels } from "@/lib/dealer-tiers";
+import {
+  getPriceTypeMappings,
+  isPriceAudience,
+  listFeedPriceTypes,
+  PriceAudience,
+  savePriceTypeMappings,
+} from "@/lib/dealer-pricing";
+
+export const dynamic = "force-dynamic";
+
+// Lazy prisma import to avoid build-time issues
+const getPrisma = async () => {
+  const { default: prisma } = await import("@/lib/prisma");
+  return prisma;
+};
+
+/**
+ * Feed price types, tier names and the current audience → price type mapping
+ */
+export async function GET() {
+  try {
+    const currentUser = await getCurrentUser();
+    if (!currentUser || currentUser.role !== "ADMIN") {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 403 });
+    }
+
+    const [priceTypes, mappings, settings] = await Promise.all([
+      listFeedPriceTypes(),
+      getPriceTypeMappings(),
+      (await getPrisma()).bonusSettings.findFirst(),
+    ]);
+
+    return NextResponse.json({ priceTypes, mappings, tiers: tierLevels(settings) });
+  } catch (error) {
+    console.error("Error fetching price type mappings:", error);
+    return NextResponse.json({ message: "Error fetching price type mappings" }, { status: 500 });
+  }
+}
+
+/**
+ * Body: { mappings: { TIER1: "Дилер 1", USER: null, ... } } - null or "" removes a mapping
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const currentUser = await getCurrentUser();
+    if (!currentUser || currentUser.role !== "ADMIN") {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const raw = (body?.mappings && typeof body.mappings === "object" ? body.mappings : {}) as Record<
+      string,
+      unknown
+    >;
+
+    const mappings: Partial<Record<PriceAudience, string | null>> = {};
+    for (const [audience, priceType] of Object.entries(raw)) {
+      if (!isPriceAudience(audience) || (priceType != null && typeof priceType !== "string")) {
+        return NextResponse.json({ message: `Invalid mapping for ${audience}` }, { status: 400 });
+      }
+      mappings[audience] = priceType;
+    }
+
+    return NextResponse.json({ mappings: await savePriceTypeMappings(mappings) });
+  } catch (error) {
+    console.error("Error saving price type mappings:", error);
+    return NextResponse.json({ message: "Error saving price type mappings" }, { status: 500 });
+  }
+}
@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from "next/server";
+import { RedemptionStatus } from "@prisma/client";
+import { getCurrentUser } from "@/lib/auth";
+import {
+  changeRedemptionStatus,
+  redemptionInclude,
+  REDEMPTION_STATUS_TRANSITIONS,
+} from "@/lib/rewards";
+
+export const dynamic = "force-dynamic";
+
+// Lazy prisma import to avoid build-time issues
+const getPrisma = async () => {
+  const { default: prisma } = await import("@/lib/prisma");
+  return prisma;
+};
+
+
+/**
+ * Redemption requests of all dealers, optionally filtered by status
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const currentUser = await getCurrentUser();
+    if (!currentUser || currentUser.role !== "ADMIN") {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const status = searchParams.get("status") as RedemptionStatus | null;
+    const where =
+      status && Object.values(RedemptionStatus).includes(status) ? { status } : {};
+
+    const prisma = await getPrisma();
+    const [redemptions, counts] = await Promise.all([
+      prisma.rewardRedemption.findMany({
+        where,
+        orderBy: { createdAt: "desc" },
+        take: 200,
+        include: redemptionInclude,
+      }),
+      prisma.rewardRedemption.groupBy({ by: ["status"], _count: true }),
+    ]);
+
+    return NextResponse.json({
+      items: redemptions.map((r) => ({
+        id: r.id,
+        rewardTitle: r.rewardTitle,
+        pointsCost: r.pointsCost,
+        status: r.status,
+        allowedTransitions: REDEMPTION_STATUS_TRANSITIONS[r.status],
+        comment: r.comment,
+        adminComment: r.adminComment,
+        createdAt: r.createdAt,
+        updatedAt: r.updatedAt,
+        dealer: {
+          profileId: r.dealerProfile.id,
+          companyName: r.dealerProfile.companyName,
+          name:
+            r.dealerProfile.user.displayName ||
+            r.dealerProfile.user.fullName ||
+            r.dealerProfile.user.email,
+          email: r.dealerProfile.user.email,
+        },
+        processedBy: r.processedBy
+          ? r.processedBy.displayName || r.processedBy.fullName || r.processedBy.email
+          : null,
+      })),
+      counts: Object.fromEntries(counts.map((c) => [c.status, c._count])),
+    });
+  } catch (error) {
+    console.error("Error fetching redemptions:", error);
+    return NextResponse.json({ message: "Error fetching redemptions" }, { status: 500 });
+  }
+}
+
+/**
+ * Process a request: { id, status, comment? }
+ */
+export async function PATCH(request: NextRequest) {
+  try {
+    const currentUser = await getCurrentUser();
+    if (!currentUser || currentUser.role !== "ADMIN") {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const status = body.status as RedemptionStatus;
+    if (!body.id) {
+      return NextResponse.json({ message: "ID required" }, { status: 400 });
+    }
+    if (!Object.values(RedemptionStatus).includes(status)) {
+      return NextResponse.json({ message: "Invalid status" }, { status: 400 });
+    }
+
+    const result = await changeRedemptionStatus(
+      String(body.id),
+      status,
+      currentUser.id,
+      typeof body.comment === "string" ? body.comment : null
+    );
+    if (!result.success) {
+      return NextResponse.json({ message: result.error }, { status: result.status });
+    }
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("Error updating redemption:", error);
+    return NextResponse.json({ message: "Error updating redemption" }, { status: 500 });
+  }
+}
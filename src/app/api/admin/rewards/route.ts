@@ -0,0 +1,156 @@
+import { NextRequest, NextResponse } from "next/server";
+import { DealerTier, Prisma } from "@prisma/client";
+import { getCurrentUser } from "@/lib/auth";
+
+export const dynamic = "force-dynamic";
+
+// Lazy prisma import to avoid build-time issues
+const getPrisma = async () => {
+  const { default: prisma } = await import("@/lib/prisma");
+  return prisma;
+};
+
+
+/**
+ * Validate reward fields from the request body
+ */
+function parseReward(
+  body: Record<string, unknown>
+): { data: Prisma.RewardCreateInput } | { error: string } {
+  const title = typeof body.title === "string" ? body.title.trim() : "";
+  const pointsCost = Number(body.pointsCost);
+  const stock =
+    body.stock === null || body.stock === undefined || body.stock === ""
+      ? null
+      : Number(body.stock);
+  const tiers = Array.isArray(body.tiers)
+    ? body.tiers.filter((tier): tier is DealerTier =>
+        Object.values(DealerTier).includes(tier as DealerTier)
+      )
+    : [];
+
+  if (!title) return { error: "Title is required" };
+  if (!Number.isInteger(pointsCost) || pointsCost <= 0) {
+    return { error: "Points cost must be a positive integer" };
+  }
+  if (stock !== null && (!Number.isInteger(stock) || stock < 0)) {
+    return { error: "Stock must be a non-negative integer" };
+  }
+
+  return {
+    data: {
+      title,
+      description: typeof body.description === "string" ? body.description.trim() || null : null,
+      imageUrl: typeof body.imageUrl === "string" ? body.imageUrl.trim() || null : null,
+      pointsCost,
+      stock,
+      tiers,
+      isActive: body.isActive !== false,
+      sortOrder: Number(body.sortOrder) || 0,
+    },
+  };
+}
+
+export async function GET() {
+  try {
+    const currentUser = await getCurrentUser();
+    if (!currentUser || currentUser.role !== "ADMIN") {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 403 });
+    }
+
+    const rewards = await (await getPrisma()).reward.findMany({
+      orderBy: [{ sortOrder: "asc" }, { createdAt: "desc" }],
+      include: { _count: { select: { redemptions: true } } },
+    });
+
+    return NextResponse.json(
+      rewards.map(({ _count, ...reward }) => ({
+        ...reward,
+        redemptionsCount: _count.redemptions,
+      }))
+    );
+  } catch (error) {
+    console.error("Error fetching rewards:", error);
+    return NextResponse.json({ message: "Error fetching rewards" }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const currentUser = await getCurrentUser();
+    if (!currentUser || currentUser.role !== "ADMIN") {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 403 });
+    }
+
+    const parsed = parseReward(await request.json());
+    if ("error" in parsed) {
+      return NextResponse.json({ message: parsed.error }, { status: 400 });
+    }
+
+    const reward = await (await getPrisma()).reward.create({ data: parsed.data });
+    return NextResponse.json({ id: reward.id });
+  } catch (error) {
+    console.error("Error creating reward:", error);
+    return NextResponse.json({ message: "Error creating reward" }, { status: 500 });
+  }
+}
+
+export async function PATCH(request: NextRequest) {
+  try {
+    const currentUser = await getCurrentUser();
+    if (!currentUser || currentUser.role !== "ADMIN") {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 403 });
+    }
+
+    const body = await request.json();
+    if (!body.id) {
+      return NextResponse.json({ message: "ID required" }, { status: 400 });
+    }
+
+    const parsed = parseReward(body);
+    if ("error" in parsed) {
+      return NextResponse.json({ message: parsed.error }, { status: 400 });
+    }
+
+    await (await getPrisma()).reward.update({
+      where: { id: body.id },
+      data: parsed.data,
+    });
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error updating reward:", error);
+    return NextResponse.json({ message: "Error updating reward" }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const currentUser = await getCurrentUser();
+    if (!currentUser || currentUser.role !== "ADMIN") {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const id = searchParams.get("id");
+
+    if (!id) {
+      return NextResponse.json({ message: "ID required" }, { status: 400 });
+    }
+
+    await (await getPrisma()).reward.delete({ where: { id } });
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    // Rewards with redemption requests are kept for the history, only deactivated
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      (error.code === "P2003" || error.code === "P2014")
+    ) {
+      return NextResponse.json(
+        { message: "Reward has redemptions, deactivate it instead" },
+        { status: 409 }
+      );
+    }
+    console.error("Error deleting reward:", error);
+    return NextResponse.json({ message: "Error deleting reward" }, { status: 500 });
+  }
+}
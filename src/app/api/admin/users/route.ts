@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getCurrentUser } from "@/lib/auth";
+import { notifyAccountApproved } from "@/lib/notifications";
+import { sendAccountApprovedEmail } from "@/lib/email";
 
 export const dynamic = "force-dynamic";
 
@@ -63,11 +65,28 @@ export async function PATCH(request: NextRequest) {
     if (typeof isApproved === "boolean") updateData.isApproved = isApproved;
     if (typeof isBlocked === "boolean") updateData.isBlocked = isBlocked;
 
+    const previous = await (await getPrisma()).user.findUnique({
+      where: { id: userId },
+      select: { isApproved: true, email: true, fullName: true, displayName: true },
+    });
+
     await (await getPrisma()).user.update({
       where: { id: userId },
       data: updateData,
     });
 
+    if (isApproved === true && previous && !previous.isApproved) {
+      await notifyAccountApproved(userId).catch((error) =>
+        console.error("Error sending approval notification:", error)
+      );
+      // Sent in the background: a slow mail server must not hold up the approval
+      sendAccountApprovedEmail(previous)
+        .then((email) => {
+          if (!email.success && !email.skipped) console.warn("Approval email not sent:", email.error);
+        })
+        .catch((error) => console.error("Error sending approval email:", error));
+    }
+
     return NextResponse.json({ success: true });
   } catch (error) {
     console.error("Error updating user:", error);
@@ -0,0 +1,136 @@
+import { NextRequest, NextResponse } from "next/server";
+import { Prisma } from "@prisma/client";
+import { getCurrentUser } from "@/lib/auth";
+import { invalidateWarehouseCache } from "@/lib/warehouses";
+
+export const dynamic = "force-dynamic";
+
+// Lazy prisma import to avoid build-time issues
+const getPrisma = async () => {
+  const { default: prisma } = await import("@/lib/prisma");
+  return prisma;
+};
+
+
+export async function GET() {
+  try {
+    const currentUser = await getCurrentUser();
+    if (!currentUser || currentUser.role !== "ADMIN") {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 403 });
+    }
+
+    const warehouses = await (await getPrisma()).warehouse.findMany({
+      orderBy: [{ isAutoDiscovered: "desc" }, { code: "asc" }],
+    });
+
+    return NextResponse.json(warehouses);
+  } catch (error) {
+    console.error("Error fetching warehouses:", error);
+    return NextResponse.json({ message: "Error fetching warehouses" }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const currentUser = await getCurrentUser();
+    if (!currentUser || currentUser.role !== "ADMIN") {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const { code, name, city, region, address, isActive } = body;
+
+    if (!code?.trim() || !name?.trim()) {
+      return NextResponse.json(
+        { message: "Code and name are required" },
+        { status: 400 }
+      );
+    }
+
+    const warehouse = await (await getPrisma()).warehouse.create({
+      data: {
+        code: code.trim(),
+        name: name.trim(),
+        city: city?.trim() || null,
+        region: region?.trim() || null,
+        address: address?.trim() || null,
+        isActive: isActive ?? true,
+      },
+    });
+
+    invalidateWarehouseCache();
+    return NextResponse.json({ id: warehouse.id });
+  } catch (error) {
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === "P2002"
+    ) {
+      return NextResponse.json(
+        { message: "Warehouse with this code already exists" },
+        { status: 409 }
+      );
+    }
+    console.error("Error creating warehouse:", error);
+    return NextResponse.json({ message: "Error creating warehouse" }, { status: 500 });
+  }
+}
+
+export async function PATCH(request: NextRequest) {
+  try {
+    const currentUser = await getCurrentUser();
+    if (!currentUser || currentUser.role !== "ADMIN") {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const { id, name, city, region, address, isActive } = body;
+
+    if (!id) {
+      return NextResponse.json({ message: "ID required" }, { status: 400 });
+    }
+
+    // The feed code is the join key for stocks, so it is never edited here
+    await (await getPrisma()).warehouse.update({
+      where: { id },
+      data: {
+        name: name?.trim() || undefined,
+        city: city !== undefined ? city?.trim() || null : undefined,
+        region: region !== undefined ? region?.trim() || null : undefined,
+        address: address !== undefined ? address?.trim() || null : undefined,
+        isActive,
+        // Reviewed by an admin - no longer a new auto-discovered entry
+        isAutoDiscovered: false,
+      },
+    });
+
+    invalidateWarehouseCache();
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error updating warehouse:", error);
+    return NextResponse.json({ message: "Error updating warehouse" }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const currentUser = await getCurrentUser();
+    if (!currentUser || currentUser.role !== "ADMIN") {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const id = searchParams.get("id");
+
+    if (!id) {
+      return NextResponse.json({ message: "ID required" }, { status: 400 });
+    }
+
+    await (await getPrisma()).warehouse.delete({ where: { id } });
+
+    invalidateWarehouseCache();
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting warehouse:", error);
+    return NextResponse.json({ message: "Error deleting warehouse" }, { status: 500 });
+  }
+}
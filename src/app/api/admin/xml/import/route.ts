@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from "next/server";
+import { CatalogFormat, XmlSyncTrigger } from "@prisma/client";
+import { getSession, getCurrentUser } from "@/lib/auth";
+import { importCatalog } from "@/lib/xml-sync";
+import { CatalogFile, ColumnMapping } from "@/lib/catalog-import";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Import a catalog from uploaded files (multipart/form-data), no public URL required:
+ * knowledgeBaseId, file (repeatable - import.xml + offers.xml for CommerceML),
+ * format (optional, detected by content), mapping (optional JSON column mapping for CSV/XLSX).
+ * Without files the feed URL is imported with the given mapping.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getSession();
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await getCurrentUser();
+    if (!user || user.role !== "ADMIN") {
+      return NextResponse.json(
+        { success: false, error: "Forbidden: Admin access required" },
+        { status: 403 }
+      );
+    }
+
+    const formData = await request.formData();
+    const knowledgeBaseId = formData.get("knowledgeBaseId");
+    const format = formData.get("format");
+    const mapping = formData.get("mapping");
+
+    if (typeof knowledgeBaseId !== "string" || !knowledgeBaseId) {
+      return NextResponse.json(
+        { success: false, error: "knowledgeBaseId is required" },
+        { status: 400 }
+      );
+    }
+
+    if (format && !Object.values(CatalogFormat).includes(format as CatalogFormat)) {
+      return NextResponse.json(
+        { success: false, error: `Unsupported format: ${format}` },
+        { status: 400 }
+      );
+    }
+
+    // The mapping is kept on the feed so URL syncs of the same price list reuse it;
+    // importCatalog saves it only after a successful import
+    let columnMapping: unknown;
+    if (typeof mapping === "string" && mapping) {
+      try {
+        columnMapping = JSON.parse(mapping);
+      } catch {
+        columnMapping = null;
+      }
+      if (!columnMapping || typeof columnMapping !== "object" || Array.isArray(columnMapping)) {
+        return NextResponse.json(
+          { success: false, error: "mapping must be a JSON object" },
+          { status: 400 }
+        );
+      }
+    }
+
+    const files: CatalogFile[] = [];
+    for (const entry of formData.getAll("file")) {
+      if (entry instanceof File) {
+        files.push({ name: entry.name, data: await entry.arrayBuffer() });
+      }
+    }
+
+    const result = await importCatalog(knowledgeBaseId, {
+      trigger: files.length > 0 ? XmlSyncTrigger.UPLOAD : XmlSyncTrigger.MANUAL,
+      files,
+      format: (format as CatalogFormat) || undefined,
+      mapping: (columnMapping as ColumnMapping) || undefined,
+    });
+
+    if (!result.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: result.error,
+          runId: result.runId,
+          debug: result.debug,
+        },
+        { status: result.status }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      runId: result.runId,
+      format: result.format,
+      products_count: result.productsCount,
+      added_count: result.addedCount,
+      removed_count: result.removedCount,
+      changed_count: result.changedCount,
+      warehouses_count: result.warehousesCount,
+      encoding: result.encoding,
+    });
+  } catch (error) {
+    console.error("[importCatalog] Error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
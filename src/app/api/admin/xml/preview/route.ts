@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from "next/server";
+import { CatalogFormat } from "@prisma/client";
+import { getCurrentUser } from "@/lib/auth";
+import {
+  CatalogFile,
+  ColumnMapping,
+  detectCatalogFormat,
+  downloadCatalogFiles,
+  isTabularFormat,
+  previewCatalogTable,
+} from "@/lib/catalog-import";
+
+export const dynamic = "force-dynamic";
+
+// Lazy prisma import to avoid build-time issues
+const getPrisma = async () => {
+  const { default: prisma } = await import("@/lib/prisma");
+  return prisma;
+};
+
+
+/**
+ * Column preview of a CSV/XLSX price list for the mapping dialog (multipart/form-data):
+ * knowledgeBaseId, file (optional - the feed URL is downloaded without it), format (optional)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const currentUser = await getCurrentUser();
+    if (!currentUser || currentUser.role !== "ADMIN") {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 403 });
+    }
+
+    const formData = await request.formData();
+    const knowledgeBaseId = formData.get("knowledgeBaseId");
+    const format = formData.get("format");
+    const upload = formData.get("file");
+
+    if (typeof knowledgeBaseId !== "string" || !knowledgeBaseId) {
+      return NextResponse.json({ message: "knowledgeBaseId is required" }, { status: 400 });
+    }
+
+    const prisma = await getPrisma();
+    const feed = await prisma.knowledgeBase.findUnique({
+      where: { id: knowledgeBaseId },
+      select: { url: true, columnMapping: true },
+    });
+
+    if (!feed) {
+      return NextResponse.json({ message: "Feed not found" }, { status: 404 });
+    }
+
+    let file: CatalogFile;
+    if (upload instanceof File) {
+      file = { name: upload.name, data: await upload.arrayBuffer() };
+    } else if (feed.url) {
+      [file] = await downloadCatalogFiles(feed.url);
+    } else {
+      return NextResponse.json({ message: "File or feed URL is required" }, { status: 400 });
+    }
+
+    const catalogFormat =
+      format && Object.values(CatalogFormat).includes(format as CatalogFormat)
+        ? (format as CatalogFormat)
+        : detectCatalogFormat(file);
+
+    const warehouses = await prisma.warehouse.findMany({
+      orderBy: { code: "asc" },
+      select: { code: true, name: true, city: true },
+    });
+
+    // Only price lists need a column mapping
+    if (!isTabularFormat(catalogFormat)) {
+      return NextResponse.json({
+        format: catalogFormat,
+        headers: [],
+        rows: [],
+        mapping: {},
+        warehouses,
+      });
+    }
+
+    const preview = await previewCatalogTable(
+      catalogFormat,
+      file,
+      feed.columnMapping as ColumnMapping | null,
+      warehouses
+    );
+
+    return NextResponse.json({ format: catalogFormat, ...preview, warehouses });
+  } catch (error) {
+    console.error("Error previewing catalog:", error);
+    return NextResponse.json(
+      { message: error instanceof Error ? error.message : "Error previewing catalog" },
+      { status: 500 }
+    );
+  }
+}
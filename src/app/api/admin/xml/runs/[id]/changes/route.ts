@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from "next/server";
+import { XmlSyncChangeType } from "@prisma/client";
+import { getCurrentUser } from "@/lib/auth";
+
+export const dynamic = "force-dynamic";
+
+// Lazy prisma import to avoid build-time issues
+const getPrisma = async () => {
+  const { default: prisma } = await import("@/lib/prisma");
+  return prisma;
+};
+
+
+/**
+ * Product change report of a sync run
+ * ?type= limits the report to one change type (ADDED, PRICE_CHANGED, ...)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const currentUser = await getCurrentUser();
+    if (!currentUser || currentUser.role !== "ADMIN") {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const { searchParams } = new URL(request.url);
+    const type = searchParams.get("type");
+
+    const prisma = await getPrisma();
+
+    const [changes, summary] = await Promise.all([
+      prisma.xmlSyncChange.findMany({
+        where: {
+          runId: id,
+          ...(type ? { type: type.toUpperCase() as XmlSyncChangeType } : {}),
+        },
+        orderBy: [{ type: "asc" }, { vendorCode: "asc" }],
+      }),
+      prisma.xmlSyncChange.groupBy({
+        by: ["type"],
+        where: { runId: id },
+        _count: { _all: true },
+      }),
+    ]);
+
+    return NextResponse.json({
+      summary: Object.fromEntries(summary.map((s) => [s.type, s._count._all])),
+      changes: changes.map((change) => ({
+        id: change.id,
+        vendorCode: change.vendorCode,
+        productName: change.productName,
+        type: change.type,
+        oldPrice: change.oldPrice,
+        newPrice: change.newPrice,
+        oldValue: change.oldValue,
+        newValue: change.newValue,
+        details: change.details,
+      })),
+    });
+  } catch (error) {
+    console.error("Error fetching XML sync changes:", error);
+    return NextResponse.json({ message: "Error fetching data" }, { status: 500 });
+  }
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCurrentUser } from "@/lib/auth";
+
+export const dynamic = "force-dynamic";
+
+// Lazy prisma import to avoid build-time issues
+const getPrisma = async () => {
+  const { default: prisma } = await import("@/lib/prisma");
+  return prisma;
+};
+
+
+/**
+ * XML feed sync history
+ * ?feedId= limits the log to one feed
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const currentUser = await getCurrentUser();
+    if (!currentUser || currentUser.role !== "ADMIN") {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const feedId = searchParams.get("feedId");
+    const limit = searchParams.get("limit");
+
+    const runs = await (await getPrisma()).xmlSyncRun.findMany({
+      where: feedId ? { feedId } : undefined,
+      orderBy: { startedAt: "desc" },
+      take: Math.min(limit ? parseInt(limit) : 50, 200),
+      include: { feed: { select: { title: true } } },
+    });
+
+    return NextResponse.json(
+      runs.map((run) => ({
+        id: run.id,
+        feedId: run.feedId,
+        feedTitle: run.feed.title,
+        trigger: run.trigger,
+        status: run.status,
+        format: run.format,
+        fileName: run.fileName,
+        startedAt: run.startedAt.toISOString(),
+        finishedAt: run.finishedAt?.toISOString() || null,
+        offersCount: run.offersCount,
+        productsCount: run.productsCount,
+        addedCount: run.addedCount,
+        removedCount: run.removedCount,
+        changedCount: run.changedCount,
+        encoding: run.encoding,
+        error: run.error,
+      }))
+    );
+  } catch (error) {
+    console.error("Error fetching XML sync runs:", error);
+    return NextResponse.json({ message: "Error fetching data" }, { status: 500 });
+  }
+}
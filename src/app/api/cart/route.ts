@@ -0,0 +1,108 @@
+import { NextRequest, NextResponse } from "next/server";
+import { CartItemSource } from "@prisma/client";
+import { getCurrentUser } from "@/lib/auth";
+import {
+  addCartItem,
+  getCart,
+  removeCartItems,
+  setCartItemQuantity,
+} from "@/lib/cart";
+
+export const dynamic = "force-dynamic";
+
+
+/**
+ * Current cart priced from the catalog
+ */
+export async function GET() {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ message: "Not authenticated" }, { status: 401 });
+    }
+
+    return NextResponse.json(await getCart(user.id));
+  } catch (error) {
+    console.error("Error fetching cart:", error);
+    return NextResponse.json({ message: "Error fetching cart" }, { status: 500 });
+  }
+}
+
+/**
+ * Add a product: { vendorCode, quantity, source }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ message: "Not authenticated" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const { vendorCode, quantity, source } = body;
+
+    if (!vendorCode?.trim()) {
+      return NextResponse.json({ message: "Vendor code required" }, { status: 400 });
+    }
+
+    const cart = await addCartItem(
+      user.id,
+      vendorCode.trim(),
+      quantity,
+      Object.values(CartItemSource).includes(source) ? source : CartItemSource.CHAT
+    );
+
+    if (!cart) {
+      return NextResponse.json({ message: "Product not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(cart);
+  } catch (error) {
+    console.error("Error adding to cart:", error);
+    return NextResponse.json({ message: "Error adding to cart" }, { status: 500 });
+  }
+}
+
+/**
+ * Change the quantity of a line: { vendorCode, quantity }
+ */
+export async function PATCH(request: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ message: "Not authenticated" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const { vendorCode, quantity } = body;
+
+    if (!vendorCode) {
+      return NextResponse.json({ message: "Vendor code required" }, { status: 400 });
+    }
+
+    return NextResponse.json(await setCartItemQuantity(user.id, vendorCode, quantity));
+  } catch (error) {
+    console.error("Error updating cart:", error);
+    return NextResponse.json({ message: "Error updating cart" }, { status: 500 });
+  }
+}
+
+/**
+ * Remove a line (?vendorCode=) or empty the cart
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ message: "Not authenticated" }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const vendorCode = searchParams.get("vendorCode") || undefined;
+
+    return NextResponse.json(await removeCartItems(user.id, vendorCode));
+  } catch (error) {
+    console.error("Error removing from cart:", error);
+    return NextResponse.json({ message: "Error removing from cart" }, { status: 500 });
+  }
+}
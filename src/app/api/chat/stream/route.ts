@@ -1,37 +1,48 @@
 import { NextRequest } from "next/server";
-import { createLLMStream, AIProviderSettings } from "@/lib/llm-stream";
 import { checkRateLimit } from "@/lib/rate-limiter";
 import { aiQueue } from "@/lib/ai-queue";
+import { getCurrentUser } from "@/lib/auth";
+import { resolvePriceType } from "@/lib/dealer-pricing";
+import {
+  ChatHistoryMessage,
+  ChatStreamEvent,
+  productCardDealerPrice,
+  streamChatReply,
+} from "@/lib/chat-pipeline";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 
-// Lazy prisma import to avoid build-time issues
-const getPrisma = async () => {
-  const { default: prisma } = await import("@/lib/prisma");
-  return prisma;
-};
-
-
 // Track active SSE connections
 let activeConnections = 0;
 const MAX_CONNECTIONS = 100;
 
+/**
+ * One SSE frame per pipeline event: `event: <type>` and the rest of the event as JSON data
+ */
+function sseFrame({ type, ...data }: ChatStreamEvent): string {
+  return `event: ${type}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * Full chat pipeline (see lib/chat-pipeline) as typed Server-Sent Events:
+ * token, product_card, download_links, citation, error and a closing done.
+ */
 export async function POST(request: NextRequest) {
   // Rate limiting by session or IP
-  const clientId = request.headers.get("x-session-id") || 
-                   request.headers.get("x-forwarded-for") || 
+  const clientId = request.headers.get("x-session-id") ||
+                   request.headers.get("x-forwarded-for") ||
                    "anonymous";
-  
+
   const rateLimit = checkRateLimit(clientId, "aiStream");
-  
+
   if (!rateLimit.allowed) {
     return new Response(
-      JSON.stringify({ 
+      JSON.stringify({
         error: "Слишком много запросов. Подождите немного.",
         retryAfter: rateLimit.headers["X-RateLimit-Reset"],
       }),
-      { 
+      {
         status: 429,
         headers: {
           "Content-Type": "application/json",
@@ -44,7 +55,7 @@ export async function POST(request: NextRequest) {
   // Check connection limit
   if (activeConnections >= MAX_CONNECTIONS) {
     return new Response(
-      JSON.stringify({ 
+      JSON.stringify({
         error: "Сервер перегружен. Попробуйте позже.",
         activeConnections,
       }),
@@ -56,7 +67,7 @@ export async function POST(request: NextRequest) {
   if (!aiQueue.hasCapacity()) {
     const waitTime = aiQueue.getEstimatedWaitTime();
     return new Response(
-      JSON.stringify({ 
+      JSON.stringify({
         error: "AI сервис перегружен.",
         estimatedWait: Math.ceil(waitTime / 1000),
       }),
@@ -66,78 +77,74 @@ export async function POST(request: NextRequest) {
 
   try {
     const body = await request.json();
-    const { message, context, chatHistory } = body as {
+    const { message, chatHistory } = body as {
       message: string;
-      context?: string;
-      chatHistory?: Array<{ role: string; content: string }>;
+      chatHistory?: ChatHistoryMessage[];
     };
 
     if (!message) {
-      return new Response("message is required", { status: 400 });
+      return new Response(JSON.stringify({ error: "message is required" }), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
     }
 
-    // Load AI settings (cached in memory for performance)
-    const aiSettings = await getAISettings();
-
-    const llmSettings: AIProviderSettings = {
-      provider: aiSettings?.provider || "openai",
-      apiKey: aiSettings?.apiKey,
-      baseUrl: aiSettings?.baseUrl,
-      model: aiSettings?.model || "gpt-4o-mini",
-      temperature: aiSettings?.temperature || 0.7,
-      maxTokens: aiSettings?.maxTokens || 2048,
-      systemPrompt: aiSettings?.systemPrompt,
-    };
+    // Product cards carry the caller's own purchase price
+    const priceType = await resolvePriceType(await getCurrentUser());
 
-    // Build prompt with context
-    let prompt = message;
-    if (context) {
-      prompt = `Контекст:\n${context}\n\nЗапрос: ${message}`;
-    }
-
-    // Add chat history to system prompt
-    let systemPrompt = llmSettings.systemPrompt || "Вы - полезный ИИ-ассистент.";
-    if (chatHistory && chatHistory.length > 0) {
-      const historyText = chatHistory
-        .slice(-5)
-        .map((m) => `${m.role === "user" ? "Пользователь" : "Ассистент"}: ${m.content}`)
-        .join("\n");
-      systemPrompt += `\n\nПредыдущий диалог:\n${historyText}`;
-    }
+    const encoder = new TextEncoder();
+    const events = streamChatReply(message, chatHistory || []);
+    let released = false;
+    let cancelled = false;
+    const release = () => {
+      if (!released) {
+        released = true;
+        activeConnections--;
+      }
+    };
 
-    // Track connection
     activeConnections++;
 
-    // Create streaming response with cleanup
-    const stream = createLLMStream({
-      prompt,
-      systemPrompt,
-      settings: llmSettings,
-    });
-
-    // Wrap stream to track connection close
-    const wrappedStream = new ReadableStream({
+    const stream = new ReadableStream<Uint8Array>({
       async start(controller) {
-        const reader = stream.getReader();
+        let finished = false;
         try {
-          while (true) {
-            const { done, value } = await reader.read();
-            if (done) break;
-            controller.enqueue(value);
+          for await (const event of events) {
+            if (cancelled) break;
+            if (event.type === "product_card") {
+              const price = await productCardDealerPrice(event.data, priceType);
+              if (price) event.data = { ...event.data, dealerPrice: price };
+            }
+            controller.enqueue(encoder.encode(sseFrame(event)));
+            if (event.type === "done") finished = true;
           }
         } catch (error) {
           console.error("Stream error:", error);
+          if (!cancelled) {
+            controller.enqueue(
+              encoder.encode(
+                sseFrame({ type: "error", message: "Произошла ошибка при обработке запроса. Попробуйте ещё раз." })
+              )
+            );
+          }
         } finally {
-          activeConnections--;
-          controller.close();
+          release();
+          // A cancelled stream is already closed: nothing more can be sent
+          if (!cancelled) {
+            // The client waits for done to finish the message, whatever happened before
+            if (!finished) controller.enqueue(encoder.encode(sseFrame({ type: "done", attachments: [] })));
+            controller.close();
+          }
         }
       },
       cancel() {
-        activeConnections--;
+        cancelled = true;
+        release();
+        events.return(undefined);
       },
     });
 
-    return new Response(wrappedStream, {
+    return new Response(stream, {
       headers: {
         "Content-Type": "text/event-stream",
         "Cache-Control": "no-cache, no-store, must-revalidate",
@@ -148,41 +155,11 @@ export async function POST(request: NextRequest) {
     });
   } catch (error) {
     console.error("Error in chat stream:", error);
-    return new Response("Internal server error", { status: 500 });
-  }
-}
-
-// Simple in-memory cache for AI settings
-interface CachedAISettings {
-  data: {
-    id: string;
-    systemPrompt: string | null;
-    provider: string;
-    apiKey: string | null;
-    baseUrl: string | null;
-    model: string;
-    temperature: number;
-    maxTokens: number;
-    welcomeMessage: string | null;
-  } | null;
-  timestamp: number;
-}
-
-let cachedSettings: CachedAISettings | null = null;
-
-const CACHE_TTL = 60 * 1000; // 1 minute
-
-async function getAISettings() {
-  const now = Date.now();
-
-  if (cachedSettings && now - cachedSettings.timestamp < CACHE_TTL) {
-    return cachedSettings.data;
+    return new Response(JSON.stringify({ error: "Internal server error" }), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
   }
-
-  const settings = await (await getPrisma()).aISettings.findFirst();
-  cachedSettings = { data: settings, timestamp: now };
-
-  return settings;
 }
 
 // Stats are available via /api/health endpoint
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isCronRequest } from "@/lib/cron-auth";
+import { recalculateDealerTiers } from "@/lib/dealer-tiers";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Daily dealer tier recalculation for external cron - rolls turnover over to the new month
+ * Requires header: Authorization: Bearer <CRON_SECRET>
+ */
+export async function GET(request: NextRequest) {
+  if (!isCronRequest(request)) {
+    return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const result = await recalculateDealerTiers();
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    console.error("Error recalculating dealer tiers:", error);
+    return NextResponse.json(
+      { message: "Error recalculating dealer tiers" },
+      { status: 500 }
+    );
+  }
+}
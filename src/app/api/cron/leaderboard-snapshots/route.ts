@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isCronRequest } from "@/lib/cron-auth";
+import { freezeLeaderboardSnapshots } from "@/lib/leaderboard";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Freeze the leaderboards of the finished month and quarter - safe to call daily
+ * Requires header: Authorization: Bearer <CRON_SECRET>
+ */
+export async function GET(request: NextRequest) {
+  if (!isCronRequest(request)) {
+    return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const frozen = await freezeLeaderboardSnapshots();
+    return NextResponse.json({ success: true, frozen });
+  } catch (error) {
+    console.error("Error freezing leaderboard snapshots:", error);
+    return NextResponse.json(
+      { message: "Error freezing leaderboard snapshots" },
+      { status: 500 }
+    );
+  }
+}
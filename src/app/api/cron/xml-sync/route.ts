@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isCronRequest } from "@/lib/cron-auth";
+import { runDueXmlFeedSyncs } from "@/lib/xml-sync-scheduler";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Scheduled XML feed sync for external cron (serverless deployments)
+ * Requires header: Authorization: Bearer <CRON_SECRET>
+ */
+export async function GET(request: NextRequest) {
+  if (!isCronRequest(request)) {
+    return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const results = await runDueXmlFeedSyncs();
+    return NextResponse.json({ success: true, synced: results });
+  } catch (error) {
+    console.error("Error running scheduled XML sync:", error);
+    return NextResponse.json(
+      { message: "Error running scheduled sync" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,51 +1,47 @@
-import { NextResponse } from "next/server";
-import { UserType } from "@prisma/client";
+import { NextRequest, NextResponse } from "next/server";
+import { getCurrentUser } from "@/lib/auth";
+import { getPublicLeaderboard, LeaderboardPeriod } from "@/lib/leaderboard";
 
 export const dynamic = "force-dynamic";
 
-// Lazy prisma import to avoid build-time issues
-const getPrisma = async () => {
-  const { default: prisma } = await import("@/lib/prisma");
-  return prisma;
-};
+const PERIODS: LeaderboardPeriod[] = ["month", "quarter", "all"];
 
-
-export async function GET() {
+/**
+ * Dealer leaderboard: ?period=month|quarter|all&key=2026-03&region=&city=
+ * Without a key the current month or quarter is returned.
+ * Only approved users see the leaderboard; the caller's own row is marked with isMe.
+ */
+export async function GET(request: NextRequest) {
   try {
-    // Get all dealers with their profiles
-    const dealers = await (await getPrisma()).user.findMany({
-      where: { userType: UserType.DEALER },
-      include: { dealerProfile: true },
-    });
+    const currentUser = await getCurrentUser();
+    if (!currentUser) {
+      return NextResponse.json({ message: "Not authenticated" }, { status: 401 });
+    }
+    const isAdmin = currentUser.role === "ADMIN";
+    if (!isAdmin && (!currentUser.isApproved || currentUser.isBlocked)) {
+      return NextResponse.json({ message: "Account is not approved" }, { status: 403 });
+    }
 
-    const now = new Date();
-    
-    // Map and calculate effective tier
-    const rankings = dealers
-      .filter((d) => d.dealerProfile)
-      .map((d) => {
-        const profile = d.dealerProfile!;
-        
-        // Calculate effective tier
-        const manualValid =
-          profile.manualTierEnabled &&
-          profile.manualTier &&
-          (!profile.manualTierExpiresAt || new Date(profile.manualTierExpiresAt) > now);
-        
-        const tier = manualValid
-          ? profile.manualTier!
-          : profile.currentTier || "tier1";
+    const { searchParams } = new URL(request.url);
+    const period = (searchParams.get("period") || "month") as LeaderboardPeriod;
+    if (!PERIODS.includes(period)) {
+      return NextResponse.json({ message: "Invalid period" }, { status: 400 });
+    }
 
-        return {
-          userId: d.id,
-          name: d.fullName || d.displayName || d.email,
-          tier,
-          points: profile.pointsBalance || 0,
-        };
-      })
-      .sort((a, b) => b.points - a.points);
+    const leaderboard = await getPublicLeaderboard(
+      {
+        period,
+        key: searchParams.get("key"),
+        region: searchParams.get("region"),
+        city: searchParams.get("city"),
+      },
+      { id: currentUser.id, isAdmin }
+    );
+    if (!leaderboard) {
+      return NextResponse.json({ message: "Invalid period key" }, { status: 400 });
+    }
 
-    return NextResponse.json(rankings);
+    return NextResponse.json(leaderboard);
   } catch (error) {
     console.error("Error fetching dealer leaderboard:", error);
     return NextResponse.json({ message: "Error fetching leaderboard" }, { status: 500 });
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCurrentUser } from "@/lib/auth";
+import { getPointsStatement } from "@/lib/dealer-points";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Points statement of the current dealer
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const currentUser = await getCurrentUser();
+    if (!currentUser) {
+      return NextResponse.json({ message: "Not authenticated" }, { status: 401 });
+    }
+    if (!currentUser.dealerProfile) {
+      return NextResponse.json({ balance: 0, items: [], total: 0 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const statement = await getPointsStatement(currentUser.dealerProfile.id, {
+      limit: parseInt(searchParams.get("limit") || "50", 10) || 50,
+      offset: parseInt(searchParams.get("offset") || "0", 10) || 0,
+    });
+
+    return NextResponse.json(statement || { balance: 0, items: [], total: 0 });
+  } catch (error) {
+    console.error("Error fetching points statement:", error);
+    return NextResponse.json({ message: "Error fetching points statement" }, { status: 500 });
+  }
+}
@@ -0,0 +1,31 @@
+import { NextResponse } from "next/server";
+import { getCurrentUser } from "@/lib/auth";
+import { getTierProgress } from "@/lib/dealer-tiers";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Tier progress of the current dealer: distance to the next threshold,
+ * month-end projection and the history of tier changes
+ */
+export async function GET() {
+  try {
+    const currentUser = await getCurrentUser();
+    if (!currentUser) {
+      return NextResponse.json({ message: "Not authenticated" }, { status: 401 });
+    }
+    if (!currentUser.dealerProfile) {
+      return NextResponse.json({ message: "Dealer profile required" }, { status: 403 });
+    }
+
+    const progress = await getTierProgress(currentUser.dealerProfile.id);
+    if (!progress) {
+      return NextResponse.json({ message: "Dealer profile not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(progress);
+  } catch (error) {
+    console.error("Error fetching tier progress:", error);
+    return NextResponse.json({ message: "Error fetching tier progress" }, { status: 500 });
+  }
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCurrentUser } from "@/lib/auth";
+import { duplicateEstimate } from "@/lib/estimates";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Copy an estimate with the same input and results
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ message: "Not authenticated" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const result = await duplicateEstimate(user.id, id);
+    if (!result.success) {
+      return NextResponse.json({ message: result.error }, { status: result.status });
+    }
+
+    return NextResponse.json(result.estimate, { status: 201 });
+  } catch (error) {
+    console.error("Error duplicating estimate:", error);
+    return NextResponse.json({ message: "Error duplicating estimate" }, { status: 500 });
+  }
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCurrentUser } from "@/lib/auth";
+import { repriceEstimate } from "@/lib/estimates";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Recalculate an estimate with the current feed price
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ message: "Not authenticated" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const result = await repriceEstimate(user.id, id);
+    if (!result.success) {
+      return NextResponse.json({ message: result.error }, { status: result.status });
+    }
+
+    return NextResponse.json(result.estimate);
+  } catch (error) {
+    console.error("Error re-pricing estimate:", error);
+    return NextResponse.json({ message: "Error re-pricing estimate" }, { status: 500 });
+  }
+}
@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCurrentUser } from "@/lib/auth";
+import { deleteEstimate, getEstimate, renameEstimate } from "@/lib/estimates";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ message: "Not authenticated" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const estimate = await getEstimate(user.id, id);
+    if (!estimate) {
+      return NextResponse.json({ message: "Estimate not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(estimate);
+  } catch (error) {
+    console.error("Error fetching estimate:", error);
+    return NextResponse.json({ message: "Error fetching estimate" }, { status: 500 });
+  }
+}
+
+/**
+ * Rename: { title }
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ message: "Not authenticated" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    if (typeof body.title !== "string") {
+      return NextResponse.json({ message: "Title is required" }, { status: 400 });
+    }
+
+    const result = await renameEstimate(user.id, id, body.title);
+    if (!result.success) {
+      return NextResponse.json({ message: result.error }, { status: result.status });
+    }
+
+    return NextResponse.json(result.estimate);
+  } catch (error) {
+    console.error("Error renaming estimate:", error);
+    return NextResponse.json({ message: "Error renaming estimate" }, { status: 500 });
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ message: "Not authenticated" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    if (!(await deleteEstimate(user.id, id))) {
+      return NextResponse.json({ message: "Estimate not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting estimate:", error);
+    return NextResponse.json({ message: "Error deleting estimate" }, { status: 500 });
+  }
+}
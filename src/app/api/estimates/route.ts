@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCurrentUser } from "@/lib/auth";
+import { createEstimate, listEstimates, parseEstimateInput } from "@/lib/estimates";
+
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ message: "Not authenticated" }, { status: 401 });
+    }
+
+    return NextResponse.json(await listEstimates(user.id));
+  } catch (error) {
+    console.error("Error fetching estimates:", error);
+    return NextResponse.json({ message: "Error fetching estimates" }, { status: 500 });
+  }
+}
+
+/**
+ * Save a calculation: { title?, vendorCode, area, shape?, installationType, discountPercent? }.
+ * Price and package size come from the catalog.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ message: "Not authenticated" }, { status: 401 });
+    }
+
+    const input = parseEstimateInput(await request.json());
+    if (!input) {
+      return NextResponse.json(
+        { message: "Product, area and installation type are required" },
+        { status: 400 }
+      );
+    }
+
+    const result = await createEstimate(user.id, input);
+    if (!result.success) {
+      return NextResponse.json({ message: result.error }, { status: result.status });
+    }
+
+    return NextResponse.json(result.estimate, { status: 201 });
+  } catch (error) {
+    console.error("Error creating estimate:", error);
+    return NextResponse.json({ message: "Error creating estimate" }, { status: 500 });
+  }
+}
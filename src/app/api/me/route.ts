@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from "next/server";
+import { LeaderboardVisibility } from "@prisma/client";
 import { getSession, getCurrentUser } from "@/lib/auth";
 
 export const dynamic = "force-dynamic";
@@ -50,6 +51,8 @@ export async function GET() {
             monthlyTurnover: user.dealerProfile.monthlyTurnover,
             lastMonthTurnover: user.dealerProfile.lastMonthTurnover,
             ordersCountMonth: user.dealerProfile.ordersCountMonth,
+            leaderboardVisibility: user.dealerProfile.leaderboardVisibility,
+            leaderboardAlias: user.dealerProfile.leaderboardAlias,
           }
         : null,
     });
@@ -97,9 +100,45 @@ export async function PATCH(request: NextRequest) {
       updateData.approvalRequestedAt = new Date(body.approvalRequestedAt);
     }
 
+    // Leaderboard privacy lives on the dealer profile
+    const dealerData: { leaderboardVisibility?: LeaderboardVisibility; leaderboardAlias?: string | null } = {};
+    if (body.leaderboardVisibility !== undefined) {
+      if (!Object.values(LeaderboardVisibility).includes(body.leaderboardVisibility)) {
+        return NextResponse.json({ message: "Invalid leaderboardVisibility" }, { status: 400 });
+      }
+      dealerData.leaderboardVisibility = body.leaderboardVisibility;
+    }
+    if (body.leaderboardAlias !== undefined) {
+      const alias = typeof body.leaderboardAlias === "string" ? body.leaderboardAlias.trim() : "";
+      if (alias.length > 40) {
+        return NextResponse.json({ message: "Alias is too long" }, { status: 400 });
+      }
+      dealerData.leaderboardAlias = alias || null;
+    }
+    if (
+      dealerData.leaderboardVisibility === LeaderboardVisibility.ALIAS &&
+      dealerData.leaderboardAlias === null
+    ) {
+      return NextResponse.json({ message: "Alias is required" }, { status: 400 });
+    }
+    if (Object.keys(dealerData).length > 0) {
+      const profile = await (await getPrisma()).dealerProfile.findUnique({
+        where: { userId: session.user.id },
+        select: { id: true },
+      });
+      if (!profile) {
+        return NextResponse.json({ message: "Dealer profile required" }, { status: 403 });
+      }
+    }
+
     const user = await (await getPrisma()).user.update({
       where: { id: session.user.id },
-      data: updateData,
+      data: {
+        ...updateData,
+        ...(Object.keys(dealerData).length > 0 && {
+          dealerProfile: { update: dealerData },
+        }),
+      },
       include: { dealerProfile: true },
     });
 
@@ -0,0 +1,63 @@
+import { NextResponse } from "next/server";
+import { getCurrentUser } from "@/lib/auth";
+import {
+  createTelegramLinkCode,
+  getTelegramLinkStatus,
+  unlinkTelegram,
+} from "@/lib/telegram";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Telegram link of the current user and whether the bot is available
+ */
+export async function GET() {
+  try {
+    const currentUser = await getCurrentUser();
+    if (!currentUser) {
+      return NextResponse.json({ message: "Not authenticated" }, { status: 401 });
+    }
+
+    return NextResponse.json(await getTelegramLinkStatus(currentUser.id));
+  } catch (error) {
+    console.error("Error fetching Telegram link:", error);
+    return NextResponse.json({ message: "Error fetching Telegram link" }, { status: 500 });
+  }
+}
+
+/**
+ * Issue a one-time link code: the user opens t.me/<bot>?start=<code>
+ */
+export async function POST() {
+  try {
+    const currentUser = await getCurrentUser();
+    if (!currentUser) {
+      return NextResponse.json({ message: "Not authenticated" }, { status: 401 });
+    }
+
+    const link = await createTelegramLinkCode(currentUser.id);
+    if (!link) {
+      return NextResponse.json({ message: "Telegram bot is not configured" }, { status: 409 });
+    }
+
+    return NextResponse.json(link);
+  } catch (error) {
+    console.error("Error creating Telegram link code:", error);
+    return NextResponse.json({ message: "Error creating Telegram link code" }, { status: 500 });
+  }
+}
+
+export async function DELETE() {
+  try {
+    const currentUser = await getCurrentUser();
+    if (!currentUser) {
+      return NextResponse.json({ message: "Not authenticated" }, { status: 401 });
+    }
+
+    await unlinkTelegram(currentUser.id);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error unlinking Telegram:", error);
+    return NextResponse.json({ message: "Error unlinking Telegram" }, { status: 500 });
+  }
+}
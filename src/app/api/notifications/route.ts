@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCurrentUser } from "@/lib/auth";
+import { getNotifications, markNotificationsRead } from "@/lib/notifications";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Inbox of the current user: ?limit=&offset=&unread=1
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const currentUser = await getCurrentUser();
+    if (!currentUser) {
+      return NextResponse.json({ message: "Not authenticated" }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const inbox = await getNotifications(currentUser.id, {
+      limit: parseInt(searchParams.get("limit") || "20", 10) || 20,
+      offset: parseInt(searchParams.get("offset") || "0", 10) || 0,
+      unreadOnly: searchParams.get("unread") === "1",
+    });
+
+    return NextResponse.json(inbox);
+  } catch (error) {
+    console.error("Error fetching notifications:", error);
+    return NextResponse.json({ message: "Error fetching notifications" }, { status: 500 });
+  }
+}
+
+/**
+ * Mark as read: { ids: [...] } or { all: true }
+ */
+export async function PATCH(request: NextRequest) {
+  try {
+    const currentUser = await getCurrentUser();
+    if (!currentUser) {
+      return NextResponse.json({ message: "Not authenticated" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const ids = Array.isArray(body.ids)
+      ? body.ids.filter((id: unknown): id is string => typeof id === "string")
+      : null;
+    if (!ids && body.all !== true) {
+      return NextResponse.json({ message: "ids or all required" }, { status: 400 });
+    }
+
+    const updated = await markNotificationsRead(currentUser.id, ids || undefined);
+    return NextResponse.json({ success: true, updated });
+  } catch (error) {
+    console.error("Error updating notifications:", error);
+    return NextResponse.json({ message: "Error updating notifications" }, { status: 500 });
+  }
+}
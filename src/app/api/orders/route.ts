@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getCurrentUser } from "@/lib/auth";
+import { checkoutCart } from "@/lib/cart";
+import { sendOrderConfirmationEmail } from "@/lib/email";
 
 export const dynamic = "force-dynamic";
 
@@ -30,9 +32,10 @@ export async function GET() {
         totalCost: order.totalCost,
         createdAt: order.createdAt.toISOString(),
         items: order.items as Array<{
-          id: string;
+          articleCode?: string;
           productName: string;
           quantity: number;
+          unit?: string;
           price: number;
         }> | null,
       }))
@@ -43,6 +46,11 @@ export async function GET() {
   }
 }
 
+/**
+ * Checkout: creates an order from the user's cart.
+ * Prices, stock and the order number are determined on the server.
+ * Send an Idempotency-Key header to make retries of the same submit safe.
+ */
 export async function POST(request: NextRequest) {
   try {
     const user = await getCurrentUser();
@@ -52,48 +60,34 @@ export async function POST(request: NextRequest) {
 
     const body = await request.json();
     const {
-      orderNumber,
-      articleCode,
-      productName,
       userName,
       userEmail,
       phoneNumber,
       city,
       retailPoint,
       legalEntityId,
-      legalEntityName,
-      quantity,
-      totalCost,
       comment,
     } = body;
 
-    // Build the order item
-    const orderItem = {
-      articleCode,
-      productName,
-      quantity: parseInt(String(quantity), 10) || 1,
-      price: totalCost || 0,
-    };
-
-    // Create the order
-    const order = await (await getPrisma()).order.create({
-      data: {
-        userId: user.id,
-        orderNumber: orderNumber || `ORD-${Date.now()}`,
-        status: "PENDING",
-        totalCost: Math.round(totalCost || 0),
-        items: [orderItem],
-        contactName: userName || null,
-        contactPhone: phoneNumber || null,
-        contactEmail: userEmail || null,
-        deliveryAddress: city ? `${city}${retailPoint ? `, ${retailPoint}` : ""}` : null,
-        comment: comment || null,
-        legalEntityId: legalEntityId || null,
-      },
+    const result = await checkoutCart(user.id, {
+      contactName: userName,
+      contactPhone: phoneNumber,
+      contactEmail: userEmail,
+      deliveryAddress: city ? `${city}${retailPoint ? `, ${retailPoint}` : ""}` : null,
+      legalEntityId,
+      comment,
+      idempotencyKey: request.headers.get("Idempotency-Key"),
     });
 
+    if (!result.success) {
+      return NextResponse.json(
+        { message: result.error, cart: result.cart },
+        { status: result.status }
+      );
+    }
+
     // Update user profile info if provided
-    if (userName || phoneNumber || city || retailPoint) {
+    if (!result.replayed && (userName || phoneNumber || city || retailPoint)) {
       await (await getPrisma()).user.update({
         where: { id: user.id },
         data: {
@@ -105,9 +99,26 @@ export async function POST(request: NextRequest) {
       });
     }
 
+    // Sent in the background: a slow mail server must not hold up checkout
+    if (!result.replayed) {
+      (await getPrisma()).order
+        .findUnique({
+          where: { id: result.orderId },
+          include: { user: { select: { email: true, fullName: true } } },
+        })
+        .then((order) => (order ? sendOrderConfirmationEmail(order) : null))
+        .then((email) => {
+          if (email && !email.success && !email.skipped) {
+            console.warn("Order confirmation email not sent:", email.error);
+          }
+        })
+        .catch((error) => console.error("Error sending order confirmation email:", error));
+    }
+
     return NextResponse.json({
-      id: order.id,
-      orderNumber: order.orderNumber,
+      id: result.orderId,
+      orderNumber: result.orderNumber,
+      totalCost: result.totalCost,
     });
   } catch (error) {
     console.error("Error creating order:", error);
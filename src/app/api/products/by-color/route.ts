@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from "next/server";
+import { parseColorText, colorDistance, parseStock } from "@/components/sku/SkuUtils";
+import {
+  getParamValues,
+  findProductsByParamValues,
+} from "@/lib/product-catalog";
+
+export const dynamic = "force-dynamic";
+
+const COLOR_PARAM = "Цвет";
+// Closest distinct colors to load products for
+const CANDIDATE_COLORS = 10;
+
+/**
+ * Products closest to the given RGB color (by the "Цвет" param),
+ * sorted by color distance, then by stock
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const r = Number(searchParams.get("r"));
+    const g = Number(searchParams.get("g"));
+    const b = Number(searchParams.get("b"));
+    const limit = Math.min(parseInt(searchParams.get("limit") || "5") || 5, 50);
+
+    if (![r, g, b].every((c) => Number.isFinite(c) && c >= 0 && c <= 255)) {
+      return NextResponse.json(
+        { message: "r, g, b must be numbers between 0 and 255" },
+        { status: 400 }
+      );
+    }
+
+    const target = { r, g, b };
+
+    const colorValues = (await getParamValues(COLOR_PARAM))
+      .map((value) => ({
+        value,
+        distance: colorDistance(target, parseColorText(value)),
+      }))
+      .filter((c) => c.distance !== Infinity)
+      .sort((a, b) => a.distance - b.distance)
+      .slice(0, CANDIDATE_COLORS);
+
+    const distances = new Map(colorValues.map((c) => [c.value, c.distance]));
+    const products = await findProductsByParamValues(
+      COLOR_PARAM,
+      colorValues.map((c) => c.value)
+    );
+
+    const items = products
+      .map((product) => ({
+        product,
+        distance: distances.get(String(product.params[COLOR_PARAM])) ?? Infinity,
+        inStock: parseStock((product.params["Остаток"] as string) || "").inStock,
+      }))
+      .sort((a, b) => {
+        if (a.distance !== b.distance) return a.distance - b.distance;
+        if (a.inStock !== b.inStock) return a.inStock ? -1 : 1;
+        return 0;
+      })
+      .slice(0, limit)
+      .map((item) => item.product);
+
+    return NextResponse.json({ items });
+  } catch (error) {
+    console.error("Error matching products by color:", error);
+    return NextResponse.json(
+      { message: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from "next/server";
+import { KnowledgeType } from "@prisma/client";
+import { withCache, productIndexCache } from "@/lib/cache";
+import {
+  searchProducts,
+  findProductsByVendorCode,
+  CatalogProduct,
+} from "@/lib/product-catalog";
+import { getCurrentUser } from "@/lib/auth";
+import { findCatalogRows, normalizeVendorCode } from "@/lib/cart";
+import { dealerPrice, resolvePriceType } from "@/lib/dealer-pricing";
+
+export const dynamic = "force-dynamic";
+
+// Lazy prisma import to avoid build-time issues
+const getPrisma = async () => {
+  const { default: prisma } = await import("@/lib/prisma");
+  return prisma;
+};
+
+
+/**
+ * Add the caller's purchase price to the found products
+ */
+async function withDealerPrices(items: CatalogProduct[]) {
+  const priceType = await resolvePriceType(await getCurrentUser());
+  if (!priceType || items.length === 0) return items;
+
+  const catalog = await findCatalogRows(items.map((item) => item.vendorCode));
+  return items.map((item) => {
+    const row = catalog.get(normalizeVendorCode(item.vendorCode));
+    const price = row ? dealerPrice({ price: item.price, prices: row.prices }, priceType) : null;
+    return price ? { ...item, dealerPrice: price } : item;
+  });
+}
+
+/**
+ * Product catalog search
+ * ?code=       exact vendor code lookup
+ * ?search=     name / vendor code / vendor
+ * ?vendor=     exact vendor
+ * ?param=      "Name:Value", repeatable
+ * ?calculator= only products usable in the calculator
+ * ?city=       only products in stock at warehouses of the city
+ * ?limit=&offset=
+ * Signed-in users with a mapped price type also get dealerPrice on each item.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const code = searchParams.get("code");
+
+    const lastSyncFeed = await withCache(
+      productIndexCache,
+      "last-sync",
+      async () =>
+        (await getPrisma()).knowledgeBase.findFirst({
+          where: { type: KnowledgeType.XML_FEED, lastSync: { not: null } },
+          orderBy: { lastSync: "desc" },
+          select: { lastSync: true },
+        })
+    );
+    const lastSync = lastSyncFeed?.lastSync?.toISOString() || null;
+
+    if (code) {
+      const items = await withDealerPrices(await findProductsByVendorCode(code));
+      return NextResponse.json({ items, total: items.length, lastSync });
+    }
+
+    const params: Record<string, string> = {};
+    for (const param of searchParams.getAll("param")) {
+      const separator = param.indexOf(":");
+      if (separator > 0) {
+        params[param.slice(0, separator)] = param.slice(separator + 1);
+      }
+    }
+
+    const { items, total } = await searchProducts({
+      search: searchParams.get("search") || undefined,
+      vendor: searchParams.get("vendor") || undefined,
+      params,
+      calculatorOnly: searchParams.get("calculator") === "true",
+      city: searchParams.get("city") || undefined,
+      limit: Math.max(parseInt(searchParams.get("limit") || "50", 10) || 50, 0),
+      offset: Math.max(parseInt(searchParams.get("offset") || "0", 10) || 0, 0),
+    });
+
+    return NextResponse.json({ items: await withDealerPrices(items), total, lastSync });
+  } catch (error) {
+    console.error("Error fetching products:", error);
+    return NextResponse.json(
+      { message: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCurrentUser } from "@/lib/auth";
+import { deleteProject, getProject, updateProject } from "@/lib/projects";
+import { parseProjectAccessories, parseProjectRooms } from "@/lib/project-calculator";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ message: "Not authenticated" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const project = await getProject(user.id, id);
+    if (!project) {
+      return NextResponse.json({ message: "Project not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(project);
+  } catch (error) {
+    console.error("Error fetching project:", error);
+    return NextResponse.json({ message: "Error fetching project" }, { status: 500 });
+  }
+}
+
+/**
+ * Replace rooms and accessories of a project; lines are priced again from the catalog
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ message: "Not authenticated" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const rooms = parseProjectRooms(body.rooms);
+    if (typeof body.name !== "string" || !body.name.trim() || !rooms) {
+      return NextResponse.json({ message: "Name and valid rooms are required" }, { status: 400 });
+    }
+
+    const result = await updateProject(user.id, id, {
+      name: body.name,
+      comment: typeof body.comment === "string" ? body.comment : null,
+      rooms,
+      accessories: parseProjectAccessories(body.accessories),
+    });
+    if (!result.success) {
+      return NextResponse.json({ message: result.error }, { status: result.status });
+    }
+
+    return NextResponse.json(result.project);
+  } catch (error) {
+    console.error("Error updating project:", error);
+    return NextResponse.json({ message: "Error updating project" }, { status: 500 });
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ message: "Not authenticated" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    if (!(await deleteProject(user.id, id))) {
+      return NextResponse.json({ message: "Project not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting project:", error);
+    return NextResponse.json({ message: "Error deleting project" }, { status: 500 });
+  }
+}
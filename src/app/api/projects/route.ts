@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCurrentUser } from "@/lib/auth";
+import { createProject, listProjects } from "@/lib/projects";
+import { parseProjectAccessories, parseProjectRooms } from "@/lib/project-calculator";
+
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ message: "Not authenticated" }, { status: 401 });
+    }
+
+    return NextResponse.json(await listProjects(user.id));
+  } catch (error) {
+    console.error("Error fetching projects:", error);
+    return NextResponse.json({ message: "Error fetching projects" }, { status: 500 });
+  }
+}
+
+/**
+ * Save a project: { name, comment?, rooms: [{ name, length, width, doors, doorWidth, thresholds,
+ * vendorCode, installationType }], accessories: { underlay, skirting, threshold } }.
+ * Lines are priced from the catalog.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ message: "Not authenticated" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const rooms = parseProjectRooms(body.rooms);
+    if (typeof body.name !== "string" || !body.name.trim() || !rooms) {
+      return NextResponse.json({ message: "Name and valid rooms are required" }, { status: 400 });
+    }
+
+    const result = await createProject(user.id, {
+      name: body.name,
+      comment: typeof body.comment === "string" ? body.comment : null,
+      rooms,
+      accessories: parseProjectAccessories(body.accessories),
+    });
+    if (!result.success) {
+      return NextResponse.json({ message: result.error }, { status: result.status });
+    }
+
+    return NextResponse.json(result.project, { status: 201 });
+  } catch (error) {
+    console.error("Error creating project:", error);
+    return NextResponse.json({ message: "Error creating project" }, { status: 500 });
+  }
+}
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSharedQuote } from "@/lib/quotes";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Quote opened by a customer from a share link (no authentication)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params;
+    const quote = await getSharedQuote(token);
+    if (!quote) {
+      return NextResponse.json({ message: "Quote not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(quote);
+  } catch (error) {
+    console.error("Error fetching shared quote:", error);
+    return NextResponse.json({ message: "Error fetching quote" }, { status: 500 });
+  }
+}
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCurrentUser } from "@/lib/auth";
+import { deleteQuote, getQuote } from "@/lib/quotes";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ message: "Not authenticated" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const quote = await getQuote(user.id, id);
+    if (!quote) {
+      return NextResponse.json({ message: "Quote not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(quote);
+  } catch (error) {
+    console.error("Error fetching quote:", error);
+    return NextResponse.json({ message: "Error fetching quote" }, { status: 500 });
+  }
+}
+
+/**
+ * Delete a quote; its share link stops working, the share log keeps the snapshots
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ message: "Not authenticated" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    if (!(await deleteQuote(user.id, id))) {
+      return NextResponse.json({ message: "Quote not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting quote:", error);
+    return NextResponse.json({ message: "Error deleting quote" }, { status: 500 });
+  }
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCurrentUser } from "@/lib/auth";
+import { QUOTE_SHARE_METHODS, QuoteShareMethod, shareQuote } from "@/lib/quotes";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Share a quote: { method: link | email | whatsapp | pdf, recipientEmail?, recipientPhone?, message? }.
+ * Every share is written to quote_share_logs.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ message: "Not authenticated" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    if (!QUOTE_SHARE_METHODS.includes(body.method)) {
+      return NextResponse.json({ message: "Invalid share method" }, { status: 400 });
+    }
+
+    const result = await shareQuote(user, id, {
+      method: body.method as QuoteShareMethod,
+      recipientEmail: typeof body.recipientEmail === "string" ? body.recipientEmail : null,
+      recipientPhone: typeof body.recipientPhone === "string" ? body.recipientPhone : null,
+      message: typeof body.message === "string" ? body.message : null,
+    });
+    if (!result.success) {
+      return NextResponse.json({ message: result.error }, { status: result.status });
+    }
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("Error sharing quote:", error);
+    return NextResponse.json({ message: "Error sharing quote" }, { status: 500 });
+  }
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCurrentUser } from "@/lib/auth";
+import { createQuote, listQuotes, parseQuoteLines } from "@/lib/quotes";
+
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ message: "Not authenticated" }, { status: 401 });
+    }
+
+    return NextResponse.json(await listQuotes(user.id));
+  } catch (error) {
+    console.error("Error fetching quotes:", error);
+    return NextResponse.json({ message: "Error fetching quotes" }, { status: 500 });
+  }
+}
+
+/**
+ * Create a quote: { title, customerName?, comment?, discountPercent?, lines: [{ vendorCode, area, installationType }] }.
+ * Lines are priced from the catalog.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ message: "Not authenticated" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const lines = parseQuoteLines(body.lines);
+    if (typeof body.title !== "string" || !body.title.trim() || !lines) {
+      return NextResponse.json({ message: "Title and valid lines are required" }, { status: 400 });
+    }
+
+    const result = await createQuote(user.id, {
+      title: body.title,
+      customerName: typeof body.customerName === "string" ? body.customerName : null,
+      comment: typeof body.comment === "string" ? body.comment : null,
+      discountPercent: body.discountPercent,
+      lines,
+    });
+    if (!result.success) {
+      return NextResponse.json({ message: result.error }, { status: result.status });
+    }
+
+    return NextResponse.json(result.quote, { status: 201 });
+  } catch (error) {
+    console.error("Error creating quote:", error);
+    return NextResponse.json({ message: "Error creating quote" }, { status: 500 });
+  }
+}
@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCurrentUser } from "@/lib/auth";
+import { requestRedemption } from "@/lib/rewards";
+
+export const dynamic = "force-dynamic";
+
+// Lazy prisma import to avoid build-time issues
+const getPrisma = async () => {
+  const { default: prisma } = await import("@/lib/prisma");
+  return prisma;
+};
+
+
+/**
+ * Redemption requests of the current dealer
+ */
+export async function GET() {
+  try {
+    const currentUser = await getCurrentUser();
+    if (!currentUser) {
+      return NextResponse.json({ message: "Not authenticated" }, { status: 401 });
+    }
+    if (!currentUser.dealerProfile) {
+      return NextResponse.json([]);
+    }
+
+    const redemptions = await (await getPrisma()).rewardRedemption.findMany({
+      where: { dealerProfileId: currentUser.dealerProfile.id },
+      orderBy: { createdAt: "desc" },
+      include: { reward: { select: { imageUrl: true } } },
+    });
+
+    return NextResponse.json(
+      redemptions.map((r) => ({
+        id: r.id,
+        rewardId: r.rewardId,
+        rewardTitle: r.rewardTitle,
+        imageUrl: r.reward.imageUrl,
+        pointsCost: r.pointsCost,
+        status: r.status,
+        comment: r.comment,
+        adminComment: r.adminComment,
+        createdAt: r.createdAt,
+        updatedAt: r.updatedAt,
+      }))
+    );
+  } catch (error) {
+    console.error("Error fetching redemptions:", error);
+    return NextResponse.json({ message: "Error fetching redemptions" }, { status: 500 });
+  }
+}
+
+/**
+ * Exchange points for a reward: { rewardId, comment? }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const currentUser = await getCurrentUser();
+    if (!currentUser) {
+      return NextResponse.json({ message: "Not authenticated" }, { status: 401 });
+    }
+    const profile = currentUser.dealerProfile;
+    if (!profile) {
+      return NextResponse.json({ message: "Dealer profile required" }, { status: 403 });
+    }
+
+    const settings = await (await getPrisma()).bonusSettings.findFirst();
+    if (settings?.enabled === false) {
+      return NextResponse.json({ message: "Bonus program is disabled" }, { status: 403 });
+    }
+
+    const body = await request.json();
+    if (!body.rewardId) {
+      return NextResponse.json({ message: "Reward ID required" }, { status: 400 });
+    }
+
+    const result = await requestRedemption({
+      dealerProfileId: profile.id,
+      tier: profile.currentTier,
+      rewardId: String(body.rewardId),
+      comment: typeof body.comment === "string" ? body.comment : null,
+      createdById: currentUser.id,
+    });
+    if (!result.success) {
+      return NextResponse.json({ message: result.error }, { status: result.status });
+    }
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("Error creating redemption:", error);
+    return NextResponse.json({ message: "Error creating redemption" }, { status: 500 });
+  }
+}
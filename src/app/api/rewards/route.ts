@@ -0,0 +1,51 @@
+import { NextResponse } from "next/server";
+import { getCurrentUser } from "@/lib/auth";
+import { isRewardAvailableForTier } from "@/lib/rewards";
+
+export const dynamic = "force-dynamic";
+
+// Lazy prisma import to avoid build-time issues
+const getPrisma = async () => {
+  const { default: prisma } = await import("@/lib/prisma");
+  return prisma;
+};
+
+
+/**
+ * Rewards catalog for the current dealer, with the points balance
+ */
+export async function GET() {
+  try {
+    const currentUser = await getCurrentUser();
+    if (!currentUser) {
+      return NextResponse.json({ message: "Not authenticated" }, { status: 401 });
+    }
+    const profile = currentUser.dealerProfile;
+    if (!profile) {
+      return NextResponse.json({ message: "Dealer profile required" }, { status: 403 });
+    }
+
+    const rewards = await (await getPrisma()).reward.findMany({
+      where: { isActive: true },
+      orderBy: [{ sortOrder: "asc" }, { pointsCost: "asc" }],
+    });
+
+    return NextResponse.json({
+      balance: profile.pointsBalance,
+      tier: profile.currentTier,
+      rewards: rewards.map((reward) => ({
+        id: reward.id,
+        title: reward.title,
+        description: reward.description,
+        imageUrl: reward.imageUrl,
+        pointsCost: reward.pointsCost,
+        stock: reward.stock,
+        tiers: reward.tiers,
+        eligible: isRewardAvailableForTier(reward, profile.currentTier),
+      })),
+    });
+  } catch (error) {
+    console.error("Error fetching rewards:", error);
+    return NextResponse.json({ message: "Error fetching rewards" }, { status: 500 });
+  }
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from "next/server";
+import { timingSafeEqual } from "crypto";
+import { getIntegration } from "@/lib/integrations";
+import { handleTelegramUpdate, TelegramUpdate } from "@/lib/telegram";
+
+export const dynamic = "force-dynamic";
+
+// Constant-time comparison, so the secret cannot be guessed from response timing
+function secretMatches(received: string | null, expected: string): boolean {
+  if (!received) return false;
+  const a = Buffer.from(received);
+  const b = Buffer.from(expected);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+/**
+ * Telegram Bot API webhook. Public route: requests are authenticated by the secret token
+ * issued when the webhook was set (header X-Telegram-Bot-Api-Secret-Token).
+ */
+export async function POST(request: NextRequest) {
+  const { isEnabled, config } = await getIntegration("telegram");
+  if (!isEnabled || !config.botToken) {
+    return NextResponse.json({ message: "Telegram channel is disabled" }, { status: 404 });
+  }
+  if (
+    !config.webhookSecret ||
+    !secretMatches(request.headers.get("x-telegram-bot-api-secret-token"), config.webhookSecret)
+  ) {
+    return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const update = (await request.json()) as TelegramUpdate;
+    await handleTelegramUpdate(config, update);
+  } catch (error) {
+    // Still 200: Telegram would otherwise redeliver the same update over and over
+    console.error("Error handling Telegram update:", error);
+  }
+
+  return NextResponse.json({ ok: true });
+}
@@ -0,0 +1,66 @@
+"use client";
+
+import React, { useState, useEffect, useRef } from "react";
+import { useParams } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import QuoteDocument from "@/components/quotes/QuoteDocument";
+import { api, SharedQuote } from "@/lib/api";
+import { downloadQuotePdf } from "@/lib/quote-pdf";
+import { FileDown, FileText } from "lucide-react";
+
+/**
+ * Quote opened by a customer from a share link; works without an account
+ */
+export default function SharedQuotePage() {
+  const { token } = useParams<{ token: string }>();
+  const [quote, setQuote] = useState<SharedQuote | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [downloading, setDownloading] = useState(false);
+  const documentRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    api
+      .getSharedQuote(token)
+      .then(setQuote)
+      .catch((error) => console.error("Error loading quote:", error))
+      .finally(() => setLoading(false));
+  }, [token]);
+
+  const download = async () => {
+    if (!documentRef.current || !quote) return;
+    setDownloading(true);
+    try {
+      await downloadQuotePdf(documentRef.current, quote.title);
+    } catch (error) {
+      console.error("Error generating quote PDF:", error);
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-blue-50 to-indigo-50 p-4 md:p-8">
+      <div className="max-w-4xl mx-auto w-full">
+        {loading ? (
+          <div className="h-96 bg-white/60 rounded-2xl animate-pulse" />
+        ) : !quote ? (
+          <div className="text-center py-24">
+            <FileText className="w-16 h-16 text-slate-400 mx-auto mb-4" />
+            <h1 className="text-lg font-medium text-slate-800 mb-2">Предложение не найдено</h1>
+            <p className="text-slate-600">Ссылка устарела или предложение было удалено.</p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex justify-end">
+              <Button onClick={download} disabled={downloading}>
+                <FileDown className="w-4 h-4 mr-2" />
+                {downloading ? "Подготовка..." : "Скачать PDF"}
+              </Button>
+            </div>
+            <QuoteDocument ref={documentRef} quote={quote} />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
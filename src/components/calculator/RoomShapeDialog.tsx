@@ -0,0 +1,409 @@
+"use client";
+
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  CUTOUT_LABELS,
+  CutoutKind,
+  measureShape,
+  pointsToWalls,
+  rectangleShape,
+  RoomShape,
+  ShapePoint,
+  WALL_DIRECTIONS,
+  wallsToPoints,
+} from "@/lib/room-shape";
+import { Plus, Undo2, X } from "lucide-react";
+
+interface WallDraft {
+  length: string;
+  direction: number;
+}
+
+interface CutoutDraft {
+  kind: CutoutKind;
+  x: string;
+  y: string;
+  length: string;
+  width: string;
+}
+
+const GRID_STEP = 0.5; // m between grid lines
+const SNAP = 0.1; // m
+
+const sanitize = (value: string) => value.replace(/[^0-9.,]/g, "").replace(",", ".");
+const toNumber = (value: string) => parseFloat(value) || 0;
+const snap = (value: number) => Math.round(value / SNAP) * SNAP;
+
+const toWallDrafts = (points: ShapePoint[]): WallDraft[] =>
+  pointsToWalls(points).map((wall) => ({ length: String(wall.length), direction: wall.direction }));
+
+const toCutoutDrafts = (shape: RoomShape): CutoutDraft[] =>
+  shape.cutouts.map((cutout) => ({
+    kind: cutout.kind,
+    x: String(cutout.x),
+    y: String(cutout.y),
+    length: String(cutout.length),
+    width: String(cutout.width),
+  }));
+
+/**
+ * Plan of the room in meters: contour, cut-outs and a grid. Clicking adds a contour corner when `onAddPoint` is set.
+ */
+function ShapeCanvas({
+  shape,
+  onAddPoint,
+}: {
+  shape: RoomShape;
+  onAddPoint?: (point: ShapePoint) => void;
+}) {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const coords = shape.points.flatMap((p) => [p.x, p.y]);
+  const min = Math.min(0, ...coords) - 1;
+  const size = Math.max(10, Math.max(0, ...coords) - min + 1);
+  const gridLines = Array.from({ length: Math.ceil(size / GRID_STEP) + 1 }, (_, i) => min + i * GRID_STEP);
+
+  const handleClick = (event: React.MouseEvent<SVGSVGElement>) => {
+    const svg = svgRef.current;
+    const matrix = svg?.getScreenCTM();
+    if (!svg || !matrix || !onAddPoint) return;
+    const point = svg.createSVGPoint();
+    point.x = event.clientX;
+    point.y = event.clientY;
+    const local = point.matrixTransform(matrix.inverse());
+    onAddPoint({ x: Math.round(snap(local.x) * 100) / 100, y: Math.round(snap(local.y) * 100) / 100 });
+  };
+
+  const outline = shape.points.map((p) => `${p.x},${p.y}`).join(" ");
+
+  return (
+    <svg
+      ref={svgRef}
+      viewBox={`${min} ${min} ${size} ${size}`}
+      onClick={handleClick}
+      className={`w-full aspect-square rounded-lg border border-slate-200 bg-white ${onAddPoint ? "cursor-crosshair" : ""}`}
+    >
+      {gridLines.map((value) => (
+        <g key={value} stroke={Math.abs(value % 1) < 1e-9 ? "#cbd5e1" : "#f1f5f9"} strokeWidth={1}>
+          <line x1={value} y1={min} x2={value} y2={min + size} vectorEffect="non-scaling-stroke" />
+          <line x1={min} y1={value} x2={min + size} y2={value} vectorEffect="non-scaling-stroke" />
+        </g>
+      ))}
+      {shape.points.length > 2 && (
+        <polygon points={outline} fill="#dbeafe" stroke="#007AFF" strokeWidth={2} vectorEffect="non-scaling-stroke" />
+      )}
+      {shape.points.length === 2 && (
+        <polyline points={outline} fill="none" stroke="#007AFF" strokeWidth={2} vectorEffect="non-scaling-stroke" />
+      )}
+      {shape.cutouts.map((cutout, index) => (
+        <rect
+          key={index}
+          x={cutout.x}
+          y={cutout.y}
+          width={cutout.length}
+          height={cutout.width}
+          fill={cutout.kind === "column" ? "#94a3b8" : "#fee2e2"}
+          stroke={cutout.kind === "column" ? "#475569" : "#ef4444"}
+          strokeWidth={1}
+          vectorEffect="non-scaling-stroke"
+        />
+      ))}
+      {shape.points.map((p, index) => (
+        <circle key={index} cx={p.x} cy={p.y} r={size / 120} fill={index === 0 ? "#16a34a" : "#007AFF"} />
+      ))}
+    </svg>
+  );
+}
+
+/**
+ * Room shape editor: walls with directions or corners on a grid, plus columns and cut-outs.
+ * Returns the shape; area and perimeter are measured from it by lib/room-shape.
+ */
+export default function RoomShapeDialog({
+  open,
+  shape,
+  length,
+  width,
+  onApply,
+  onOpenChange,
+}: {
+  open: boolean;
+  shape: RoomShape | null;
+  length?: number;
+  width?: number;
+  onApply: (shape: RoomShape) => void;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const [mode, setMode] = useState("walls");
+  const [points, setPoints] = useState<ShapePoint[]>([]);
+  const [walls, setWalls] = useState<WallDraft[]>([]);
+  const [cutouts, setCutouts] = useState<CutoutDraft[]>([]);
+
+  useEffect(() => {
+    if (!open) return;
+    const initial = shape || rectangleShape(length || 4, width || 3);
+    setPoints(initial.points);
+    setWalls(toWallDrafts(initial.points));
+    setCutouts(toCutoutDrafts(initial));
+    setMode("walls");
+  }, [open, shape, length, width]);
+
+  const current: RoomShape = useMemo(
+    () => ({
+      points,
+      cutouts: cutouts
+        .map((cutout) => ({
+          kind: cutout.kind,
+          x: toNumber(cutout.x),
+          y: toNumber(cutout.y),
+          length: toNumber(cutout.length),
+          width: toNumber(cutout.width),
+        }))
+        .filter((cutout) => cutout.length > 0 && cutout.width > 0),
+    }),
+    [points, cutouts]
+  );
+  const measured = measureShape(current);
+
+  const updateWalls = (next: WallDraft[]) => {
+    setWalls(next);
+    setPoints((prev) =>
+      wallsToPoints(
+        next.map((wall) => ({ length: toNumber(wall.length), direction: wall.direction })),
+        prev[0]
+      )
+    );
+  };
+
+  const changeMode = (next: string) => {
+    if (next === "walls") setWalls(toWallDrafts(points));
+    setMode(next);
+  };
+
+  const updateCutout = (index: number, patch: Partial<CutoutDraft>) =>
+    setCutouts((prev) => prev.map((cutout, i) => (i === index ? { ...cutout, ...patch } : cutout)));
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Форма помещения</DialogTitle>
+          <DialogDescription>
+            Задайте стены по порядку или отметьте углы на сетке. Контур замыкается последней стеной автоматически.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <Tabs value={mode} onValueChange={changeMode}>
+            <TabsList className="grid w-full grid-cols-2">
+              <TabsTrigger value="walls">По стенам</TabsTrigger>
+              <TabsTrigger value="grid">На сетке</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="walls" className="space-y-2">
+              {walls.map((wall, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <span className="w-6 text-xs text-slate-500">{index + 1}.</span>
+                  <Input
+                    inputMode="decimal"
+                    value={wall.length}
+                    onChange={(e) =>
+                      updateWalls(walls.map((w, i) => (i === index ? { ...w, length: sanitize(e.target.value) } : w)))
+                    }
+                    className="w-24"
+                    aria-label="Длина стены, м"
+                  />
+                  <Select
+                    value={String(wall.direction)}
+                    onValueChange={(value) =>
+                      updateWalls(walls.map((w, i) => (i === index ? { ...w, direction: Number(value) } : w)))
+                    }
+                  >
+                    <SelectTrigger className="flex-1">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {WALL_DIRECTIONS.map((direction) => (
+                        <SelectItem key={direction.angle} value={String(direction.angle)}>
+                          {direction.label}
+                        </SelectItem>
+                      ))}
+                      {!WALL_DIRECTIONS.some((direction) => direction.angle === wall.direction) && (
+                        <SelectItem value={String(wall.direction)}>{wall.direction}°</SelectItem>
+                      )}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => updateWalls(walls.filter((_, i) => i !== index))}
+                    aria-label="Удалить стену"
+                  >
+                    <X className="w-4 h-4" />
+                  </Button>
+                </div>
+              ))}
+              <div className="text-xs text-slate-500 pl-8">
+                Замыкающая стена: {measured.closingWall} м
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() =>
+                  updateWalls([
+                    ...walls,
+                    { length: "", direction: walls.length ? (walls[walls.length - 1].direction + 90) % 360 : 0 },
+                  ])
+                }
+              >
+                <Plus className="w-4 h-4 mr-1" />
+                Стена
+              </Button>
+            </TabsContent>
+
+            <TabsContent value="grid" className="space-y-2">
+              <p className="text-xs text-slate-500">
+                Щёлкайте по сетке, чтобы поставить углы по порядку. Шаг сетки {GRID_STEP} м, точки
+                прилипают к {SNAP * 100} см.
+              </p>
+              <ShapeCanvas shape={current} onAddPoint={(point) => setPoints((prev) => [...prev, point])} />
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setPoints((prev) => prev.slice(0, -1))}
+                  disabled={points.length === 0}
+                >
+                  <Undo2 className="w-4 h-4 mr-1" />
+                  Убрать точку
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => setPoints([])}>
+                  Очистить
+                </Button>
+              </div>
+            </TabsContent>
+          </Tabs>
+
+          <div className="space-y-3">
+            {mode === "walls" && <ShapeCanvas shape={current} />}
+
+            <div className="rounded-lg bg-slate-50 p-3 text-sm space-y-1">
+              <div className="flex justify-between">
+                <span>Площадь:</span>
+                <span className="font-bold text-[#007AFF]">{measured.area} м²</span>
+              </div>
+              <div className="flex justify-between">
+                <span>Периметр стен:</span>
+                <span className="font-medium">{measured.perimeter} м</span>
+              </div>
+              {measured.columnsPerimeter > 0 && (
+                <div className="flex justify-between">
+                  <span>Периметр колонн:</span>
+                  <span className="font-medium">{measured.columnsPerimeter} м</span>
+                </div>
+              )}
+              {!measured.valid &&
+                (measured.perimeter > 0 && !measured.cutoutsValid ? (
+                  <p className="text-red-600 text-xs">
+                    Колонны и вырезы должны лежать внутри контура и не перекрывать друг друга.
+                  </p>
+                ) : (
+                  <p className="text-red-600 text-xs">
+                    Контур должен иметь не меньше трёх углов, а стены не должны пересекаться.
+                  </p>
+                ))}
+            </div>
+
+            <div className="space-y-2">
+              <Label>Колонны и вырезы</Label>
+              {cutouts.map((cutout, index) => (
+                <div key={index} className="grid grid-cols-[1fr_repeat(4,3.5rem)_auto] gap-1 items-center">
+                  <Select
+                    value={cutout.kind}
+                    onValueChange={(value) => updateCutout(index, { kind: value as CutoutKind })}
+                  >
+                    <SelectTrigger className="h-9 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(CUTOUT_LABELS) as CutoutKind[]).map((kind) => (
+                        <SelectItem key={kind} value={kind}>
+                          {CUTOUT_LABELS[kind]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {(["x", "y", "length", "width"] as const).map((field) => (
+                    <Input
+                      key={field}
+                      inputMode="decimal"
+                      value={cutout[field]}
+                      placeholder={{ x: "X", y: "Y", length: "Дл.", width: "Шир." }[field]}
+                      onChange={(e) => updateCutout(index, { [field]: sanitize(e.target.value) })}
+                      className="h-9 px-2 text-xs"
+                    />
+                  ))}
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setCutouts((prev) => prev.filter((_, i) => i !== index))}
+                    aria-label="Удалить"
+                  >
+                    <X className="w-4 h-4" />
+                  </Button>
+                </div>
+              ))}
+              <p className="text-xs text-slate-500">
+                X, Y — левый верхний угол от начала контура, размеры в метрах. Колонна обходится плинтусом,
+                вырез только уменьшает площадь.
+              </p>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() =>
+                  setCutouts((prev) => [...prev, { kind: "column", x: "1", y: "1", length: "0.4", width: "0.4" }])
+                }
+              >
+                <Plus className="w-4 h-4 mr-1" />
+                Колонна или вырез
+              </Button>
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Отмена
+          </Button>
+          <Button
+            onClick={() => {
+              onApply(current);
+              onOpenChange(false);
+            }}
+            disabled={!measured.valid || measured.area <= 0}
+          >
+            Применить
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,100 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { ToastAction } from "@/components/ui/toast";
+import { Loader2, ShoppingCart } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useUser } from "@/components/context/UserContext";
+import { useCart } from "@/components/context/CartContext";
+import type { CartItemSource } from "@/lib/api";
+
+// Tier color definitions
+const tierColors: Record<string, { primary: string; hover: string }> = {
+  TIER4: {
+    primary: "from-indigo-500 to-blue-500",
+    hover: "hover:from-indigo-600 hover:to-blue-600",
+  },
+  TIER3: {
+    primary: "from-amber-400 to-amber-500",
+    hover: "hover:from-amber-500 hover:to-amber-600",
+  },
+  TIER2: {
+    primary: "from-slate-400 to-slate-500",
+    hover: "hover:from-slate-500 hover:to-slate-600",
+  },
+  default: {
+    primary: "from-[#0A84FF] to-[#007AFF]",
+    hover: "hover:from-[#0A84FF] hover:to-[#0a6cff]",
+  },
+};
+
+interface AddToCartButtonProps {
+  vendorCode: string;
+  quantity?: number;
+  source: CartItemSource;
+  label?: string;
+  size?: "default" | "sm";
+  className?: string;
+}
+
+/**
+ * Adds a product to the persistent cart; the order itself is placed on the cart page
+ */
+export default function AddToCartButton({
+  vendorCode,
+  quantity = 1,
+  source,
+  label = "В корзину",
+  size = "default",
+  className = "",
+}: AddToCartButtonProps) {
+  const [adding, setAdding] = useState(false);
+  const { effectiveTier } = useUser();
+  const { addItem } = useCart();
+  const { toast } = useToast();
+
+  const tierStyle = tierColors[effectiveTier || "default"] || tierColors.default;
+
+  const handleAdd = async () => {
+    setAdding(true);
+    try {
+      await addItem(vendorCode, quantity, source);
+      toast({
+        title: "Добавлено в корзину",
+        description: `Артикул ${vendorCode} × ${quantity}`,
+        action: (
+          <ToastAction>
+            <Link href="/cart">Корзина</Link>
+          </ToastAction>
+        ),
+      });
+    } catch (error) {
+      console.error("Failed to add to cart", error);
+      toast({
+        title: "Не удалось добавить в корзину",
+        description: "Товар не найден в каталоге или временно недоступен.",
+        variant: "destructive",
+      });
+    } finally {
+      setAdding(false);
+    }
+  };
+
+  return (
+    <Button
+      size={size}
+      onClick={handleAdd}
+      disabled={adding || !vendorCode}
+      className={`bg-gradient-to-r ${tierStyle.primary} ${tierStyle.hover} text-white shadow-lg ${className}`}
+    >
+      {adding ? (
+        <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+      ) : (
+        <ShoppingCart className="w-4 h-4 mr-2" />
+      )}
+      {label}
+    </Button>
+  );
+}
@@ -35,6 +35,7 @@ import {
   CollapsibleTrigger,
 } from "@/components/ui/collapsible";
 import { Separator } from "@/components/ui/separator";
+import { Switch } from "@/components/ui/switch";
 import {
   Tooltip,
   TooltipProvider,
@@ -42,8 +43,16 @@ import {
   TooltipContent,
 } from "@/components/ui/tooltip";
 import { parseStock } from "@/lib/sku-utils";
-import OrderForm from "./OrderForm";
-import type { ChatMessage as ChatMessageType } from "@/lib/api";
+import { normalizeCity } from "@/lib/utils";
+import { useUser } from "@/components/context/UserContext";
+import AddToCartButton from "@/components/cart/AddToCartButton";
+import type {
+  ChatCitation,
+  ChatDownloadLink,
+  ChatMessage as ChatMessageType,
+  DealerPrice,
+  ProductWarehouseStock,
+} from "@/lib/api";
 
 // ============================================================================
 // TYPES
@@ -68,15 +77,17 @@ interface ProductInfoData {
   picture: string;
   price: string | number | null;
   params: ProductParams;
+  warehouses?: ProductWarehouseStock[];
+  dealerPrice?: DealerPrice;
 }
 
 interface DownloadLinkData {
   text: string;
-  url: string;
+  url: string | null;
 }
 
 interface MultiDownloadLinksData {
-  items: Array<{ text: string; url: string; title: string }>;
+  items: ChatDownloadLink[];
 }
 
 interface DocumentItem {
@@ -88,20 +99,29 @@ interface DocumentItem {
 // DOWNLOAD LINK CARDS
 // ============================================================================
 
+// A knowledge base item may have no link yet
+const DownloadButton = ({ url }: { url: string | null }) => {
+  const button = (
+    <Button
+      disabled={!url}
+      className="bg-[#313131] hover:bg-[#4a4a4a] text-white font-bold py-2 px-6 rounded-lg shadow-md hover:shadow-lg transition-all"
+    >
+      СКАЧАТЬ
+    </Button>
+  );
+  if (!url) return <div className="flex-shrink-0">{button}</div>;
+  return (
+    <a href={url} target="_blank" rel="noopener noreferrer" className="flex-shrink-0">
+      {button}
+    </a>
+  );
+};
+
 const DownloadLinkCard = ({ linkData }: { linkData: DownloadLinkData }) => {
   return (
     <div className="flex items-center justify-between">
       <p className="text-sm text-slate-800 flex-1 pr-4">{linkData.text}</p>
-      <a
-        href={linkData.url}
-        target="_blank"
-        rel="noopener noreferrer"
-        className="flex-shrink-0"
-      >
-        <Button className="bg-[#313131] hover:bg-[#4a4a4a] text-white font-bold py-2 px-6 rounded-lg shadow-md hover:shadow-lg transition-all">
-          СКАЧАТЬ
-        </Button>
-      </a>
+      <DownloadButton url={linkData.url} />
     </div>
   );
 };
@@ -119,22 +139,44 @@ const MultiDownloadLinksCard = ({
           className="flex items-center justify-between p-3 bg-white/50 rounded-lg border border-slate-200/50"
         >
           <p className="text-sm text-slate-800 flex-1 pr-4">{item.text}</p>
-          <a
-            href={item.url}
-            target="_blank"
-            rel="noopener noreferrer"
-            className="flex-shrink-0"
-          >
-            <Button className="bg-[#313131] hover:bg-[#4a4a4a] text-white font-bold py-2 px-6 rounded-lg shadow-md hover:shadow-lg transition-all">
-              СКАЧАТЬ
-            </Button>
-          </a>
+          <DownloadButton url={item.url} />
         </div>
       ))}
     </div>
   );
 };
 
+// ============================================================================
+// CITATIONS
+// ============================================================================
+
+const CitationList = ({ citations }: { citations: ChatCitation[] }) => {
+  return (
+    <div className="mt-3 pt-3 border-t border-slate-200/70">
+      <div className="text-xs font-medium text-slate-500 mb-1">Источники</div>
+      <ol className="space-y-0.5 text-xs text-slate-600">
+        {citations.map((citation) => (
+          <li key={citation.index} className="flex gap-1">
+            <span className="text-slate-400">{citation.index}.</span>
+            {citation.url ? (
+              <a
+                href={citation.url}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-[#007AFF] hover:underline"
+              >
+                {citation.title}
+              </a>
+            ) : (
+              <span>{citation.title}</span>
+            )}
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+};
+
 // ============================================================================
 // INLINE PRODUCT CALCULATOR
 // ============================================================================
@@ -168,6 +210,10 @@ const InlineProductCalculator = ({ product }: { product: ProductInfoData }) => {
     ? parseFloat(String(areaPerPackageRaw).replace(",", "."))
     : null;
   const pricePerM2 = parseFloat(String(product.price)) || 0;
+  // Same basis as the base cost: m² with reserve
+  const purchaseCost = product.dealerPrice
+    ? Math.round(results.areaWithReserve * product.dealerPrice.purchasePrice * 100) / 100
+    : null;
 
   const calculateResults = useCallback(() => {
     // Reserve coefficients
@@ -405,6 +451,20 @@ const InlineProductCalculator = ({ product }: { product: ProductInfoData }) => {
                     {results.totalCost.toLocaleString("ru-RU")} ₽
                   </span>
                 </div>
+                {purchaseCost !== null && (
+                  <>
+                    <div className="flex justify-between text-slate-600">
+                      <span>Ваша закупка:</span>
+                      <span className="font-bold">{purchaseCost.toLocaleString("ru-RU")} ₽</span>
+                    </div>
+                    <div className="flex justify-between text-green-600">
+                      <span>Ваша маржа:</span>
+                      <span className="font-bold">
+                        {(Math.round((results.totalCost - purchaseCost) * 100) / 100).toLocaleString("ru-RU")} ₽
+                      </span>
+                    </div>
+                  </>
+                )}
               </CardContent>
             </Card>
 
@@ -426,6 +486,14 @@ const InlineProductCalculator = ({ product }: { product: ProductInfoData }) => {
                 </div>
               </div>
             )}
+
+            <AddToCartButton
+              vendorCode={product.vendorCode}
+              quantity={results.packagesNeeded}
+              source="CALCULATOR"
+              label={`Добавить ${results.packagesNeeded} уп. в корзину`}
+              className="w-full"
+            />
           </div>
         )}
       </CollapsibleContent>
@@ -438,8 +506,10 @@ const InlineProductCalculator = ({ product }: { product: ProductInfoData }) => {
 // ============================================================================
 
 const ProductInfoCard = ({ product }: { product: ProductInfoData }) => {
+  const { user } = useUser();
   const [characteristicsOpen, setCharacteristicsOpen] = useState(false);
   const [documentsOpen, setDocumentsOpen] = useState(false);
+  const [onlyMyCity, setOnlyMyCity] = useState(false);
   const params = product.params || {};
 
   // Parse documents from params
@@ -560,9 +630,25 @@ const ProductInfoCard = ({ product }: { product: ProductInfoData }) => {
 
   const stockInfo = parseStock(stockText);
 
-  // Warehouse stock info
-  const warehouseStock = params["Склады"] as Record<string, string> | undefined;
-  const hasWarehouseInfo = warehouseStock && typeof warehouseStock === "object";
+  // Warehouse stock info: directory-backed list, or the plain "Склады" map of older messages
+  const legacyStock = params["Склады"] as Record<string, string> | undefined;
+  const allWarehouses: Array<{ name: string; city: string | null; stockText: string }> =
+    product.warehouses ??
+    (legacyStock && typeof legacyStock === "object"
+      ? Object.entries(legacyStock).map(([name, stockText]) => ({
+          name,
+          city: null,
+          stockText,
+        }))
+      : []);
+  const userCity = normalizeCity(user?.city);
+  const canFilterByCity =
+    !!userCity && allWarehouses.some((w) => normalizeCity(w.city) === userCity);
+  const warehouseStock =
+    canFilterByCity && onlyMyCity
+      ? allWarehouses.filter((w) => normalizeCity(w.city) === userCity)
+      : allWarehouses;
+  const hasWarehouseInfo = allWarehouses.length > 0;
 
   // Documents
   const hasDocuments = documents.length > 0;
@@ -614,6 +700,19 @@ const ProductInfoCard = ({ product }: { product: ProductInfoData }) => {
                 </span>
               </>
             )}
+
+            {product.dealerPrice && (
+              <>
+                <span className="text-slate-300">•</span>
+                <span className="font-medium text-blue-700">
+                  Ваша цена {product.dealerPrice.purchasePrice.toLocaleString("ru-RU")} ₽/м²
+                </span>
+                <span className="text-green-600">
+                  маржа {product.dealerPrice.margin.toLocaleString("ru-RU")} ₽ (
+                  {product.dealerPrice.marginPercent}%)
+                </span>
+              </>
+            )}
           </div>
 
           {product.description && (
@@ -637,22 +736,33 @@ const ProductInfoCard = ({ product }: { product: ProductInfoData }) => {
                 <ChevronDown className="w-5 h-5 text-slate-500 transition-transform" />
               </button>
             </CollapsibleTrigger>
-            <CollapsibleContent className="pt-3">
+            <CollapsibleContent className="pt-3 space-y-3">
+              {canFilterByCity && (
+                <label className="flex items-center justify-between px-1 text-sm text-slate-600">
+                  <span>Только склады г. {user?.city}</span>
+                  <Switch checked={onlyMyCity} onCheckedChange={setOnlyMyCity} />
+                </label>
+              )}
               <div className="bg-slate-50/50 rounded-xl divide-y divide-slate-200/50 border border-slate-200/50">
-                {Object.entries(warehouseStock).map(([whName, whStock]) => {
-                  const whStockInfo = parseStock(whStock);
+                {warehouseStock.map((warehouse) => {
+                  const whStockInfo = parseStock(warehouse.stockText);
                   return (
                     <div
-                      key={whName}
+                      key={warehouse.name}
                       className="px-4 py-2 flex justify-between items-center text-sm"
                     >
-                      <span className="text-slate-600">{whName}</span>
+                      <span className="text-slate-600">
+                        {warehouse.name}
+                        {warehouse.city && warehouse.city !== warehouse.name && (
+                          <span className="text-slate-400"> · {warehouse.city}</span>
+                        )}
+                      </span>
                       <span
                         className={`font-medium text-right ${
                           whStockInfo.inStock ? "text-green-600" : "text-slate-500"
                         }`}
                       >
-                        {whStock}
+                        {warehouse.stockText}
                       </span>
                     </div>
                   );
@@ -745,7 +855,7 @@ const ProductInfoCard = ({ product }: { product: ProductInfoData }) => {
 
         {/* Order buttons */}
         <div className="pt-2 space-y-2">
-          <OrderForm product={product} />
+          <AddToCartButton vendorCode={product.vendorCode} source="CHAT" className="w-full" />
           <a
             href="https://tvo.floor-svs.ru/"
             target="_blank"
@@ -773,37 +883,41 @@ interface ChatMessageProps {
   message: ChatMessageType;
   tier?: string | null;
   bonusEnabled?: boolean;
+  streaming?: boolean; // reply is still arriving
 }
 
 export default function ChatMessage({
   message,
   tier = null,
   bonusEnabled = true,
+  streaming = false,
 }: ChatMessageProps) {
   let contentData: {
     type?: string;
     data?: ProductInfoData | DownloadLinkData | MultiDownloadLinksData;
   } | null = null;
-  let isProductInfo = false;
-  let isDownloadLink = false;
-  let isMultiDownloadLinks = false;
   const isUser = message.role === "user";
 
-  try {
-    contentData = JSON.parse(message.content);
-    if (contentData && contentData.type === "product_info") {
-      isProductInfo = true;
-    }
-    if (contentData && contentData.type === "download_link") {
-      isDownloadLink = true;
+  if (message.productCard) {
+    contentData = { type: "product_info", data: message.productCard as ProductInfoData };
+  } else if (message.downloads?.length) {
+    contentData =
+      message.downloads.length === 1
+        ? { type: "download_link", data: message.downloads[0] }
+        : { type: "multi_download_links", data: { items: message.downloads } };
+  } else if (!isUser && message.content.startsWith("{")) {
+    // Older messages keep cards as JSON in content
+    try {
+      contentData = JSON.parse(message.content);
+    } catch {
+      // Not JSON, treat as plain text
     }
-    if (contentData && contentData.type === "multi_download_links") {
-      isMultiDownloadLinks = true;
-    }
-  } catch {
-    // Not JSON, treat as plain text
   }
 
+  const isProductInfo = contentData?.type === "product_info";
+  const isDownloadLink = contentData?.type === "download_link";
+  const isMultiDownloadLinks = contentData?.type === "multi_download_links";
+
   // Tier-based glow for user avatar
   const userAvatarGlow = (() => {
     if (!bonusEnabled || !tier) {
@@ -885,6 +999,15 @@ export default function ChatMessage({
               >
                 {message.content}
               </ReactMarkdown>
+              {streaming && (
+                <span className="inline-block w-2 h-4 bg-blue-500 animate-pulse ml-1" />
+              )}
+              {message.error && (
+                <p className="text-sm text-red-600">⚠️ {message.error}</p>
+              )}
+              {message.citations && message.citations.length > 0 && (
+                <CitationList citations={message.citations} />
+              )}
             </div>
           )}
         </div>
@@ -0,0 +1,101 @@
+"use client";
+
+import React, {
+  createContext,
+  useContext,
+  useState,
+  useEffect,
+  useCallback,
+} from "react";
+import { api, Cart, CartItemSource } from "@/lib/api";
+import { useUser } from "@/components/context/UserContext";
+
+/**
+ * CartContext - Корзина пользователя
+ *
+ * Позиции хранятся на сервере, цены и наличие всегда пересчитываются по каталогу:
+ * контекст лишь держит последний ответ /api/cart для шапки и страницы корзины.
+ */
+
+interface CartContextValue {
+  cart: Cart;
+  itemsCount: number;
+  loading: boolean;
+  addItem: (vendorCode: string, quantity?: number, source?: CartItemSource) => Promise<void>;
+  updateQuantity: (vendorCode: string, quantity: number) => Promise<void>;
+  removeItem: (vendorCode: string) => Promise<void>;
+  clear: () => Promise<void>;
+  refresh: () => Promise<void>;
+}
+
+const EMPTY_CART: Cart = { lines: [], total: 0, itemsCount: 0, hasIssues: false };
+
+const CartContext = createContext<CartContextValue | null>(null);
+
+export function CartProvider({ children }: { children: React.ReactNode }) {
+  const { user } = useUser();
+  const [cart, setCart] = useState<Cart>(EMPTY_CART);
+  const [loading, setLoading] = useState(false);
+
+  const refresh = useCallback(async () => {
+    if (!user) {
+      setCart(EMPTY_CART);
+      return;
+    }
+    try {
+      setLoading(true);
+      setCart(await api.getCart());
+    } catch (error) {
+      console.error("Error loading cart:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  // Mutations throw, so callers can show their own error messages
+  const addItem = useCallback(
+    async (vendorCode: string, quantity: number = 1, source: CartItemSource = "CHAT") => {
+      setCart(await api.addToCart(vendorCode, quantity, source));
+    },
+    []
+  );
+
+  const updateQuantity = useCallback(async (vendorCode: string, quantity: number) => {
+    setCart(await api.updateCartItem(vendorCode, quantity));
+  }, []);
+
+  const removeItem = useCallback(async (vendorCode: string) => {
+    setCart(await api.removeFromCart(vendorCode));
+  }, []);
+
+  const clear = useCallback(async () => {
+    setCart(await api.removeFromCart());
+  }, []);
+
+  const value: CartContextValue = {
+    cart,
+    itemsCount: cart.lines.length,
+    loading,
+    addItem,
+    updateQuantity,
+    removeItem,
+    clear,
+    refresh,
+  };
+
+  return <CartContext.Provider value={value}>{children}</CartContext.Provider>;
+}
+
+export function useCart() {
+  const context = useContext(CartContext);
+  if (!context) {
+    throw new Error("useCart must be used within a CartProvider");
+  }
+  return context;
+}
+
+export default CartContext;
@@ -6,56 +6,43 @@ import React, {
   useState,
   useEffect,
   useCallback,
-  useMemo,
 } from "react";
-import { api, Product, KnowledgeBaseItem } from "@/lib/api";
+import { api, Product, ProductSearchResult } from "@/lib/api";
+
+interface ProductSearchOptions {
+  calculator?: boolean;
+  // Only products in stock at warehouses of this city
+  city?: string;
+  limit?: number;
+  offset?: number;
+}
 
 interface ProductDataContextValue {
-  products: Product[];
-  productIndex: Map<string, Product[]> | null;
-  calculatorProducts: Product[];
+  totalProducts: number;
   loading: boolean;
   lastSync: string | null;
-  findProductByCode: (code: string) => Product | null;
-  searchProducts: (query: string, limit?: number) => Product[];
+  findProductByCode: (code: string) => Promise<Product | null>;
+  searchProducts: (
+    query: string,
+    options?: ProductSearchOptions
+  ) => Promise<ProductSearchResult>;
   refresh: () => Promise<void>;
 }
 
 const ProductDataContext = createContext<ProductDataContextValue | null>(null);
 
 export function ProductDataProvider({ children }: { children: React.ReactNode }) {
-  const [products, setProducts] = useState<Product[]>([]);
-  const [productIndex, setProductIndex] = useState<Map<string, Product[]> | null>(null);
+  const [totalProducts, setTotalProducts] = useState(0);
   const [loading, setLoading] = useState(true);
   const [lastSync, setLastSync] = useState<string | null>(null);
 
-  const loadProducts = useCallback(async () => {
+  // Only the catalog summary is loaded up front - products are queried on demand
+  const loadSummary = useCallback(async () => {
     try {
       setLoading(true);
-      const knowledgeItems = await api.getKnowledgeBase({ type: "XML_FEED" });
-
-      let allProducts: Product[] = [];
-      for (const item of knowledgeItems) {
-        if (item.xmlData?.products) {
-          allProducts = [...allProducts, ...item.xmlData.products];
-        }
-        if (item.lastSync) {
-          setLastSync(item.lastSync);
-        }
-      }
-
-      setProducts(allProducts);
-
-      // Create index for fast lookup by vendor code
-      const index = new Map<string, Product[]>();
-      for (const product of allProducts) {
-        if (product.vendorCode) {
-          const code = String(product.vendorCode).toLowerCase();
-          if (!index.has(code)) index.set(code, []);
-          index.get(code)!.push(product);
-        }
-      }
-      setProductIndex(index);
+      const summary = await api.getProducts({ limit: 0 });
+      setTotalProducts(summary.total);
+      setLastSync(summary.lastSync || null);
     } catch (error) {
       console.error("Error loading products:", error);
     } finally {
@@ -64,54 +51,42 @@ export function ProductDataProvider({ children }: { children: React.ReactNode })
   }, []);
 
   useEffect(() => {
-    loadProducts();
-  }, [loadProducts]);
-
-  // Filter products for calculator (with price and area per package)
-  const calculatorProducts = useMemo(() => {
-    return products.filter((product) => {
-      const hasAreaParam =
-        product.params && product.params["Кол-во м2 в упаковке"];
-      const hasPrice = product.price;
-      return hasAreaParam && hasPrice;
-    });
-  }, [products]);
+    loadSummary();
+  }, [loadSummary]);
 
   const findProductByCode = useCallback(
-    (code: string): Product | null => {
-      if (!productIndex || !code) return null;
-      const matches = productIndex.get(code.toLowerCase());
-      return matches?.[0] || null;
+    async (code: string): Promise<Product | null> => {
+      if (!code) return null;
+      try {
+        const result = await api.getProducts({ code });
+        return result.items[0] || null;
+      } catch (error) {
+        console.error("Error finding product:", error);
+        return null;
+      }
     },
-    [productIndex]
+    []
   );
 
   const searchProducts = useCallback(
-    (query: string, limit = 50): Product[] => {
-      if (!query?.trim()) return products.slice(0, limit);
-
-      const q = query.toLowerCase();
-      return products
-        .filter(
-          (p) =>
-            p.name?.toLowerCase().includes(q) ||
-            p.vendorCode?.toLowerCase().includes(q) ||
-            p.vendor?.toLowerCase().includes(q)
-        )
-        .slice(0, limit);
-    },
-    [products]
+    (query: string, options: ProductSearchOptions = {}) =>
+      api.getProducts({
+        search: query?.trim() || undefined,
+        calculator: options.calculator,
+        city: options.city,
+        limit: options.limit ?? 50,
+        offset: options.offset,
+      }),
+    []
   );
 
   const value: ProductDataContextValue = {
-    products,
-    productIndex,
-    calculatorProducts,
+    totalProducts,
     loading,
     lastSync,
     findProductByCode,
     searchProducts,
-    refresh: loadProducts,
+    refresh: loadSummary,
   };
 
   return (
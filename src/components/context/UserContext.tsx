@@ -20,6 +20,7 @@ interface UserContextValue {
   needsApproval: boolean;
   effectiveTier: string | null;
   isAdmin: boolean;
+  canManageOrders: boolean;
   displayName: string;
   logout: () => Promise<void>;
   login: () => Promise<void>;
@@ -130,6 +131,10 @@ export function UserProvider({ children }: { children: React.ReactNode }) {
     needsApproval,
     effectiveTier,
     isAdmin: user?.role === "ADMIN",
+    // Mirrors canManageOrders() in lib/order-workflow
+    canManageOrders:
+      user?.role === "ADMIN" ||
+      (user?.userType === "MANAGER" && !!user?.isApproved),
     displayName:
       user?.displayName || user?.fullName || user?.email || "Пользователь",
     logout,
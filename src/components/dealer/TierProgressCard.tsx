@@ -0,0 +1,178 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { ArrowDownRight, ArrowUpRight, Target, TrendingUp } from "lucide-react";
+import { format } from "date-fns";
+import { ru } from "date-fns/locale";
+import { useUser } from "@/components/context/UserContext";
+import { api, TierProgress } from "@/lib/api";
+
+const formatRub = (value: number) => `${value.toLocaleString("ru-RU")} ₽`;
+
+export default function TierProgressCard({ compact = false }: { compact?: boolean }) {
+  const { user, dealerProfile, bonusEnabled } = useUser();
+  const [data, setData] = useState<TierProgress | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const isDealer = !!user && user.userType === "DEALER" && !!dealerProfile && bonusEnabled;
+
+  useEffect(() => {
+    if (!isDealer) return;
+    api
+      .getTierProgress()
+      .then(setData)
+      .catch((error) => console.error("Error loading tier progress:", error))
+      .finally(() => setLoading(false));
+  }, [isDealer]);
+
+  if (!isDealer) return null;
+
+  if (loading || !data) {
+    return loading ? (
+      <div className={`${compact ? "h-28" : "h-64"} bg-white/60 rounded-2xl animate-pulse mb-6`} />
+    ) : null;
+  }
+
+  const nameOf = (tier: string) => data.levels.find((l) => l.tier === tier)?.name || tier;
+  const percent = Math.round(data.progress * 100);
+  const projectedUp =
+    data.nextTier !== null &&
+    data.levels.findIndex((l) => l.tier === data.projection.tier) >
+      data.levels.findIndex((l) => l.tier === data.monthTier);
+
+  const progressBar = (
+    <div>
+      <div className="flex items-center justify-between text-sm mb-1">
+        <span className="text-slate-600">{nameOf(data.monthTier)}</span>
+        <span className="text-slate-600">
+          {data.nextTier ? data.nextTier.name : "Максимальный уровень"}
+        </span>
+      </div>
+      <div className="h-3 rounded-full bg-slate-200 overflow-hidden">
+        <div
+          className="h-full rounded-full bg-gradient-to-r from-[#0A84FF] to-indigo-500 transition-all"
+          style={{ width: `${percent}%` }}
+        />
+      </div>
+      <div className="mt-2 text-sm text-slate-700">
+        {data.nextTier ? (
+          <>
+            До уровня «{data.nextTier.name}» осталось <b>{formatRub(data.remaining)}</b> оборота
+          </>
+        ) : (
+          <>Вы на максимальном уровне в этом месяце</>
+        )}
+      </div>
+    </div>
+  );
+
+  if (compact) {
+    return (
+      <Card className="bg-white/70 backdrop-blur-xl border-white/20 shadow-lg mb-6">
+        <CardContent className="p-5 flex flex-col md:flex-row md:items-center gap-4">
+          <div className="flex-1">{progressBar}</div>
+          <Button variant="outline" className="rounded-lg" asChild>
+            <Link href="/account/profile">Подробнее</Link>
+          </Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card className="bg-white/70 backdrop-blur-xl border-white/20 shadow-lg mb-6">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Target className="w-5 h-5" />
+          Путь к следующему уровню
+        </CardTitle>
+        <CardDescription>
+          Оборот считается по доставленным заказам текущего месяца. Уровень сохраняется,
+          если оборот прошлого месяца был выше.
+          {data.manualTier && " Сейчас уровень назначен менеджером и не зависит от оборота."}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-5">
+        {progressBar}
+
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+          <div className="p-3 rounded-xl bg-slate-50">
+            <div className="text-xs text-slate-500">Оборот за месяц</div>
+            <div className="text-lg font-semibold text-slate-900">{formatRub(data.turnover)}</div>
+            <div className="text-xs text-slate-500">заказов: {data.ordersCount}</div>
+          </div>
+          <div className="p-3 rounded-xl bg-slate-50">
+            <div className="text-xs text-slate-500">Прошлый месяц</div>
+            <div className="text-lg font-semibold text-slate-900">
+              {formatRub(data.lastMonthTurnover)}
+            </div>
+          </div>
+          <div className="p-3 rounded-xl bg-slate-50">
+            <div className="text-xs text-slate-500">В работе</div>
+            <div className="text-lg font-semibold text-slate-900">
+              {formatRub(data.openOrdersTotal)}
+            </div>
+            <div className="text-xs text-slate-500">засчитается после доставки</div>
+          </div>
+        </div>
+
+        <div className="flex items-start gap-3 rounded-xl border border-blue-100 bg-blue-50/60 p-4">
+          <TrendingUp className="w-5 h-5 text-[#007AFF] shrink-0 mt-0.5" />
+          <div className="text-sm text-slate-700">
+            При текущем темпе ({data.projection.daysElapsed} из {data.projection.daysInMonth} дн.)
+            к концу месяца оборот составит около <b>{formatRub(data.projection.turnover)}</b> —
+            уровень «{nameOf(data.projection.tier)}».
+            {data.nextTier && !projectedUp && (
+              <> Чтобы выйти на «{data.nextTier.name}», темп нужно увеличить.</>
+            )}
+          </div>
+        </div>
+
+        <div>
+          <div className="text-sm font-medium text-slate-900 mb-2">История уровней</div>
+          {data.history.length === 0 ? (
+            <p className="text-sm text-slate-500">Уровень ещё не менялся.</p>
+          ) : (
+            <div className="space-y-2">
+              {data.history.map((entry) => (
+                <div
+                  key={entry.id}
+                  className="flex items-start gap-3 rounded-lg border border-slate-100 bg-white/60 px-3 py-2"
+                >
+                  {entry.direction === "up" ? (
+                    <ArrowUpRight className="w-4 h-4 text-green-600 shrink-0 mt-0.5" />
+                  ) : (
+                    <ArrowDownRight className="w-4 h-4 text-red-600 shrink-0 mt-0.5" />
+                  )}
+                  <div className="min-w-0 flex-1">
+                    <div className="flex items-center gap-2 flex-wrap text-sm">
+                      <Badge variant="outline">{nameOf(entry.previousTier)}</Badge>
+                      <span className="text-slate-400">→</span>
+                      <Badge variant="outline">{nameOf(entry.newTier)}</Badge>
+                    </div>
+                    {entry.reason && (
+                      <div className="text-xs text-slate-500 mt-1">{entry.reason}</div>
+                    )}
+                  </div>
+                  <span className="text-xs text-slate-500 shrink-0">
+                    {format(new Date(entry.createdAt), "d MMM yyyy", { locale: ru })}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
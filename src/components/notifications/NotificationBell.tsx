@@ -0,0 +1,143 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { Bell, Package, UserCheck, Award, Lightbulb, LucideIcon } from "lucide-react";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Button } from "@/components/ui/button";
+import { formatDistanceToNow } from "date-fns";
+import { ru } from "date-fns/locale";
+import { api, NotificationItem, NotificationType } from "@/lib/api";
+
+export const NOTIFICATION_ICONS: Record<NotificationType, LucideIcon> = {
+  ORDER_STATUS: Package,
+  ACCOUNT_APPROVED: UserCheck,
+  TIER_CHANGED: Award,
+  CONTENT_PUBLISHED: Lightbulb,
+};
+
+const POLL_INTERVAL = 60 * 1000;
+const PREVIEW_SIZE = 8;
+
+export default function NotificationBell({ className = "" }: { className?: string }) {
+  const router = useRouter();
+  const [items, setItems] = useState<NotificationItem[]>([]);
+  const [unread, setUnread] = useState(0);
+
+  const load = useCallback(async () => {
+    try {
+      const inbox = await api.getNotifications({ limit: PREVIEW_SIZE });
+      setItems(inbox.items);
+      setUnread(inbox.unread);
+    } catch (error) {
+      console.error("Error loading notifications:", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+    const timer = setInterval(() => {
+      if (document.visibilityState === "visible") load();
+    }, POLL_INTERVAL);
+    return () => clearInterval(timer);
+  }, [load]);
+
+  const open = (item: NotificationItem) => {
+    if (!item.readAt) {
+      setItems((prev) =>
+        prev.map((n) => (n.id === item.id ? { ...n, readAt: new Date().toISOString() } : n))
+      );
+      setUnread((prev) => Math.max(0, prev - 1));
+      api.markNotificationsRead([item.id]).catch((error) =>
+        console.error("Error marking notification as read:", error)
+      );
+    }
+    if (item.link) router.push(item.link);
+  };
+
+  const readAll = async () => {
+    try {
+      await api.markNotificationsRead();
+      setItems((prev) => prev.map((n) => ({ ...n, readAt: n.readAt || new Date().toISOString() })));
+      setUnread(0);
+    } catch (error) {
+      console.error("Error marking notifications as read:", error);
+    }
+  };
+
+  return (
+    <DropdownMenu onOpenChange={(isOpen) => isOpen && load()}>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className={`relative hover:bg-blue-50 hover:text-blue-600 ${className}`}
+          aria-label="Уведомления"
+        >
+          <Bell className="w-4 h-4" />
+          {unread > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 min-w-[1.1rem] h-[1.1rem] px-1 rounded-full bg-red-500 text-white text-[10px] leading-[1.1rem] text-center">
+              {unread > 99 ? "99+" : unread}
+            </span>
+          )}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-80">
+        <div className="flex items-center justify-between px-2 py-1.5">
+          <span className="text-sm font-semibold text-slate-900">Уведомления</span>
+          {unread > 0 && (
+            <button onClick={readAll} className="text-xs text-[#007AFF] hover:underline">
+              Прочитать все
+            </button>
+          )}
+        </div>
+        <DropdownMenuSeparator />
+        {items.length === 0 ? (
+          <div className="px-2 py-6 text-center text-sm text-slate-500">Уведомлений пока нет</div>
+        ) : (
+          items.map((item) => {
+            const Icon = NOTIFICATION_ICONS[item.type] || Bell;
+            return (
+              <DropdownMenuItem
+                key={item.id}
+                onSelect={() => open(item)}
+                className="flex items-start gap-2 py-2 cursor-pointer"
+              >
+                <Icon
+                  className={`w-4 h-4 shrink-0 mt-0.5 ${item.readAt ? "text-slate-400" : "text-[#007AFF]"}`}
+                />
+                <div className="min-w-0 flex-1">
+                  <div
+                    className={`text-sm ${item.readAt ? "text-slate-600" : "font-medium text-slate-900"}`}
+                  >
+                    {item.title}
+                  </div>
+                  {item.body && (
+                    <div className="text-xs text-slate-500 line-clamp-2">{item.body}</div>
+                  )}
+                  <div className="text-[11px] text-slate-400 mt-0.5">
+                    {formatDistanceToNow(new Date(item.createdAt), { addSuffix: true, locale: ru })}
+                  </div>
+                </div>
+                {!item.readAt && <span className="w-2 h-2 rounded-full bg-[#007AFF] mt-1.5" />}
+              </DropdownMenuItem>
+            );
+          })
+        )}
+        <DropdownMenuSeparator />
+        <DropdownMenuItem asChild>
+          <Link href="/account/notifications" className="justify-center text-sm text-[#007AFF]">
+            Все уведомления
+          </Link>
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
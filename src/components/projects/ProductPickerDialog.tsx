@@ -0,0 +1,108 @@
+"use client";
+
+import React, { useEffect, useState, useDeferredValue } from "react";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useProductData } from "@/components/context/ProductDataContext";
+import type { Product } from "@/lib/api";
+import { Search } from "lucide-react";
+
+/**
+ * Catalog search in a dialog. Accessories have no category in the feed,
+ * so the search starts from a keyword ("подложка", "плинтус"...).
+ */
+export default function ProductPickerDialog({
+  open,
+  title,
+  initialQuery = "",
+  calculatorOnly = false,
+  onSelect,
+  onOpenChange,
+}: {
+  open: boolean;
+  title: string;
+  initialQuery?: string;
+  calculatorOnly?: boolean;
+  onSelect: (product: Product) => void;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const { searchProducts } = useProductData();
+  const [query, setQuery] = useState(initialQuery);
+  const deferredQuery = useDeferredValue(query);
+  const [items, setItems] = useState<Product[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (open) setQuery(initialQuery);
+  }, [open, initialQuery]);
+
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    setLoading(true);
+
+    searchProducts(deferredQuery, { calculator: calculatorOnly, limit: 20 })
+      .then((result) => {
+        if (!cancelled) setItems(result.items);
+      })
+      .catch((error) => console.error("Error searching products:", error))
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, deferredQuery, calculatorOnly, searchProducts]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>Найдите товар по названию, артикулу или производителю.</DialogDescription>
+        </DialogHeader>
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400" />
+          <Input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Поиск..."
+            className="pl-9"
+          />
+        </div>
+        <div className="max-h-80 overflow-y-auto space-y-1">
+          {loading && items.length === 0 ? (
+            <p className="text-sm text-slate-500 py-4 text-center">Поиск...</p>
+          ) : items.length === 0 ? (
+            <p className="text-sm text-slate-500 py-4 text-center">Ничего не найдено</p>
+          ) : (
+            items.map((product) => (
+              <button
+                key={product.id}
+                onClick={() => {
+                  onSelect(product);
+                  onOpenChange(false);
+                }}
+                className="w-full text-left rounded-lg px-3 py-2 hover:bg-slate-100 transition"
+              >
+                <div className="text-sm font-medium text-slate-900">{product.name}</div>
+                <div className="text-xs text-slate-500">
+                  {product.vendorCode}
+                  {product.vendor && ` · ${product.vendor}`}
+                  {product.price ? ` · ${product.price.toLocaleString("ru-RU")} ₽` : " · без цены"}
+                </div>
+              </button>
+            ))
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,563 @@
+"use client";
+
+import React, { useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Separator } from "@/components/ui/separator";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/components/ui/use-toast";
+import { useCart } from "@/components/context/CartContext";
+import ProductPickerDialog from "@/components/projects/ProductPickerDialog";
+import RoomShapeDialog from "@/components/calculator/RoomShapeDialog";
+import { api, Product } from "@/lib/api";
+import { areaPerPackageFromParams, InstallationType, INSTALLATION_LABELS } from "@/lib/calculator";
+import {
+  ACCESSORY_KINDS,
+  ACCESSORY_SEARCH_QUERIES,
+  AccessoryKind,
+  calculateProject,
+  DEFAULT_DOOR_WIDTH,
+  EMPTY_ACCESSORIES,
+  pieceLengthFromParams,
+  PROJECT_LINE_LABELS,
+  ProjectAccessories,
+  ProjectProduct,
+  ProjectRoom,
+  roomGeometry,
+} from "@/lib/project-calculator";
+import { measureShape, RoomShape } from "@/lib/room-shape";
+import { ArrowLeft, Home, Layers, PenLine, Plus, Save, ShoppingCart, Trash2, X } from "lucide-react";
+
+interface RoomDraft {
+  name: string;
+  length: string;
+  width: string;
+  doors: string;
+  doorWidth: string;
+  thresholds: string;
+  shape: RoomShape | null;
+  vendorCode: string | null;
+  installationType: InstallationType;
+}
+
+type PickerTarget = { room: number } | { accessory: AccessoryKind };
+
+const newRoom = (index: number): RoomDraft => ({
+  name: `Помещение ${index + 1}`,
+  length: "",
+  width: "",
+  doors: "1",
+  doorWidth: String(DEFAULT_DOOR_WIDTH),
+  thresholds: "0",
+  shape: null,
+  vendorCode: null,
+  installationType: "straight",
+});
+
+const toDraft = (room: ProjectRoom): RoomDraft => ({
+  ...room,
+  length: String(room.length),
+  width: String(room.width),
+  doors: String(room.doors),
+  doorWidth: String(room.doorWidth),
+  thresholds: String(room.thresholds),
+  shape: room.shape || null,
+});
+
+const parseNumber = (value: string) => parseFloat(value.replace(",", ".")) || 0;
+
+const toRoom = (draft: RoomDraft): ProjectRoom => {
+  // A room with a shape is measured from it; length and width are its bounding box
+  const measured = draft.shape ? measureShape(draft.shape) : null;
+  return {
+    ...draft,
+    name: draft.name.trim(),
+    length: measured ? measured.length : parseNumber(draft.length),
+    width: measured ? measured.width : parseNumber(draft.width),
+    doors: Math.round(parseNumber(draft.doors)),
+    doorWidth: parseNumber(draft.doorWidth),
+    thresholds: Math.round(parseNumber(draft.thresholds)),
+  };
+};
+
+const toProjectProduct = (product: Product): ProjectProduct => ({
+  vendorCode: product.vendorCode,
+  name: product.name,
+  price: product.price,
+  areaPerPackage: areaPerPackageFromParams(product.params),
+  pieceLength: pieceLengthFromParams(product.params),
+});
+
+const rub = (value: number) => `${value.toLocaleString("ru-RU", { maximumFractionDigits: 2 })} ₽`;
+
+const ACCESSORY_TITLES: Record<AccessoryKind, string> = {
+  underlay: "Подложка",
+  skirting: "Плинтус",
+  threshold: "Пороги",
+};
+
+const ACCESSORY_HINTS: Record<AccessoryKind, string> = {
+  underlay: "По площади всех помещений +5%",
+  skirting: "По периметру за вычетом дверей +5%, по длине планки",
+  threshold: "По количеству порогов в помещениях",
+};
+
+/**
+ * Multi-room project editor. The preview is calculated here from the catalog
+ * data of the picked products; the server prices the project again on save.
+ */
+export default function ProjectCalculator({ projectId }: { projectId?: string }) {
+  const router = useRouter();
+  const { addItem } = useCart();
+  const { toast } = useToast();
+  const [name, setName] = useState("");
+  const [comment, setComment] = useState("");
+  const [rooms, setRooms] = useState<RoomDraft[]>([newRoom(0)]);
+  const [accessories, setAccessories] = useState<ProjectAccessories>(EMPTY_ACCESSORIES);
+  const [products, setProducts] = useState<Record<string, ProjectProduct>>({});
+  const [picker, setPicker] = useState<PickerTarget | null>(null);
+  const [shapeRoom, setShapeRoom] = useState<number | null>(null);
+  const [loading, setLoading] = useState(Boolean(projectId));
+  const [saving, setSaving] = useState(false);
+  const [addingToCart, setAddingToCart] = useState(false);
+
+  useEffect(() => {
+    if (!projectId) return;
+
+    const load = async () => {
+      try {
+        const project = await api.getProject(projectId);
+        setName(project.name);
+        setComment(project.comment || "");
+        setRooms(project.rooms.map(toDraft));
+        setAccessories({ ...EMPTY_ACCESSORIES, ...project.accessories });
+
+        // Current catalog data for the preview
+        const codes = new Set(
+          [...project.rooms.map((room) => room.vendorCode), ...Object.values(project.accessories)].filter(
+            (code): code is string => Boolean(code)
+          )
+        );
+        const found = await Promise.all(
+          Array.from(codes).map((code) =>
+            api.getProducts({ code }).then((result) => result.items[0] || null)
+          )
+        );
+        setProducts(
+          Object.fromEntries(
+            found
+              .filter((product): product is Product => Boolean(product))
+              .map((product) => [product.vendorCode.toLowerCase(), toProjectProduct(product)])
+          )
+        );
+      } catch (error) {
+        console.error("Error loading project:", error);
+        toast({ title: "Ошибка", description: "Не удалось загрузить проект.", variant: "destructive" });
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    load();
+  }, [projectId, toast]);
+
+  const calculation = useMemo(
+    () =>
+      calculateProject(
+        rooms.map(toRoom).filter((room) => room.length > 0 && room.width > 0),
+        accessories,
+        (code) => products[code.toLowerCase()]
+      ),
+    [rooms, accessories, products]
+  );
+
+  const updateRoom = (index: number, patch: Partial<RoomDraft>) =>
+    setRooms((prev) => prev.map((room, i) => (i === index ? { ...room, ...patch } : room)));
+
+  const numberField = (index: number, field: keyof RoomDraft, value: string) =>
+    updateRoom(index, { [field]: value.replace(/[^0-9.,]/g, "").replace(",", ".") });
+
+  const handlePick = (product: Product) => {
+    if (!picker) return;
+    setProducts((prev) => ({ ...prev, [product.vendorCode.toLowerCase()]: toProjectProduct(product) }));
+    if ("room" in picker) {
+      updateRoom(picker.room, { vendorCode: product.vendorCode });
+    } else {
+      setAccessories((prev) => ({ ...prev, [picker.accessory]: product.vendorCode }));
+    }
+  };
+
+  const productName = (code: string | null) =>
+    code ? products[code.toLowerCase()]?.name || code : null;
+
+  const save = async () => {
+    if (!name.trim()) {
+      toast({ title: "Ошибка", description: "Укажите название проекта.", variant: "destructive" });
+      return;
+    }
+    setSaving(true);
+    try {
+      const data = {
+        name: name.trim(),
+        comment: comment.trim() || null,
+        rooms: rooms.map(toRoom),
+        accessories,
+      };
+      if (projectId) {
+        await api.updateProject(projectId, data);
+        toast({ title: "Проект сохранён", description: "Цены пересчитаны по каталогу." });
+      } else {
+        const project = await api.createProject(data);
+        toast({ title: "Проект сохранён", description: "Он доступен в личном кабинете." });
+        router.replace(`/calculator/project/${project.id}`);
+      }
+    } catch (error) {
+      toast({
+        title: "Ошибка",
+        description: error instanceof Error ? error.message : "Не удалось сохранить проект.",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const addAllToCart = async () => {
+    setAddingToCart(true);
+    try {
+      for (const line of calculation.lines) {
+        await addItem(line.vendorCode, line.quantity, "CALCULATOR");
+      }
+      toast({ title: "Добавлено в корзину", description: `Позиций: ${calculation.lines.length}` });
+    } catch (error) {
+      toast({
+        title: "Ошибка",
+        description: error instanceof Error ? error.message : "Не удалось добавить в корзину.",
+        variant: "destructive",
+      });
+    } finally {
+      setAddingToCart(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-slate-50 via-blue-50 to-indigo-50 p-6 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-blue-50 to-indigo-50 p-4 md:p-6">
+      <div className="max-w-6xl mx-auto w-full">
+        <Button asChild variant="ghost" className="mb-4 -ml-2">
+          <Link href={projectId ? "/account/projects" : "/calculator"}>
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            {projectId ? "Все проекты" : "Калькулятор"}
+          </Link>
+        </Button>
+
+        <div className="mb-6">
+          <h1 className="text-2xl md:text-3xl font-bold bg-gradient-to-r from-[#0A84FF] to-[#007AFF] bg-clip-text text-transparent">
+            Расчёт объекта
+          </h1>
+          <p className="text-slate-600 mt-1">
+            Помещения с размерами и покрытием, подложка, плинтус и пороги
+          </p>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="lg:col-span-2 space-y-4">
+            {rooms.map((room, index) => {
+              const geometry = roomGeometry(toRoom(room));
+              return (
+                <Card key={index} className="bg-white/70 backdrop-blur-xl border-white/20 shadow-lg">
+                  <CardHeader className="flex flex-row items-center justify-between gap-3 pb-3">
+                    <div className="flex items-center gap-2 flex-1">
+                      <Home className="w-5 h-5 text-[#007AFF] shrink-0" />
+                      <Input
+                        value={room.name}
+                        onChange={(e) => updateRoom(index, { name: e.target.value })}
+                        className="font-semibold max-w-xs"
+                      />
+                    </div>
+                    {rooms.length > 1 && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => setRooms((prev) => prev.filter((_, i) => i !== index))}
+                        className="hover:bg-red-50 hover:text-red-600"
+                        aria-label="Удалить помещение"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    )}
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+                      <div>
+                        <Label>Длина, м</Label>
+                        <Input
+                          inputMode="decimal"
+                          value={room.shape ? String(measureShape(room.shape).length) : room.length}
+                          disabled={Boolean(room.shape)}
+                          onChange={(e) => numberField(index, "length", e.target.value)}
+                        />
+                      </div>
+                      <div>
+                        <Label>Ширина, м</Label>
+                        <Input
+                          inputMode="decimal"
+                          value={room.shape ? String(measureShape(room.shape).width) : room.width}
+                          disabled={Boolean(room.shape)}
+                          onChange={(e) => numberField(index, "width", e.target.value)}
+                        />
+                      </div>
+                      <div>
+                        <Label>Дверей</Label>
+                        <Input
+                          inputMode="numeric"
+                          value={room.doors}
+                          onChange={(e) => numberField(index, "doors", e.target.value)}
+                        />
+                      </div>
+                      <div>
+                        <Label>Ширина двери, м</Label>
+                        <Input
+                          inputMode="decimal"
+                          value={room.doorWidth}
+                          onChange={(e) => numberField(index, "doorWidth", e.target.value)}
+                        />
+                      </div>
+                      <div>
+                        <Label>Порогов</Label>
+                        <Input
+                          inputMode="numeric"
+                          value={room.thresholds}
+                          onChange={(e) => numberField(index, "thresholds", e.target.value)}
+                        />
+                      </div>
+                    </div>
+
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                      <div>
+                        <Label>Покрытие</Label>
+                        <Button
+                          variant="outline"
+                          className="w-full justify-start font-normal truncate"
+                          onClick={() => setPicker({ room: index })}
+                        >
+                          <Layers className="w-4 h-4 mr-2 shrink-0" />
+                          <span className="truncate">{productName(room.vendorCode) || "Выбрать покрытие"}</span>
+                        </Button>
+                      </div>
+                      <div>
+                        <Label>Способ укладки</Label>
+                        <Select
+                          value={room.installationType}
+                          onValueChange={(value) =>
+                            updateRoom(index, { installationType: value as InstallationType })
+                          }
+                        >
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {(Object.keys(INSTALLATION_LABELS) as InstallationType[]).map((type) => (
+                              <SelectItem key={type} value={type}>
+                                {INSTALLATION_LABELS[type]}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    </div>
+
+                    <div className="flex flex-wrap items-center justify-between gap-2">
+                      <div className="text-sm text-slate-600">
+                        {geometry.area > 0 &&
+                          `Площадь ${geometry.area} м² · периметр ${geometry.perimeter} м · плинтус ${geometry.skirtingLength} м`}
+                      </div>
+                      <div className="flex gap-2">
+                        <Button variant="outline" size="sm" onClick={() => setShapeRoom(index)}>
+                          <PenLine className="w-4 h-4 mr-1" />
+                          {room.shape ? "Изменить форму" : "Сложная форма"}
+                        </Button>
+                        {room.shape && (
+                          <Button variant="ghost" size="sm" onClick={() => updateRoom(index, { shape: null })}>
+                            Прямоугольник
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                  </CardContent>
+                </Card>
+              );
+            })}
+
+            <Button
+              variant="outline"
+              onClick={() => setRooms((prev) => [...prev, newRoom(prev.length)])}
+              className="w-full"
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              Добавить помещение
+            </Button>
+
+            <Card className="bg-white/70 backdrop-blur-xl border-white/20 shadow-lg">
+              <CardHeader className="pb-3">
+                <CardTitle className="text-lg">Комплектующие</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {ACCESSORY_KINDS.map((kind) => (
+                  <div key={kind} className="flex items-center gap-3">
+                    <div className="w-32 shrink-0">
+                      <div className="text-sm font-medium text-slate-800">{ACCESSORY_TITLES[kind]}</div>
+                      <div className="text-xs text-slate-500">{ACCESSORY_HINTS[kind]}</div>
+                    </div>
+                    <Button
+                      variant="outline"
+                      className="flex-1 justify-start font-normal min-w-0"
+                      onClick={() => setPicker({ accessory: kind })}
+                    >
+                      <span className="truncate">{productName(accessories[kind]) || "Не выбрано"}</span>
+                    </Button>
+                    {accessories[kind] && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => setAccessories((prev) => ({ ...prev, [kind]: null }))}
+                        aria-label="Убрать"
+                      >
+                        <X className="w-4 h-4" />
+                      </Button>
+                    )}
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          </div>
+
+          <div className="space-y-4">
+            <Card className="bg-white/80 backdrop-blur-xl border-blue-100 shadow-xl lg:sticky lg:top-6">
+              <CardHeader className="pb-3">
+                <CardTitle className="text-lg">Итог по объекту</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3 text-sm">
+                {calculation.lines.length === 0 ? (
+                  <p className="text-slate-500">
+                    Укажите размеры помещений и выберите покрытие, чтобы увидеть расчёт.
+                  </p>
+                ) : (
+                  calculation.lines.map((line) => (
+                    <div key={`${line.kind}-${line.vendorCode}`} className="rounded-lg bg-slate-50 px-3 py-2">
+                      <div className="text-xs text-slate-500">{PROJECT_LINE_LABELS[line.kind]}</div>
+                      <div className="font-medium text-slate-900">{line.productName}</div>
+                      <div className="flex justify-between text-slate-600">
+                        <span>
+                          {line.quantity} {line.unit}
+                        </span>
+                        <span className="font-medium text-slate-900">{rub(line.cost)}</span>
+                      </div>
+                    </div>
+                  ))
+                )}
+
+                {calculation.issues.map((issue) => (
+                  <p key={issue} className="text-red-600 text-xs">
+                    {issue}
+                  </p>
+                ))}
+
+                <Separator />
+                <div className="flex justify-between">
+                  <span>Площадь:</span>
+                  <span className="font-medium">{calculation.totalArea} м²</span>
+                </div>
+                <div className="flex justify-between">
+                  <span>Упаковок / штук:</span>
+                  <span className="font-medium">
+                    {calculation.totalPackages} уп. / {calculation.totalPieces} шт.
+                  </span>
+                </div>
+                <div className="flex justify-between items-center">
+                  <span className="font-bold">Итого:</span>
+                  <span className="font-bold text-lg text-[#007AFF]">{rub(calculation.totalCost)}</span>
+                </div>
+
+                <Separator />
+                <div>
+                  <Label htmlFor="project-name">Название проекта</Label>
+                  <Input
+                    id="project-name"
+                    value={name}
+                    placeholder="Например, Квартира на Ленина, 10"
+                    onChange={(e) => setName(e.target.value)}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="project-comment">Комментарий</Label>
+                  <Textarea
+                    id="project-comment"
+                    value={comment}
+                    rows={2}
+                    onChange={(e) => setComment(e.target.value)}
+                  />
+                </div>
+                <Button
+                  onClick={save}
+                  disabled={saving || calculation.lines.length === 0 || calculation.issues.length > 0}
+                  className="w-full bg-gradient-to-r from-[#0A84FF] to-[#007AFF]"
+                >
+                  <Save className="w-4 h-4 mr-2" />
+                  {saving ? "Сохранение..." : "Сохранить проект"}
+                </Button>
+                <Button
+                  variant="outline"
+                  onClick={addAllToCart}
+                  disabled={addingToCart || calculation.lines.length === 0}
+                  className="w-full"
+                >
+                  <ShoppingCart className="w-4 h-4 mr-2" />
+                  {addingToCart ? "Добавление..." : "Всё в корзину"}
+                </Button>
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      </div>
+
+      <RoomShapeDialog
+        open={shapeRoom !== null}
+        shape={shapeRoom !== null ? rooms[shapeRoom]?.shape || null : null}
+        length={shapeRoom !== null ? parseNumber(rooms[shapeRoom]?.length || "") : undefined}
+        width={shapeRoom !== null ? parseNumber(rooms[shapeRoom]?.width || "") : undefined}
+        onApply={(shape) => shapeRoom !== null && updateRoom(shapeRoom, { shape })}
+        onOpenChange={(open) => !open && setShapeRoom(null)}
+      />
+
+      <ProductPickerDialog
+        open={picker !== null}
+        title={
+          picker && "accessory" in picker ? ACCESSORY_TITLES[picker.accessory] : "Покрытие"
+        }
+        initialQuery={picker && "accessory" in picker ? ACCESSORY_SEARCH_QUERIES[picker.accessory] : ""}
+        calculatorOnly={!picker || "room" in picker || picker.accessory === "underlay"}
+        onSelect={handlePick}
+        onOpenChange={(open) => !open && setPicker(null)}
+      />
+    </div>
+  );
+}
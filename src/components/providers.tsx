@@ -6,6 +6,7 @@ import { useState } from "react";
 import { UserProvider } from "@/components/context/UserContext";
 import { ProductDataProvider } from "@/components/context/ProductDataContext";
 import { ChatCacheProvider } from "@/components/context/ChatCacheContext";
+import { CartProvider } from "@/components/context/CartContext";
 
 export function Providers({ children }: { children: React.ReactNode }) {
   const [queryClient] = useState(
@@ -25,7 +26,9 @@ export function Providers({ children }: { children: React.ReactNode }) {
       <QueryClientProvider client={queryClient}>
         <UserProvider>
           <ProductDataProvider>
-            <ChatCacheProvider>{children}</ChatCacheProvider>
+            <CartProvider>
+              <ChatCacheProvider>{children}</ChatCacheProvider>
+            </CartProvider>
           </ProductDataProvider>
         </UserProvider>
       </QueryClientProvider>
@@ -0,0 +1,124 @@
+"use client";
+
+import React, { forwardRef } from "react";
+import { format } from "date-fns";
+import { ru } from "date-fns/locale";
+import type { Quote, SharedQuote } from "@/lib/api";
+import { INSTALLATION_LABELS } from "@/lib/calculator";
+
+export type QuoteDocumentData = Pick<
+  Quote,
+  | "title"
+  | "customerName"
+  | "comment"
+  | "lines"
+  | "discountPercent"
+  | "baseCost"
+  | "discountAmount"
+  | "totalCost"
+  | "createdAt"
+> & { sender?: SharedQuote["sender"] | null };
+
+const rub = (value: number) =>
+  `${value.toLocaleString("ru-RU", { maximumFractionDigits: 2 })} ₽`;
+
+/**
+ * Branded quote sheet. Rendered on screen and captured as-is into the PDF,
+ * so it sticks to plain colors (html2canvas does not draw gradient text).
+ */
+const QuoteDocument = forwardRef<HTMLDivElement, { quote: QuoteDocumentData }>(
+  function QuoteDocument({ quote }, ref) {
+    const sender = quote.sender;
+
+    return (
+      <div ref={ref} className="bg-white text-slate-900 rounded-2xl p-6 md:p-8 shadow-lg">
+        <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-4 border-b-4 border-[#007AFF] pb-4 mb-6">
+          <div>
+            <div className="text-2xl font-bold text-[#007AFF]">Floor Service</div>
+            <div className="text-sm text-slate-500">Напольные покрытия</div>
+          </div>
+          <div className="sm:text-right text-sm text-slate-600">
+            <div className="font-semibold text-slate-900">Коммерческое предложение</div>
+            <div>от {format(new Date(quote.createdAt), "d MMMM yyyy", { locale: ru })}</div>
+          </div>
+        </div>
+
+        <h2 className="text-xl font-bold mb-1">{quote.title}</h2>
+        {quote.customerName && (
+          <p className="text-slate-600 mb-4">Для: {quote.customerName}</p>
+        )}
+        {quote.comment && (
+          <p className="text-slate-700 whitespace-pre-line mb-4">{quote.comment}</p>
+        )}
+
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm border-collapse">
+            <thead>
+              <tr className="bg-slate-100 text-slate-600">
+                <th className="text-left font-medium p-2">Товар</th>
+                <th className="text-right font-medium p-2">Площадь</th>
+                <th className="text-right font-medium p-2">С запасом</th>
+                <th className="text-right font-medium p-2">Упаковок</th>
+                <th className="text-right font-medium p-2">Цена за м²</th>
+                <th className="text-right font-medium p-2">Сумма</th>
+              </tr>
+            </thead>
+            <tbody>
+              {quote.lines.map((line, index) => (
+                <tr key={`${line.vendorCode}-${index}`} className="border-b border-slate-200">
+                  <td className="p-2">
+                    <div className="font-medium">{line.productName}</div>
+                    <div className="text-xs text-slate-500">
+                      Арт. {line.vendorCode} · {INSTALLATION_LABELS[line.installationType]} ·{" "}
+                      {line.areaPerPackage} м²/уп.
+                    </div>
+                  </td>
+                  <td className="p-2 text-right whitespace-nowrap">{line.area} м²</td>
+                  <td className="p-2 text-right whitespace-nowrap">{line.areaWithReserve} м²</td>
+                  <td className="p-2 text-right whitespace-nowrap">{line.packages} уп.</td>
+                  <td className="p-2 text-right whitespace-nowrap">{rub(line.pricePerM2)}</td>
+                  <td className="p-2 text-right whitespace-nowrap font-medium">
+                    {rub(line.baseCost)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="mt-4 ml-auto max-w-xs space-y-1 text-sm">
+          <div className="flex justify-between">
+            <span>Стоимость:</span>
+            <span>{rub(quote.baseCost)}</span>
+          </div>
+          {quote.discountAmount > 0 && (
+            <div className="flex justify-between text-green-700">
+              <span>Скидка {quote.discountPercent}%:</span>
+              <span>− {rub(quote.discountAmount)}</span>
+            </div>
+          )}
+          <div className="flex justify-between text-lg font-bold border-t border-slate-300 pt-2">
+            <span>Итого:</span>
+            <span className="text-[#007AFF]">{rub(quote.totalCost)}</span>
+          </div>
+        </div>
+
+        {sender && (
+          <div className="mt-8 pt-4 border-t border-slate-200 text-sm text-slate-600">
+            <div className="font-semibold text-slate-900">
+              {[sender.name, sender.companyName].filter(Boolean).join(", ") || "Ваш менеджер"}
+            </div>
+            <div>{[sender.phone, sender.email].filter(Boolean).join(" · ")}</div>
+          </div>
+        )}
+
+        <p className="mt-6 text-xs text-slate-400">
+          Расчёт количества выполнен с запасом на подрезку в зависимости от способа укладки. Цены
+          актуальны на дату предложения; наличие уточняйте у менеджера.
+        </p>
+      </div>
+    );
+  }
+);
+
+export default QuoteDocument;
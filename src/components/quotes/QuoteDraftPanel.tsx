@@ -0,0 +1,182 @@
+"use client";
+
+import React, { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Separator } from "@/components/ui/separator";
+import { useToast } from "@/components/ui/use-toast";
+import { api } from "@/lib/api";
+import { calculateFlooring, clampDiscount, INSTALLATION_LABELS } from "@/lib/calculator";
+import type { QuoteDraft } from "@/hooks/useQuoteDraft";
+import { FileText, Percent, Trash2, X } from "lucide-react";
+
+export default function QuoteDraftPanel({
+  draft,
+  onRemove,
+  onDiscountChange,
+  onClear,
+}: {
+  draft: QuoteDraft;
+  onRemove: (index: number) => void;
+  onDiscountChange: (discount: string) => void;
+  onClear: () => void;
+}) {
+  const router = useRouter();
+  const [title, setTitle] = useState("");
+  const [customerName, setCustomerName] = useState("");
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  if (draft.lines.length === 0) return null;
+
+  const lines = draft.lines.map((line) => ({
+    ...line,
+    results: calculateFlooring({
+      area: line.area,
+      installationType: line.installationType,
+      discountPercent: 0,
+      areaPerPackage: line.areaPerPackage,
+      pricePerM2: line.pricePerM2,
+    }),
+  }));
+  const baseCost = lines.reduce((sum, line) => sum + line.results.baseCost, 0);
+  const discount = clampDiscount(draft.discount);
+  const totalCost = baseCost * (1 - discount / 100);
+
+  const handleDiscount = (value: string) => {
+    const sanitized = value.replace(/[^0-9.,]/g, "").replace(",", ".");
+    onDiscountChange(parseFloat(sanitized) > 10 ? "10" : sanitized);
+  };
+
+  const create = async () => {
+    if (!title.trim()) {
+      toast({ title: "Ошибка", description: "Укажите название предложения.", variant: "destructive" });
+      return;
+    }
+    setSaving(true);
+    try {
+      const quote = await api.createQuote({
+        title: title.trim(),
+        customerName: customerName.trim() || null,
+        discountPercent: discount,
+        lines: draft.lines.map((line) => ({
+          vendorCode: line.vendorCode,
+          area: line.area,
+          installationType: line.installationType,
+        })),
+      });
+      onClear();
+      router.push(`/account/quotes/${quote.id}`);
+    } catch (error) {
+      toast({
+        title: "Ошибка",
+        description: error instanceof Error ? error.message : "Не удалось создать предложение.",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card className="bg-white/80 backdrop-blur-xl border-blue-100 shadow-xl mb-6 md:mb-8">
+      <CardHeader className="flex flex-row items-center justify-between gap-4 pb-3">
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <FileText className="w-5 h-5 text-[#007AFF]" />
+          Коммерческое предложение ({draft.lines.length})
+        </CardTitle>
+        <Button variant="ghost" size="sm" onClick={onClear}>
+          <Trash2 className="w-4 h-4 mr-1" />
+          Очистить
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          {lines.map((line, index) => (
+            <div
+              key={`${line.vendorCode}-${index}`}
+              className="flex items-start justify-between gap-3 rounded-lg bg-slate-50 px-3 py-2 text-sm"
+            >
+              <div className="min-w-0">
+                <div className="font-medium text-slate-900 truncate">{line.productName}</div>
+                <div className="text-xs text-slate-500">
+                  {line.vendorCode} · {line.area} м² · {INSTALLATION_LABELS[line.installationType]} ·{" "}
+                  {line.results.packagesNeeded} уп.
+                </div>
+              </div>
+              <div className="flex items-center gap-2 shrink-0">
+                <span className="font-medium">
+                  {line.results.baseCost.toLocaleString("ru-RU")} ₽
+                </span>
+                <button
+                  onClick={() => onRemove(index)}
+                  className="text-slate-400 hover:text-red-600"
+                  aria-label="Убрать позицию"
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+          <div>
+            <Label htmlFor="quote-title">Название</Label>
+            <Input
+              id="quote-title"
+              value={title}
+              placeholder="Например, Квартира на Ленина, 10"
+              onChange={(e) => setTitle(e.target.value)}
+            />
+          </div>
+          <div>
+            <Label htmlFor="quote-customer">Клиент</Label>
+            <Input
+              id="quote-customer"
+              value={customerName}
+              placeholder="Необязательно"
+              onChange={(e) => setCustomerName(e.target.value)}
+            />
+          </div>
+          <div>
+            <Label htmlFor="quote-discount">Скидка, % (макс. 10%)</Label>
+            <div className="relative">
+              <Input
+                id="quote-discount"
+                inputMode="decimal"
+                value={draft.discount}
+                placeholder="от 0 до 10"
+                className="pr-7"
+                onChange={(e) => handleDiscount(e.target.value)}
+              />
+              <Percent className="absolute right-2.5 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400" />
+            </div>
+          </div>
+        </div>
+
+        <Separator />
+
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+          <div className="text-sm text-slate-600">
+            Итого:{" "}
+            <span className="text-lg font-bold text-[#007AFF]">
+              {(Math.round(totalCost * 100) / 100).toLocaleString("ru-RU")} ₽
+            </span>
+            {discount > 0 && <span className="ml-2">со скидкой {discount}%</span>}
+          </div>
+          <Button
+            onClick={create}
+            disabled={saving}
+            className="bg-gradient-to-r from-[#0A84FF] to-[#007AFF]"
+          >
+            {saving ? "Создание..." : "Создать предложение"}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,174 @@
+"use client";
+
+import React, { useState, RefObject } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/components/ui/use-toast";
+import { api, Quote } from "@/lib/api";
+import { downloadQuotePdf } from "@/lib/quote-pdf";
+import { FileDown, Link2, Mail, MessageCircle } from "lucide-react";
+
+type DialogMode = "email" | "whatsapp" | null;
+
+export default function QuoteShareActions({
+  quote,
+  documentRef,
+}: {
+  quote: Quote;
+  documentRef: RefObject<HTMLDivElement>;
+}) {
+  const [mode, setMode] = useState<DialogMode>(null);
+  const [recipient, setRecipient] = useState("");
+  const [message, setMessage] = useState("");
+  const [busy, setBusy] = useState(false);
+  const { toast } = useToast();
+
+  const logShare = (method: "pdf" | "link") =>
+    api.shareQuote(quote.id, { method }).catch((error) =>
+      console.error("Error logging quote share:", error)
+    );
+
+  const downloadPdf = async () => {
+    if (!documentRef.current) return;
+    setBusy(true);
+    try {
+      await downloadQuotePdf(documentRef.current, quote.title);
+      logShare("pdf");
+    } catch (error) {
+      console.error("Error generating quote PDF:", error);
+      toast({
+        title: "Ошибка",
+        description: "Не удалось сформировать PDF.",
+        variant: "destructive",
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(quote.shareUrl);
+      logShare("link");
+      toast({ title: "Ссылка скопирована", description: quote.shareUrl });
+    } catch {
+      toast({ title: "Ссылка на предложение", description: quote.shareUrl });
+    }
+  };
+
+  const openDialog = (next: DialogMode) => {
+    setRecipient("");
+    setMessage("");
+    setMode(next);
+  };
+
+  const send = async () => {
+    // Opened before the request so the browser does not block it as a popup
+    const whatsappWindow = mode === "whatsapp" ? window.open("", "_blank") : null;
+    setBusy(true);
+    try {
+      const result = await api.shareQuote(quote.id, {
+        method: mode!,
+        ...(mode === "email" ? { recipientEmail: recipient } : { recipientPhone: recipient }),
+        message: message || undefined,
+      });
+      if (result.whatsappUrl) {
+        if (whatsappWindow) whatsappWindow.location.href = result.whatsappUrl;
+        else window.location.href = result.whatsappUrl;
+      } else {
+        toast({ title: "Отправлено", description: `Предложение отправлено на ${recipient}` });
+      }
+      setMode(null);
+    } catch (error) {
+      whatsappWindow?.close();
+      toast({
+        title: "Ошибка",
+        description: error instanceof Error ? error.message : "Не удалось отправить предложение.",
+        variant: "destructive",
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <>
+      <div className="flex flex-wrap gap-2">
+        <Button onClick={downloadPdf} disabled={busy}>
+          <FileDown className="w-4 h-4 mr-2" />
+          Скачать PDF
+        </Button>
+        <Button variant="outline" onClick={copyLink}>
+          <Link2 className="w-4 h-4 mr-2" />
+          Ссылка
+        </Button>
+        <Button variant="outline" onClick={() => openDialog("email")}>
+          <Mail className="w-4 h-4 mr-2" />
+          Email
+        </Button>
+        <Button variant="outline" onClick={() => openDialog("whatsapp")}>
+          <MessageCircle className="w-4 h-4 mr-2" />
+          WhatsApp
+        </Button>
+      </div>
+
+      <Dialog open={mode !== null} onOpenChange={(open) => !open && setMode(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {mode === "email" ? "Отправить по email" : "Отправить в WhatsApp"}
+            </DialogTitle>
+            <DialogDescription>
+              {mode === "email"
+                ? "Клиент получит письмо с расчётом и ссылкой на предложение."
+                : "Откроется WhatsApp с готовым сообщением и ссылкой на предложение."}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="quote-recipient">
+                {mode === "email" ? "Email клиента" : "Телефон клиента (необязательно)"}
+              </Label>
+              <Input
+                id="quote-recipient"
+                type={mode === "email" ? "email" : "tel"}
+                value={recipient}
+                placeholder={mode === "email" ? "client@example.ru" : "+7 900 000-00-00"}
+                onChange={(e) => setRecipient(e.target.value)}
+              />
+            </div>
+            <div>
+              <Label htmlFor="quote-message">Сообщение</Label>
+              <Textarea
+                id="quote-message"
+                value={message}
+                rows={3}
+                maxLength={1000}
+                placeholder="Добрый день! Направляю расчёт по вашему объекту."
+                onChange={(e) => setMessage(e.target.value)}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setMode(null)}>
+              Отмена
+            </Button>
+            <Button onClick={send} disabled={busy || (mode === "email" && !recipient.trim())}>
+              {busy ? "Отправка..." : "Отправить"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
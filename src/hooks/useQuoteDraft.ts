@@ -0,0 +1,76 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import type { InstallationType } from "@/lib/api";
+
+export interface QuoteDraftLine {
+  vendorCode: string;
+  productName: string;
+  area: number;
+  installationType: InstallationType;
+  // For the preview only: the server prices lines from the catalog
+  areaPerPackage: number;
+  pricePerM2: number;
+}
+
+export interface QuoteDraft {
+  lines: QuoteDraftLine[];
+  discount: string;
+}
+
+const STORAGE_KEY = "quote-draft";
+const EMPTY_DRAFT: QuoteDraft = { lines: [], discount: "" };
+
+/**
+ * Quote being assembled in the calculator; kept in localStorage so it survives
+ * paging, search and reloads until it is saved
+ */
+export function useQuoteDraft() {
+  const [draft, setDraft] = useState<QuoteDraft>(EMPTY_DRAFT);
+
+  useEffect(() => {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      if (stored) setDraft({ ...EMPTY_DRAFT, ...JSON.parse(stored) });
+    } catch {
+      localStorage.removeItem(STORAGE_KEY);
+    }
+  }, []);
+
+  const update = useCallback((next: (prev: QuoteDraft) => QuoteDraft) => {
+    setDraft((prev) => {
+      const value = next(prev);
+      if (value.lines.length > 0) {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(value));
+      } else {
+        localStorage.removeItem(STORAGE_KEY);
+      }
+      return value;
+    });
+  }, []);
+
+  const addLine = useCallback(
+    (line: QuoteDraftLine, discount?: string) =>
+      update((prev) => ({
+        lines: [...prev.lines, line],
+        // The first calculation sets the quote discount
+        discount: prev.lines.length === 0 && discount ? discount : prev.discount,
+      })),
+    [update]
+  );
+
+  const removeLine = useCallback(
+    (index: number) =>
+      update((prev) => ({ ...prev, lines: prev.lines.filter((_, i) => i !== index) })),
+    [update]
+  );
+
+  const setDiscount = useCallback(
+    (discount: string) => update((prev) => ({ ...prev, discount })),
+    [update]
+  );
+
+  const clear = useCallback(() => update(() => EMPTY_DRAFT), [update]);
+
+  return { draft, addLine, removeLine, setDiscount, clear };
+}
@@ -1,53 +1,99 @@
 "use client";
 
 import { useState, useCallback, useRef } from "react";
-
-interface ChatMessage {
-  role: "user" | "assistant";
-  content: string;
-  timestamp: string;
-}
+import type { ChatMessage, ChatStreamEvent } from "@/lib/api";
 
 interface UseStreamChatOptions {
   onStreamStart?: () => void;
-  onStreamEnd?: (fullContent: string) => void;
+  onStreamEnd?: (message: ChatMessage) => void;
   onError?: (error: Error) => void;
 }
 
+type ChatHistoryMessage = Pick<ChatMessage, "role" | "content">;
+
+/**
+ * Apply one stream event to the assistant message being built
+ */
+function applyStreamEvent(message: ChatMessage, event: ChatStreamEvent): ChatMessage {
+  switch (event.type) {
+    case "token":
+      return { ...message, content: message.content + event.content };
+    case "product_card":
+      return { ...message, productCard: event.data };
+    case "download_links":
+      return { ...message, downloads: event.items };
+    case "citation":
+      return { ...message, citations: [...(message.citations || []), event.citation] };
+    case "error":
+      return { ...message, error: event.message };
+    case "done":
+      return { ...message, attachments: event.attachments };
+    default:
+      return message;
+  }
+}
+
+/**
+ * Parse one SSE frame (`event: <type>` + `data: <json>`) into a stream event
+ */
+function parseFrame(frame: string): ChatStreamEvent | null {
+  let type = "";
+  let data = "";
+  for (const line of frame.split("\n")) {
+    if (line.startsWith("event: ")) type = line.slice(7).trim();
+    else if (line.startsWith("data: ")) data += line.slice(6);
+  }
+  if (!type || !data) return null;
+  try {
+    return { type, ...JSON.parse(data) } as ChatStreamEvent;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Chat reply from POST /api/chat/stream, built incrementally from typed SSE events:
+ * streamingMessage holds the partial assistant message while the reply streams.
+ */
 export function useStreamChat(options: UseStreamChatOptions = {}) {
   const [isStreaming, setIsStreaming] = useState(false);
-  const [streamingContent, setStreamingContent] = useState("");
+  const [streamingMessage, setStreamingMessage] = useState<ChatMessage | null>(null);
   const abortControllerRef = useRef<AbortController | null>(null);
 
   const sendMessage = useCallback(
-    async (
-      message: string,
-      context?: string,
-      chatHistory?: ChatMessage[]
-    ): Promise<string> => {
+    async (message: string, chatHistory: ChatHistoryMessage[] = []): Promise<ChatMessage | null> => {
       // Abort any ongoing stream
       if (abortControllerRef.current) {
         abortControllerRef.current.abort();
       }
 
-      abortControllerRef.current = new AbortController();
+      const controller = new AbortController();
+      abortControllerRef.current = controller;
+
+      let reply: ChatMessage = {
+        id: Date.now().toString(),
+        role: "assistant",
+        content: "",
+        timestamp: new Date().toISOString(),
+        attachments: [],
+      };
 
       setIsStreaming(true);
-      setStreamingContent("");
+      setStreamingMessage(reply);
       options.onStreamStart?.();
 
-      let fullContent = "";
-
       try {
         const response = await fetch("/api/chat/stream", {
           method: "POST",
           headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ message, context, chatHistory }),
-          signal: abortControllerRef.current.signal,
+          body: JSON.stringify({ message, chatHistory }),
+          signal: controller.signal,
         });
 
         if (!response.ok) {
-          throw new Error(`HTTP error! status: ${response.status}`);
+          // Rate limit and overload answers carry a readable error
+          const body = await response.json().catch(() => null);
+          throw new Error(body?.error || `HTTP error! status: ${response.status}`);
         }
 
         const reader = response.body?.getReader();
@@ -56,42 +102,43 @@ export function useStreamChat(options: UseStreamChatOptions = {}) {
         }
 
         const decoder = new TextDecoder();
+        let buffer = "";
 
         while (true) {
           const { done, value } = await reader.read();
           if (done) break;
 
-          const chunk = decoder.decode(value);
-          const lines = chunk.split("\n");
-
-          for (const line of lines) {
-            if (line.startsWith("data: ") && line !== "data: [DONE]") {
-              try {
-                const data = JSON.parse(line.slice(6));
-                if (data.content) {
-                  fullContent += data.content;
-                  setStreamingContent(fullContent);
-                }
-              } catch {
-                // Skip invalid JSON
-              }
-            }
+          // Frames may be split across chunks: keep the unfinished tail for the next read
+          buffer += decoder.decode(value, { stream: true });
+          const frames = buffer.split("\n\n");
+          buffer = frames.pop() || "";
+
+          for (const frame of frames) {
+            const event = parseFrame(frame);
+            if (!event) continue;
+            reply = applyStreamEvent(reply, event);
+            setStreamingMessage(reply);
           }
         }
 
-        options.onStreamEnd?.(fullContent);
-        return fullContent;
+        reply = { ...reply, timestamp: new Date().toISOString() };
+        options.onStreamEnd?.(reply);
+        return reply;
       } catch (error) {
         if (error instanceof Error && error.name === "AbortError") {
-          // Stream was aborted, not an error
-          return fullContent;
+          // Stopped by the user: keep what has arrived so far
+          const hasContent = reply.content || reply.productCard || reply.downloads?.length;
+          return hasContent ? reply : null;
         }
         const err = error instanceof Error ? error : new Error("Unknown error");
         options.onError?.(err);
         throw err;
       } finally {
-        setIsStreaming(false);
-        abortControllerRef.current = null;
+        if (abortControllerRef.current === controller) {
+          abortControllerRef.current = null;
+          setIsStreaming(false);
+          setStreamingMessage(null);
+        }
       }
     },
     [options]
@@ -100,8 +147,6 @@ export function useStreamChat(options: UseStreamChatOptions = {}) {
   const stopStreaming = useCallback(() => {
     if (abortControllerRef.current) {
       abortControllerRef.current.abort();
-      abortControllerRef.current = null;
-      setIsStreaming(false);
     }
   }, []);
 
@@ -109,6 +154,6 @@ export function useStreamChat(options: UseStreamChatOptions = {}) {
     sendMessage,
     stopStreaming,
     isStreaming,
-    streamingContent,
+    streamingMessage,
   };
 }
@@ -0,0 +1,10 @@
+/**
+ * Server startup hook (Next.js instrumentation)
+ */
+export async function register() {
+  // Scheduler needs a long-lived Node process - not available in the edge runtime
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    const { startXmlSyncScheduler } = await import("@/lib/xml-sync-scheduler");
+    startXmlSyncScheduler();
+  }
+}
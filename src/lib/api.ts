@@ -3,6 +3,10 @@
  * Replaces Base44 SDK with fetch calls to our API routes
  */
 
+import type { CalculatorResults } from "@/lib/calculator";
+import type { ProjectAccessories, ProjectLine, ProjectRoom } from "@/lib/project-calculator";
+import type { RoomShape } from "@/lib/room-shape";
+
 // Types
 export interface User {
   id: string;
@@ -34,10 +38,158 @@ export interface DealerProfile {
   monthlyTurnover: number;
   lastMonthTurnover: number;
   ordersCountMonth: number;
+  leaderboardVisibility?: LeaderboardVisibility;
+  leaderboardAlias?: string | null;
   effectiveTier?: string; // Computed field based on manual/current tier
   currentMonthTurnover?: number; // Alias for monthlyTurnover
 }
 
+export type PointsTransactionType = "ACCRUAL" | "REDEMPTION" | "ADJUSTMENT" | "EXPIRY" | "OPENING";
+
+export interface PointsTransaction {
+  id: string;
+  type: PointsTransactionType;
+  amount: number;
+  balanceAfter: number;
+  reason: string;
+  createdAt: string;
+  order: { id: string; orderNumber: string } | null;
+  createdBy: { id: string; name: string } | null;
+}
+
+export interface PointsStatement {
+  balance: number;
+  items: PointsTransaction[];
+  total: number;
+}
+
+export interface RewardItem {
+  id: string;
+  title: string;
+  description: string | null;
+  imageUrl: string | null;
+  pointsCost: number;
+  stock: number | null; // null - unlimited
+  tiers: string[];
+  eligible: boolean;
+}
+
+export type RedemptionStatus = "REQUESTED" | "APPROVED" | "ISSUED" | "REJECTED";
+
+export interface RewardRedemption {
+  id: string;
+  rewardId: string;
+  rewardTitle: string;
+  imageUrl: string | null;
+  pointsCost: number;
+  status: RedemptionStatus;
+  comment: string | null;
+  adminComment: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type LeaderboardPeriod = "month" | "quarter" | "all";
+
+export type LeaderboardVisibility = "NAME" | "ALIAS" | "ANONYMOUS";
+
+// Fields hidden by the admin come back as null
+export interface LeaderboardEntry {
+  rank: number;
+  previousRank: number | null;
+  name: string;
+  company: string | null;
+  region: string | null;
+  city: string | null;
+  tier: string | null;
+  points: number | null;
+  isMe: boolean;
+}
+
+export interface Leaderboard {
+  period: LeaderboardPeriod;
+  key: string | null;
+  frozen: boolean;
+  frozenAt: string | null;
+  entries: LeaderboardEntry[];
+  pastKeys: string[];
+  regions: string[];
+  cities: string[];
+  fields: {
+    showNames: boolean;
+    showCompany: boolean;
+    showLocation: boolean;
+    showTier: boolean;
+    showPoints: boolean;
+  };
+}
+
+export interface TierLevel {
+  tier: string;
+  name: string;
+  threshold: number;
+}
+
+export interface TierProgress {
+  month: string;
+  currentTier: string;
+  currentTierName: string;
+  manualTier: boolean;
+  turnover: number;
+  ordersCount: number;
+  lastMonthTurnover: number;
+  monthTier: string;
+  nextTier: TierLevel | null;
+  remaining: number;
+  progress: number;
+  openOrdersTotal: number;
+  projection: {
+    turnover: number;
+    tier: string;
+    daysElapsed: number;
+    daysInMonth: number;
+  };
+  levels: TierLevel[];
+  history: Array<{
+    id: string;
+    previousTier: string;
+    newTier: string;
+    direction: "up" | "down";
+    reason: string | null;
+    createdAt: string;
+  }>;
+}
+
+export type NotificationType =
+  | "ORDER_STATUS"
+  | "ACCOUNT_APPROVED"
+  | "TIER_CHANGED"
+  | "CONTENT_PUBLISHED";
+
+export interface NotificationItem {
+  id: string;
+  type: NotificationType;
+  title: string;
+  body: string | null;
+  link: string | null;
+  readAt: string | null;
+  createdAt: string;
+}
+
+export interface NotificationInbox {
+  items: NotificationItem[];
+  total: number;
+  unread: number;
+}
+
+export interface TelegramLinkStatus {
+  enabled: boolean;
+  botUsername: string | null;
+  linked: boolean;
+  username: string | null;
+  linkedAt: string | null;
+}
+
 export interface BonusSettings {
   id: string;
   enabled: boolean;
@@ -57,7 +209,7 @@ export interface KnowledgeBaseItem {
   isPublic: boolean;
   isAiSource: boolean;
   xmlData: {
-    products?: Product[];
+    format?: CatalogFormat;
     warehouses?: Record<string, string>;
     last_synced?: string;
     total_products?: number;
@@ -77,14 +229,239 @@ export interface Product {
   vendor: string;
   params: Record<string, unknown>;
   documents?: Array<{ url: string; name: string }>;
+  warehouses?: ProductWarehouseStock[];
+  dealerPrice?: DealerPrice; // only for signed-in users with a mapped price type
+}
+
+// Purchase price of the current user next to the retail price (lib/dealer-pricing)
+export interface DealerPrice {
+  priceType: string;
+  purchasePrice: number;
+  margin: number;
+  marginPercent: number;
+}
+
+export interface PurchaseTotals {
+  priceType: string;
+  purchaseTotal: number;
+  margin: number;
+  marginPercent: number;
+}
+
+export interface ProductWarehouseStock {
+  code: string;
+  name: string;
+  city: string | null;
+  stockText: string;
+  inStock: boolean;
+}
+
+export type CatalogFormat = "YML" | "CSV" | "XLSX" | "COMMERCEML";
+
+export interface XmlSyncRun {
+  id: string;
+  feedId: string;
+  feedTitle: string;
+  trigger: "MANUAL" | "SCHEDULED" | "UPLOAD";
+  status: "RUNNING" | "SUCCESS" | "FAILED";
+  format: CatalogFormat;
+  fileName: string | null;
+  startedAt: string;
+  finishedAt: string | null;
+  offersCount: number;
+  productsCount: number;
+  addedCount: number;
+  removedCount: number;
+  changedCount: number;
+  encoding: string | null;
+  error: string | null;
+}
+
+export type XmlSyncChangeType =
+  | "ADDED"
+  | "REMOVED"
+  | "PRICE_CHANGED"
+  | "OUT_OF_STOCK"
+  | "BACK_IN_STOCK"
+  | "PARAMS_CHANGED";
+
+export interface XmlSyncChange {
+  id: string;
+  vendorCode: string;
+  productName: string;
+  type: XmlSyncChangeType;
+  oldPrice: number | null;
+  newPrice: number | null;
+  oldValue: string | null;
+  newValue: string | null;
+  details: Array<{ name: string; oldValue: string | null; newValue: string | null }> | null;
 }
 
+export interface ProductSearchResult {
+  items: Product[];
+  total: number;
+  lastSync?: string | null;
+}
+
+export type CartItemSource = "CHAT" | "CALCULATOR" | "SKU_PICKER";
+
+export interface CartLine {
+  vendorCode: string;
+  productName: string;
+  picture: string | null;
+  quantity: number;
+  unit: string;
+  areaPerPackage: number | null;
+  unitPrice: number;
+  lineTotal: number;
+  source: CartItemSource;
+  issue?: "NOT_FOUND" | "NO_PRICE" | "OUT_OF_STOCK" | "NOT_ENOUGH_STOCK";
+  availableQty?: number;
+  dealerPrice?: DealerPrice; // per package or piece
+}
+
+export interface Cart {
+  lines: CartLine[];
+  total: number;
+  itemsCount: number;
+  hasIssues: boolean;
+  purchase?: PurchaseTotals | null;
+}
+
+export type InstallationType = "straight" | "diagonal" | "herringbone";
+
+export interface QuoteLine {
+  vendorCode: string;
+  productName: string;
+  picture: string | null;
+  installationType: InstallationType;
+  area: number;
+  areaWithReserve: number;
+  areaPerPackage: number;
+  packages: number;
+  pricePerM2: number;
+  baseCost: number;
+}
+
+export interface Quote {
+  id: string;
+  title: string;
+  customerName: string | null;
+  comment: string | null;
+  lines: QuoteLine[];
+  discountPercent: number;
+  baseCost: number;
+  discountAmount: number;
+  totalCost: number;
+  dealerPricing: QuoteDealerPricing | null; // the author's own, not in the shared quote
+  shareUrl: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface QuoteDealerPricing extends PurchaseTotals {
+  lines: Array<{ vendorCode: string; purchasePricePerM2: number; purchaseCost: number }>;
+}
+
+export interface SharedQuote extends Omit<Quote, "id" | "updatedAt" | "dealerPricing"> {
+  sender: { name: string | null; companyName: string | null; phone: string | null; email: string };
+}
+
+export type QuoteShareMethod = "link" | "email" | "whatsapp" | "pdf";
+
+export interface SavedEstimate {
+  id: string;
+  title: string;
+  vendorCode: string;
+  productName: string;
+  picture: string | null;
+  area: number;
+  shape: RoomShape | null;
+  installationType: InstallationType;
+  discountPercent: number;
+  areaPerPackage: number;
+  pricePerM2: number;
+  results: CalculatorResults;
+  pricedAt: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CalculatorProject {
+  id: string;
+  name: string;
+  comment: string | null;
+  rooms: ProjectRoom[];
+  accessories: ProjectAccessories;
+  lines: ProjectLine[];
+  totalArea: number;
+  totalCost: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CalculatorProjectInput {
+  name: string;
+  comment?: string | null;
+  rooms: ProjectRoom[];
+  accessories: ProjectAccessories;
+}
+
+export interface ChatAttachment {
+  name: string;
+  url: string;
+  type: string;
+}
+
+export interface ChatProductCard {
+  name: string;
+  vendorCode: string;
+  description: string;
+  picture: string;
+  price: string;
+  params: Record<string, unknown>;
+  warehouses?: ProductWarehouseStock[];
+  dealerPrice?: DealerPrice;
+}
+
+export interface ChatDownloadLink {
+  text: string;
+  url: string | null;
+  title: string;
+}
+
+export interface ChatCitation {
+  index: number;
+  title: string;
+  url: string | null;
+}
+
+// Events of POST /api/chat/stream, one per SSE frame
+export type ChatStreamEvent =
+  | { type: "token"; content: string }
+  | { type: "product_card"; data: ChatProductCard }
+  | { type: "download_links"; items: ChatDownloadLink[] }
+  | { type: "citation"; citation: ChatCitation }
+  | { type: "error"; message: string }
+  | {
+      type: "done";
+      attachments: ChatAttachment[];
+      cached?: boolean;
+      cacheHit?: boolean;
+      articleCache?: boolean;
+    };
+
 export interface ChatMessage {
   id: string;
   role: "user" | "assistant";
   content: string;
   timestamp: string;
-  attachments?: Array<{ name: string; url: string; type: string }>;
+  attachments?: ChatAttachment[];
+  // Streamed replies keep cards and sources as fields; older messages hold cards as JSON in content
+  productCard?: ChatProductCard;
+  downloads?: ChatDownloadLink[];
+  citations?: ChatCitation[];
+  error?: string;
 }
 
 export interface ChatSession {
@@ -145,6 +522,18 @@ class ApiClient {
     });
   }
 
+  async getTelegramLink(): Promise<TelegramLinkStatus> {
+    return this.request("/api/me/telegram");
+  }
+
+  async createTelegramLinkCode(): Promise<{ code: string; url: string; expiresAt: string }> {
+    return this.request("/api/me/telegram", { method: "POST" });
+  }
+
+  async unlinkTelegram(): Promise<{ success: boolean }> {
+    return this.request("/api/me/telegram", { method: "DELETE" });
+  }
+
   // Registration
   async register(data: {
     email: string;
@@ -190,6 +579,42 @@ class ApiClient {
     return this.request<KnowledgeBaseItem[]>(`/api/knowledgebase${query ? `?${query}` : ""}`);
   }
 
+  // Product catalog
+  async getProducts(params?: {
+    code?: string;
+    search?: string;
+    vendor?: string;
+    params?: Record<string, string>;
+    calculator?: boolean;
+    city?: string;
+    limit?: number;
+    offset?: number;
+  }): Promise<ProductSearchResult> {
+    const searchParams = new URLSearchParams();
+    if (params?.code) searchParams.set("code", params.code);
+    if (params?.search) searchParams.set("search", params.search);
+    if (params?.vendor) searchParams.set("vendor", params.vendor);
+    Object.entries(params?.params || {}).forEach(([name, value]) =>
+      searchParams.append("param", `${name}:${value}`)
+    );
+    if (params?.calculator) searchParams.set("calculator", "true");
+    if (params?.city) searchParams.set("city", params.city);
+    if (params?.limit !== undefined) searchParams.set("limit", String(params.limit));
+    if (params?.offset) searchParams.set("offset", String(params.offset));
+
+    const query = searchParams.toString();
+    return this.request<ProductSearchResult>(`/api/products${query ? `?${query}` : ""}`);
+  }
+
+  async getProductsByColor(
+    color: { r: number; g: number; b: number },
+    limit = 5
+  ): Promise<{ items: Product[] }> {
+    return this.request(
+      `/api/products/by-color?r=${color.r}&g=${color.g}&b=${color.b}&limit=${limit}`
+    );
+  }
+
   // Chat
   async getChatSession(sessionId: string): Promise<ChatSession | null> {
     try {
@@ -214,7 +639,7 @@ class ApiClient {
     message: string;
     sessionId: string;
     chatHistory: ChatMessage[];
-  }): Promise<{ content: string; attachments?: Array<{ name: string; url: string; type: string }> }> {
+  }): Promise<{ content: string; attachments?: ChatAttachment[] }> {
     return this.request("/api/chat", {
       method: "POST",
       body: JSON.stringify(data),
@@ -227,19 +652,53 @@ class ApiClient {
   }
 
   // Admin - XML Sync
-  async syncXmlFeed(knowledgeBaseId: string): Promise<{ success: boolean; products_count?: number }> {
+  async syncXmlFeed(knowledgeBaseId: string): Promise<{
+    success: boolean;
+    runId?: string;
+    products_count?: number;
+    added_count?: number;
+    removed_count?: number;
+    changed_count?: number;
+  }> {
     return this.request("/api/admin/xml/sync", {
       method: "POST",
       body: JSON.stringify({ knowledgeBaseId }),
     });
   }
 
+  async getXmlSyncRuns(feedId?: string): Promise<XmlSyncRun[]> {
+    return this.request<XmlSyncRun[]>(
+      `/api/admin/xml/runs${feedId ? `?feedId=${feedId}` : ""}`
+    );
+  }
+
+  async getXmlSyncChanges(
+    runId: string,
+    type?: XmlSyncChangeType
+  ): Promise<{
+    summary: Partial<Record<XmlSyncChangeType, number>>;
+    changes: XmlSyncChange[];
+  }> {
+    return this.request(
+      `/api/admin/xml/runs/${runId}/changes${type ? `?type=${type}` : ""}`
+    );
+  }
+
+  // Admin - RAG index
+  async reindexKnowledgeBase(): Promise<{ success: boolean; items?: number; chunks?: number }> {
+    return this.request("/api/admin/knowledge/reindex", {
+      method: "POST",
+    });
+  }
+
   // Profile
   async updateProfile(data: {
     displayName?: string;
     phone?: string;
     city?: string;
     retailPoint?: string;
+    leaderboardVisibility?: LeaderboardVisibility;
+    leaderboardAlias?: string | null;
   }): Promise<User> {
     return this.request<User>("/api/me", {
       method: "PATCH",
@@ -387,15 +846,170 @@ class ApiClient {
     totalCost: number;
     createdAt: string;
     items?: Array<{
-      id: string;
+      articleCode?: string;
       productName: string;
       quantity: number;
+      unit?: string;
       price: number;
     }>;
   }>> {
     return this.request("/api/orders");
   }
 
+  async createOrder(data: {
+    userName?: string;
+    userEmail?: string;
+    phoneNumber?: string;
+    city?: string;
+    retailPoint?: string;
+    legalEntityId?: string;
+    comment?: string;
+  }, idempotencyKey?: string): Promise<{ id: string; orderNumber: string; totalCost: number }> {
+    return this.request("/api/orders", {
+      method: "POST",
+      headers: idempotencyKey ? { "Idempotency-Key": idempotencyKey } : undefined,
+      body: JSON.stringify(data),
+    });
+  }
+
+  // Cart
+  async getCart(): Promise<Cart> {
+    return this.request("/api/cart");
+  }
+
+  async addToCart(
+    vendorCode: string,
+    quantity: number = 1,
+    source: CartItemSource = "CHAT"
+  ): Promise<Cart> {
+    return this.request("/api/cart", {
+      method: "POST",
+      body: JSON.stringify({ vendorCode, quantity, source }),
+    });
+  }
+
+  async updateCartItem(vendorCode: string, quantity: number): Promise<Cart> {
+    return this.request("/api/cart", {
+      method: "PATCH",
+      body: JSON.stringify({ vendorCode, quantity }),
+    });
+  }
+
+  async removeFromCart(vendorCode?: string): Promise<Cart> {
+    const query = vendorCode ? `?vendorCode=${encodeURIComponent(vendorCode)}` : "";
+    return this.request(`/api/cart${query}`, { method: "DELETE" });
+  }
+
+  // Quotes
+  async getQuotes(): Promise<Quote[]> {
+    return this.request("/api/quotes");
+  }
+
+  async getQuote(id: string): Promise<Quote> {
+    return this.request(`/api/quotes/${id}`);
+  }
+
+  async createQuote(data: {
+    title: string;
+    customerName?: string | null;
+    comment?: string | null;
+    discountPercent?: number;
+    lines: Array<{ vendorCode: string; area: number; installationType: InstallationType }>;
+  }): Promise<Quote> {
+    return this.request("/api/quotes", {
+      method: "POST",
+      body: JSON.stringify(data),
+    });
+  }
+
+  async deleteQuote(id: string): Promise<{ success: boolean }> {
+    return this.request(`/api/quotes/${id}`, { method: "DELETE" });
+  }
+
+  async shareQuote(
+    id: string,
+    data: {
+      method: QuoteShareMethod;
+      recipientEmail?: string;
+      recipientPhone?: string;
+      message?: string;
+    }
+  ): Promise<{ success: boolean; method: QuoteShareMethod; url: string; whatsappUrl?: string }> {
+    return this.request(`/api/quotes/${id}/share`, {
+      method: "POST",
+      body: JSON.stringify(data),
+    });
+  }
+
+  async getSharedQuote(token: string): Promise<SharedQuote> {
+    return this.request(`/api/public/quotes/${token}`);
+  }
+
+  // Saved estimates
+  async getEstimates(): Promise<SavedEstimate[]> {
+    return this.request("/api/estimates");
+  }
+
+  async createEstimate(data: {
+    title?: string;
+    vendorCode: string;
+    area: number;
+    shape?: RoomShape | null;
+    installationType: InstallationType;
+    discountPercent?: number;
+  }): Promise<SavedEstimate> {
+    return this.request("/api/estimates", {
+      method: "POST",
+      body: JSON.stringify(data),
+    });
+  }
+
+  async renameEstimate(id: string, title: string): Promise<SavedEstimate> {
+    return this.request(`/api/estimates/${id}`, {
+      method: "PATCH",
+      body: JSON.stringify({ title }),
+    });
+  }
+
+  async duplicateEstimate(id: string): Promise<SavedEstimate> {
+    return this.request(`/api/estimates/${id}/duplicate`, { method: "POST" });
+  }
+
+  async repriceEstimate(id: string): Promise<SavedEstimate> {
+    return this.request(`/api/estimates/${id}/reprice`, { method: "POST" });
+  }
+
+  async deleteEstimate(id: string): Promise<{ success: boolean }> {
+    return this.request(`/api/estimates/${id}`, { method: "DELETE" });
+  }
+
+  // Calculator projects
+  async getProjects(): Promise<CalculatorProject[]> {
+    return this.request("/api/projects");
+  }
+
+  async getProject(id: string): Promise<CalculatorProject> {
+    return this.request(`/api/projects/${id}`);
+  }
+
+  async createProject(data: CalculatorProjectInput): Promise<CalculatorProject> {
+    return this.request("/api/projects", {
+      method: "POST",
+      body: JSON.stringify(data),
+    });
+  }
+
+  async updateProject(id: string, data: CalculatorProjectInput): Promise<CalculatorProject> {
+    return this.request(`/api/projects/${id}`, {
+      method: "PUT",
+      body: JSON.stringify(data),
+    });
+  }
+
+  async deleteProject(id: string): Promise<{ success: boolean }> {
+    return this.request(`/api/projects/${id}`, { method: "DELETE" });
+  }
+
   // Home Banners
   async getHomeBanners(): Promise<Array<{
     id: string;
@@ -423,17 +1037,82 @@ class ApiClient {
   }
 
   // Leaderboard
-  async getDealerLeaderboard(): Promise<Array<{
-    userId: string;
-    name: string;
-    tier: string;
-    points: number;
-  }>> {
-    return this.request("/api/dealers/leaderboard");
+  async getDealerLeaderboard(params?: {
+    period?: LeaderboardPeriod;
+    key?: string;
+    region?: string;
+    city?: string;
+  }): Promise<Leaderboard> {
+    const searchParams = new URLSearchParams();
+    if (params?.period) searchParams.set("period", params.period);
+    if (params?.key) searchParams.set("key", params.key);
+    if (params?.region) searchParams.set("region", params.region);
+    if (params?.city) searchParams.set("city", params.city);
+    const query = searchParams.toString();
+    return this.request(`/api/dealers/leaderboard${query ? `?${query}` : ""}`);
+  }
+
+  // Points ledger
+  async getPointsStatement(params?: { limit?: number; offset?: number }): Promise<PointsStatement> {
+    const searchParams = new URLSearchParams();
+    if (params?.limit) searchParams.set("limit", String(params.limit));
+    if (params?.offset) searchParams.set("offset", String(params.offset));
+    const query = searchParams.toString();
+    return this.request(`/api/dealers/points${query ? `?${query}` : ""}`);
+  }
+
+  async getTierProgress(): Promise<TierProgress> {
+    return this.request("/api/dealers/tier-progress");
+  }
+
+  // Notifications
+  async getNotifications(params?: {
+    limit?: number;
+    offset?: number;
+    unread?: boolean;
+  }): Promise<NotificationInbox> {
+    const searchParams = new URLSearchParams();
+    if (params?.limit) searchParams.set("limit", String(params.limit));
+    if (params?.offset) searchParams.set("offset", String(params.offset));
+    if (params?.unread) searchParams.set("unread", "1");
+    const query = searchParams.toString();
+    return this.request(`/api/notifications${query ? `?${query}` : ""}`);
+  }
+
+  async markNotificationsRead(ids?: string[]): Promise<{ success: boolean; updated: number }> {
+    return this.request("/api/notifications", {
+      method: "PATCH",
+      body: JSON.stringify(ids ? { ids } : { all: true }),
+    });
+  }
+
+  // Rewards
+  async getRewards(): Promise<{ balance: number; tier: string; rewards: RewardItem[] }> {
+    return this.request("/api/rewards");
+  }
+
+  async getMyRedemptions(): Promise<RewardRedemption[]> {
+    return this.request("/api/rewards/redemptions");
+  }
+
+  async redeemReward(
+    rewardId: string,
+    comment?: string
+  ): Promise<{ success: boolean; redemptionId: string; status: RedemptionStatus; balance?: number }> {
+    return this.request("/api/rewards/redemptions", {
+      method: "POST",
+      body: JSON.stringify({ rewardId, comment }),
+    });
   }
 
   // Admin - Compute dealer tiers
-  async computeDealerTiers(): Promise<{ success: boolean; updated?: number; error?: string }> {
+  async computeDealerTiers(): Promise<{
+    success: boolean;
+    processed?: number;
+    updated?: number;
+    tierChanges?: number;
+    error?: string;
+  }> {
     return this.request("/api/admin/dealers/compute-tiers", {
       method: "POST",
     });
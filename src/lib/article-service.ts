@@ -3,15 +3,18 @@
  * 
  * Логика обработки артикулов как в оригинальном Base44:
  * 1. Идентификация артикула в сообщении
- * 2. Поиск точного совпадения в productIndex
+ * 2. Поиск точного совпадения в каталоге товаров (таблица products)
  * 3. Поиск похожих артикулов
  * 4. Формирование ответа product_info
  * 5. Интеграция с базой знаний для текстур/фото
  */
 
-import prisma from "@/lib/prisma";
-import { KnowledgeType } from "@prisma/client";
-import { withCache, knowledgeBaseCache } from "@/lib/cache";
+import {
+  findProductsByVendorCode,
+  findSimilarProducts as findSimilarCatalogProducts,
+  CatalogWarehouseStock,
+} from "@/lib/product-catalog";
+import type { DealerPrice } from "@/lib/dealer-pricing";
 
 // Types
 export interface Product {
@@ -24,6 +27,7 @@ export interface Product {
   params: Record<string, unknown>;
   vendor?: string;
   url?: string;
+  warehouses?: CatalogWarehouseStock[];
 }
 
 export interface ArticleSearchResult {
@@ -43,6 +47,8 @@ export interface ProductInfoPayload {
     picture: string;
     price: string;
     params: Record<string, unknown>;
+    warehouses?: CatalogWarehouseStock[];
+    dealerPrice?: DealerPrice; // caller's purchase price, added per request after the cache
   };
 }
 
@@ -98,85 +104,24 @@ export function isDocumentRequest(message: string): boolean {
   return DOCUMENT_KEYWORDS.some(kw => msgLower.includes(kw));
 }
 
-/**
- * Build product index from XML feeds (cached)
- */
-export async function getProductIndex(): Promise<Map<string, Product[]>> {
-  const xmlFeeds = await withCache(
-    knowledgeBaseCache,
-    "xml-feeds-full",
-    () => prisma.knowledgeBase.findMany({
-      where: { type: KnowledgeType.XML_FEED },
-      select: { xmlData: true },
-    }),
-    10 * 60 * 1000 // 10 min cache
-  );
-
-  const index = new Map<string, Product[]>();
-
-  for (const feed of xmlFeeds) {
-    const xmlData = feed.xmlData as { products?: Product[] } | null;
-    if (xmlData?.products) {
-      for (const product of xmlData.products) {
-        if (product.vendorCode) {
-          const code = String(product.vendorCode).toLowerCase();
-          if (!index.has(code)) {
-            index.set(code, []);
-          }
-          index.get(code)!.push(product);
-        }
-      }
-    }
-  }
-
-  return index;
-}
-
 /**
  * Find exact product match by article code
  */
-export function findExactProduct(
-  productIndex: Map<string, Product[]>,
+export async function findExactProduct(
   articleCode: string
-): Product | null {
-  const matches = productIndex.get(articleCode.toLowerCase());
-  return matches?.[0] || null;
+): Promise<Product | null> {
+  const matches = await findProductsByVendorCode(articleCode);
+  return matches[0] || null;
 }
 
 /**
- * Find similar products (prefix match)
+ * Find similar products (partial vendor code match), sorted alphabetically
  */
-export function findSimilarProducts(
-  productIndex: Map<string, Product[]>,
+export async function findSimilarProducts(
   articleCode: string,
   limit: number = 10
-): Product[] {
-  const prefix = articleCode.toLowerCase();
-  const similar: Product[] = [];
-
-  productIndex.forEach((products, key) => {
-    // Match by prefix or partial match
-    if (key.startsWith(prefix) && key !== prefix) {
-      similar.push(...products);
-    } else if (key.includes(prefix) && key !== prefix) {
-      similar.push(...products);
-    }
-  });
-
-  // Deduplicate by vendor code
-  const unique = similar.reduce<Product[]>((acc, product) => {
-    if (!acc.find(p => p.vendorCode === product.vendorCode)) {
-      acc.push(product);
-    }
-    return acc;
-  }, []);
-
-  // Sort alphabetically
-  unique.sort((a, b) => 
-    String(a.vendorCode).localeCompare(String(b.vendorCode))
-  );
-
-  return unique.slice(0, limit);
+): Promise<{ products: Product[]; total: number }> {
+  return findSimilarCatalogProducts(articleCode, limit);
 }
 
 /**
@@ -192,6 +137,7 @@ export function formatProductInfoPayload(product: Product): ProductInfoPayload {
       picture: product.picture || '',
       price: product.price ? `${product.price}` : 'не указана',
       params: product.params || {},
+      warehouses: product.warehouses,
     },
   };
 }
@@ -218,8 +164,7 @@ export function formatSimilarProductsMessage(
  * Main article processing function
  */
 export async function processArticleRequest(
-  message: string,
-  productIndex: Map<string, Product[]>
+  message: string
 ): Promise<ArticleSearchResult | null> {
   // 1. Extract article code
   const articleCode = extractArticleCode(message);
@@ -231,7 +176,7 @@ export async function processArticleRequest(
   const isKbRequest = isKnowledgeBaseRequest(message);
 
   // 3. Find exact product match
-  const exactProduct = findExactProduct(productIndex, articleCode);
+  const exactProduct = await findExactProduct(articleCode);
 
   if (exactProduct && !isKbRequest) {
     // Return product info
@@ -244,8 +189,8 @@ export async function processArticleRequest(
 
   // 4. If no exact match, find similar products
   if (!exactProduct) {
-    const similarProducts = findSimilarProducts(productIndex, articleCode);
-    
+    const { products: similarProducts } = await findSimilarProducts(articleCode);
+
     if (similarProducts.length > 0) {
       return {
         type: 'similar_matches',
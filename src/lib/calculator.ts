@@ -0,0 +1,95 @@
+/**
+ * Flooring Calculator
+ *
+ * Расчёт материала по площади, общий для калькулятора и коммерческих предложений:
+ * 1. Запас на подрезку зависит от способа укладки
+ * 2. Количество упаковок округляется вверх по м² в упаковке
+ * 3. Стоимость считается по площади с запасом и цене за м², скидка дилера — не больше 10%
+ *
+ * Модуль без обращений к БД: используется и в браузере, и на сервере.
+ */
+
+// Types
+export type InstallationType = "straight" | "diagonal" | "herringbone";
+
+export interface CalculatorResults {
+  cleanArea: number;
+  areaWithReserve: number;
+  packagesNeeded: number;
+  baseCost: number;
+  totalCost: number;
+  myEarnings: number;
+}
+
+export const INSTALLATION_TYPES: InstallationType[] = ["straight", "diagonal", "herringbone"];
+
+export const RESERVE_COEFFICIENTS: Record<InstallationType, number> = {
+  straight: 1.05,
+  diagonal: 1.1,
+  herringbone: 1.15,
+};
+
+export const INSTALLATION_LABELS: Record<InstallationType, string> = {
+  straight: "Прямая укладка",
+  diagonal: "Диагональная укладка",
+  herringbone: "Укладка «ёлочкой»",
+};
+
+export const MAX_DISCOUNT_PERCENT = 10;
+
+export const EMPTY_RESULTS: CalculatorResults = {
+  cleanArea: 0,
+  areaWithReserve: 0,
+  packagesNeeded: 0,
+  baseCost: 0,
+  totalCost: 0,
+  myEarnings: 0,
+};
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+export function isInstallationType(value: unknown): value is InstallationType {
+  // Not `in`: inherited keys such as "toString" would pass
+  return INSTALLATION_TYPES.includes(value as InstallationType);
+}
+
+export function clampDiscount(value: unknown): number {
+  const parsed = parseFloat(String(value ?? "").replace(",", "."));
+  return Math.min(Math.max(0, Number.isFinite(parsed) ? parsed : 0), MAX_DISCOUNT_PERCENT);
+}
+
+/**
+ * m² per package from the feed params ("Кол-во м2 в упаковке"), null when missing
+ */
+export function areaPerPackageFromParams(params: Record<string, unknown> | null | undefined): number | null {
+  const raw = params?.["Кол-во м2 в упаковке"];
+  if (!raw) return null;
+  const value = parseFloat(String(raw).replace(",", "."));
+  return Number.isFinite(value) && value > 0 ? value : null;
+}
+
+export function calculateFlooring(input: {
+  area: number;
+  installationType: InstallationType;
+  discountPercent: number;
+  areaPerPackage: number;
+  pricePerM2: number;
+}): CalculatorResults {
+  const cleanArea = input.area > 0 ? input.area : 0;
+  if (cleanArea <= 0 || input.areaPerPackage <= 0) return EMPTY_RESULTS;
+
+  const discount = clampDiscount(input.discountPercent);
+  const areaWithReserve = cleanArea * RESERVE_COEFFICIENTS[input.installationType];
+  const packagesNeeded = Math.ceil(areaWithReserve / input.areaPerPackage);
+  const baseCost = areaWithReserve * input.pricePerM2;
+  const earnings = baseCost * (discount / 100);
+
+  return {
+    cleanArea: round2(cleanArea),
+    areaWithReserve: round2(areaWithReserve),
+    packagesNeeded,
+    baseCost: round2(baseCost),
+    totalCost: round2(baseCost - earnings),
+    myEarnings: round2(earnings),
+  };
+}
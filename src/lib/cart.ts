@@ -0,0 +1,355 @@
+/**
+ * Cart & Checkout
+ *
+ * Корзина пользователя и оформление заказа:
+ * 1. Хранение позиций в БД (cart_items) — корзина переживает перезагрузку и смену устройства
+ * 2. Пересчёт цен по каталогу: цена и наличие с клиента не принимаются
+ * 3. Проверка остатков и создание заказа из корзины одной транзакцией
+ * 4. Закупочная цена и маржа пользователя (lib/dealer-pricing) только показываются — заказ считается по РРЦ
+ */
+
+import prisma from "@/lib/prisma";
+import { CartItemSource, Prisma, Product as ProductRow } from "@prisma/client";
+import { nextOrderNumber } from "@/lib/order-workflow";
+import {
+  dealerPrice,
+  DealerPrice,
+  purchaseTotals,
+  PurchaseTotals,
+  resolveUserPriceType,
+} from "@/lib/dealer-pricing";
+
+// Types
+export type CartLineIssue = "NOT_FOUND" | "NO_PRICE" | "OUT_OF_STOCK" | "NOT_ENOUGH_STOCK";
+
+export interface PricedCartLine {
+  vendorCode: string;
+  productName: string;
+  picture: string | null;
+  quantity: number;
+  unit: "уп." | "шт.";
+  areaPerPackage: number | null;
+  unitPrice: number; // per package or piece
+  lineTotal: number;
+  source: CartItemSource;
+  issue?: CartLineIssue;
+  availableQty?: number; // in packages/pieces, set for NOT_ENOUGH_STOCK
+  dealerPrice?: DealerPrice; // per package or piece, for the cart owner
+}
+
+export interface PricedCart {
+  lines: PricedCartLine[];
+  total: number;
+  itemsCount: number;
+  hasIssues: boolean;
+  purchase?: PurchaseTotals | null; // over the lines that have a purchase price
+}
+
+export interface CheckoutInput {
+  contactName?: string | null;
+  contactPhone?: string | null;
+  contactEmail?: string | null;
+  deliveryAddress?: string | null;
+  legalEntityId?: string | null;
+  comment?: string | null;
+  idempotencyKey?: string | null;
+}
+
+export type CheckoutResult =
+  | { success: true; orderId: string; orderNumber: string; totalCost: number; replayed?: boolean }
+  | { success: false; error: string; status: number; cart?: PricedCart };
+
+const MAX_LINE_QUANTITY = 10000;
+
+export function normalizeVendorCode(code: string): string {
+  return code.trim().toLowerCase();
+}
+
+export function clampQuantity(quantity: unknown): number {
+  const parsed = parseInt(String(quantity), 10);
+  if (!Number.isFinite(parsed) || parsed < 1) return 1;
+  return Math.min(parsed, MAX_LINE_QUANTITY);
+}
+
+/**
+ * One catalog row per vendor code. The same code may come from several feeds -
+ * an offer that is in stock and has a price wins.
+ */
+export async function findCatalogRows(vendorCodes: string[]): Promise<Map<string, ProductRow>> {
+  const rows = await prisma.product.findMany({
+    where: { vendorCodeNormalized: { in: vendorCodes.map(normalizeVendorCode) } },
+    orderBy: { createdAt: "asc" },
+  });
+
+  const rank = (row: ProductRow) => (row.inStock ? 2 : 0) + (row.price ? 1 : 0);
+  const byCode = new Map<string, ProductRow>();
+  for (const row of rows) {
+    const current = byCode.get(row.vendorCodeNormalized);
+    if (!current || rank(row) > rank(current)) {
+      byCode.set(row.vendorCodeNormalized, row);
+    }
+  }
+  return byCode;
+}
+
+/**
+ * Price cart lines from the catalog.
+ * Calculator products are sold in whole packages: the feed price is per m²,
+ * so a package costs price × m² per package. Stock in the feed is counted
+ * in the same unit as the price (m² or pieces).
+ * With a price type the lines also carry the owner's purchase price.
+ */
+export async function priceCartLines(
+  items: Array<{ vendorCode: string; productName: string; quantity: number; source: CartItemSource }>,
+  priceType?: string | null
+): Promise<PricedCart> {
+  const catalog = await findCatalogRows(items.map((item) => item.vendorCode));
+
+  const lines = items.map((item): PricedCartLine => {
+    const row = catalog.get(normalizeVendorCode(item.vendorCode));
+    const areaPerPackage = row?.areaPerPackage || null;
+    const base: PricedCartLine = {
+      vendorCode: row?.vendorCode || item.vendorCode,
+      productName: row?.name || item.productName,
+      picture: row?.picture || null,
+      quantity: item.quantity,
+      unit: areaPerPackage ? "уп." : "шт.",
+      areaPerPackage,
+      unitPrice: 0,
+      lineTotal: 0,
+      source: item.source,
+    };
+
+    if (!row) return { ...base, issue: "NOT_FOUND" };
+    if (!row.price) return { ...base, issue: "NO_PRICE" };
+
+    const unitPrice = Math.round(row.price * (areaPerPackage || 1) * 100) / 100;
+    const purchase = dealerPrice(row, priceType, areaPerPackage || 1);
+    const priced = {
+      ...base,
+      unitPrice,
+      lineTotal: Math.round(unitPrice * item.quantity * 100) / 100,
+      ...(purchase && { dealerPrice: purchase }),
+    };
+
+    if (!row.inStock) return { ...priced, issue: "OUT_OF_STOCK" };
+
+    // Zero means the feed gave no number, only an "in stock" text
+    if (row.stockQty > 0 && item.quantity * (areaPerPackage || 1) > row.stockQty) {
+      return {
+        ...priced,
+        issue: "NOT_ENOUGH_STOCK",
+        availableQty: Math.floor(row.stockQty / (areaPerPackage || 1)),
+      };
+    }
+
+    return priced;
+  });
+
+  const withPurchase = lines.filter((line) => line.dealerPrice);
+  return {
+    lines,
+    total: Math.round(lines.reduce((sum, line) => sum + line.lineTotal, 0) * 100) / 100,
+    itemsCount: lines.reduce((sum, line) => sum + line.quantity, 0),
+    hasIssues: lines.some((line) => line.issue),
+    purchase: purchaseTotals(
+      priceType,
+      withPurchase.reduce((sum, line) => sum + line.lineTotal, 0),
+      withPurchase.length
+        ? withPurchase.reduce((sum, line) => sum + line.dealerPrice!.purchasePrice * line.quantity, 0)
+        : null
+    ),
+  };
+}
+
+export async function getCart(userId: string): Promise<PricedCart> {
+  const [items, priceType] = await Promise.all([
+    prisma.cartItem.findMany({
+      where: { userId },
+      orderBy: { createdAt: "asc" },
+    }),
+    resolveUserPriceType(userId),
+  ]);
+  return priceCartLines(items, priceType);
+}
+
+/**
+ * Add a product to the cart or increase the quantity of an existing line
+ */
+export async function addCartItem(
+  userId: string,
+  vendorCode: string,
+  quantity: number,
+  source: CartItemSource = CartItemSource.CHAT
+): Promise<PricedCart | null> {
+  const row = (await findCatalogRows([vendorCode])).get(normalizeVendorCode(vendorCode));
+  if (!row) return null;
+
+  await prisma.cartItem.upsert({
+    where: { userId_vendorCode: { userId, vendorCode: row.vendorCode } },
+    create: {
+      userId,
+      vendorCode: row.vendorCode,
+      productName: row.name,
+      quantity: clampQuantity(quantity),
+      source,
+    },
+    update: {
+      productName: row.name,
+      quantity: { increment: clampQuantity(quantity) },
+    },
+  });
+  // The increment stays atomic; repeated adds must not push the line past the limit
+  await prisma.cartItem.updateMany({
+    where: { userId, vendorCode: row.vendorCode, quantity: { gt: MAX_LINE_QUANTITY } },
+    data: { quantity: MAX_LINE_QUANTITY },
+  });
+
+  return getCart(userId);
+}
+
+export async function setCartItemQuantity(
+  userId: string,
+  vendorCode: string,
+  quantity: number
+): Promise<PricedCart> {
+  await prisma.cartItem.updateMany({
+    where: { userId, vendorCode },
+    data: { quantity: clampQuantity(quantity) },
+  });
+  return getCart(userId);
+}
+
+/**
+ * Remove one line, or empty the whole cart when no vendor code is given
+ */
+export async function removeCartItems(userId: string, vendorCode?: string): Promise<PricedCart> {
+  await prisma.cartItem.deleteMany({
+    where: { userId, ...(vendorCode && { vendorCode }) },
+  });
+  return getCart(userId);
+}
+
+async function findOrderByIdempotencyKey(
+  userId: string,
+  idempotencyKey: string
+): Promise<CheckoutResult | null> {
+  const order = await prisma.order.findUnique({
+    where: { userId_idempotencyKey: { userId, idempotencyKey } },
+    select: { id: true, orderNumber: true, totalCost: true },
+  });
+  if (!order) return null;
+
+  return {
+    success: true,
+    orderId: order.id,
+    orderNumber: order.orderNumber,
+    totalCost: order.totalCost,
+    replayed: true,
+  };
+}
+
+/**
+ * Turn the user's cart into an order.
+ * Prices and stock are recomputed here; any problem line blocks the order
+ * and the priced cart is returned so the client can show what to fix.
+ * A repeated submit with the same idempotency key returns the order created by the first one.
+ */
+export async function checkoutCart(userId: string, input: CheckoutInput): Promise<CheckoutResult> {
+  const idempotencyKey = input.idempotencyKey?.trim().slice(0, 100) || null;
+  if (idempotencyKey) {
+    const existing = await findOrderByIdempotencyKey(userId, idempotencyKey);
+    if (existing) return existing;
+  }
+
+  const cart = await getCart(userId);
+
+  if (cart.lines.length === 0) {
+    // The first attempt may have committed (and emptied the cart) after the lookup above
+    const existing = idempotencyKey && (await findOrderByIdempotencyKey(userId, idempotencyKey));
+    if (existing) return existing;
+    return { success: false, error: "Cart is empty", status: 400 };
+  }
+  if (cart.hasIssues) {
+    return {
+      success: false,
+      error: "Some cart items are unavailable",
+      status: 409,
+      cart,
+    };
+  }
+
+  if (input.legalEntityId) {
+    const legalEntity = await prisma.legalEntity.findFirst({
+      where: { id: input.legalEntityId, userId },
+      select: { id: true },
+    });
+    if (!legalEntity) {
+      return { success: false, error: "Legal entity not found", status: 400 };
+    }
+  }
+
+  let order;
+  try {
+    order = await prisma.$transaction(async (tx) => {
+      const created = await tx.order.create({
+        data: {
+          userId,
+          orderNumber: await nextOrderNumber(tx),
+          idempotencyKey,
+          status: "PENDING",
+          totalCost: Math.round(cart.total),
+          items: cart.lines.map((line) => ({
+            articleCode: line.vendorCode,
+            productName: line.productName,
+            quantity: line.quantity,
+            unit: line.unit,
+            price: line.unitPrice,
+            total: line.lineTotal,
+          })),
+          contactName: input.contactName || null,
+          contactPhone: input.contactPhone || null,
+          contactEmail: input.contactEmail || null,
+          deliveryAddress: input.deliveryAddress || null,
+          comment: input.comment || null,
+          legalEntityId: input.legalEntityId || null,
+          // First entry of the status timeline
+          statusHistory: {
+            create: { toStatus: "PENDING", changedById: userId },
+          },
+        },
+      });
+
+      // Only the ordered quantities: whatever was added from another tab meanwhile stays in the cart
+      for (const line of cart.lines) {
+        const item = { userId, vendorCode: { equals: line.vendorCode, mode: "insensitive" as const } };
+        await tx.cartItem.deleteMany({
+          where: { ...item, quantity: { lte: line.quantity } },
+        });
+        await tx.cartItem.updateMany({
+          where: { ...item, quantity: { gt: line.quantity } },
+          data: { quantity: { decrement: line.quantity } },
+        });
+      }
+      return created;
+    });
+  } catch (error) {
+    // A concurrent request with the same key won the race
+    if (
+      idempotencyKey &&
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === "P2002"
+    ) {
+      const existing = await findOrderByIdempotencyKey(userId, idempotencyKey);
+      if (existing) return existing;
+    }
+    throw error;
+  }
+
+  return {
+    success: true,
+    orderId: order.id,
+    orderNumber: order.orderNumber,
+    totalCost: order.totalCost,
+  };
+}
@@ -0,0 +1,951 @@
+/**
+ * Catalog Import
+ *
+ * Разбор прайс-листов поставщиков в единую модель товара (FeedProduct):
+ * 1. YML (yml_catalog / offers.offer)
+ * 2. CSV и XLSX с настраиваемым сопоставлением колонок
+ * 3. CommerceML 2.x из 1С (import.xml + offers.xml)
+ */
+
+import { CatalogFormat } from "@prisma/client";
+import { FeedProduct, FeedWarehouseStock } from "@/lib/product-catalog";
+import { DiscoveredWarehouse } from "@/lib/warehouses";
+
+// Types
+export interface CatalogFile {
+  name: string;
+  data: ArrayBuffer;
+}
+
+export interface ParsedCatalog {
+  products: FeedProduct[];
+  // Warehouses declared by the source (codes seen only in stock are added by the caller)
+  warehouses: DiscoveredWarehouse[];
+  offersCount: number;
+  encoding?: string;
+}
+
+export type ColumnField =
+  | "vendorCode"
+  | "name"
+  | "price"
+  | "vendor"
+  | "description"
+  | "url"
+  | "picture"
+  | "stock";
+
+/** Where a CSV/XLSX column goes: a product field, a characteristic, stock of a warehouse or nowhere */
+export type ColumnTarget = ColumnField | "param" | "skip" | `warehouse:${string}`;
+
+export type ColumnMapping = Record<string, ColumnTarget>;
+
+export interface TablePreview {
+  headers: string[];
+  rows: string[][];
+  mapping: ColumnMapping;
+}
+
+interface ParseOptions {
+  mapping?: ColumnMapping | null;
+}
+
+type CatalogParser = (
+  files: CatalogFile[],
+  options: ParseOptions
+) => Promise<ParsedCatalog>;
+
+interface StockEntry {
+  code: string;
+  name: string;
+  stockText: string;
+}
+
+const PREVIEW_ROWS = 5;
+const WAREHOUSE_TARGET_PREFIX = "warehouse:";
+
+// Header synonyms for the suggested CSV/XLSX mapping (first matching column wins)
+const COLUMN_SYNONYMS: Array<[ColumnField, RegExp]> = [
+  ["vendorCode", /^(артикул|код товара|код|sku|vendor ?code|article)([\s,(].*)?$/],
+  ["name", /^(наименование|название|товар|номенклатура|name)([\s,(].*)?$/],
+  ["price", /^(цена|ррц|розничная цена|price)([\s,(].*)?$/],
+  ["vendor", /^(производитель|бренд|торговая марка|vendor|brand)([\s,(].*)?$/],
+  ["description", /^(описание|description)([\s,(].*)?$/],
+  ["url", /^(ссылка на товар|ссылка|url)$/],
+  ["picture", /^(фото|фото1|изображение|картинка|picture|image)$/],
+  ["stock", /^(остаток|наличие|количество|stock|quantity)([\s,(].*)?$/],
+];
+
+/**
+ * Decode a text file: declared XML encoding first, then UTF-8, then windows-1251
+ */
+function decodeText(buffer: ArrayBuffer): { text: string; encoding: string } {
+  const headerText = new TextDecoder("ascii").decode(
+    new Uint8Array(buffer.slice(0, 200))
+  );
+  let encoding = headerText.match(/encoding=["']([^"']+)["']/i)?.[1].toLowerCase();
+
+  if (encoding === "utf8") encoding = "utf-8";
+  if (encoding === "cp1251") encoding = "windows-1251";
+
+  if (encoding) {
+    try {
+      return { text: new TextDecoder(encoding).decode(buffer), encoding };
+    } catch {
+      return {
+        text: new TextDecoder("windows-1251").decode(buffer),
+        encoding: "windows-1251 (fallback)",
+      };
+    }
+  }
+
+  try {
+    return {
+      text: new TextDecoder("utf-8", { fatal: true }).decode(buffer),
+      encoding: "utf-8",
+    };
+  } catch {
+    return { text: new TextDecoder("windows-1251").decode(buffer), encoding: "windows-1251" };
+  }
+}
+
+function parseStock(text: string | null | undefined): {
+  inStock: boolean;
+  displayText: string;
+} {
+  if (!text)
+    return { inStock: false, displayText: "Нет в наличии" };
+  const t = String(text).toLowerCase().trim();
+
+  if (/срок поставки/i.test(t)) {
+    return { inStock: false, displayText: t };
+  }
+
+  if (/^(0|нет|отсутствует|не в наличии|нет в наличии)/.test(t)) {
+    return { inStock: false, displayText: "Нет в наличии" };
+  }
+  const match = t.match(/(\d+)/);
+  if (match) {
+    const qty = parseInt(match[1], 10);
+    return {
+      inStock: qty > 0,
+      displayText: qty > 0 ? `В наличии (${qty} уп.)` : "Нет в наличии",
+    };
+  }
+  return { inStock: true, displayText: "В наличии" };
+}
+
+function parsePrice(value: unknown): number | null {
+  if (value == null || value === "") return null;
+  if (typeof value === "number") return Number.isFinite(value) ? value : null;
+  const parsed = parseFloat(
+    String(value).replace(/\s/g, "").replace(",", ".").replace(/[^\d.-]/g, "")
+  );
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+/**
+ * Fill the stock params (Склады, Остаток, Остаток_число) the chat card and calculator read.
+ * An explicit "Остаток" param wins, then the sum over warehouses, then the fallback text.
+ */
+function applyStock(
+  params: Record<string, unknown>,
+  stocks: StockEntry[],
+  fallbackStock?: string
+): Pick<FeedProduct, "warehouseStocks" | "stockQty" | "inStock"> {
+  const warehouseStock: Record<string, string> = {};
+  const warehouseStocks: FeedWarehouseStock[] = stocks.map((stock) => {
+    warehouseStock[stock.name] = stock.stockText;
+    return { ...stock, inStock: parseStock(stock.stockText).inStock };
+  });
+
+  let aggregatedStock = "";
+  if (stocks.length > 0) {
+    const numericStocks = Object.values(warehouseStock)
+      .map((s) => {
+        const match = String(s).match(/(\d+)/);
+        return match ? parseInt(match[1], 10) : 0;
+      })
+      .filter((n) => n > 0);
+
+    if (numericStocks.length > 0) {
+      const totalStock = numericStocks.reduce((a, b) => a + b, 0);
+      aggregatedStock = `${totalStock} уп.`;
+    } else {
+      aggregatedStock = Object.values(warehouseStock)[0] || "";
+    }
+
+    params["Склады"] = warehouseStock;
+  }
+
+  if (!("Остаток" in params)) {
+    if (aggregatedStock) {
+      params["Остаток"] = aggregatedStock;
+    } else if (fallbackStock) {
+      params["Остаток"] = fallbackStock;
+    }
+  }
+
+  const stockInfo = parseStock((params["Остаток"] as string) || "");
+  const numericStock = String(params["Остаток"] || "").match(/\d+/);
+  const stockNumber = numericStock
+    ? parseInt(numericStock[0], 10)
+    : stockInfo.inStock
+      ? 1
+      : 0;
+
+  params["Остаток_число"] = String(stockNumber);
+
+  return { warehouseStocks, stockQty: stockNumber, inStock: stockInfo.inStock };
+}
+
+// Dynamic import to avoid build-time issues
+async function getXMLParser(arrayTags: string[], parseTagValue = true) {
+  const { XMLParser } = await import("fast-xml-parser");
+  return new XMLParser({
+    ignoreAttributes: false,
+    attributeNamePrefix: "@_",
+    textNodeName: "#text",
+    parseAttributeValue: parseTagValue,
+    parseTagValue,
+    isArray: (name: string) => arrayTags.includes(name),
+  });
+}
+
+// ============================================================================
+// YML
+// ============================================================================
+
+interface Offer {
+  "@_id"?: string;
+  "@_available"?: string;
+  name?: string;
+  vendorCode?: string;
+  description?: string;
+  url?: string;
+  picture?: string | string[] | { "#text": string }[];
+  vendor?: string;
+  country_of_origin?: string;
+  quantity?: string;
+  param?: Array<{ "@_name": string; "#text": string }>;
+  prices?: { price?: Array<{ "@_type"?: string; "#text"?: number }> | { "@_type"?: string; "#text"?: number } };
+  price?: Array<{ "@_type"?: string; "#text"?: number }> | { "@_type"?: string; "#text"?: number };
+  quantity_in_stock?: Array<{ "@_warehouse_id"?: string; "#text"?: string }>;
+}
+
+interface FeedWarehouse {
+  "@_id"?: string | number;
+  "@_name"?: string;
+  "@_city"?: string;
+  "@_region"?: string;
+  "@_address"?: string;
+  "#text"?: string | number;
+}
+
+/**
+ * Warehouses declared in the feed: <warehouses><warehouse id="1" city="...">Name</warehouse></warehouses>
+ */
+function parseFeedWarehouses(
+  shop: { warehouses?: { warehouse?: FeedWarehouse[] } } | undefined
+): DiscoveredWarehouse[] {
+  const list = shop?.warehouses?.warehouse || [];
+
+  return list
+    .filter((w) => typeof w === "object" && w["@_id"] != null)
+    .map((w) => {
+      const name = String(w["@_name"] ?? w["#text"] ?? "").trim();
+      return {
+        code: String(w["@_id"]),
+        name: name || undefined,
+        // Feeds usually name warehouses after their city
+        city: w["@_city"] ? String(w["@_city"]).trim() : name || undefined,
+        region: w["@_region"] ? String(w["@_region"]).trim() : undefined,
+        address: w["@_address"] ? String(w["@_address"]).trim() : undefined,
+      };
+    });
+}
+
+function parseYmlOffer(offer: Offer): FeedProduct {
+  const params: Record<string, unknown> = {};
+  let photo1: string | null = null;
+  const documents: Array<{ url: string; name: string }> = [];
+
+  const vendorCode = String(offer.vendorCode || "");
+
+  // Parse parameters
+  if (offer.param) {
+    const paramArray = Array.isArray(offer.param) ? offer.param : [offer.param];
+
+    paramArray.forEach((p) => {
+      if (p["@_name"] && p["#text"] != null) {
+        const rawName = String(p["@_name"]).trim();
+        const rawValue = String(p["#text"]).trim();
+
+        const keyNorm = rawName.toLowerCase();
+
+        if (keyNorm === "фото1") {
+          photo1 = rawValue;
+          return;
+        }
+
+        if (
+          ["фото2", "фото3", "фото4", "url", "ссылка на qr"].includes(keyNorm)
+        ) {
+          return;
+        }
+
+        if (
+          keyNorm.startsWith("документы файл") ||
+          keyNorm.startsWith("документы наименование")
+        ) {
+          params[rawName] = rawValue;
+          return;
+        }
+
+        const key =
+          keyNorm === "остаток" ||
+          keyNorm === "наличие" ||
+          keyNorm === "quantity" ||
+          keyNorm === "количество на складе" ||
+          keyNorm === "склад" ||
+          keyNorm === "stock"
+            ? "Остаток"
+            : rawName;
+
+        params[key] = rawValue;
+      }
+    });
+  }
+
+  // Parse documents
+  const docFiles: Record<string, string> = {};
+  const docNames: Record<string, string> = {};
+
+  Object.keys(params).forEach((key) => {
+    const keyLower = key.toLowerCase();
+    const fileMatch = keyLower.match(/документы файл (\d+)/);
+    const nameMatch = keyLower.match(/документы наименование (\d+)/);
+
+    if (fileMatch) {
+      docFiles[fileMatch[1]] = params[key] as string;
+    } else if (nameMatch) {
+      docNames[nameMatch[1]] = params[key] as string;
+    }
+  });
+
+  Object.keys(docFiles).forEach((num) => {
+    const url = docFiles[num];
+    const name = docNames[num] || `Документ ${num}`;
+    if (url && url.trim()) {
+      documents.push({ url: url.trim(), name: name.trim() });
+    }
+  });
+
+  if (offer.country_of_origin) {
+    params["Страна производитель"] = offer.country_of_origin;
+  }
+
+  // Parse prices: every typed price is kept, RRC (or the first one) is the retail price
+  let price: number | null = null;
+  const prices: Record<string, number> = {};
+  const rawPrices = offer.prices?.price ?? offer.price;
+
+  if (rawPrices) {
+    const priceArray = Array.isArray(rawPrices) ? rawPrices : [rawPrices];
+    const priceValue = (p: (typeof priceArray)[number]) =>
+      parsePrice(typeof p === "object" ? p["#text"] : p);
+
+    for (const entry of priceArray) {
+      const type = typeof entry === "object" ? entry["@_type"] : undefined;
+      const value = priceValue(entry);
+      if (type && value != null && !(type in prices)) prices[type] = value;
+    }
+
+    const rrcPrice = priceArray.find((p) => p["@_type"] === "RRC");
+    price = priceValue(rrcPrice ?? priceArray[0]);
+  }
+
+  // Parse warehouse stock
+  const stocks: StockEntry[] = [];
+  if (offer.quantity_in_stock) {
+    const stockArray = Array.isArray(offer.quantity_in_stock)
+      ? offer.quantity_in_stock
+      : [offer.quantity_in_stock];
+    stockArray.forEach((stock) => {
+      const whId = stock["@_warehouse_id"];
+      const stockValue = typeof stock === "object" ? stock["#text"] : stock;
+      if (whId && stockValue) {
+        stocks.push({
+          code: String(whId),
+          name: `Склад ${whId}`,
+          stockText: String(stockValue).trim(),
+        });
+      }
+    });
+  }
+
+  const fallbackStock =
+    String(offer["@_available"] || "").toLowerCase() === "true"
+      ? "в наличии"
+      : offer.quantity
+        ? String(offer.quantity)
+        : undefined;
+
+  // Get picture
+  let productPicture = photo1 || offer.picture;
+  if (Array.isArray(productPicture)) {
+    const first = productPicture[0];
+    productPicture =
+      typeof first === "object" && "#text" in first
+        ? first["#text"]
+        : (first as string);
+  }
+
+  return {
+    externalId: offer["@_id"],
+    name: offer.name || "",
+    vendorCode: vendorCode,
+    price: price || null,
+    prices,
+    description:
+      typeof offer.description === "string" ? offer.description : "",
+    url: offer.url || "",
+    picture: productPicture,
+    vendor: offer.vendor || "",
+    params: params,
+    documents: documents,
+    ...applyStock(params, stocks, fallbackStock),
+  };
+}
+
+const parseYml: CatalogParser = async (files) => {
+  const { text, encoding } = decodeText(files[0].data);
+  console.log(`[CatalogImport] YML fetched, size: ${text.length} bytes`);
+
+  const parser = await getXMLParser([
+    "param",
+    "warehouse",
+    "quantity_in_stock",
+    "price",
+    "picture",
+  ]);
+  const jsonObj = parser.parse(text);
+
+  // Extract offers
+  const shop = jsonObj.yml_catalog?.shop || jsonObj.catalog?.shop || jsonObj.shop || jsonObj;
+  let offers: Offer[] = shop?.offers?.offer || [];
+  if (!Array.isArray(offers)) {
+    offers = offers ? [offers] : [];
+  }
+
+  return {
+    products: offers.map(parseYmlOffer),
+    warehouses: parseFeedWarehouses(shop),
+    offersCount: offers.length,
+    encoding,
+  };
+};
+
+// ============================================================================
+// CSV / XLSX
+// ============================================================================
+
+/**
+ * Split CSV text into rows. The delimiter (; , or tab) is guessed from the header line.
+ */
+function parseCsvRows(text: string): string[][] {
+  const headerLine = text.split(/\r?\n/, 1)[0] || "";
+  const delimiter = [";", ",", "\t"].reduce((best, candidate) =>
+    headerLine.split(candidate).length > headerLine.split(best).length ? candidate : best
+  );
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && field === "") {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+async function readXlsxRows(file: CatalogFile): Promise<string[][]> {
+  const { default: ExcelJS } = await import("exceljs");
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(file.data);
+
+  // Price lists keep the catalog on the first sheet
+  const sheet = workbook.worksheets[0];
+  if (!sheet) return [];
+
+  const rows: string[][] = [];
+  sheet.eachRow((row) => {
+    const values: string[] = [];
+    for (let column = 1; column <= sheet.columnCount; column++) {
+      values.push(row.getCell(column).text);
+    }
+    rows.push(values);
+  });
+  return rows;
+}
+
+/**
+ * Read a CSV/XLSX file as a table: header row first, empty rows dropped
+ */
+async function readTable(format: CatalogFormat, file: CatalogFile): Promise<string[][]> {
+  const rows =
+    format === CatalogFormat.XLSX
+      ? await readXlsxRows(file)
+      : parseCsvRows(decodeText(file.data).text);
+
+  const table = rows
+    .map((row) => row.map((cell) => String(cell ?? "").trim()))
+    .filter((row) => row.some(Boolean));
+  if (table.length === 0) return [];
+
+  const headers = table[0].map((header, i) => header || `Колонка ${i + 1}`);
+  return [headers, ...table.slice(1)];
+}
+
+function normalizeHeader(header: string): string {
+  return header.trim().toLowerCase().replace(/ё/g, "е").replace(/\s+/g, " ");
+}
+
+/**
+ * Guess where each column goes by its header. Columns like "Остаток Москва"
+ * are matched against warehouse names and cities of the directory.
+ */
+export function suggestColumnMapping(
+  headers: string[],
+  warehouses: Array<{ code: string; name: string; city: string | null }> = []
+): ColumnMapping {
+  const mapping: ColumnMapping = {};
+  const usedFields = new Set<ColumnField>();
+
+  for (const header of headers) {
+    const normalized = normalizeHeader(header);
+
+    const warehouseMatch = normalized.match(/^(остаток|склад|наличие)\s+(.+)$/);
+    if (warehouseMatch) {
+      const place = warehouseMatch[2];
+      const warehouse = warehouses.find(
+        (w) =>
+          w.code === place ||
+          normalizeHeader(w.name) === place ||
+          (w.city && normalizeHeader(w.city) === place)
+      );
+      if (warehouse) {
+        mapping[header] = `${WAREHOUSE_TARGET_PREFIX}${warehouse.code}`;
+        continue;
+      }
+    }
+
+    const field = COLUMN_SYNONYMS.find(
+      ([candidate, pattern]) => !usedFields.has(candidate) && pattern.test(normalized)
+    )?.[0];
+
+    if (field) {
+      usedFields.add(field);
+      mapping[header] = field;
+    } else {
+      mapping[header] = "param";
+    }
+  }
+
+  return mapping;
+}
+
+function tableToProducts(table: string[][], mapping: ColumnMapping): FeedProduct[] {
+  const [headers, ...rows] = table;
+  const targets = headers.map((header) => mapping[header] || "skip");
+
+  if (!targets.includes("vendorCode")) {
+    throw new Error("Column mapping has no vendor code column");
+  }
+
+  return rows.map((row) => {
+    const fields: Partial<Record<ColumnField, string>> = {};
+    const params: Record<string, unknown> = {};
+    const stocks: StockEntry[] = [];
+
+    targets.forEach((target, i) => {
+      const value = row[i]?.trim();
+      if (!value || target === "skip") return;
+
+      if (target === "param") {
+        params[headers[i]] = value;
+      } else if (target.startsWith(WAREHOUSE_TARGET_PREFIX)) {
+        const code = target.slice(WAREHOUSE_TARGET_PREFIX.length);
+        stocks.push({ code, name: `Склад ${code}`, stockText: value });
+      } else if (target === "stock") {
+        params["Остаток"] = value;
+      } else {
+        fields[target as ColumnField] = value;
+      }
+    });
+
+    return {
+      name: fields.name || "",
+      vendorCode: fields.vendorCode || "",
+      price: parsePrice(fields.price),
+      description: fields.description || "",
+      url: fields.url || "",
+      picture: fields.picture,
+      vendor: fields.vendor || "",
+      params,
+      documents: [],
+      ...applyStock(params, stocks),
+    };
+  });
+}
+
+function tabularParser(format: CatalogFormat): CatalogParser {
+  return async (files, options) => {
+    const table = await readTable(format, files[0]);
+    if (table.length === 0) {
+      return { products: [], warehouses: [], offersCount: 0 };
+    }
+
+    const mapping = options.mapping || suggestColumnMapping(table[0]);
+    return {
+      products: tableToProducts(table, mapping),
+      warehouses: [],
+      offersCount: table.length - 1,
+      encoding: format === CatalogFormat.CSV ? decodeText(files[0].data).encoding : undefined,
+    };
+  };
+}
+
+/**
+ * Headers, sample rows and the column mapping (saved one over the suggested one) of a CSV/XLSX file
+ */
+export async function previewCatalogTable(
+  format: CatalogFormat,
+  file: CatalogFile,
+  savedMapping?: ColumnMapping | null,
+  warehouses: Array<{ code: string; name: string; city: string | null }> = []
+): Promise<TablePreview> {
+  const table = await readTable(format, file);
+  const headers = table[0] || [];
+
+  const mapping = suggestColumnMapping(headers, warehouses);
+  for (const header of headers) {
+    if (savedMapping?.[header]) mapping[header] = savedMapping[header];
+  }
+
+  return {
+    headers,
+    rows: table.slice(1, 1 + PREVIEW_ROWS),
+    mapping,
+  };
+}
+
+// ============================================================================
+// CommerceML
+// ============================================================================
+
+type CmlValue = string | number | { "#text"?: string | number } | undefined;
+
+interface CmlProduct {
+  Ид?: string;
+  Артикул?: string;
+  Наименование?: string;
+  Описание?: string;
+  Картинка?: string[];
+  Изготовитель?: { Наименование?: string };
+  ЗначенияСвойств?: { ЗначенияСвойства?: Array<{ Ид?: string; Значение?: CmlValue | CmlValue[] }> };
+  ЗначенияРеквизитов?: { ЗначениеРеквизита?: Array<{ Наименование?: string; Значение?: CmlValue }> };
+}
+
+interface CmlProperty {
+  Ид?: string;
+  Наименование?: string;
+  ВариантыЗначений?: { Справочник?: Array<{ ИдЗначения?: string; Значение?: string }> };
+}
+
+interface CmlOffer {
+  Ид?: string;
+  Артикул?: string;
+  Наименование?: string;
+  Цены?: { Цена?: Array<{ ИдТипаЦены?: string; ЦенаЗаЕдиницу?: string }> };
+  Количество?: string;
+  Склад?: Array<{ "@_ИдСклада"?: string; "@_КоличествоНаСкладе"?: string }>;
+  Остатки?: { Остаток?: Array<{ Склад?: { Ид?: string; Количество?: string } }> };
+}
+
+// Service requisites of 1C that mean nothing to customers
+const SKIPPED_REQUISITES = ["ВидНоменклатуры", "ТипНоменклатуры"];
+
+function cmlText(value: CmlValue): string {
+  if (value == null) return "";
+  if (typeof value === "object") return String(value["#text"] ?? "").trim();
+  return String(value).trim();
+}
+
+const parseCommerceMl: CatalogParser = async (files) => {
+  const parser = await getXMLParser(
+    [
+      "Товар",
+      "Свойство",
+      "Справочник",
+      "ЗначенияСвойства",
+      "ЗначениеРеквизита",
+      "Картинка",
+      "Предложение",
+      "Цена",
+      "ТипЦены",
+      "Склад",
+      "Остаток",
+    ],
+    false
+  );
+
+  const cmlProducts: CmlProduct[] = [];
+  const cmlProperties: CmlProperty[] = [];
+  const cmlOffers: CmlOffer[] = [];
+  const priceTypes: Array<{ Ид?: string; Наименование?: string }> = [];
+  const declaredWarehouses: DiscoveredWarehouse[] = [];
+  const encodings = new Set<string>();
+
+  // import.xml and offers.xml may come in any order (or as one combined file)
+  for (const file of files) {
+    const { text, encoding } = decodeText(file.data);
+    encodings.add(encoding);
+    const root = parser.parse(text)["КоммерческаяИнформация"];
+    if (!root) continue;
+
+    cmlProperties.push(...(root.Классификатор?.Свойства?.Свойство || []));
+    cmlProducts.push(...(root.Каталог?.Товары?.Товар || []));
+
+    const offersPackage = root.ПакетПредложений;
+    if (offersPackage) {
+      priceTypes.push(...(offersPackage.ТипыЦен?.ТипЦены || []));
+      cmlOffers.push(...(offersPackage.Предложения?.Предложение || []));
+      for (const warehouse of offersPackage.Склады?.Склад || []) {
+        if (!warehouse.Ид) continue;
+        const name = cmlText(warehouse.Наименование);
+        declaredWarehouses.push({
+          code: String(warehouse.Ид),
+          name: name || undefined,
+          city: name || undefined,
+          address: cmlText(warehouse.Адрес?.Представление) || undefined,
+        });
+      }
+    }
+  }
+
+  // Property values may reference a dictionary entry instead of holding the text
+  const propertyNames = new Map<string, string>();
+  const dictionaryValues = new Map<string, string>();
+  for (const property of cmlProperties) {
+    if (property.Ид) propertyNames.set(property.Ид, cmlText(property.Наименование));
+    for (const entry of property.ВариантыЗначений?.Справочник || []) {
+      if (entry.ИдЗначения) dictionaryValues.set(entry.ИдЗначения, cmlText(entry.Значение));
+    }
+  }
+
+  // Retail price type if there is one, otherwise the first price of an offer
+  const retailPriceType = priceTypes.find((type) =>
+    /розн|ррц|rrc/i.test(cmlText(type.Наименование))
+  )?.Ид;
+  // Prices are stored by type name, the id is kept for unnamed types
+  const priceTypeNames = new Map<string, string>();
+  for (const type of priceTypes) {
+    if (type.Ид) priceTypeNames.set(String(type.Ид), cmlText(type.Наименование) || String(type.Ид));
+  }
+
+  const productsById = new Map<string, CmlProduct>();
+  for (const product of cmlProducts) {
+    if (product.Ид) productsById.set(String(product.Ид), product);
+  }
+
+  // Offers carry price and stock; products without offers are kept without them
+  const offeredIds = new Set<string>();
+  const entries: Array<{ product?: CmlProduct; offer?: CmlOffer }> = cmlOffers.map((offer) => {
+    // Offer ids of product variants look like "<product id>#<variant id>"
+    const productId = String(offer.Ид || "").split("#")[0];
+    offeredIds.add(productId);
+    return { product: productsById.get(productId), offer };
+  });
+  for (const product of cmlProducts) {
+    if (!offeredIds.has(String(product.Ид))) entries.push({ product });
+  }
+
+  const products = entries.map(({ product, offer }): FeedProduct => {
+    const params: Record<string, unknown> = {};
+
+    for (const value of product?.ЗначенияСвойств?.ЗначенияСвойства || []) {
+      const name = propertyNames.get(String(value.Ид)) || "";
+      const values = (Array.isArray(value.Значение) ? value.Значение : [value.Значение])
+        .map((v) => cmlText(v))
+        .map((v) => dictionaryValues.get(v) ?? v)
+        .filter(Boolean);
+      if (name && values.length > 0) params[name] = values.join(", ");
+    }
+
+    for (const requisite of product?.ЗначенияРеквизитов?.ЗначениеРеквизита || []) {
+      const name = cmlText(requisite.Наименование);
+      const value = cmlText(requisite.Значение);
+      if (name && value && !SKIPPED_REQUISITES.includes(name)) params[name] = value;
+    }
+
+    const offerPrices = offer?.Цены?.Цена || [];
+    const price =
+      offerPrices.find((p) => retailPriceType && p.ИдТипаЦены === retailPriceType) || offerPrices[0];
+    const prices: Record<string, number> = {};
+    for (const entry of offerPrices) {
+      const typeId = entry.ИдТипаЦены ? String(entry.ИдТипаЦены) : "";
+      const type = priceTypeNames.get(typeId) || typeId;
+      const value = parsePrice(entry.ЦенаЗаЕдиницу);
+      if (type && value != null && !(type in prices)) prices[type] = value;
+    }
+
+    const stocks: StockEntry[] = [];
+    for (const stock of offer?.Склад || []) {
+      const code = stock["@_ИдСклада"];
+      const quantity = stock["@_КоличествоНаСкладе"];
+      if (code && quantity != null) {
+        stocks.push({ code: String(code), name: `Склад ${code}`, stockText: String(quantity) });
+      }
+    }
+    for (const rest of offer?.Остатки?.Остаток || []) {
+      const code = rest.Склад?.Ид;
+      if (code && rest.Склад?.Количество != null) {
+        stocks.push({
+          code: String(code),
+          name: `Склад ${code}`,
+          stockText: String(rest.Склад.Количество),
+        });
+      }
+    }
+
+    // Pictures are paths inside the 1C exchange package - only absolute URLs are usable
+    const picture = (product?.Картинка || [])
+      .map((p) => cmlText(p))
+      .find((p) => /^https?:\/\//i.test(p));
+
+    return {
+      externalId: String(offer?.Ид || product?.Ид || ""),
+      name: cmlText(product?.Наименование) || cmlText(offer?.Наименование),
+      vendorCode: cmlText(offer?.Артикул) || cmlText(product?.Артикул),
+      price: parsePrice(price?.ЦенаЗаЕдиницу),
+      prices,
+      description: cmlText(product?.Описание),
+      url: "",
+      picture,
+      vendor: cmlText(product?.Изготовитель?.Наименование),
+      params,
+      documents: [],
+      ...applyStock(params, stocks, offer?.Количество != null ? String(offer.Количество) : undefined),
+    };
+  });
+
+  return {
+    products,
+    warehouses: declaredWarehouses,
+    offersCount: entries.length,
+    encoding: Array.from(encodings).join(", ") || undefined,
+  };
+};
+
+// ============================================================================
+// Registry
+// ============================================================================
+
+const CATALOG_PARSERS: Record<CatalogFormat, CatalogParser> = {
+  [CatalogFormat.YML]: parseYml,
+  [CatalogFormat.CSV]: tabularParser(CatalogFormat.CSV),
+  [CatalogFormat.XLSX]: tabularParser(CatalogFormat.XLSX),
+  [CatalogFormat.COMMERCEML]: parseCommerceMl,
+};
+
+/**
+ * Guess the format by content: zip archive - XLSX, CommerceML root - 1C exchange,
+ * other XML - YML, anything else - CSV
+ */
+export function detectCatalogFormat(file: CatalogFile): CatalogFormat {
+  const head = new Uint8Array(file.data.slice(0, 4));
+  if (head[0] === 0x50 && head[1] === 0x4b) return CatalogFormat.XLSX; // "PK"
+  if (/\.xlsx$/i.test(file.name)) return CatalogFormat.XLSX;
+
+  // TextDecoder drops the BOM itself
+  const trimmed = decodeText(file.data.slice(0, 4096)).text.trimStart();
+  if (trimmed.startsWith("<")) {
+    return trimmed.includes("КоммерческаяИнформация")
+      ? CatalogFormat.COMMERCEML
+      : CatalogFormat.YML;
+  }
+  return CatalogFormat.CSV;
+}
+
+export function isTabularFormat(format: CatalogFormat): boolean {
+  return format === CatalogFormat.CSV || format === CatalogFormat.XLSX;
+}
+
+/**
+ * Parse catalog files of the given format into feed products
+ */
+export function parseCatalog(
+  format: CatalogFormat,
+  files: CatalogFile[],
+  options: ParseOptions = {}
+): Promise<ParsedCatalog> {
+  return CATALOG_PARSERS[format](files, options);
+}
+
+/**
+ * Download catalog files of a feed. CommerceML feeds may list import.xml and offers.xml
+ * separated by spaces, commas or new lines.
+ */
+export async function downloadCatalogFiles(url: string): Promise<CatalogFile[]> {
+  const urls = url.split(/[\s,]+/).filter(Boolean);
+
+  return Promise.all(
+    urls.map(async (fileUrl) => {
+      const response = await fetch(fileUrl);
+      if (!response.ok) {
+        throw new Error(
+          `Failed to fetch XML feed: ${response.status} ${response.statusText}`
+        );
+      }
+      return {
+        name: decodeURIComponent(new URL(fileUrl).pathname.split("/").pop() || fileUrl),
+        data: await response.arrayBuffer(),
+      };
+    })
+  );
+}
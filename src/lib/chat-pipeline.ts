@@ -0,0 +1,435 @@
+/**
+ * Chat Pipeline
+ *
+ * Ответ ассистента на сообщение пользователя, общий для веб-чата и Telegram-бота:
+ * 1. Мгновенные ответы на приветствия и семантический кэш
+ * 2. Поиск по артикулу: карточка товара или похожие артикулы
+ * 3. База знаний: ссылки на скачивание или ответ LLM по найденным фрагментам со ссылками на источники
+ * 4. Уточняющий вопрос, если ничего не найдено
+ *
+ * Ответ — поток типизированных событий (streamChatReply): token, product_card, download_links, citation,
+ * error и done. POST /api/chat/stream отдаёт их как SSE; answerChatMessage собирает их в один ответ,
+ * где карточки — JSON-строка в content (так их читают POST /api/chat, Telegram-бот и старая история чата).
+ * Закупочная цена собеседника добавляется в карточку отдельно (productCardDealerPrice): ответы кэшируются для всех.
+ */
+
+import prisma from "@/lib/prisma";
+import { KnowledgeType } from "@prisma/client";
+import { AIProviderSettings } from "@/lib/llm";
+import { streamLLM, StreamLLMParams } from "@/lib/llm-stream";
+import { withCache, aiSettingsCache, knowledgeBaseCache } from "@/lib/cache";
+import { aiResponseCache } from "@/lib/ai-cache";
+import { analyzeQuestion, getInstantResponse } from "@/lib/smart-router";
+import { retrieveRelevantChunks } from "@/lib/rag-service";
+import {
+  extractArticleCode,
+  isKnowledgeBaseRequest,
+  findExactProduct,
+  findSimilarProducts,
+  formatProductInfoPayload,
+  getCachedArticleResponse,
+  cacheArticleResponse,
+  ProductInfoPayload,
+} from "@/lib/article-service";
+import { countProducts } from "@/lib/product-catalog";
+import { findCatalogRows, normalizeVendorCode } from "@/lib/cart";
+import { dealerPrice, DealerPrice } from "@/lib/dealer-pricing";
+
+// Types
+export interface ChatAttachment {
+  name: string;
+  url: string;
+  type: string;
+}
+
+export interface ChatHistoryMessage {
+  role: "user" | "assistant";
+  content: string;
+}
+
+export interface ChatReply {
+  content: string;
+  attachments: ChatAttachment[];
+  cached?: boolean;
+  cacheHit?: boolean;
+  articleCache?: boolean;
+  responseTime?: number;
+}
+
+export interface DownloadLinkPayload {
+  type: "download_link";
+  data: { text: string; url: string | null };
+}
+
+export interface MultiDownloadLinksPayload {
+  type: "multi_download_links";
+  data: { items: ChatDownloadLink[] };
+}
+
+export interface ChatDownloadLink {
+  text: string;
+  url: string | null;
+  title: string;
+}
+
+// Knowledge base item the LLM answer is based on, numbered in the order of relevance
+export interface ChatCitation {
+  index: number;
+  title: string;
+  url: string | null;
+}
+
+export type ChatStreamEvent =
+  | { type: "token"; content: string }
+  | { type: "product_card"; data: ProductInfoPayload["data"] }
+  | { type: "download_links"; items: ChatDownloadLink[] }
+  | { type: "citation"; citation: ChatCitation }
+  | { type: "error"; message: string }
+  | {
+      type: "done";
+      attachments: ChatAttachment[];
+      cached?: boolean;
+      cacheHit?: boolean;
+      articleCache?: boolean;
+    };
+
+interface KnowledgeItem {
+  id: string;
+  title: string;
+  description: string | null;
+  content: string | null;
+  type: KnowledgeType;
+  url: string | null;
+  fileUrl: string | null;
+  imageUrl: string | null;
+  articleCode: string | null;
+}
+
+/**
+ * Answer a chat message as a sequence of events: text tokens, a product card, download links,
+ * knowledge base citations, then `done`. Rate limiting and queue capacity are the caller's concern.
+ */
+export async function* streamChatReply(
+  message: string,
+  chatHistory: ChatHistoryMessage[] = []
+): AsyncGenerator<ChatStreamEvent> {
+  // === OPTIMIZATION 1: Instant responses for greetings ===
+  const instantResponse = getInstantResponse(message);
+  if (instantResponse) {
+    yield { type: "token", content: instantResponse };
+    yield { type: "done", attachments: [], cached: true };
+    return;
+  }
+
+  // === OPTIMIZATION 2: Check semantic cache for similar questions ===
+  const cachedResponse = aiResponseCache.get(message);
+  if (cachedResponse) {
+    yield { type: "token", content: cachedResponse.response };
+    yield { type: "done", attachments: [], cached: true, cacheHit: true };
+    return;
+  }
+
+  // === OPTIMIZATION 3: Smart routing ===
+  analyzeQuestion(message);
+
+  // Load AI settings with caching (1 minute TTL)
+  const aiSettings = await withCache(aiSettingsCache, "ai-settings", () =>
+    prisma.aISettings.findFirst()
+  );
+
+  // Prepare LLM settings
+  const llmSettings: AIProviderSettings = {
+    provider: aiSettings?.provider || "openai",
+    apiKey: aiSettings?.apiKey,
+    baseUrl: aiSettings?.baseUrl,
+    model: aiSettings?.model || "gpt-4o-mini",
+    temperature: aiSettings?.temperature || 0.7,
+    maxTokens: aiSettings?.maxTokens || 2048,
+    systemPrompt: aiSettings?.systemPrompt,
+  };
+
+  // Load knowledge base and catalog size in parallel with caching
+  const [aiKnowledgeBase, catalogSize] = await Promise.all([
+    withCache(knowledgeBaseCache, "ai-sources", () =>
+      prisma.knowledgeBase.findMany({ where: { isAiSource: true } })
+    ),
+    countProducts(),
+  ]);
+
+  // === ARTICLE LOOKUP LOGIC ===
+  const articleCode = extractArticleCode(message);
+  const hasKnowledgeKeywords = isKnowledgeBaseRequest(message);
+
+  if (articleCode && catalogSize > 0 && !hasKnowledgeKeywords) {
+    const normalizedCode = articleCode.toLowerCase();
+
+    // === CHECK ARTICLE CACHE FIRST ===
+    const cachedArticle = getCachedArticleResponse(normalizedCode);
+    if (cachedArticle) {
+      const payload: ProductInfoPayload = JSON.parse(cachedArticle.content);
+      yield { type: "product_card", data: payload.data };
+      yield { type: "done", attachments: cachedArticle.attachments, cached: true, articleCache: true };
+      return;
+    }
+
+    const product = await findExactProduct(normalizedCode);
+
+    // === EXACT MATCH FOUND ===
+    if (product) {
+      const productInfoPayload = formatProductInfoPayload(product);
+
+      const aiAttachments = product.picture
+        ? [{ name: product.name, url: product.picture, type: "image" }]
+        : [];
+
+      // Cache the article response
+      cacheArticleResponse(normalizedCode, JSON.stringify(productInfoPayload), aiAttachments);
+
+      yield { type: "product_card", data: productInfoPayload.data };
+      yield { type: "done", attachments: aiAttachments };
+      return;
+    }
+
+    // === SIMILAR ARTICLES SEARCH ===
+    // Prefix and contains matches (e.g., "ABC12" matches "ABC12-1", "123" matches "ABC123")
+    const { products: limitedArticles, total } = await findSimilarProducts(normalizedCode, 15);
+
+    if (limitedArticles.length > 0) {
+      const suggestionText = `Точного артикула **${articleCode.toUpperCase()}** не найдено, но есть похожие варианты:\n\n${limitedArticles
+        .map((p) => `🔸 **${p.vendorCode}** — ${p.name}`)
+        .join("\n")}${total > 15 ? `\n\n...и ещё ${total - 15} вариантов` : ""}\n\nПожалуйста, уточните, какой именно артикул вас интересует.`;
+
+      yield { type: "token", content: suggestionText };
+      yield { type: "done", attachments: [] };
+      return;
+    }
+
+    // No similar articles found
+    yield {
+      type: "token",
+      content: `Извините, артикул **${articleCode.toUpperCase()}** не найден в базе данных. Проверьте правильность написания или попробуйте ввести часть артикула для поиска.`,
+    };
+    yield { type: "done", attachments: [] };
+    return;
+  }
+
+  // === GENERAL KNOWLEDGE BASE LOGIC ===
+  const knowledgeItems = aiKnowledgeBase.filter((item) => item.type !== KnowledgeType.XML_FEED);
+  let relevantItems: KnowledgeItem[] = [];
+  const chunksByItem = new Map<string, string[]>();
+
+  if (knowledgeItems.length > 0) {
+    // Top-k vector retrieval over indexed chunks (see rag-service)
+    const relevantChunks = await retrieveRelevantChunks(message, llmSettings);
+
+    for (const chunk of relevantChunks) {
+      if (!chunksByItem.has(chunk.knowledgeBaseId)) {
+        chunksByItem.set(chunk.knowledgeBaseId, []);
+      }
+      chunksByItem.get(chunk.knowledgeBaseId)!.push(chunk.content);
+    }
+
+    // Keep items ordered by their best matching chunk
+    relevantItems = Array.from(chunksByItem.keys())
+      .map((id) => knowledgeItems.find((item) => item.id === id))
+      .filter((item): item is (typeof knowledgeItems)[number] => !!item);
+
+    if (relevantItems.length > 0) {
+      // Apply keyword filters
+      const messageLower = message.toLowerCase();
+      const titleKeyword = ["логотип", "презентац", "каталог", "сертификат", "брендбук"].find(
+        (keyword) => messageLower.includes(keyword)
+      );
+      if (titleKeyword) {
+        relevantItems = relevantItems.filter((i) =>
+          i.title.toLowerCase().includes(titleKeyword)
+        );
+      }
+    }
+  }
+
+  // Check for download-type items (yandex_disk)
+  if (relevantItems.length > 0) {
+    const yandexDiskItems = relevantItems.filter((i) => i.type === KnowledgeType.YANDEX_DISK);
+    const downloadKeywords = [
+      "скачать",
+      "документ",
+      "файл",
+      "лого",
+      "каталог",
+      "инструкци",
+      "сертификат",
+      "брендбук",
+      "презентац",
+    ];
+    const isDirectDownloadRequest = downloadKeywords.some((kw) =>
+      message.toLowerCase().includes(kw)
+    );
+    const allRelevantAreYandexDisk = relevantItems.every(
+      (i) => i.type === KnowledgeType.YANDEX_DISK
+    );
+    const shouldShowAsCards =
+      isDirectDownloadRequest ||
+      (allRelevantAreYandexDisk && yandexDiskItems.length > 0 && yandexDiskItems.length <= 3);
+
+    if (yandexDiskItems.length > 0 && shouldShowAsCards) {
+      yield {
+        type: "download_links",
+        items: yandexDiskItems.map((item) => ({
+          text:
+            yandexDiskItems.length === 1
+              ? `Вы можете скачать "${item.title}" по следующей ссылке`
+              : `Скачать "${item.title}"`,
+          url: item.url,
+          title: item.title,
+        })),
+      };
+      yield { type: "done", attachments: [] };
+      return;
+    }
+
+    // Sources go out before the answer, so the client can show them while it streams
+    for (let index = 0; index < relevantItems.length; index++) {
+      const item = relevantItems[index];
+      yield {
+        type: "citation",
+        citation: { index: index + 1, title: item.title, url: item.url || item.fileUrl || null },
+      };
+    }
+
+    // Use LLM with context
+    const knowledgeContext = relevantItems
+      .map((item) => {
+        const matchedChunks = chunksByItem.get(item.id) || [];
+        let ctx = `Источник: ${item.title}\nОписание: ${item.description || ""}\nФрагменты:\n${matchedChunks.join("\n...\n")}`;
+        if (item.url) ctx += `\nСсылка на ресурс: ${item.url}`;
+        if (item.fileUrl) ctx += `\nСсылка на файл: ${item.fileUrl}`;
+        return ctx;
+      })
+      .join("\n\n---\n\n");
+
+    const systemPrompt = `${aiSettings?.systemPrompt || "Вы - полезный ИИ-ассистент."}
+
+Твоя главная задача — предоставлять пользователю точную информацию и прямые ссылки на материалы из базы знаний. Внимательно изучи предоставленный контекст.
+
+ПРАВИЛА ОТВЕТА:
+1. Отвечай СТРОГО на основе предоставленного контекста из базы знаний.
+2. Если в контексте для какого-либо материала есть "Ссылка на ресурс" или "Ссылка на файл", ты ОБЯЗАН включить эту ссылку в свой ответ. Форматируй ссылки как кликабельные, например: [Название ссылки](URL).
+3. Если ссылок несколько, предоставь их все.
+4. Не придумывай информацию. Если ответа нет в контексте, сообщи об этом.`;
+
+    const prompt = `Контекст из базы знаний:\n${knowledgeContext}\n\nИстория чата:\n${chatHistory
+      .slice(-5)
+      .map((msg) => `${msg.role}: ${msg.content}`)
+      .join("\n")}\n\nЗапрос пользователя: ${message}`;
+
+    const aiAttachments = relevantItems
+      .filter((i) => i.imageUrl)
+      .map((i) => ({ name: i.title, url: i.imageUrl!, type: "image" }));
+
+    yield* streamTokens({ prompt, systemPrompt, settings: llmSettings });
+    yield { type: "done", attachments: aiAttachments };
+    return;
+  }
+
+  // === FALLBACK: No relevant items found ===
+  const clarificationPrompt = `Я не смог найти точный ответ на запрос пользователя: "${message}".
+Проанализируй этот запрос и список тем, которые я знаю:
+${JSON.stringify(knowledgeItems.map((i) => i.title))}
+
+Сформируй дружелюбный уточняющий вопрос. Предложи 3-4 наиболее вероятные темы из списка, которые могли бы заинтересовать пользователя.
+Например: "Я не совсем уверен, что вы ищете. Возможно, вас интересует что-то из этого: ...?"`;
+
+  yield* streamTokens({ prompt: clarificationPrompt, settings: llmSettings });
+  yield { type: "done", attachments: [] };
+}
+
+/**
+ * LLM answer as token events; a failure mid-answer becomes an error event
+ */
+async function* streamTokens(params: StreamLLMParams): AsyncGenerator<ChatStreamEvent> {
+  try {
+    for await (const content of streamLLM(params)) {
+      yield { type: "token", content };
+    }
+  } catch {
+    yield { type: "error", message: "Ошибка при получении ответа. Попробуйте ещё раз." };
+  }
+}
+
+/**
+ * Answer a chat message as one reply: cards become JSON strings in content, as ChatMessage
+ * and the Telegram bot read them. Used where streaming is not possible.
+ */
+export async function answerChatMessage(
+  message: string,
+  chatHistory: ChatHistoryMessage[] = []
+): Promise<ChatReply> {
+  const reply: ChatReply = { content: "", attachments: [] };
+  let card: ProductInfoPayload | DownloadLinkPayload | MultiDownloadLinksPayload | null = null;
+
+  for await (const event of streamChatReply(message, chatHistory)) {
+    switch (event.type) {
+      case "token":
+        reply.content += event.content;
+        break;
+      case "product_card":
+        card = { type: "product_info", data: event.data };
+        break;
+      case "download_links":
+        card =
+          event.items.length === 1
+            ? { type: "download_link", data: { text: event.items[0].text, url: event.items[0].url } }
+            : { type: "multi_download_links", data: { items: event.items } };
+        break;
+      case "error":
+        if (!reply.content) throw new Error(event.message);
+        reply.content += `\n\n⚠️ ${event.message}`;
+        break;
+      case "done":
+        reply.attachments = event.attachments;
+        reply.cached = event.cached;
+        reply.cacheHit = event.cacheHit;
+        reply.articleCache = event.articleCache;
+        break;
+    }
+  }
+
+  if (card) reply.content = JSON.stringify(card);
+  return reply;
+}
+
+/**
+ * Purchase price of the caller for a product card, null without a mapped price type
+ */
+export async function productCardDealerPrice(
+  data: ProductInfoPayload["data"],
+  priceType: string | null
+): Promise<DealerPrice | null> {
+  if (!priceType) return null;
+  const row = (await findCatalogRows([data.vendorCode])).get(normalizeVendorCode(data.vendorCode));
+  return row ? dealerPrice(row, priceType) : null;
+}
+
+/**
+ * Add the caller's purchase price to a product card reply; other replies are returned as is
+ */
+export async function withDealerPrice(reply: ChatReply, priceType: string | null): Promise<ChatReply> {
+  if (!priceType || !reply.content.startsWith("{")) return reply;
+
+  let payload: ProductInfoPayload;
+  try {
+    payload = JSON.parse(reply.content);
+  } catch {
+    return reply;
+  }
+  if (payload?.type !== "product_info") return reply;
+
+  const price = await productCardDealerPrice(payload.data, priceType);
+  if (!price) return reply;
+
+  return {
+    ...reply,
+    content: JSON.stringify({ ...payload, data: { ...payload.data, dealerPrice: price } }),
+  };
+}
@@ -0,0 +1,21 @@
+/**
+ * Cron Auth
+ *
+ * Эндпоинты /api/cron/* вызываются внешним cron с заголовком Authorization: Bearer <CRON_SECRET>.
+ * Без CRON_SECRET они закрыты.
+ */
+
+import { timingSafeEqual } from "crypto";
+
+/**
+ * Check the cron secret in constant time, so it cannot be guessed from response timing
+ */
+export function isCronRequest(request: Request): boolean {
+  const secret = process.env.CRON_SECRET;
+  const header = request.headers.get("authorization");
+  if (!secret || !header) return false;
+
+  const received = Buffer.from(header);
+  const expected = Buffer.from(`Bearer ${secret}`);
+  return received.length === expected.length && timingSafeEqual(received, expected);
+}
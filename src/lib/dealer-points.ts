@@ -0,0 +1,221 @@
+/**
+ * Dealer Points
+ *
+ * Журнал бонусных баллов дилера:
+ * 1. Любое изменение баланса — запись в points_transactions (тип, причина, заказ, автор)
+ * 2. Баланс = сумма записей журнала; DealerProfile.pointsBalance — только кэш этой суммы
+ * 3. Баланс не может уйти в минус
+ */
+
+import prisma from "@/lib/prisma";
+import { Prisma, PointsTransactionType } from "@prisma/client";
+
+// Types
+export interface PointsEntryInput {
+  dealerProfileId: string;
+  type: PointsTransactionType;
+  amount: number; // sign is taken from the type, except for adjustments
+  reason: string;
+  orderId?: string | null;
+  redemptionId?: string | null;
+  createdById?: string | null;
+}
+
+export interface PointsStatementEntry {
+  id: string;
+  type: PointsTransactionType;
+  amount: number;
+  balanceAfter: number;
+  reason: string;
+  createdAt: Date;
+  order: { id: string; orderNumber: string } | null;
+  createdBy: { id: string; name: string } | null;
+}
+
+export interface PointsStatement {
+  balance: number;
+  items: PointsStatementEntry[];
+  total: number;
+}
+
+export type PointsEntryResult =
+  | { success: true; entry: PointsStatementEntry; balance: number }
+  | { success: false; error: string; status: number };
+
+const OPENING_BALANCE_REASON = "Остаток до ведения журнала";
+
+const entrySelect = {
+  id: true,
+  type: true,
+  amount: true,
+  balanceAfter: true,
+  reason: true,
+  createdAt: true,
+  order: { select: { id: true, orderNumber: true } },
+  createdBy: { select: { id: true, displayName: true, fullName: true, email: true } },
+} satisfies Prisma.PointsTransactionSelect;
+
+type EntryRow = Prisma.PointsTransactionGetPayload<{ select: typeof entrySelect }>;
+
+function toStatementEntry(row: EntryRow): PointsStatementEntry {
+  return {
+    ...row,
+    createdBy: row.createdBy
+      ? {
+          id: row.createdBy.id,
+          name: row.createdBy.displayName || row.createdBy.fullName || row.createdBy.email,
+        }
+      : null,
+  };
+}
+
+/**
+ * Signed amount for a transaction type: accruals always add, redemptions and
+ * expiry always subtract, adjustments keep the sign they were given
+ */
+export function signedAmount(type: PointsTransactionType, amount: number): number {
+  const value = Math.trunc(amount);
+  switch (type) {
+    case PointsTransactionType.ACCRUAL:
+      return Math.abs(value);
+    case PointsTransactionType.REDEMPTION:
+    case PointsTransactionType.EXPIRY:
+      return -Math.abs(value);
+    default:
+      return value;
+  }
+}
+
+/**
+ * Lock the profile row until commit and read it, so concurrent ledger writes
+ * of the same dealer are applied one after another and see each other's sums
+ */
+async function lockProfile(
+  tx: Prisma.TransactionClient,
+  dealerProfileId: string
+): Promise<{ id: string; pointsBalance: number } | null> {
+  const locked = await tx.dealerProfile.updateMany({
+    where: { id: dealerProfileId },
+    data: { updatedAt: new Date() },
+  });
+  if (!locked.count) return null;
+  return tx.dealerProfile.findUnique({
+    where: { id: dealerProfileId },
+    select: { id: true, pointsBalance: true },
+  });
+}
+
+/**
+ * Balances set by hand before the ledger existed get an opening entry
+ * the first time the ledger of the profile is touched. Call with the profile locked.
+ */
+async function ensureOpeningEntry(
+  tx: Prisma.TransactionClient,
+  profile: { id: string; pointsBalance: number }
+): Promise<void> {
+  if (profile.pointsBalance === 0) return;
+  const count = await tx.pointsTransaction.count({ where: { dealerProfileId: profile.id } });
+  if (count > 0) return;
+
+  await tx.pointsTransaction.create({
+    data: {
+      dealerProfileId: profile.id,
+      type: PointsTransactionType.OPENING,
+      amount: profile.pointsBalance,
+      balanceAfter: profile.pointsBalance,
+      reason: OPENING_BALANCE_REASON,
+    },
+  });
+}
+
+/**
+ * Write a ledger entry and refresh the cached balance.
+ * Pass a transaction client to make the entry part of a larger transaction.
+ */
+export async function addPointsTransaction(
+  input: PointsEntryInput,
+  client?: Prisma.TransactionClient
+): Promise<PointsEntryResult> {
+  const amount = signedAmount(input.type, input.amount);
+  const reason = input.reason.trim();
+  if (amount === 0) {
+    return { success: false, error: "Amount must not be zero", status: 400 };
+  }
+  if (!reason) {
+    return { success: false, error: "Reason is required", status: 400 };
+  }
+
+  const run = async (tx: Prisma.TransactionClient): Promise<PointsEntryResult> => {
+    const profile = await lockProfile(tx, input.dealerProfileId);
+    if (!profile) {
+      return { success: false, error: "Dealer profile not found", status: 404 };
+    }
+
+    await ensureOpeningEntry(tx, profile);
+
+    const sum = await tx.pointsTransaction.aggregate({
+      where: { dealerProfileId: profile.id },
+      _sum: { amount: true },
+    });
+    const balance = (sum._sum.amount || 0) + amount;
+    if (balance < 0) {
+      return { success: false, error: "Insufficient points balance", status: 400 };
+    }
+
+    const entry = await tx.pointsTransaction.create({
+      data: {
+        dealerProfileId: profile.id,
+        type: input.type,
+        amount,
+        balanceAfter: balance,
+        reason,
+        orderId: input.orderId || null,
+        redemptionId: input.redemptionId || null,
+        createdById: input.createdById || null,
+      },
+      select: entrySelect,
+    });
+    await tx.dealerProfile.update({
+      where: { id: profile.id },
+      data: { pointsBalance: balance },
+    });
+
+    return { success: true, entry: toStatementEntry(entry), balance };
+  };
+
+  return client ? run(client) : prisma.$transaction(run);
+}
+
+/**
+ * Points statement of a dealer, newest entries first
+ */
+export async function getPointsStatement(
+  dealerProfileId: string,
+  options: { limit?: number; offset?: number } = {}
+): Promise<PointsStatement | null> {
+  // Two statements opened at once must not both write the opening entry
+  const profile = await prisma.$transaction(async (tx) => {
+    const locked = await lockProfile(tx, dealerProfileId);
+    if (locked) await ensureOpeningEntry(tx, locked);
+    return locked;
+  });
+  if (!profile) return null;
+
+  const where = { dealerProfileId };
+  const [items, total] = await Promise.all([
+    prisma.pointsTransaction.findMany({
+      where,
+      orderBy: { createdAt: "desc" },
+      take: Math.min(options.limit || 50, 200),
+      skip: options.offset || 0,
+      select: entrySelect,
+    }),
+    prisma.pointsTransaction.count({ where }),
+  ]);
+
+  return {
+    balance: profile.pointsBalance,
+    items: items.map(toStatementEntry),
+    total,
+  };
+}
@@ -0,0 +1,168 @@
+/**
+ * Dealer Pricing
+ *
+ * Закупочные цены по типам цен фида:
+ * 1. Фид отдаёт несколько цен на товар (<price type="...">, типы цен CommerceML) — все хранятся в products.prices,
+ *    розничная (RRC) остаётся в products.price
+ * 2. Админ сопоставляет тир дилера или тип пользователя с типом цены (price_type_mappings)
+ * 3. Тип цены пользователя: сначала по текущему тиру, затем по типу пользователя; без сопоставления закупки нет
+ * 4. Маржа = розничная цена − закупочная, в процентах от розничной
+ *
+ * Закупочные цены видит только сам пользователь: в публичные предложения и письма они не попадают.
+ */
+
+import prisma from "@/lib/prisma";
+import { DealerProfile, DealerTier, UserType } from "@prisma/client";
+import { withCache, productIndexCache } from "@/lib/cache";
+
+// Types
+export type PriceAudience = DealerTier | UserType;
+
+export interface Margin {
+  margin: number;
+  marginPercent: number; // of the retail price
+}
+
+export interface DealerPrice extends Margin {
+  priceType: string;
+  purchasePrice: number;
+}
+
+export interface PurchaseTotals extends Margin {
+  priceType: string;
+  purchaseTotal: number;
+}
+
+export type PriceTypeMappings = Partial<Record<PriceAudience, string>>;
+
+// Tiers first: a dealer's tier mapping wins over the DEALER one
+export const PRICE_AUDIENCES: PriceAudience[] = [
+  DealerTier.TIER1,
+  DealerTier.TIER2,
+  DealerTier.TIER3,
+  DealerTier.TIER4,
+  UserType.DEALER,
+  UserType.MANAGER,
+  UserType.USER,
+];
+
+const MAPPINGS_CACHE_KEY = "price-type-mappings";
+const PRICE_TYPES_CACHE_KEY = "feed-price-types";
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+export function isPriceAudience(value: unknown): value is PriceAudience {
+  return PRICE_AUDIENCES.includes(value as PriceAudience);
+}
+
+export async function getPriceTypeMappings(): Promise<PriceTypeMappings> {
+  const rows = await withCache(productIndexCache, MAPPINGS_CACHE_KEY, () =>
+    prisma.priceTypeMapping.findMany()
+  );
+  const mappings: PriceTypeMappings = {};
+  for (const row of rows) {
+    if (isPriceAudience(row.audience)) mappings[row.audience] = row.priceType;
+  }
+  return mappings;
+}
+
+/**
+ * Replace the mapping of the given audiences; an empty price type removes the mapping
+ */
+export async function savePriceTypeMappings(
+  mappings: Partial<Record<PriceAudience, string | null>>
+): Promise<PriceTypeMappings> {
+  await prisma.$transaction(
+    PRICE_AUDIENCES.filter((audience) => audience in mappings).map((audience) => {
+      const priceType = mappings[audience]?.trim();
+      return priceType
+        ? prisma.priceTypeMapping.upsert({
+            where: { audience },
+            create: { audience, priceType },
+            update: { priceType },
+          })
+        : prisma.priceTypeMapping.deleteMany({ where: { audience } });
+    })
+  );
+  productIndexCache.delete(MAPPINGS_CACHE_KEY);
+  return getPriceTypeMappings();
+}
+
+/**
+ * Price types present in the catalog (cached together with the product catalog)
+ */
+export async function listFeedPriceTypes(): Promise<string[]> {
+  return withCache(productIndexCache, PRICE_TYPES_CACHE_KEY, async () => {
+    const rows = await prisma.$queryRaw<Array<{ type: string }>>`
+      SELECT DISTINCT jsonb_object_keys(prices) AS type FROM products ORDER BY type
+    `;
+    return rows.map((row) => row.type);
+  });
+}
+
+/**
+ * Tier a dealer is priced by: an active manual tier, otherwise the current one
+ */
+function pricingTier(profile: DealerProfile): DealerTier {
+  const manual =
+    profile.manualTierEnabled &&
+    profile.manualTier &&
+    (!profile.manualTierExpiresAt || profile.manualTierExpiresAt > new Date());
+  return manual ? profile.manualTier! : profile.currentTier;
+}
+
+/**
+ * Feed price type of a user, null when nothing is mapped for them
+ */
+export async function resolvePriceType(
+  user: { userType: UserType; dealerProfile?: DealerProfile | null } | null
+): Promise<string | null> {
+  if (!user) return null;
+  const mappings = await getPriceTypeMappings();
+  const tier = user.dealerProfile ? pricingTier(user.dealerProfile) : null;
+  return (tier && mappings[tier]) || mappings[user.userType] || null;
+}
+
+export async function resolveUserPriceType(userId: string): Promise<string | null> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { userType: true, dealerProfile: true },
+  });
+  return resolvePriceType(user);
+}
+
+export function marginOf(retail: number, purchase: number): Margin {
+  return {
+    margin: round2(retail - purchase),
+    marginPercent: retail > 0 ? Math.round(((retail - purchase) / retail) * 1000) / 10 : 0,
+  };
+}
+
+/**
+ * Purchase price of a catalog row for a price type.
+ * `multiplier` turns the feed unit into the selling one (m² per package for calculator products).
+ */
+export function dealerPrice(
+  row: { price: number | null; prices: unknown },
+  priceType: string | null | undefined,
+  multiplier = 1
+): DealerPrice | null {
+  if (!priceType || !row.price) return null;
+  const value = (row.prices as Record<string, unknown> | null)?.[priceType];
+  if (typeof value !== "number" || !Number.isFinite(value) || value <= 0) return null;
+
+  const purchasePrice = round2(value * multiplier);
+  return { priceType, purchasePrice, ...marginOf(round2(row.price * multiplier), purchasePrice) };
+}
+
+/**
+ * Purchase total against a retail total, null when nothing was priced
+ */
+export function purchaseTotals(
+  priceType: string | null | undefined,
+  retailTotal: number,
+  purchaseTotal: number | null
+): PurchaseTotals | null {
+  if (!priceType || purchaseTotal == null) return null;
+  return { priceType, purchaseTotal: round2(purchaseTotal), ...marginOf(retailTotal, purchaseTotal) };
+}
@@ -0,0 +1,380 @@
+/**
+ * Dealer Tiers
+ *
+ * Автоматический расчёт тиров дилеров:
+ * 1. Пороги оборота из BonusSettings (tier1Threshold..tier4Threshold)
+ * 2. Оборот и число заказов за месяц — по доставленным заказам дилера
+ * 3. Переход месяца: оборот прошлого месяца сохраняется в lastMonthTurnover
+ * 4. Каждое изменение тира пишется в DealerTierChangeLog
+ * 5. Прогресс дилера: сколько не хватает до следующего порога и прогноз оборота на конец месяца
+ */
+
+import prisma from "@/lib/prisma";
+import { BonusSettings, DealerTier, OrderStatus } from "@prisma/client";
+import { notifyTierChanged } from "@/lib/notifications";
+
+// Types
+export type TierThresholds = Pick<
+  BonusSettings,
+  "tier1Threshold" | "tier2Threshold" | "tier3Threshold" | "tier4Threshold"
+>;
+
+export interface DealerTurnover {
+  turnover: number;
+  ordersCount: number;
+}
+
+export interface TierRecalculationResult {
+  processed: number;
+  updated: number;
+  changes: Array<{
+    dealerProfileId: string;
+    previousTier: DealerTier;
+    newTier: DealerTier;
+    reason: string;
+  }>;
+}
+
+export interface TierLevel {
+  tier: DealerTier;
+  name: string;
+  threshold: number;
+}
+
+export interface TierProgress {
+  month: string;
+  currentTier: DealerTier;
+  currentTierName: string;
+  manualTier: boolean; // set by an admin, turnover does not change it
+  turnover: number; // delivered this month
+  ordersCount: number;
+  lastMonthTurnover: number;
+  monthTier: DealerTier; // tier earned by this month's turnover alone
+  nextTier: TierLevel | null; // level above the held tier (or monthTier if higher), null at the top
+  remaining: number; // turnover still needed for nextTier
+  progress: number; // 0..1 towards nextTier, from the threshold of monthTier once the held tier is reached
+  openOrdersTotal: number; // confirmed but not delivered yet
+  projection: {
+    turnover: number; // month-end turnover at the current pace
+    tier: DealerTier;
+    daysElapsed: number;
+    daysInMonth: number;
+  };
+  levels: TierLevel[];
+  history: Array<{
+    id: string;
+    previousTier: DealerTier;
+    newTier: DealerTier;
+    direction: "up" | "down";
+    reason: string | null;
+    createdAt: Date;
+  }>;
+}
+
+// Schema defaults, used until an admin saves the bonus settings
+const DEFAULT_THRESHOLDS: TierThresholds = {
+  tier1Threshold: 0,
+  tier2Threshold: 500000,
+  tier3Threshold: 1000000,
+  tier4Threshold: 3000000,
+};
+
+const DEFAULT_TIER_NAMES: Record<DealerTier, string> = {
+  [DealerTier.TIER1]: "Базовый",
+  [DealerTier.TIER2]: "Серебряный",
+  [DealerTier.TIER3]: "Золотой",
+  [DealerTier.TIER4]: "Платиновый",
+};
+
+const TIER_ORDER: DealerTier[] = [
+  DealerTier.TIER1,
+  DealerTier.TIER2,
+  DealerTier.TIER3,
+  DealerTier.TIER4,
+];
+
+// Orders that are expected to be delivered and counted later
+const OPEN_ORDER_STATUSES: OrderStatus[] = [
+  OrderStatus.CONFIRMED,
+  OrderStatus.PROCESSING,
+  OrderStatus.SHIPPED,
+];
+
+/** Month key as stored in DealerProfile.updatedMonth, e.g. "2026-03" */
+export function monthKey(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}`;
+}
+
+function monthRange(date: Date, offset: number = 0): { start: Date; end: Date } {
+  const start = new Date(date.getFullYear(), date.getMonth() + offset, 1);
+  const end = new Date(date.getFullYear(), date.getMonth() + offset + 1, 1);
+  return { start, end };
+}
+
+export async function getTierThresholds(): Promise<TierThresholds> {
+  const settings = await prisma.bonusSettings.findFirst();
+  return settings || DEFAULT_THRESHOLDS;
+}
+
+export function computeTier(turnover: number, thresholds: TierThresholds): DealerTier {
+  if (turnover >= thresholds.tier4Threshold) return DealerTier.TIER4;
+  if (turnover >= thresholds.tier3Threshold) return DealerTier.TIER3;
+  if (turnover >= thresholds.tier2Threshold) return DealerTier.TIER2;
+  return DealerTier.TIER1;
+}
+
+/**
+ * Turnover of delivered orders per user for a month.
+ * An order counts in the month it was delivered (the DELIVERED history entry);
+ * orders delivered before the status history existed fall back to updatedAt.
+ */
+export async function getDeliveredTurnover(
+  userIds: string[],
+  start: Date,
+  end: Date
+): Promise<Map<string, DealerTurnover>> {
+  const [withHistory, legacy] = await Promise.all([
+    prisma.order.findMany({
+      where: {
+        userId: { in: userIds },
+        status: OrderStatus.DELIVERED,
+        statusHistory: {
+          some: { toStatus: OrderStatus.DELIVERED, createdAt: { gte: start, lt: end } },
+        },
+      },
+      select: { userId: true, totalCost: true },
+    }),
+    prisma.order.findMany({
+      where: {
+        userId: { in: userIds },
+        status: OrderStatus.DELIVERED,
+        updatedAt: { gte: start, lt: end },
+        statusHistory: { none: { toStatus: OrderStatus.DELIVERED } },
+      },
+      select: { userId: true, totalCost: true },
+    }),
+  ]);
+
+  const byUser = new Map<string, DealerTurnover>();
+  for (const order of [...withHistory, ...legacy]) {
+    if (!order.userId) continue;
+    const current = byUser.get(order.userId) || { turnover: 0, ordersCount: 0 };
+    current.turnover += order.totalCost;
+    current.ordersCount += 1;
+    byUser.set(order.userId, current);
+  }
+  return byUser;
+}
+
+/**
+ * Recalculate turnover and tiers of dealer profiles (all of them by default).
+ * The auto tier follows the better of the current and the previous month,
+ * so a dealer keeps last month's tier while building up the new month.
+ */
+export async function recalculateDealerTiers(
+  options: { userIds?: string[]; changedBy?: string | null; now?: Date } = {}
+): Promise<TierRecalculationResult> {
+  const now = options.now || new Date();
+  const currentMonth = monthKey(now);
+
+  const profiles = await prisma.dealerProfile.findMany({
+    where: options.userIds ? { userId: { in: options.userIds } } : undefined,
+  });
+  const result: TierRecalculationResult = { processed: profiles.length, updated: 0, changes: [] };
+  if (profiles.length === 0) return result;
+
+  const userIds = profiles.map((p) => p.userId);
+  const thisMonth = monthRange(now);
+  const lastMonth = monthRange(now, -1);
+  const [settings, currentTurnover, lastTurnover] = await Promise.all([
+    prisma.bonusSettings.findFirst(),
+    getDeliveredTurnover(userIds, thisMonth.start, thisMonth.end),
+    getDeliveredTurnover(userIds, lastMonth.start, lastMonth.end),
+  ]);
+  const thresholds = settings || DEFAULT_THRESHOLDS;
+  const levels = tierLevels(settings);
+
+  for (const profile of profiles) {
+    const current = currentTurnover.get(profile.userId) || { turnover: 0, ordersCount: 0 };
+    const last = lastTurnover.get(profile.userId) || { turnover: 0, ordersCount: 0 };
+    const newAutoTier = computeTier(Math.max(current.turnover, last.turnover), thresholds);
+
+    // Manual tier wins while it is enabled and not expired
+    const manualExpired =
+      profile.manualTierEnabled &&
+      !!profile.manualTierExpiresAt &&
+      profile.manualTierExpiresAt <= now;
+    const manualActive = profile.manualTierEnabled && !!profile.manualTier && !manualExpired;
+    const newCurrentTier = manualActive ? (profile.manualTier as DealerTier) : newAutoTier;
+
+    const changed =
+      profile.autoTier !== newAutoTier ||
+      profile.currentTier !== newCurrentTier ||
+      profile.monthlyTurnover !== current.turnover ||
+      profile.lastMonthTurnover !== last.turnover ||
+      profile.ordersCountMonth !== current.ordersCount ||
+      profile.updatedMonth !== currentMonth ||
+      manualExpired;
+
+    if (!changed) continue;
+
+    let reason: string | null = null;
+    if (profile.currentTier !== newCurrentTier) {
+      reason = manualExpired
+        ? "Истёк срок ручного тира"
+        : `Автопересчёт: оборот ${Math.max(current.turnover, last.turnover).toLocaleString("ru-RU")} ₽`;
+    }
+
+    await prisma.$transaction([
+      prisma.dealerProfile.update({
+        where: { id: profile.id },
+        data: {
+          autoTier: newAutoTier,
+          currentTier: newCurrentTier,
+          monthlyTurnover: current.turnover,
+          lastMonthTurnover: last.turnover,
+          ordersCountMonth: current.ordersCount,
+          updatedMonth: currentMonth,
+          lastRecalculatedAt: now,
+          ...(manualExpired && {
+            manualTierEnabled: false,
+            manualTier: null,
+            manualTierExpiresAt: null,
+          }),
+        },
+      }),
+      ...(reason
+        ? [
+            prisma.dealerTierChangeLog.create({
+              data: {
+                dealerProfileId: profile.id,
+                previousTier: profile.currentTier,
+                newTier: newCurrentTier,
+                reason,
+                changedBy: options.changedBy || null,
+              },
+            }),
+          ]
+        : []),
+    ]);
+
+    result.updated++;
+    if (reason) {
+      result.changes.push({
+        dealerProfileId: profile.id,
+        previousTier: profile.currentTier,
+        newTier: newCurrentTier,
+        reason,
+      });
+      await notifyTierChanged(profile.userId, {
+        previousTier: profile.currentTier,
+        newTier: newCurrentTier,
+        newTierName: levels[TIER_ORDER.indexOf(newCurrentTier)].name,
+      }).catch((error) => console.error("Error sending tier change notification:", error));
+    }
+  }
+
+  return result;
+}
+
+export function tierLevels(settings: BonusSettings | null): TierLevel[] {
+  const thresholds = settings || DEFAULT_THRESHOLDS;
+  return TIER_ORDER.map((tier, index) => {
+    const n = index + 1;
+    return {
+      tier,
+      name:
+        (settings?.[`tier${n}Name` as keyof BonusSettings] as string | undefined) ||
+        DEFAULT_TIER_NAMES[tier],
+      threshold: thresholds[`tier${n}Threshold` as keyof TierThresholds],
+    };
+  });
+}
+
+/**
+ * Progress of a dealer towards the next tier in the current month.
+ * Turnover is counted live from delivered orders, so the widget does not wait
+ * for the next recalculation; the projection extrapolates the pace so far.
+ */
+export async function getTierProgress(
+  dealerProfileId: string,
+  now: Date = new Date()
+): Promise<TierProgress | null> {
+  const profile = await prisma.dealerProfile.findUnique({
+    where: { id: dealerProfileId },
+    include: {
+      tierChangeLogs: { orderBy: { createdAt: "desc" }, take: 20 },
+    },
+  });
+  if (!profile) return null;
+
+  const thisMonth = monthRange(now);
+  const lastMonth = monthRange(now, -1);
+  const [settings, currentTurnover, lastTurnover, openOrders] = await Promise.all([
+    prisma.bonusSettings.findFirst(),
+    getDeliveredTurnover([profile.userId], thisMonth.start, thisMonth.end),
+    getDeliveredTurnover([profile.userId], lastMonth.start, lastMonth.end),
+    prisma.order.aggregate({
+      where: { userId: profile.userId, status: { in: OPEN_ORDER_STATUSES } },
+      _sum: { totalCost: true },
+    }),
+  ]);
+
+  const levels = tierLevels(settings);
+  const thresholds = settings || DEFAULT_THRESHOLDS;
+  const current = currentTurnover.get(profile.userId) || { turnover: 0, ordersCount: 0 };
+  const last = lastTurnover.get(profile.userId) || { turnover: 0, ordersCount: 0 };
+
+  const monthTier = computeTier(current.turnover, thresholds);
+  const monthIndex = TIER_ORDER.indexOf(monthTier);
+  // The next level is above the tier the dealer holds, not just above this month's turnover
+  const heldIndex = TIER_ORDER.indexOf(profile.currentTier);
+  const nextTier = levels[Math.max(heldIndex, monthIndex) + 1] || null;
+  const floor = monthIndex >= heldIndex ? levels[monthIndex].threshold : 0;
+  const progress = nextTier
+    ? Math.min(1, Math.max(0, (current.turnover - floor) / (nextTier.threshold - floor || 1)))
+    : 1;
+
+  const msPerDay = 24 * 60 * 60 * 1000;
+  const daysInMonth = Math.round((thisMonth.end.getTime() - thisMonth.start.getTime()) / msPerDay);
+  // At least one day, so the first hours of a month do not blow up the pace
+  const daysElapsed = Math.max(1, (now.getTime() - thisMonth.start.getTime()) / msPerDay);
+  const projectedTurnover = Math.round((current.turnover / daysElapsed) * daysInMonth);
+
+  const nameOf = (tier: DealerTier) => levels[TIER_ORDER.indexOf(tier)].name;
+  const manualActive =
+    profile.manualTierEnabled &&
+    !!profile.manualTier &&
+    (!profile.manualTierExpiresAt || profile.manualTierExpiresAt > now);
+
+  return {
+    month: monthKey(now),
+    currentTier: profile.currentTier,
+    currentTierName: nameOf(profile.currentTier),
+    manualTier: manualActive,
+    turnover: current.turnover,
+    ordersCount: current.ordersCount,
+    lastMonthTurnover: last.turnover,
+    monthTier,
+    nextTier,
+    remaining: nextTier ? Math.max(0, nextTier.threshold - current.turnover) : 0,
+    progress,
+    openOrdersTotal: openOrders._sum.totalCost || 0,
+    projection: {
+      turnover: projectedTurnover,
+      tier: computeTier(projectedTurnover, thresholds),
+      daysElapsed: Math.floor(daysElapsed),
+      daysInMonth,
+    },
+    levels,
+    history: profile.tierChangeLogs.map((log) => ({
+      id: log.id,
+      previousTier: log.previousTier,
+      newTier: log.newTier,
+      direction:
+        TIER_ORDER.indexOf(log.newTier) >= TIER_ORDER.indexOf(log.previousTier) ? "up" : "down",
+      reason: log.reason,
+      createdAt: log.createdAt,
+    })),
+  };
+}
@@ -0,0 +1,197 @@
+/**
+ * Email Templates
+ *
+ * Шаблоны писем: тема, HTML и текстовая версия из одних данных.
+ * Все значения экранируются; общая обёртка задаёт шапку и подвал писем.
+ */
+
+// Types
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export interface EmailOrderLine {
+  productName: string;
+  articleCode?: string | null;
+  quantity: number;
+  unit?: string | null;
+  price: number;
+  total?: number | null;
+}
+
+export interface EmailTemplateData {
+  test: { sentBy: string };
+  accountApproved: { name: string | null; appUrl: string };
+  orderConfirmation: {
+    name: string | null;
+    orderNumber: string;
+    items: EmailOrderLine[];
+    totalCost: number;
+    deliveryAddress: string | null;
+    comment: string | null;
+    appUrl: string;
+  };
+  quoteShared: {
+    senderName: string | null;
+    quoteTitle: string;
+    lines: EmailOrderLine[];
+    totalCost: number;
+    discountPercent?: number | null;
+    message?: string | null;
+    quoteUrl?: string | null;
+  };
+}
+
+export type EmailTemplateName = keyof EmailTemplateData;
+
+const BRAND = "Floor Service";
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+const rub = (value: number) => `${Math.round(value).toLocaleString("ru-RU")} ₽`;
+
+function layout(title: string, body: string): string {
+  return `<!doctype html>
+<html lang="ru">
+<body style="margin:0;padding:24px;background:#f1f5f9;font-family:Arial,Helvetica,sans-serif;color:#0f172a">
+  <table role="presentation" width="100%" style="max-width:600px;margin:0 auto;background:#ffffff;border-radius:12px;overflow:hidden">
+    <tr><td style="background:#007AFF;color:#ffffff;padding:20px 24px;font-size:20px;font-weight:bold">${BRAND}</td></tr>
+    <tr><td style="padding:24px">
+      <h1 style="margin:0 0 16px;font-size:20px">${escapeHtml(title)}</h1>
+      ${body}
+    </td></tr>
+    <tr><td style="padding:16px 24px;font-size:12px;color:#64748b;border-top:1px solid #e2e8f0">
+      Это письмо отправлено автоматически, отвечать на него не нужно.
+    </td></tr>
+  </table>
+</body>
+</html>`;
+}
+
+function button(url: string, label: string): string {
+  return `<p style="margin:24px 0"><a href="${escapeHtml(url)}" style="background:#007AFF;color:#ffffff;padding:10px 18px;border-radius:8px;text-decoration:none">${escapeHtml(label)}</a></p>`;
+}
+
+function linesTable(lines: EmailOrderLine[]): string {
+  const rows = lines
+    .map((line) => {
+      const total = line.total ?? line.price * line.quantity;
+      return `<tr>
+        <td style="padding:6px 0;border-bottom:1px solid #e2e8f0">${escapeHtml(line.productName)}${
+          line.articleCode
+            ? `<br><span style="color:#64748b;font-size:12px">${escapeHtml(line.articleCode)}</span>`
+            : ""
+        }</td>
+        <td style="padding:6px 8px;border-bottom:1px solid #e2e8f0;text-align:right;white-space:nowrap">${line.quantity} ${escapeHtml(line.unit || "шт")}</td>
+        <td style="padding:6px 0;border-bottom:1px solid #e2e8f0;text-align:right;white-space:nowrap">${rub(total)}</td>
+      </tr>`;
+    })
+    .join("");
+  return `<table role="presentation" width="100%" style="border-collapse:collapse;font-size:14px">${rows}</table>`;
+}
+
+function linesText(lines: EmailOrderLine[]): string {
+  return lines
+    .map((line) => {
+      const total = line.total ?? line.price * line.quantity;
+      return `- ${line.productName}${line.articleCode ? ` (${line.articleCode})` : ""}: ${line.quantity} ${line.unit || "шт"} — ${rub(total)}`;
+    })
+    .join("\n");
+}
+
+const greeting = (name: string | null) => (name ? `Здравствуйте, ${name}!` : "Здравствуйте!");
+
+const templates: { [N in EmailTemplateName]: (data: EmailTemplateData[N]) => RenderedEmail } = {
+  test: (data) => ({
+    subject: `${BRAND}: тестовое письмо`,
+    html: layout(
+      "Тестовое письмо",
+      `<p>Настройки почты работают. Письмо отправлено из админ-панели пользователем ${escapeHtml(data.sentBy)}.</p>`
+    ),
+    text: `Настройки почты работают. Письмо отправлено из админ-панели пользователем ${data.sentBy}.`,
+  }),
+
+  accountApproved: (data) => ({
+    subject: `${BRAND}: ваш аккаунт одобрен`,
+    html: layout(
+      "Аккаунт одобрен",
+      `<p>${escapeHtml(greeting(data.name))}</p>
+      <p>Администратор одобрил вашу регистрацию — теперь вам доступны чат-ассистент, база знаний, каталог и заказы.</p>
+      ${button(data.appUrl, "Открыть приложение")}`
+    ),
+    text: `${greeting(data.name)}\n\nАдминистратор одобрил вашу регистрацию — теперь вам доступны чат-ассистент, база знаний, каталог и заказы.\n\n${data.appUrl}`,
+  }),
+
+  orderConfirmation: (data) => ({
+    subject: `${BRAND}: заказ ${data.orderNumber} принят`,
+    html: layout(
+      `Заказ ${data.orderNumber} принят`,
+      `<p>${escapeHtml(greeting(data.name))}</p>
+      <p>Мы получили ваш заказ и свяжемся с вами для подтверждения.</p>
+      ${linesTable(data.items)}
+      <p style="font-size:16px;font-weight:bold;text-align:right">Итого: ${rub(data.totalCost)}</p>
+      ${data.deliveryAddress ? `<p>Адрес: ${escapeHtml(data.deliveryAddress)}</p>` : ""}
+      ${data.comment ? `<p>Комментарий: ${escapeHtml(data.comment)}</p>` : ""}
+      ${button(`${data.appUrl}/account/orders`, "История заказов")}`
+    ),
+    text: [
+      greeting(data.name),
+      "",
+      `Мы получили заказ ${data.orderNumber} и свяжемся с вами для подтверждения.`,
+      "",
+      linesText(data.items),
+      "",
+      `Итого: ${rub(data.totalCost)}`,
+      data.deliveryAddress ? `Адрес: ${data.deliveryAddress}` : "",
+      data.comment ? `Комментарий: ${data.comment}` : "",
+      "",
+      `${data.appUrl}/account/orders`,
+    ]
+      .filter((line, index, all) => line !== "" || all[index - 1] !== "")
+      .join("\n"),
+  }),
+
+  quoteShared: (data) => {
+    const from = data.senderName ? `${data.senderName} отправил(а) вам` : "Вам отправлено";
+    return {
+      subject: `${BRAND}: коммерческое предложение «${data.quoteTitle}»`,
+      html: layout(
+        data.quoteTitle,
+        `<p>${escapeHtml(from)} коммерческое предложение.</p>
+        ${data.message ? `<p style="white-space:pre-line">${escapeHtml(data.message)}</p>` : ""}
+        ${linesTable(data.lines)}
+        ${data.discountPercent ? `<p style="text-align:right">Скидка: ${data.discountPercent}%</p>` : ""}
+        <p style="font-size:16px;font-weight:bold;text-align:right">Итого: ${rub(data.totalCost)}</p>
+        ${data.quoteUrl ? button(data.quoteUrl, "Открыть предложение") : ""}`
+      ),
+      text: [
+        `${from} коммерческое предложение «${data.quoteTitle}».`,
+        data.message || "",
+        "",
+        linesText(data.lines),
+        "",
+        data.discountPercent ? `Скидка: ${data.discountPercent}%` : "",
+        `Итого: ${rub(data.totalCost)}`,
+        data.quoteUrl || "",
+      ]
+        .filter(Boolean)
+        .join("\n"),
+    };
+  },
+};
+
+export function renderEmailTemplate<N extends EmailTemplateName>(
+  name: N,
+  data: EmailTemplateData[N]
+): RenderedEmail {
+  return templates[name](data);
+}
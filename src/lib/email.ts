@@ -0,0 +1,120 @@
+/**
+ * Email
+ *
+ * Отправка писем через SMTP из настроек интеграции «email» (integration_configs):
+ * 1. Канал выключен или не настроен — письмо не отправляется, вызывающий код получает причину
+ * 2. Без логина SMTP подключается без авторизации — так работают локальные перехватчики писем (Mailpit, MailHog)
+ * 3. Письма собираются из шаблонов email-templates
+ */
+
+import nodemailer from "nodemailer";
+import { getIntegration, EmailIntegrationConfig } from "@/lib/integrations";
+import {
+  renderEmailTemplate,
+  EmailTemplateData,
+  EmailTemplateName,
+} from "@/lib/email-templates";
+
+// Types
+export type EmailResult =
+  | { success: true; messageId: string }
+  | { success: false; error: string; skipped?: boolean }; // skipped: the channel is off
+
+const SMTP_TIMEOUT = 10000;
+
+export function appUrl(): string {
+  return (process.env.NEXTAUTH_URL || "http://localhost:3000").replace(/\/$/, "");
+}
+
+function createTransport(config: EmailIntegrationConfig) {
+  return nodemailer.createTransport({
+    host: config.host,
+    port: config.port,
+    secure: config.secure,
+    auth: config.user ? { user: config.user, pass: config.password } : undefined,
+    connectionTimeout: SMTP_TIMEOUT,
+    greetingTimeout: SMTP_TIMEOUT,
+    socketTimeout: SMTP_TIMEOUT,
+  });
+}
+
+/**
+ * Send a templated email. Does not throw: SMTP errors come back as a failed result.
+ * Pass `force` to send while the channel is disabled (test sends from the admin panel).
+ */
+export async function sendTemplateEmail<N extends EmailTemplateName>(
+  to: string,
+  template: N,
+  data: EmailTemplateData[N],
+  options: { force?: boolean } = {}
+): Promise<EmailResult> {
+  const recipient = to.trim();
+  if (!recipient) {
+    return { success: false, error: "Recipient is required" };
+  }
+
+  const { isEnabled, config } = await getIntegration("email");
+  if (!isEnabled && !options.force) {
+    return { success: false, error: "Email channel is disabled", skipped: true };
+  }
+  if (!config.host || !config.fromEmail) {
+    return { success: false, error: "SMTP host and sender are required" };
+  }
+
+  const message = renderEmailTemplate(template, data);
+  try {
+    const info = await createTransport(config).sendMail({
+      from: config.fromName ? { name: config.fromName, address: config.fromEmail } : config.fromEmail,
+      to: recipient,
+      replyTo: config.replyTo || undefined,
+      subject: message.subject,
+      html: message.html,
+      text: message.text,
+    });
+    return { success: true, messageId: info.messageId };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "SMTP error",
+    };
+  }
+}
+
+// ============================================================================
+// Events
+// ============================================================================
+
+export async function sendAccountApprovedEmail(user: {
+  email: string;
+  fullName: string | null;
+  displayName: string | null;
+}): Promise<EmailResult> {
+  return sendTemplateEmail(user.email, "accountApproved", {
+    name: user.fullName || user.displayName,
+    appUrl: appUrl(),
+  });
+}
+
+export async function sendOrderConfirmationEmail(order: {
+  orderNumber: string;
+  items: unknown;
+  totalCost: number;
+  contactName: string | null;
+  contactEmail: string | null;
+  deliveryAddress: string | null;
+  comment: string | null;
+  user: { email: string; fullName: string | null } | null;
+}): Promise<EmailResult> {
+  const to = order.contactEmail || order.user?.email;
+  if (!to) return { success: false, error: "Order has no email", skipped: true };
+
+  return sendTemplateEmail(to, "orderConfirmation", {
+    name: order.contactName || order.user?.fullName || null,
+    orderNumber: order.orderNumber,
+    items: (order.items as EmailTemplateData["orderConfirmation"]["items"]) || [],
+    totalCost: order.totalCost,
+    deliveryAddress: order.deliveryAddress,
+    comment: order.comment,
+    appUrl: appUrl(),
+  });
+}
@@ -0,0 +1,252 @@
+/**
+ * Saved Estimates
+ *
+ * Расчёты калькулятора, сохранённые в личном кабинете:
+ * 1. Сохраняются товар, площадь (и форма помещения), способ укладки, скидка и результат расчёта
+ * 2. Цена и м² в упаковке берутся из каталога на сервере — цены с клиента не принимаются
+ * 3. «Пересчитать» обновляет результат по текущей цене фида, «Копия» — новый расчёт с теми же данными
+ * 4. Заказ оформляется обычным путём: упаковки кладутся в корзину, заказ создаётся через /api/orders
+ */
+
+import prisma from "@/lib/prisma";
+import { Prisma, SavedEstimate } from "@prisma/client";
+import { findCatalogRows, normalizeVendorCode } from "@/lib/cart";
+import {
+  calculateFlooring,
+  CalculatorResults,
+  clampDiscount,
+  InstallationType,
+  isInstallationType,
+} from "@/lib/calculator";
+import { measureShape, parseRoomShape, RoomShape } from "@/lib/room-shape";
+
+// Types
+export interface EstimateInput {
+  title?: string | null;
+  vendorCode: string;
+  area: number;
+  shape?: RoomShape | null;
+  installationType: InstallationType;
+  discountPercent?: number;
+}
+
+export interface EstimateView {
+  id: string;
+  title: string;
+  vendorCode: string;
+  productName: string;
+  picture: string | null;
+  area: number;
+  shape: RoomShape | null;
+  installationType: InstallationType;
+  discountPercent: number;
+  areaPerPackage: number;
+  pricePerM2: number;
+  results: CalculatorResults;
+  pricedAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type EstimateResult =
+  | { success: true; estimate: EstimateView }
+  | { success: false; error: string; status: number };
+
+const MAX_AREA = 100000;
+
+export function toEstimateView(estimate: SavedEstimate): EstimateView {
+  return {
+    id: estimate.id,
+    title: estimate.title,
+    vendorCode: estimate.vendorCode,
+    productName: estimate.productName,
+    picture: estimate.picture,
+    area: estimate.area,
+    shape: (estimate.shape as unknown as RoomShape | null) || null,
+    installationType: estimate.installationType as InstallationType,
+    discountPercent: estimate.discountPercent,
+    areaPerPackage: estimate.areaPerPackage,
+    pricePerM2: estimate.pricePerM2,
+    results: estimate.results as unknown as CalculatorResults,
+    pricedAt: estimate.pricedAt,
+    createdAt: estimate.createdAt,
+    updatedAt: estimate.updatedAt,
+  };
+}
+
+/**
+ * Validate a raw estimate from a request body. Returns null when it is malformed.
+ * With a shape the area is measured from it.
+ */
+export function parseEstimateInput(body: Record<string, unknown>): EstimateInput | null {
+  const shape = body.shape == null ? null : parseRoomShape(body.shape);
+  if (body.shape != null && !shape) return null;
+
+  const area = shape ? measureShape(shape).area : parseFloat(String(body.area ?? "").replace(",", "."));
+  if (
+    typeof body.vendorCode !== "string" ||
+    !body.vendorCode.trim() ||
+    !Number.isFinite(area) ||
+    area <= 0 ||
+    area > MAX_AREA ||
+    !isInstallationType(body.installationType)
+  ) {
+    return null;
+  }
+
+  return {
+    title: typeof body.title === "string" ? body.title : null,
+    vendorCode: body.vendorCode.trim(),
+    area,
+    shape,
+    installationType: body.installationType,
+    discountPercent: clampDiscount(body.discountPercent),
+  };
+}
+
+/**
+ * Catalog data and calculator results for an estimate
+ */
+async function priceEstimate(input: {
+  vendorCode: string;
+  area: number;
+  installationType: InstallationType;
+  discountPercent: number;
+}): Promise<
+  | {
+      data: Omit<
+        Prisma.SavedEstimateUncheckedCreateInput,
+        "userId" | "title" | "area" | "shape" | "installationType" | "discountPercent"
+      >;
+    }
+  | { error: string }
+> {
+  // Estimates saved before installation types were checked strictly may hold anything here
+  if (!isInstallationType(input.installationType)) {
+    return { error: `Unknown installation type ${input.installationType}` };
+  }
+
+  const catalog = await findCatalogRows([input.vendorCode]);
+  const row = catalog.get(normalizeVendorCode(input.vendorCode));
+  if (!row) return { error: `Product ${input.vendorCode} not found` };
+  if (!row.price || !row.areaPerPackage) {
+    return { error: `Product ${input.vendorCode} has no price or package size` };
+  }
+
+  const results = calculateFlooring({
+    area: input.area,
+    installationType: input.installationType,
+    discountPercent: input.discountPercent,
+    areaPerPackage: row.areaPerPackage,
+    pricePerM2: row.price,
+  });
+
+  return {
+    data: {
+      vendorCode: row.vendorCode,
+      productName: row.name,
+      picture: row.picture || null,
+      areaPerPackage: row.areaPerPackage,
+      pricePerM2: row.price,
+      results: results as unknown as Prisma.InputJsonValue,
+      pricedAt: new Date(),
+    },
+  };
+}
+
+export async function createEstimate(userId: string, input: EstimateInput): Promise<EstimateResult> {
+  const discountPercent = clampDiscount(input.discountPercent);
+  const priced = await priceEstimate({ ...input, discountPercent });
+  if ("error" in priced) return { success: false, error: priced.error, status: 400 };
+
+  const estimate = await prisma.savedEstimate.create({
+    data: {
+      userId,
+      title: input.title?.trim().slice(0, 200) || `${priced.data.productName}, ${input.area} м²`,
+      area: input.area,
+      shape: input.shape ? (input.shape as unknown as Prisma.InputJsonValue) : Prisma.DbNull,
+      installationType: input.installationType,
+      discountPercent,
+      ...priced.data,
+    },
+  });
+
+  return { success: true, estimate: toEstimateView(estimate) };
+}
+
+export async function listEstimates(userId: string): Promise<EstimateView[]> {
+  const estimates = await prisma.savedEstimate.findMany({
+    where: { userId },
+    orderBy: { createdAt: "desc" },
+  });
+  return estimates.map(toEstimateView);
+}
+
+export async function getEstimate(userId: string, id: string): Promise<EstimateView | null> {
+  const estimate = await prisma.savedEstimate.findFirst({ where: { id, userId } });
+  return estimate ? toEstimateView(estimate) : null;
+}
+
+export async function renameEstimate(userId: string, id: string, title: string): Promise<EstimateResult> {
+  const trimmed = title.trim();
+  if (!trimmed) return { success: false, error: "Title is required", status: 400 };
+
+  const { count } = await prisma.savedEstimate.updateMany({
+    where: { id, userId },
+    data: { title: trimmed.slice(0, 200) },
+  });
+  if (count === 0) return { success: false, error: "Estimate not found", status: 404 };
+
+  return { success: true, estimate: (await getEstimate(userId, id))! };
+}
+
+/**
+ * Copy with the same input and results; the copy can then be renamed or re-priced on its own
+ */
+export async function duplicateEstimate(userId: string, id: string): Promise<EstimateResult> {
+  const source = await prisma.savedEstimate.findFirst({ where: { id, userId } });
+  if (!source) return { success: false, error: "Estimate not found", status: 404 };
+
+  const {
+    id: _id,
+    createdAt: _createdAt,
+    updatedAt: _updatedAt,
+    shape,
+    results,
+    ...copy
+  } = source;
+  const estimate = await prisma.savedEstimate.create({
+    data: {
+      ...copy,
+      title: `${source.title} (копия)`.slice(0, 200),
+      shape: shape === null ? Prisma.DbNull : (shape as Prisma.InputJsonValue),
+      results: results as Prisma.InputJsonValue,
+    },
+  });
+
+  return { success: true, estimate: toEstimateView(estimate) };
+}
+
+/**
+ * Recalculate with the current feed price and package size
+ */
+export async function repriceEstimate(userId: string, id: string): Promise<EstimateResult> {
+  const source = await prisma.savedEstimate.findFirst({ where: { id, userId } });
+  if (!source) return { success: false, error: "Estimate not found", status: 404 };
+
+  const priced = await priceEstimate({
+    vendorCode: source.vendorCode,
+    area: source.area,
+    installationType: source.installationType as InstallationType,
+    discountPercent: source.discountPercent,
+  });
+  if ("error" in priced) return { success: false, error: priced.error, status: 409 };
+
+  const estimate = await prisma.savedEstimate.update({ where: { id }, data: priced.data });
+  return { success: true, estimate: toEstimateView(estimate) };
+}
+
+export async function deleteEstimate(userId: string, id: string): Promise<boolean> {
+  const { count } = await prisma.savedEstimate.deleteMany({ where: { id, userId } });
+  return count > 0;
+}
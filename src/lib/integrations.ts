@@ -0,0 +1,133 @@
+/**
+ * Integrations
+ *
+ * Настройки внешних каналов в integration_configs (одна строка на канал, config — JSON провайдера):
+ * 1. email — SMTP-сервер и отправитель
+ * 2. telegram — токен бота, адрес Bot API и секрет вебхука
+ * 3. Пароли и токены не возвращаются в админку: вместо них флаг «задан», пустое значение при сохранении
+ *    оставляет прежний секрет
+ */
+
+import prisma from "@/lib/prisma";
+import { Prisma } from "@prisma/client";
+
+// Types
+export type IntegrationName = "email" | "telegram";
+
+export interface EmailIntegrationConfig {
+  host: string;
+  port: number;
+  secure: boolean; // TLS from the start (465); otherwise STARTTLS when the server offers it
+  user: string;
+  password: string;
+  fromEmail: string;
+  fromName: string;
+  replyTo: string;
+}
+
+export interface TelegramIntegrationConfig {
+  botToken: string;
+  botUsername: string; // filled from getMe when the webhook is set
+  apiBaseUrl: string; // Bot API server; point it at a local fake for development
+  webhookSecret: string; // expected in X-Telegram-Bot-Api-Secret-Token
+}
+
+export interface IntegrationConfigMap {
+  email: EmailIntegrationConfig;
+  telegram: TelegramIntegrationConfig;
+}
+
+export interface Integration<N extends IntegrationName> {
+  name: N;
+  isEnabled: boolean;
+  config: IntegrationConfigMap[N];
+}
+
+export const INTEGRATION_NAMES: IntegrationName[] = ["email", "telegram"];
+
+const DEFAULT_CONFIGS: IntegrationConfigMap = {
+  email: {
+    host: "",
+    port: 587,
+    secure: false,
+    user: "",
+    password: "",
+    fromEmail: "",
+    fromName: "Floor Service",
+    replyTo: "",
+  },
+  telegram: {
+    botToken: "",
+    botUsername: "",
+    apiBaseUrl: "https://api.telegram.org",
+    webhookSecret: "",
+  },
+};
+
+// Keys that are never sent back to the browser
+const SECRET_KEYS: Record<IntegrationName, string[]> = {
+  email: ["password"],
+  telegram: ["botToken", "webhookSecret"],
+};
+
+export function isIntegrationName(name: unknown): name is IntegrationName {
+  return typeof name === "string" && (INTEGRATION_NAMES as string[]).includes(name);
+}
+
+export async function getIntegration<N extends IntegrationName>(name: N): Promise<Integration<N>> {
+  const row = await prisma.integrationConfig.findUnique({ where: { name } });
+  const stored = (row?.config || {}) as Partial<IntegrationConfigMap[N]>;
+  return {
+    name,
+    isEnabled: row?.isEnabled ?? false,
+    config: { ...DEFAULT_CONFIGS[name], ...stored },
+  };
+}
+
+/**
+ * Integration for the admin form: secrets are replaced with "<key>Set" flags
+ */
+export function maskIntegration<N extends IntegrationName>(
+  integration: Integration<N>
+): { name: N; isEnabled: boolean; config: Record<string, unknown> } {
+  const config = { ...integration.config } as unknown as Record<string, unknown>;
+  for (const key of SECRET_KEYS[integration.name]) {
+    config[`${key}Set`] = !!config[key];
+    delete config[key];
+  }
+  return { name: integration.name, isEnabled: integration.isEnabled, config };
+}
+
+/**
+ * Save an integration. Only known keys are stored; empty secrets keep the stored value.
+ */
+export async function saveIntegration<N extends IntegrationName>(
+  name: N,
+  input: { isEnabled?: boolean; config?: Record<string, unknown> }
+): Promise<Integration<N>> {
+  const current = await getIntegration(name);
+  const defaults = DEFAULT_CONFIGS[name] as unknown as Record<string, unknown>;
+  const next = { ...current.config } as unknown as Record<string, unknown>;
+
+  for (const [key, value] of Object.entries(input.config || {})) {
+    if (!(key in defaults) || value === undefined) continue;
+    if (SECRET_KEYS[name].includes(key) && (value === "" || value === null)) continue;
+
+    const expected = typeof defaults[key];
+    if (expected === "number") next[key] = Number(value) || 0;
+    else if (expected === "boolean") next[key] = value === true;
+    else next[key] = String(value ?? "").trim();
+  }
+
+  const data = {
+    isEnabled: input.isEnabled ?? current.isEnabled,
+    config: next as Prisma.InputJsonValue,
+  };
+  await prisma.integrationConfig.upsert({
+    where: { name },
+    create: { name, ...data },
+    update: data,
+  });
+
+  return getIntegration(name);
+}
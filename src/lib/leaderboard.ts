@@ -0,0 +1,427 @@
+/**
+ * Dealer Leaderboard
+ *
+ * Рейтинг дилеров по заработанным баллам:
+ * 1. Периоды: месяц, квартал и всё время; очки — начисления и корректировки журнала баллов за период
+ *    (обмен на награды рейтинг не уменьшает)
+ * 2. Фильтр по региону дилерского профиля и городу пользователя, места пересчитываются внутри выборки
+ * 3. В конце месяца и квартала рейтинг замораживается в leaderboard_snapshots
+ * 4. Движение места — сравнение с предыдущим периодом того же типа
+ * 5. Другим дилерам имя показывается по выбору дилера (имя, псевдоним, аноним), а набор полей задаёт
+ *    администратор в bonus_settings; внутренние id чужих строк наружу не отдаются
+ */
+
+import prisma from "@/lib/prisma";
+import {
+  BonusSettings,
+  DealerTier,
+  LeaderboardPeriodType,
+  LeaderboardVisibility,
+  PointsTransactionType,
+  Prisma,
+  UserType,
+} from "@prisma/client";
+
+// Types
+export type LeaderboardPeriod = "month" | "quarter" | "all";
+
+export interface LeaderboardEntry {
+  userId: string;
+  name: string;
+  region: string | null;
+  city: string | null;
+  tier: DealerTier;
+  points: number;
+  rank: number;
+}
+
+export interface RankedEntry extends LeaderboardEntry {
+  previousRank: number | null;
+}
+
+export interface Leaderboard {
+  period: LeaderboardPeriod;
+  key: string | null; // null for all-time
+  frozen: boolean;
+  frozenAt: Date | null;
+  entries: RankedEntry[];
+  pastKeys: string[]; // frozen periods of the same type, newest first
+  regions: string[];
+  cities: string[];
+}
+
+export interface LeaderboardFields {
+  showNames: boolean;
+  showCompany: boolean;
+  showLocation: boolean;
+  showTier: boolean;
+  showPoints: boolean;
+}
+
+// What a viewer receives: hidden fields are null, other dealers are not identified by id
+export interface PublicLeaderboardEntry {
+  rank: number;
+  previousRank: number | null;
+  name: string;
+  company: string | null;
+  region: string | null;
+  city: string | null;
+  tier: DealerTier | null;
+  points: number | null;
+  isMe: boolean;
+}
+
+export interface PublicLeaderboard extends Omit<Leaderboard, "entries"> {
+  entries: PublicLeaderboardEntry[];
+  fields: LeaderboardFields;
+}
+
+export const ANONYMOUS_DEALER_NAME = "Анонимный дилер";
+
+const PERIOD_TYPES: Record<Exclude<LeaderboardPeriod, "all">, LeaderboardPeriodType> = {
+  month: LeaderboardPeriodType.MONTH,
+  quarter: LeaderboardPeriodType.QUARTER,
+};
+
+// Earned points: accruals and manual adjustments. Refunds of rejected
+// redemptions are adjustments too, but they only give back spent points.
+// The opening balance (OPENING) was earned before the ledger and is not scored.
+const SCORED_ENTRIES: Prisma.PointsTransactionWhereInput = {
+  type: { in: [PointsTransactionType.ACCRUAL, PointsTransactionType.ADJUSTMENT] },
+  redemptionId: null,
+};
+
+export function currentPeriodKey(period: Exclude<LeaderboardPeriod, "all">, date: Date): string {
+  const year = date.getFullYear();
+  if (period === "quarter") return `${year}-Q${Math.floor(date.getMonth() / 3) + 1}`;
+  return `${year}-${String(date.getMonth() + 1).padStart(2, "0")}`;
+}
+
+/** Start and end (exclusive) of a period key, null if the key is malformed */
+export function periodRange(
+  period: Exclude<LeaderboardPeriod, "all">,
+  key: string
+): { start: Date; end: Date } | null {
+  const match =
+    period === "quarter" ? key.match(/^(\d{4})-Q([1-4])$/) : key.match(/^(\d{4})-(\d{2})$/);
+  if (!match) return null;
+
+  const year = parseInt(match[1], 10);
+  const index = parseInt(match[2], 10);
+  if (period === "month" && (index < 1 || index > 12)) return null;
+
+  const firstMonth = period === "quarter" ? (index - 1) * 3 : index - 1;
+  const months = period === "quarter" ? 3 : 1;
+  return {
+    start: new Date(year, firstMonth, 1),
+    end: new Date(year, firstMonth + months, 1),
+  };
+}
+
+export function previousPeriodKey(period: Exclude<LeaderboardPeriod, "all">, key: string): string | null {
+  const range = periodRange(period, key);
+  if (!range) return null;
+  return currentPeriodKey(period, new Date(range.start.getTime() - 1));
+}
+
+/**
+ * Competition ranking: equal points share a place, the next place is skipped ("1, 2, 2, 4").
+ * Ties are ordered by user id: ordering by name would reveal the names behind anonymous entries.
+ */
+function assignRanks<T extends { points: number; userId: string }>(rows: T[]): Array<T & { rank: number }> {
+  const sorted = [...rows].sort(
+    (a, b) => b.points - a.points || (a.userId < b.userId ? -1 : a.userId > b.userId ? 1 : 0)
+  );
+  let rank = 0;
+  return sorted.map((row, index) => {
+    if (index === 0 || sorted[index - 1].points !== row.points) rank = index + 1;
+    return { ...row, rank };
+  });
+}
+
+/**
+ * Live leaderboard of all dealers for a date range (all time when no range is given)
+ */
+export async function computeLeaderboard(
+  range: { start: Date; end: Date } | null
+): Promise<LeaderboardEntry[]> {
+  const [dealers, sums] = await Promise.all([
+    prisma.user.findMany({
+      where: { userType: UserType.DEALER, dealerProfile: { isNot: null } },
+      select: {
+        id: true,
+        fullName: true,
+        displayName: true,
+        city: true,
+        dealerProfile: { select: { id: true, region: true, currentTier: true } },
+      },
+    }),
+    prisma.pointsTransaction.groupBy({
+      by: ["dealerProfileId"],
+      where: {
+        ...SCORED_ENTRIES,
+        ...(range && { createdAt: { gte: range.start, lt: range.end } }),
+      },
+      _sum: { amount: true },
+    }),
+  ]);
+
+  const pointsByProfile = new Map(sums.map((s) => [s.dealerProfileId, s._sum.amount || 0]));
+
+  return assignRanks(
+    dealers.map((d) => ({
+      userId: d.id,
+      name: d.fullName || d.displayName || "",
+      region: d.dealerProfile!.region,
+      city: d.city,
+      tier: d.dealerProfile!.currentTier,
+      points: pointsByProfile.get(d.dealerProfile!.id) || 0,
+    }))
+  );
+}
+
+/**
+ * Entries of a period: the frozen snapshot if there is one, otherwise computed live
+ */
+async function loadPeriodEntries(
+  period: Exclude<LeaderboardPeriod, "all">,
+  key: string
+): Promise<{ entries: LeaderboardEntry[]; frozenAt: Date | null }> {
+  const snapshot = await prisma.leaderboardSnapshot.findUnique({
+    where: { periodType_periodKey: { periodType: PERIOD_TYPES[period], periodKey: key } },
+  });
+  if (snapshot) {
+    return {
+      entries: snapshot.entries as unknown as LeaderboardEntry[],
+      frozenAt: snapshot.createdAt,
+    };
+  }
+
+  const range = periodRange(period, key);
+  return { entries: range ? await computeLeaderboard(range) : [], frozenAt: null };
+}
+
+function same(a: string | null, b: string): boolean {
+  return (a || "").trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+function applyFilters(
+  entries: LeaderboardEntry[],
+  filters: { region?: string | null; city?: string | null }
+): LeaderboardEntry[] {
+  if (!filters.region && !filters.city) return entries;
+  return assignRanks(
+    entries.filter(
+      (e) =>
+        (!filters.region || same(e.region, filters.region)) &&
+        (!filters.city || same(e.city, filters.city))
+    )
+  );
+}
+
+function distinctValues(values: Array<string | null>): string[] {
+  const byLower = new Map<string, string>();
+  for (const value of values) {
+    const trimmed = value?.trim();
+    if (trimmed && !byLower.has(trimmed.toLowerCase())) byLower.set(trimmed.toLowerCase(), trimmed);
+  }
+  return Array.from(byLower.values()).sort((a, b) => a.localeCompare(b, "ru"));
+}
+
+export async function getLeaderboard(options: {
+  period: LeaderboardPeriod;
+  key?: string | null;
+  region?: string | null;
+  city?: string | null;
+  now?: Date;
+}): Promise<Leaderboard | null> {
+  const now = options.now || new Date();
+
+  if (options.period === "all") {
+    const entries = await computeLeaderboard(null);
+    return {
+      period: "all",
+      key: null,
+      frozen: false,
+      frozenAt: null,
+      entries: applyFilters(entries, options).map((e) => ({ ...e, previousRank: null })),
+      pastKeys: [],
+      regions: distinctValues(entries.map((e) => e.region)),
+      cities: distinctValues(entries.map((e) => e.city)),
+    };
+  }
+
+  const period = options.period;
+  const key = options.key || currentPeriodKey(period, now);
+  if (!periodRange(period, key)) return null;
+
+  const previousKey = previousPeriodKey(period, key);
+  const [current, previous, snapshots] = await Promise.all([
+    loadPeriodEntries(period, key),
+    previousKey ? loadPeriodEntries(period, previousKey) : null,
+    prisma.leaderboardSnapshot.findMany({
+      where: { periodType: PERIOD_TYPES[period] },
+      orderBy: { periodKey: "desc" },
+      select: { periodKey: true },
+    }),
+  ]);
+
+  const entries = applyFilters(current.entries, options);
+  const previousRanks = new Map(
+    applyFilters(previous?.entries || [], options)
+      // Nobody was "ranked" in a period without any points
+      .filter((e) => e.points > 0)
+      .map((e) => [e.userId, e.rank])
+  );
+
+  return {
+    period,
+    key,
+    frozen: !!current.frozenAt,
+    frozenAt: current.frozenAt,
+    entries: entries.map((e) => ({ ...e, previousRank: previousRanks.get(e.userId) ?? null })),
+    pastKeys: snapshots.map((s) => s.periodKey),
+    regions: distinctValues(current.entries.map((e) => e.region)),
+    cities: distinctValues(current.entries.map((e) => e.city)),
+  };
+}
+
+export function leaderboardFields(
+  settings: Pick<
+    BonusSettings,
+    | "leaderboardShowNames"
+    | "leaderboardShowCompany"
+    | "leaderboardShowLocation"
+    | "leaderboardShowTier"
+    | "leaderboardShowPoints"
+  > | null
+): LeaderboardFields {
+  return {
+    showNames: settings?.leaderboardShowNames ?? true,
+    showCompany: settings?.leaderboardShowCompany ?? false,
+    showLocation: settings?.leaderboardShowLocation ?? true,
+    showTier: settings?.leaderboardShowTier ?? true,
+    showPoints: settings?.leaderboardShowPoints ?? true,
+  };
+}
+
+const FULL_ACCESS: LeaderboardFields = {
+  showNames: true,
+  showCompany: true,
+  showLocation: true,
+  showTier: true,
+  showPoints: true,
+};
+
+/**
+ * Leaderboard as seen by a viewer. Names are resolved from the current profiles,
+ * so a changed privacy choice also applies to frozen periods. The viewer's own row
+ * is always shown in full; admins see every field and real names.
+ */
+export async function getPublicLeaderboard(
+  options: Parameters<typeof getLeaderboard>[0],
+  viewer: { id: string; isAdmin: boolean }
+): Promise<PublicLeaderboard | null> {
+  const settings = await prisma.bonusSettings.findFirst();
+  const fields = viewer.isAdmin ? FULL_ACCESS : leaderboardFields(settings);
+
+  // Location filters would reveal where hidden dealers are
+  const board = await getLeaderboard(
+    fields.showLocation ? options : { ...options, region: null, city: null }
+  );
+  if (!board) return null;
+
+  const profiles = await prisma.dealerProfile.findMany({
+    where: { userId: { in: board.entries.map((e) => e.userId) } },
+    select: {
+      userId: true,
+      companyName: true,
+      leaderboardVisibility: true,
+      leaderboardAlias: true,
+      user: { select: { fullName: true, displayName: true } },
+    },
+  });
+  const profileByUser = new Map(profiles.map((p) => [p.userId, p]));
+
+  const entries = board.entries.map((entry): PublicLeaderboardEntry => {
+    const isMe = entry.userId === viewer.id;
+    const visible = isMe ? FULL_ACCESS : fields;
+    const profile = profileByUser.get(entry.userId);
+    const realName = profile?.user.fullName || profile?.user.displayName || null;
+    const alias = profile?.leaderboardAlias?.trim() || null;
+
+    let name: string;
+    let identified = false;
+    if (viewer.isAdmin) {
+      name = realName || alias || ANONYMOUS_DEALER_NAME;
+      identified = true;
+    } else if (profile?.leaderboardVisibility === LeaderboardVisibility.ANONYMOUS) {
+      name = ANONYMOUS_DEALER_NAME;
+    } else if (profile?.leaderboardVisibility === LeaderboardVisibility.ALIAS && alias) {
+      name = alias;
+    } else if (fields.showNames && realName) {
+      name = realName;
+      identified = true;
+    } else {
+      name = alias || ANONYMOUS_DEALER_NAME;
+    }
+
+    return {
+      rank: entry.rank,
+      previousRank: entry.previousRank,
+      name,
+      // The company would identify a dealer who chose an alias
+      company: visible.showCompany && (identified || isMe) ? profile?.companyName || null : null,
+      region: visible.showLocation ? entry.region : null,
+      city: visible.showLocation ? entry.city : null,
+      tier: visible.showTier ? entry.tier : null,
+      points: visible.showPoints ? entry.points : null,
+      isMe,
+    };
+  });
+
+  return {
+    ...board,
+    entries,
+    fields,
+    regions: fields.showLocation ? board.regions : [],
+    cities: fields.showLocation ? board.cities : [],
+  };
+}
+
+/**
+ * Freeze the leaderboards of the periods that ended before `now`:
+ * the previous month and the previous quarter. Already frozen periods are skipped.
+ */
+export async function freezeLeaderboardSnapshots(now: Date = new Date()): Promise<string[]> {
+  const frozen: string[] = [];
+
+  for (const period of ["month", "quarter"] as const) {
+    const key = previousPeriodKey(period, currentPeriodKey(period, now));
+    if (!key) continue;
+
+    const exists = await prisma.leaderboardSnapshot.findUnique({
+      where: { periodType_periodKey: { periodType: PERIOD_TYPES[period], periodKey: key } },
+      select: { id: true },
+    });
+    if (exists) continue;
+
+    const entries = await computeLeaderboard(periodRange(period, key));
+    try {
+      await prisma.leaderboardSnapshot.create({
+        data: {
+          periodType: PERIOD_TYPES[period],
+          periodKey: key,
+          entries: entries as unknown as Prisma.InputJsonValue,
+        },
+      });
+      frozen.push(`${period}:${key}`);
+    } catch (error) {
+      // Another run froze it first
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") continue;
+      throw error;
+    }
+  }
+
+  return frozen;
+}
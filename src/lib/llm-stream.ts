@@ -43,7 +43,7 @@ export interface StreamLLMParams {
 }
 
 /**
- * Stream LLM response using Server-Sent Events
+ * Stream LLM response chunk by chunk
  */
 export async function* streamLLM(params: StreamLLMParams): AsyncGenerator<string> {
   const { prompt, systemPrompt, settings } = params;
@@ -82,29 +82,8 @@ export async function* streamLLM(params: StreamLLMParams): AsyncGenerator<string
       }
     }
   } catch (error) {
+    // The caller decides how to report it (see chat-pipeline: an `error` event)
     console.error("[LLM Stream] Error:", error);
-    yield "\n\n⚠️ Ошибка при получении ответа.";
+    throw error;
   }
 }
-
-/**
- * Create a ReadableStream for Next.js streaming response
- */
-export function createLLMStream(params: StreamLLMParams): ReadableStream<Uint8Array> {
-  const encoder = new TextEncoder();
-
-  return new ReadableStream({
-    async start(controller) {
-      try {
-        for await (const chunk of streamLLM(params)) {
-          controller.enqueue(encoder.encode(`data: ${JSON.stringify({ content: chunk })}\n\n`));
-        }
-        controller.enqueue(encoder.encode("data: [DONE]\n\n"));
-      } catch (error) {
-        console.error("[LLM Stream] Stream error:", error);
-      } finally {
-        controller.close();
-      }
-    },
-  });
-}
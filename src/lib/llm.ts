@@ -5,6 +5,8 @@ const ENV_LLM_API_KEY = process.env.LLM_API_KEY;
 const ENV_LLM_BASE_URL = process.env.LLM_BASE_URL || "https://api.openai.com/v1";
 const ENV_LLM_MODEL = process.env.LLM_MODEL || "gpt-4o-mini";
 
+export const EMBEDDING_MODEL = process.env.LLM_EMBEDDING_MODEL || "text-embedding-3-small";
+
 // Provider base URLs
 const PROVIDER_BASE_URLS: Record<string, string> = {
   openai: "https://api.openai.com/v1",
@@ -164,9 +166,18 @@ export async function invokeLLM(params: InvokeLLMParams): Promise<string | Recor
 }
 
 /**
- * Generate embedding for text (for future RAG implementation)
+ * Generate embedding for text (used by RAG retrieval in rag-service)
  */
 export async function generateEmbedding(text: string, settings?: AIProviderSettings): Promise<number[]> {
+  const [embedding] = await generateEmbeddings([text], settings);
+  return embedding || [];
+}
+
+/**
+ * Generate embeddings for a batch of texts in a single request
+ * Returns an empty array if no API key is configured
+ */
+export async function generateEmbeddings(texts: string[], settings?: AIProviderSettings): Promise<number[][]> {
   const client = createClient(settings);
   
   if (!client) {
@@ -174,12 +185,18 @@ export async function generateEmbedding(text: string, settings?: AIProviderSetti
     return [];
   }
 
+  if (texts.length === 0) {
+    return [];
+  }
+
   try {
     const response = await client.embeddings.create({
-      model: "text-embedding-3-small",
-      input: text,
+      model: EMBEDDING_MODEL,
+      input: texts,
     });
-    return response.data[0].embedding;
+    return response.data
+      .sort((a, b) => a.index - b.index)
+      .map((item) => item.embedding);
   } catch (error) {
     console.error("[LLM] Error generating embedding:", error);
     throw error;
@@ -0,0 +1,219 @@
+/**
+ * Notifications
+ *
+ * Уведомления пользователей во входящих приложения:
+ * 1. Событие — запись в notifications для каждого получателя (заголовок, текст, ссылка внутри приложения)
+ * 2. События: смена статуса заказа, одобрение аккаунта, смена тира дилера, публикация материала в «Советах»
+ * 3. Счётчик непрочитанных и отметка о прочтении — по readAt
+ * Ошибка доставки уведомления не должна ломать операцию, которая его вызвала: вызывающий код ловит её сам.
+ */
+
+import prisma from "@/lib/prisma";
+import { DealerTier, NotificationType, OrderStatus, Prisma, UserType } from "@prisma/client";
+
+// Types
+export interface NotificationInput {
+  type: NotificationType;
+  title: string;
+  body?: string | null;
+  link?: string | null;
+}
+
+export interface NotificationItem {
+  id: string;
+  type: NotificationType;
+  title: string;
+  body: string | null;
+  link: string | null;
+  readAt: Date | null;
+  createdAt: Date;
+}
+
+export interface NotificationInbox {
+  items: NotificationItem[];
+  total: number;
+  unread: number;
+}
+
+const ORDER_STATUS_LABELS: Record<OrderStatus, string> = {
+  [OrderStatus.PENDING]: "ожидает подтверждения",
+  [OrderStatus.CONFIRMED]: "подтверждён",
+  [OrderStatus.PROCESSING]: "в обработке",
+  [OrderStatus.SHIPPED]: "отправлен",
+  [OrderStatus.DELIVERED]: "доставлен",
+  [OrderStatus.CANCELLED]: "отменён",
+};
+
+const TIER_ORDER: DealerTier[] = [
+  DealerTier.TIER1,
+  DealerTier.TIER2,
+  DealerTier.TIER3,
+  DealerTier.TIER4,
+];
+
+// Advice articles store audiences as in the admin form, where plain users are "CLIENT"
+const ARTICLE_AUDIENCE: Record<string, UserType> = {
+  CLIENT: UserType.USER,
+  USER: UserType.USER,
+  DEALER: UserType.DEALER,
+  MANAGER: UserType.MANAGER,
+};
+
+const CREATE_BATCH_SIZE = 1000;
+
+/**
+ * Put the same notification into the inbox of every listed user
+ */
+export async function notifyUsers(userIds: string[], input: NotificationInput): Promise<number> {
+  const recipients = Array.from(new Set(userIds.filter(Boolean)));
+  let created = 0;
+
+  for (let i = 0; i < recipients.length; i += CREATE_BATCH_SIZE) {
+    const { count } = await prisma.notification.createMany({
+      data: recipients.slice(i, i + CREATE_BATCH_SIZE).map((userId) => ({
+        userId,
+        type: input.type,
+        title: input.title,
+        body: input.body || null,
+        link: input.link || null,
+      })),
+    });
+    created += count;
+  }
+
+  return created;
+}
+
+export async function notifyUser(userId: string, input: NotificationInput): Promise<number> {
+  return notifyUsers([userId], input);
+}
+
+/**
+ * Inbox of a user, newest first
+ */
+export async function getNotifications(
+  userId: string,
+  options: { limit?: number; offset?: number; unreadOnly?: boolean } = {}
+): Promise<NotificationInbox> {
+  const where: Prisma.NotificationWhereInput = {
+    userId,
+    ...(options.unreadOnly && { readAt: null }),
+  };
+
+  const [items, total, unread] = await Promise.all([
+    prisma.notification.findMany({
+      where,
+      orderBy: { createdAt: "desc" },
+      take: Math.min(options.limit || 20, 100),
+      skip: options.offset || 0,
+      select: {
+        id: true,
+        type: true,
+        title: true,
+        body: true,
+        link: true,
+        readAt: true,
+        createdAt: true,
+      },
+    }),
+    prisma.notification.count({ where }),
+    prisma.notification.count({ where: { userId, readAt: null } }),
+  ]);
+
+  return { items, total, unread };
+}
+
+/**
+ * Mark notifications of a user as read: the listed ones, or all of them
+ */
+export async function markNotificationsRead(userId: string, ids?: string[]): Promise<number> {
+  const { count } = await prisma.notification.updateMany({
+    where: {
+      userId,
+      readAt: null,
+      ...(ids && { id: { in: ids } }),
+    },
+    data: { readAt: new Date() },
+  });
+  return count;
+}
+
+// ============================================================================
+// Events
+// ============================================================================
+
+export async function notifyOrderStatusChanged(
+  order: { userId: string | null; orderNumber: string },
+  status: OrderStatus,
+  comment?: string | null
+): Promise<void> {
+  if (!order.userId) return;
+  await notifyUser(order.userId, {
+    type: NotificationType.ORDER_STATUS,
+    title: `Заказ ${order.orderNumber} ${ORDER_STATUS_LABELS[status]}`,
+    body: comment?.trim() || null,
+    link: "/account/orders",
+  });
+}
+
+export async function notifyAccountApproved(userId: string): Promise<void> {
+  await notifyUser(userId, {
+    type: NotificationType.ACCOUNT_APPROVED,
+    title: "Аккаунт одобрен",
+    body: "Теперь вам доступны все разделы приложения.",
+    link: "/home",
+  });
+}
+
+export async function notifyTierChanged(
+  userId: string,
+  change: { previousTier: DealerTier; newTier: DealerTier; newTierName: string }
+): Promise<void> {
+  const promoted = TIER_ORDER.indexOf(change.newTier) > TIER_ORDER.indexOf(change.previousTier);
+  await notifyUser(userId, {
+    type: NotificationType.TIER_CHANGED,
+    title: promoted
+      ? `Новый уровень: «${change.newTierName}»`
+      : `Уровень изменён на «${change.newTierName}»`,
+    body: promoted
+      ? "Поздравляем! Баллы за заказы теперь начисляются по ставке нового уровня."
+      : "Увеличьте оборот, чтобы вернуть прежний уровень.",
+    link: "/account/profile",
+  });
+}
+
+/**
+ * Tell the article's audience that it was published. Blocked and not yet approved
+ * users are skipped; admins see every article and are always included.
+ */
+export async function notifyArticlePublished(article: {
+  title: string;
+  slug: string;
+  summary?: string | null;
+  allowedUserTypes: string[];
+}): Promise<number> {
+  const userTypes = article.allowedUserTypes
+    .map((type) => ARTICLE_AUDIENCE[type.toUpperCase()])
+    .filter(Boolean);
+
+  const recipients = await prisma.user.findMany({
+    where: {
+      isBlocked: false,
+      OR: [
+        { role: "ADMIN" },
+        { isApproved: true, ...(userTypes.length > 0 && { userType: { in: userTypes } }) },
+      ],
+    },
+    select: { id: true },
+  });
+
+  return notifyUsers(
+    recipients.map((u) => u.id),
+    {
+      type: NotificationType.CONTENT_PUBLISHED,
+      title: `Новый материал: ${article.title}`,
+      body: article.summary || null,
+      link: `/tips/${encodeURIComponent(article.slug)}`,
+    }
+  );
+}
@@ -0,0 +1,135 @@
+/**
+ * Order Workflow
+ *
+ * Жизненный цикл заказа в бэк-офисе:
+ * 1. Допустимые переходы статусов (PENDING → CONFIRMED → PROCESSING → SHIPPED → DELIVERED, отмена до отгрузки)
+ * 2. Доступ администраторов и одобренных менеджеров
+ * 3. Журнал переходов (OrderStatusHistory): кто, когда и с каким комментарием
+ * 4. Номера заказов FS-<год>-<номер> из годового счётчика
+ */
+
+import prisma from "@/lib/prisma";
+import { OrderStatus, Prisma, User } from "@prisma/client";
+import { recalculateDealerTiers } from "@/lib/dealer-tiers";
+import { accrueOrderPoints } from "@/lib/points-accrual";
+import { notifyOrderStatusChanged } from "@/lib/notifications";
+
+// Types
+export type OrderTransitionResult =
+  | { success: true; status: OrderStatus }
+  | { success: false; error: string; status: number };
+
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  [OrderStatus.PENDING]: [OrderStatus.CONFIRMED, OrderStatus.CANCELLED],
+  [OrderStatus.CONFIRMED]: [OrderStatus.PROCESSING, OrderStatus.CANCELLED],
+  [OrderStatus.PROCESSING]: [OrderStatus.SHIPPED, OrderStatus.CANCELLED],
+  [OrderStatus.SHIPPED]: [OrderStatus.DELIVERED],
+  [OrderStatus.DELIVERED]: [],
+  [OrderStatus.CANCELLED]: [],
+};
+
+const ORDER_NUMBER_PREFIX = "FS";
+
+/**
+ * Next human-readable order number, e.g. FS-2026-000123.
+ * Must run inside the transaction that creates the order: the counter row stays
+ * locked until commit, so concurrent checkouts get distinct numbers.
+ */
+export async function nextOrderNumber(
+  tx: Prisma.TransactionClient,
+  date: Date = new Date()
+): Promise<string> {
+  const year = date.getFullYear();
+  const counter = await tx.orderNumberCounter.upsert({
+    where: { year },
+    create: { year, lastValue: 1 },
+    update: { lastValue: { increment: 1 } },
+  });
+  return `${ORDER_NUMBER_PREFIX}-${year}-${String(counter.lastValue).padStart(6, "0")}`;
+}
+
+export function canTransition(from: OrderStatus, to: OrderStatus): boolean {
+  return ORDER_STATUS_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Admins and approved managers work with orders of all customers
+ */
+export function canManageOrders(
+  user: Pick<User, "role" | "userType" | "isApproved" | "isBlocked"> | null
+): boolean {
+  if (!user || user.isBlocked) return false;
+  return user.role === "ADMIN" || (user.userType === "MANAGER" && user.isApproved);
+}
+
+/**
+ * Move an order to a new status and record the transition.
+ * The update is conditional on the current status, so concurrent changes cannot skip a step.
+ */
+export async function changeOrderStatus(
+  orderId: string,
+  toStatus: OrderStatus,
+  changedById: string,
+  comment?: string | null
+): Promise<OrderTransitionResult> {
+  const order = await prisma.order.findUnique({
+    where: { id: orderId },
+    select: { status: true, userId: true, orderNumber: true },
+  });
+
+  if (!order) {
+    return { success: false, error: "Order not found", status: 404 };
+  }
+
+  if (!canTransition(order.status, toStatus)) {
+    return {
+      success: false,
+      error: `Transition ${order.status} → ${toStatus} is not allowed`,
+      status: 400,
+    };
+  }
+
+  const updated = await prisma.$transaction(async (tx) => {
+    const { count } = await tx.order.updateMany({
+      where: { id: orderId, status: order.status },
+      data: { status: toStatus },
+    });
+    if (count === 0) return false;
+
+    await tx.orderStatusHistory.create({
+      data: {
+        orderId,
+        fromStatus: order.status,
+        toStatus,
+        changedById,
+        comment: comment?.trim() || null,
+      },
+    });
+    return true;
+  });
+
+  if (!updated) {
+    return {
+      success: false,
+      error: "Order status was changed by someone else, reload the order",
+      status: 409,
+    };
+  }
+
+  await notifyOrderStatusChanged(order, toStatus, comment).catch((error) =>
+    console.error("Error sending order status notification:", error)
+  );
+
+  // Delivered orders earn points and make up dealer turnover.
+  // Points go first, at the tier the dealer had when the order was delivered.
+  if (toStatus === OrderStatus.DELIVERED && order.userId) {
+    await accrueOrderPoints(orderId).catch((error) =>
+      console.error("Error accruing order points:", error)
+    );
+    await recalculateDealerTiers({ userIds: [order.userId], changedBy: changedById }).catch(
+      (error) => console.error("Error recalculating dealer tier:", error)
+    );
+  }
+
+  return { success: true, status: toStatus };
+}
@@ -0,0 +1,238 @@
+/**
+ * Points Accrual
+ *
+ * Начисление бонусных баллов за доставленные заказы:
+ * 1. Базовая ставка — баллы за рубль по тиру дилера (BonusSettings.tierNPointsPerRuble)
+ * 2. Правила (points_accrual_rules) умножают ставку для позиций по бренду, артикулу или характеристике,
+ *    промо-правила действуют только в своём периоде
+ * 3. Из нескольких подходящих правил применяется правило с наибольшим множителем
+ * 4. Пробный расчёт (dry-run) показывает разбивку без записи в журнал
+ */
+
+import prisma from "@/lib/prisma";
+import {
+  BonusSettings,
+  DealerTier,
+  OrderStatus,
+  PointsAccrualRule,
+  PointsTransactionType,
+} from "@prisma/client";
+import { addPointsTransaction } from "@/lib/dealer-points";
+
+// Types
+export type TierPointsRates = Pick<
+  BonusSettings,
+  "tier1PointsPerRuble" | "tier2PointsPerRuble" | "tier3PointsPerRuble" | "tier4PointsPerRuble"
+>;
+
+export interface AccrualLine {
+  articleCode: string;
+  productName: string;
+  total: number;
+  multiplier: number;
+  rule: { id: string; name: string } | null;
+  points: number;
+}
+
+export interface AccrualPreview {
+  orderId: string;
+  orderNumber: string;
+  status: OrderStatus;
+  evaluatedAt: Date;
+  bonusEnabled: boolean;
+  dealerProfileId: string | null;
+  tier: DealerTier | null;
+  pointsPerRuble: number;
+  lines: AccrualLine[];
+  totalPoints: number;
+  alreadyAccrued: number | null; // points of the existing automatic accrual entry, if any
+}
+
+// Schema defaults, used until an admin saves the bonus settings
+const DEFAULT_RATES: TierPointsRates = {
+  tier1PointsPerRuble: 0.01,
+  tier2PointsPerRuble: 0.015,
+  tier3PointsPerRuble: 0.02,
+  tier4PointsPerRuble: 0.03,
+};
+
+const TIER_RATE_KEYS: Record<DealerTier, keyof TierPointsRates> = {
+  TIER1: "tier1PointsPerRuble",
+  TIER2: "tier2PointsPerRuble",
+  TIER3: "tier3PointsPerRuble",
+  TIER4: "tier4PointsPerRuble",
+};
+
+interface OrderItem {
+  articleCode?: string;
+  productName?: string;
+  quantity?: number;
+  price?: number;
+  total?: number;
+}
+
+interface ProductFacts {
+  vendor: string | null;
+  params: Array<{ name: string; value: string }>;
+}
+
+function same(a: string | null | undefined, b: string | null | undefined): boolean {
+  return (a || "").trim().toLowerCase() === (b || "").trim().toLowerCase();
+}
+
+export function ruleMatches(
+  rule: PointsAccrualRule,
+  line: { articleCode: string; product: ProductFacts | null },
+  tier: DealerTier,
+  at: Date
+): boolean {
+  if (!rule.isActive) return false;
+  if (rule.startsAt && at < rule.startsAt) return false;
+  if (rule.endsAt && at > rule.endsAt) return false;
+  if (rule.tiers.length > 0 && !rule.tiers.includes(tier)) return false;
+  if (rule.vendorCode && !same(rule.vendorCode, line.articleCode)) return false;
+  if (rule.vendor && !same(rule.vendor, line.product?.vendor)) return false;
+  if (rule.paramName) {
+    const match = line.product?.params.some(
+      (param) =>
+        same(param.name, rule.paramName) && (!rule.paramValue || same(param.value, rule.paramValue))
+    );
+    if (!match) return false;
+  }
+  return true;
+}
+
+async function findProductFacts(articleCodes: string[]): Promise<Map<string, ProductFacts>> {
+  const rows = await prisma.product.findMany({
+    where: { vendorCodeNormalized: { in: articleCodes.map((code) => code.trim().toLowerCase()) } },
+    select: {
+      vendorCodeNormalized: true,
+      vendor: true,
+      paramValues: { select: { name: true, value: true } },
+    },
+  });
+
+  // The same SKU may come from several feeds: merge what they say about it
+  const byCode = new Map<string, ProductFacts>();
+  for (const row of rows) {
+    const current = byCode.get(row.vendorCodeNormalized);
+    byCode.set(row.vendorCodeNormalized, {
+      vendor: current?.vendor || row.vendor,
+      params: [...(current?.params || []), ...row.paramValues],
+    });
+  }
+  return byCode;
+}
+
+/**
+ * Points an order earns under the current rules. Delivered orders are evaluated
+ * at their delivery date, so promo periods apply as they were at that moment.
+ */
+export async function previewOrderPoints(orderId: string): Promise<AccrualPreview | null> {
+  const order = await prisma.order.findUnique({
+    where: { id: orderId },
+    select: {
+      id: true,
+      orderNumber: true,
+      status: true,
+      items: true,
+      user: { select: { dealerProfile: { select: { id: true, currentTier: true } } } },
+      statusHistory: {
+        where: { toStatus: OrderStatus.DELIVERED },
+        orderBy: { createdAt: "desc" },
+        take: 1,
+        select: { createdAt: true },
+      },
+      pointsTransactions: {
+        // Manual entries linked to the order are corrections, not the order's accrual
+        where: { type: PointsTransactionType.ACCRUAL, createdById: null },
+        select: { amount: true },
+      },
+    },
+  });
+  if (!order) return null;
+
+  const [settings, rules] = await Promise.all([
+    prisma.bonusSettings.findFirst(),
+    prisma.pointsAccrualRule.findMany({ where: { isActive: true } }),
+  ]);
+
+  const profile = order.user?.dealerProfile || null;
+  const tier = profile?.currentTier || null;
+  const pointsPerRuble = tier ? (settings || DEFAULT_RATES)[TIER_RATE_KEYS[tier]] : 0;
+  const evaluatedAt = order.statusHistory[0]?.createdAt || new Date();
+
+  const items = (Array.isArray(order.items) ? order.items : []) as OrderItem[];
+  const facts = await findProductFacts(
+    items.map((item) => item.articleCode || "").filter(Boolean)
+  );
+
+  const lines = items.map((item): AccrualLine => {
+    const articleCode = item.articleCode || "";
+    const total = item.total ?? (item.price || 0) * (item.quantity || 0);
+    const product = facts.get(articleCode.trim().toLowerCase()) || null;
+
+    let best: PointsAccrualRule | null = null;
+    if (tier) {
+      for (const rule of rules) {
+        if (ruleMatches(rule, { articleCode, product }, tier, evaluatedAt)) {
+          if (!best || rule.multiplier > best.multiplier) best = rule;
+        }
+      }
+    }
+    const multiplier = best ? best.multiplier : 1;
+
+    return {
+      articleCode,
+      productName: item.productName || articleCode,
+      total,
+      multiplier,
+      rule: best ? { id: best.id, name: best.name } : null,
+      points: Math.round(total * pointsPerRuble * multiplier * 100) / 100,
+    };
+  });
+
+  return {
+    orderId: order.id,
+    orderNumber: order.orderNumber,
+    status: order.status,
+    evaluatedAt,
+    bonusEnabled: settings?.enabled !== false,
+    dealerProfileId: profile?.id || null,
+    tier,
+    pointsPerRuble,
+    lines,
+    totalPoints: Math.floor(lines.reduce((sum, line) => sum + line.points, 0)),
+    alreadyAccrued:
+      order.pointsTransactions.length > 0
+        ? order.pointsTransactions.reduce((sum, entry) => sum + entry.amount, 0)
+        : null,
+  };
+}
+
+/**
+ * Accrue points for a delivered order. Runs once per order: an existing
+ * automatic accrual entry for the order means the points were already given.
+ */
+export async function accrueOrderPoints(
+  orderId: string
+): Promise<{ accrued: number; skipped?: string }> {
+  const preview = await previewOrderPoints(orderId);
+  if (!preview) return { accrued: 0, skipped: "Order not found" };
+  if (preview.status !== OrderStatus.DELIVERED) return { accrued: 0, skipped: "Order is not delivered" };
+  if (!preview.bonusEnabled) return { accrued: 0, skipped: "Bonus program is disabled" };
+  if (!preview.dealerProfileId) return { accrued: 0, skipped: "Customer is not a dealer" };
+  if (preview.alreadyAccrued !== null) return { accrued: 0, skipped: "Already accrued" };
+  if (preview.totalPoints <= 0) return { accrued: 0, skipped: "Nothing to accrue" };
+
+  const result = await addPointsTransaction({
+    dealerProfileId: preview.dealerProfileId,
+    type: PointsTransactionType.ACCRUAL,
+    amount: preview.totalPoints,
+    reason: `Доставлен заказ ${preview.orderNumber}`,
+    orderId: preview.orderId,
+  });
+  if (!result.success) return { accrued: 0, skipped: result.error };
+
+  return { accrued: preview.totalPoints };
+}
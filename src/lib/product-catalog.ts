@@ -0,0 +1,559 @@
+/**
+ * Product Catalog
+ *
+ * Нормализованный каталог товаров из XML-фидов вместо JSON в KnowledgeBase.xmlData:
+ * 1. Сохранение офферов при синхронизации (products, product_params, warehouse_stocks)
+ * 2. Индексированный поиск по артикулу, производителю и параметрам
+ * 3. Выдача товаров в формате карточки товара (как раньше в xmlData.products)
+ */
+
+import { randomUUID } from "crypto";
+import prisma from "@/lib/prisma";
+import {
+  Prisma,
+  Product as ProductRow,
+  WarehouseStock as WarehouseStockRow,
+  Warehouse,
+  XmlSyncChangeType,
+} from "@prisma/client";
+import { withCache, productIndexCache } from "@/lib/cache";
+import {
+  getWarehouseDirectory,
+  getWarehouseCodesForCity,
+} from "@/lib/warehouses";
+
+// Types
+export interface CatalogWarehouseStock {
+  code: string;
+  name: string;
+  city: string | null;
+  stockText: string;
+  inStock: boolean;
+}
+
+export interface CatalogProduct {
+  id: string;
+  name: string;
+  vendorCode: string;
+  price: number | null;
+  description: string;
+  url: string;
+  picture: string;
+  vendor: string;
+  params: Record<string, unknown>;
+  documents: Array<{ url: string; name: string }>;
+  warehouses?: CatalogWarehouseStock[];
+}
+
+export interface FeedWarehouseStock {
+  code: string;
+  name: string;
+  stockText: string;
+  inStock: boolean;
+}
+
+/** Offer parsed from a feed, ready to be persisted */
+export interface FeedProduct {
+  externalId?: string;
+  name: string;
+  vendorCode: string;
+  price: number | null; // retail (RRC)
+  prices?: Record<string, number>; // every price type of the feed, purchase prices included
+  description: string;
+  url: string;
+  picture?: string;
+  vendor: string;
+  params: Record<string, unknown>;
+  documents: Array<{ url: string; name: string }>;
+  warehouseStocks: FeedWarehouseStock[];
+  stockQty: number;
+  inStock: boolean;
+}
+
+/** Single difference between the previous and the new catalog of a feed */
+export interface FeedProductChange {
+  vendorCode: string;
+  productName: string;
+  type: XmlSyncChangeType;
+  oldPrice?: number | null;
+  newPrice?: number | null;
+  oldValue?: string | null;
+  newValue?: string | null;
+  details?: Array<{ name: string; oldValue: string | null; newValue: string | null }>;
+}
+
+/** Result of replacing a feed's products, compared to the previous catalog */
+export interface FeedSaveResult {
+  saved: number;
+  added: number;
+  removed: number;
+  changed: number;
+  changes: FeedProductChange[];
+}
+
+interface ProductSnapshot {
+  vendorCode: string;
+  name: string;
+  price: number | null;
+  stockText: string | null;
+  inStock: boolean;
+  params: unknown;
+}
+
+export interface ProductSearchOptions {
+  search?: string;
+  vendor?: string;
+  params?: Record<string, string>;
+  calculatorOnly?: boolean;
+  city?: string; // only products in stock at warehouses of this city
+  limit?: number;
+  offset?: number;
+}
+
+export const AREA_PER_PACKAGE_PARAM = "Кол-во м2 в упаковке";
+
+const INSERT_BATCH_SIZE = 1000;
+const MAX_SEARCH_LIMIT = 100;
+const COUNT_CACHE_KEY = "catalog-count";
+
+// Params that are stored in dedicated columns/tables or are service values
+const SKIPPED_PARAM_KEYS = ["Склады", "Остаток_число"];
+// Stock params - compared via inStock, not as param changes
+const STOCK_PARAM_KEYS = ["Остаток", "Остаток_число", "Склады"];
+
+function normalizeVendorCode(code: string): string {
+  return code.trim().toLowerCase();
+}
+
+function parseNumber(value: unknown): number | null {
+  if (value == null) return null;
+  const parsed = parseFloat(String(value).replace(",", "."));
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+function parseQuantity(text: string): number {
+  const match = text.match(/(\d+)/);
+  return match ? parseInt(match[1], 10) : 0;
+}
+
+function paramValue(value: unknown): string | null {
+  if (value == null || typeof value === "object") return null;
+  return String(value);
+}
+
+/**
+ * Compare two catalog states: new/removed SKUs, price changes,
+ * stock going to zero or coming back and changed params.
+ * Stock quantities themselves are not params changes.
+ */
+export function diffFeedProducts(
+  previous: ProductSnapshot[],
+  next: ProductSnapshot[]
+): FeedProductChange[] {
+  const changes: FeedProductChange[] = [];
+  const previousByCode = new Map(previous.map((p) => [p.vendorCode, p]));
+  const nextCodes = new Set(next.map((p) => p.vendorCode));
+
+  for (const product of next) {
+    const base = { vendorCode: product.vendorCode, productName: product.name };
+    const old = previousByCode.get(product.vendorCode);
+
+    if (!old) {
+      changes.push({ ...base, type: XmlSyncChangeType.ADDED, newPrice: product.price });
+      continue;
+    }
+
+    if ((old.price ?? null) !== (product.price ?? null)) {
+      changes.push({
+        ...base,
+        type: XmlSyncChangeType.PRICE_CHANGED,
+        oldPrice: old.price,
+        newPrice: product.price,
+      });
+    }
+
+    if (old.inStock !== product.inStock) {
+      changes.push({
+        ...base,
+        type: product.inStock
+          ? XmlSyncChangeType.BACK_IN_STOCK
+          : XmlSyncChangeType.OUT_OF_STOCK,
+        oldValue: old.stockText,
+        newValue: product.stockText,
+      });
+    }
+
+    const oldParams = (old.params || {}) as Record<string, unknown>;
+    const newParams = (product.params || {}) as Record<string, unknown>;
+    const details: NonNullable<FeedProductChange["details"]> = [];
+    const names = new Set([...Object.keys(oldParams), ...Object.keys(newParams)]);
+    names.forEach((name) => {
+      if (STOCK_PARAM_KEYS.includes(name)) return;
+      const oldValue = paramValue(oldParams[name]);
+      const newValue = paramValue(newParams[name]);
+      if (oldValue !== newValue) {
+        details.push({ name, oldValue, newValue });
+      }
+    });
+    if (old.name !== product.name) {
+      details.unshift({ name: "Название", oldValue: old.name, newValue: product.name });
+    }
+    if (details.length > 0) {
+      changes.push({ ...base, type: XmlSyncChangeType.PARAMS_CHANGED, details });
+    }
+  }
+
+  for (const old of previous) {
+    if (!nextCodes.has(old.vendorCode)) {
+      changes.push({
+        vendorCode: old.vendorCode,
+        productName: old.name,
+        type: XmlSyncChangeType.REMOVED,
+        oldPrice: old.price,
+      });
+    }
+  }
+
+  return changes;
+}
+
+type ProductRowWithStocks = ProductRow & { warehouseStocks?: WarehouseStockRow[] };
+
+const WITH_STOCKS = { warehouseStocks: true } satisfies Prisma.ProductInclude;
+
+/**
+ * Map a database row to the product card shape used by chat and calculator.
+ * Warehouse names come from the directory, so renamed warehouses show up without a resync.
+ */
+export function toCatalogProduct(
+  row: ProductRowWithStocks,
+  directory?: Map<string, Warehouse>
+): CatalogProduct {
+  const params = { ...((row.params as Record<string, unknown>) || {}) };
+  let warehouses: CatalogWarehouseStock[] | undefined;
+
+  if (row.warehouseStocks) {
+    warehouses = row.warehouseStocks
+      .filter((stock) => directory?.get(stock.warehouseCode)?.isActive !== false)
+      .map((stock) => {
+        const warehouse = directory?.get(stock.warehouseCode);
+        return {
+          code: stock.warehouseCode,
+          name: warehouse?.name || stock.warehouseName,
+          city: warehouse?.city || null,
+          stockText: stock.stockText,
+          inStock: stock.inStock,
+        };
+      });
+
+    if (warehouses.length > 0) {
+      params["Склады"] = Object.fromEntries(
+        warehouses.map((w) => [w.name, w.stockText])
+      );
+    } else {
+      delete params["Склады"];
+    }
+  }
+
+  return {
+    id: row.externalId || row.id,
+    name: row.name,
+    vendorCode: row.vendorCode,
+    price: row.price,
+    description: row.description || "",
+    url: row.url || "",
+    picture: row.picture || "",
+    vendor: row.vendor || "",
+    params,
+    documents: (row.documents as Array<{ url: string; name: string }>) || [],
+    warehouses,
+  };
+}
+
+async function toCatalogProducts(
+  rows: ProductRowWithStocks[]
+): Promise<CatalogProduct[]> {
+  const directory = await getWarehouseDirectory();
+  return rows.map((row) => toCatalogProduct(row, directory));
+}
+
+/**
+ * Drop cached catalog aggregates after a sync
+ */
+export function invalidateProductCache(): void {
+  productIndexCache.clear();
+}
+
+/**
+ * Replace all products of a feed with freshly parsed offers.
+ * Offers without a vendor code are skipped, duplicates keep the first offer.
+ * Returns the number of stored products and how the catalog changed.
+ */
+export async function saveFeedProducts(
+  feedId: string,
+  products: FeedProduct[]
+): Promise<FeedSaveResult> {
+  const seen = new Set<string>();
+  const productRows: Prisma.ProductCreateManyInput[] = [];
+  const paramRows: Prisma.ProductParamCreateManyInput[] = [];
+  const stockRows: Prisma.WarehouseStockCreateManyInput[] = [];
+
+  for (const product of products) {
+    const vendorCode = product.vendorCode.trim();
+    if (!vendorCode || seen.has(vendorCode)) continue;
+    seen.add(vendorCode);
+
+    const productId = randomUUID();
+    const stockText = product.params["Остаток"];
+
+    productRows.push({
+      id: productId,
+      feedId,
+      externalId: product.externalId ? String(product.externalId) : null,
+      vendorCode,
+      vendorCodeNormalized: normalizeVendorCode(vendorCode),
+      name: product.name,
+      vendor: product.vendor || null,
+      description: product.description || null,
+      url: product.url || null,
+      picture: product.picture || null,
+      price: product.price,
+      prices: product.prices || {},
+      stockText: stockText != null ? String(stockText) : null,
+      stockQty: product.stockQty,
+      inStock: product.inStock,
+      areaPerPackage: parseNumber(product.params[AREA_PER_PACKAGE_PARAM]),
+      params: product.params as Prisma.InputJsonObject,
+      documents: product.documents,
+    });
+
+    for (const [name, value] of Object.entries(product.params)) {
+      if (
+        SKIPPED_PARAM_KEYS.includes(name) ||
+        name.toLowerCase().startsWith("документы") ||
+        value == null ||
+        typeof value === "object"
+      ) {
+        continue;
+      }
+      paramRows.push({ productId, name, value: String(value) });
+    }
+
+    const warehouseCodes = new Set<string>();
+    for (const stock of product.warehouseStocks) {
+      if (warehouseCodes.has(stock.code)) continue;
+      warehouseCodes.add(stock.code);
+      stockRows.push({
+        productId,
+        warehouseCode: stock.code,
+        warehouseName: stock.name,
+        stockText: stock.stockText,
+        quantity: parseQuantity(stock.stockText),
+        inStock: stock.inStock,
+      });
+    }
+  }
+
+  const result = await prisma.$transaction(
+    async (tx) => {
+      const previous = await tx.product.findMany({
+        where: { feedId },
+        select: {
+          vendorCode: true,
+          name: true,
+          price: true,
+          stockText: true,
+          inStock: true,
+          params: true,
+        },
+      });
+
+      const allChanges = diffFeedProducts(
+        previous,
+        productRows.map((row) => ({
+          vendorCode: row.vendorCode,
+          name: row.name,
+          price: row.price ?? null,
+          stockText: row.stockText ?? null,
+          inStock: row.inStock ?? false,
+          params: row.params,
+        }))
+      );
+      const added = allChanges.filter((c) => c.type === XmlSyncChangeType.ADDED).length;
+      const removed = allChanges.filter((c) => c.type === XmlSyncChangeType.REMOVED).length;
+      const changed = new Set(
+        allChanges
+          .filter(
+            (c) =>
+              c.type !== XmlSyncChangeType.ADDED &&
+              c.type !== XmlSyncChangeType.REMOVED
+          )
+          .map((c) => c.vendorCode)
+      ).size;
+      // First sync of a feed has nothing to compare with - keep only the counters
+      const changes = previous.length > 0 ? allChanges : [];
+
+      // Params and warehouse stocks are removed by cascade
+      await tx.product.deleteMany({ where: { feedId } });
+
+      for (let i = 0; i < productRows.length; i += INSERT_BATCH_SIZE) {
+        await tx.product.createMany({
+          data: productRows.slice(i, i + INSERT_BATCH_SIZE),
+        });
+      }
+      for (let i = 0; i < paramRows.length; i += INSERT_BATCH_SIZE) {
+        await tx.productParam.createMany({
+          data: paramRows.slice(i, i + INSERT_BATCH_SIZE),
+        });
+      }
+      for (let i = 0; i < stockRows.length; i += INSERT_BATCH_SIZE) {
+        await tx.warehouseStock.createMany({
+          data: stockRows.slice(i, i + INSERT_BATCH_SIZE),
+        });
+      }
+
+      return { saved: productRows.length, added, removed, changed, changes };
+    },
+    { maxWait: 10 * 1000, timeout: 5 * 60 * 1000 }
+  );
+
+  invalidateProductCache();
+  return result;
+}
+
+/**
+ * Total number of products in the catalog (cached)
+ */
+export async function countProducts(): Promise<number> {
+  return withCache(productIndexCache, COUNT_CACHE_KEY, () =>
+    prisma.product.count()
+  );
+}
+
+/**
+ * Exact lookup by vendor code (case-insensitive)
+ */
+export async function findProductsByVendorCode(
+  code: string
+): Promise<CatalogProduct[]> {
+  const rows = await prisma.product.findMany({
+    where: { vendorCodeNormalized: normalizeVendorCode(code) },
+    orderBy: { createdAt: "asc" },
+    include: WITH_STOCKS,
+  });
+  return toCatalogProducts(rows);
+}
+
+/**
+ * Products whose vendor code contains the given code (excluding exact matches),
+ * unique by vendor code and sorted alphabetically
+ */
+export async function findSimilarProducts(
+  code: string,
+  limit: number = 10
+): Promise<{ products: CatalogProduct[]; total: number }> {
+  const normalized = normalizeVendorCode(code);
+  const where: Prisma.ProductWhereInput = {
+    vendorCodeNormalized: { contains: normalized, not: normalized },
+  };
+
+  const [rows, groups] = await Promise.all([
+    prisma.product.findMany({
+      where,
+      distinct: ["vendorCodeNormalized"],
+      orderBy: { vendorCodeNormalized: "asc" },
+      take: limit,
+      include: WITH_STOCKS,
+    }),
+    prisma.product.groupBy({ by: ["vendorCodeNormalized"], where }),
+  ]);
+
+  return { products: await toCatalogProducts(rows), total: groups.length };
+}
+
+/**
+ * Paged catalog search by name/vendor code/vendor, exact vendor and param values
+ */
+export async function searchProducts(
+  options: ProductSearchOptions = {}
+): Promise<{ items: CatalogProduct[]; total: number }> {
+  const conditions: Prisma.ProductWhereInput[] = [];
+
+  const search = options.search?.trim();
+  if (search) {
+    conditions.push({
+      OR: [
+        { name: { contains: search, mode: "insensitive" } },
+        { vendorCodeNormalized: { contains: search.toLowerCase() } },
+        { vendor: { contains: search, mode: "insensitive" } },
+      ],
+    });
+  }
+
+  if (options.vendor) {
+    conditions.push({ vendor: options.vendor });
+  }
+
+  for (const [name, value] of Object.entries(options.params || {})) {
+    conditions.push({ paramValues: { some: { name, value } } });
+  }
+
+  if (options.city !== undefined) {
+    const codes = await getWarehouseCodesForCity(options.city);
+    conditions.push({
+      warehouseStocks: { some: { warehouseCode: { in: codes }, inStock: true } },
+    });
+  }
+
+  if (options.calculatorOnly) {
+    // Calculator needs both a price and the package area
+    conditions.push({ price: { not: null } }, { areaPerPackage: { not: null } });
+  }
+
+  const where: Prisma.ProductWhereInput =
+    conditions.length > 0 ? { AND: conditions } : {};
+  const limit = Math.min(options.limit ?? 50, MAX_SEARCH_LIMIT);
+
+  const [rows, total] = await Promise.all([
+    prisma.product.findMany({
+      where,
+      orderBy: [{ name: "asc" }, { vendorCode: "asc" }],
+      skip: options.offset || 0,
+      take: limit,
+      include: WITH_STOCKS,
+    }),
+    prisma.product.count({ where }),
+  ]);
+
+  return { items: await toCatalogProducts(rows), total };
+}
+
+/**
+ * Distinct values of a product param (e.g. all colors in the catalog), cached
+ */
+export async function getParamValues(name: string): Promise<string[]> {
+  return withCache(productIndexCache, `param-values:${name}`, async () => {
+    const rows = await prisma.productParam.findMany({
+      where: { name },
+      distinct: ["value"],
+      select: { value: true },
+    });
+    return rows.map((row) => row.value);
+  });
+}
+
+/**
+ * Products having one of the given values of a param
+ */
+export async function findProductsByParamValues(
+  name: string,
+  values: string[]
+): Promise<CatalogProduct[]> {
+  if (values.length === 0) return [];
+
+  const rows = await prisma.product.findMany({
+    where: { paramValues: { some: { name, value: { in: values } } } },
+    include: WITH_STOCKS,
+  });
+  return toCatalogProducts(rows);
+}
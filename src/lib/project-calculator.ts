@@ -0,0 +1,311 @@
+/**
+ * Project Calculator
+ *
+ * Расчёт объекта из нескольких помещений:
+ * 1. У каждого помещения свои размеры, покрытие и способ укладки — запас берётся из калькулятора
+ * 2. Покрытие одного артикула суммируется по помещениям и округляется до целых упаковок один раз
+ * 3. Помещение сложной формы задаётся контуром (lib/room-shape): площадь и периметр берутся из него,
+ *    колонны добавляют свой периметр к плинтусу
+ * 4. Подложка — по чистой площади с запасом на стыки, плинтус — по периметру за вычетом дверных проёмов,
+ *    пороги — поштучно
+ * 5. Стоимость считается как в корзине: упаковка = цена за м² × м² в упаковке, остальное — цена за штуку
+ *
+ * Модуль без обращений к БД: превью считается в браузере, при сохранении — заново на сервере по каталогу.
+ */
+
+import { InstallationType, isInstallationType, RESERVE_COEFFICIENTS } from "@/lib/calculator";
+import { measureShape, parseRoomShape, RoomShape } from "@/lib/room-shape";
+
+// Types
+export type AccessoryKind = "underlay" | "skirting" | "threshold";
+export type ProjectLineKind = "flooring" | AccessoryKind;
+
+export interface ProjectRoom {
+  name: string;
+  length: number; // m, bounding box when the room has a shape
+  width: number; // m
+  shape?: RoomShape | null;
+  doors: number;
+  doorWidth: number; // m, cut out of the skirting run
+  thresholds: number;
+  vendorCode: string | null;
+  installationType: InstallationType;
+}
+
+export type ProjectAccessories = Record<AccessoryKind, string | null>;
+
+/**
+ * What the calculation needs to know about a catalog product
+ */
+export interface ProjectProduct {
+  vendorCode: string;
+  name: string;
+  price: number | null;
+  areaPerPackage: number | null;
+  pieceLength: number | null; // m, skirting only
+}
+
+export interface RoomGeometry {
+  area: number;
+  perimeter: number;
+  skirtingLength: number;
+}
+
+export interface ProjectLine {
+  kind: ProjectLineKind;
+  vendorCode: string;
+  productName: string;
+  rooms: string[];
+  amount: number; // m² for flooring and underlay, m for skirting, pieces for thresholds
+  amountWithReserve: number;
+  quantity: number; // packages or pieces to buy
+  unit: "уп." | "шт.";
+  unitPrice: number;
+  cost: number;
+}
+
+export interface ProjectCalculation {
+  rooms: Array<ProjectRoom & RoomGeometry>;
+  lines: ProjectLine[];
+  issues: string[];
+  totalArea: number;
+  totalPackages: number;
+  totalPieces: number;
+  totalCost: number;
+}
+
+export const ACCESSORY_KINDS: AccessoryKind[] = ["underlay", "skirting", "threshold"];
+
+export const PROJECT_LINE_LABELS: Record<ProjectLineKind, string> = {
+  flooring: "Покрытие",
+  underlay: "Подложка",
+  skirting: "Плинтус",
+  threshold: "Порог",
+};
+
+// Catalog has no categories: accessories are found by name
+export const ACCESSORY_SEARCH_QUERIES: Record<AccessoryKind, string> = {
+  underlay: "подложка",
+  skirting: "плинтус",
+  threshold: "порог",
+};
+
+export const UNDERLAY_RESERVE = 1.05;
+export const SKIRTING_RESERVE = 1.05;
+export const DEFAULT_DOOR_WIDTH = 0.9;
+export const EMPTY_ACCESSORIES: ProjectAccessories = { underlay: null, skirting: null, threshold: null };
+
+const MAX_ROOMS = 30;
+const MAX_DIMENSION = 1000;
+const MAX_COUNT = 50;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const toNumber = (value: unknown): number => {
+  const parsed = parseFloat(String(value ?? "").replace(",", "."));
+  return Number.isFinite(parsed) ? parsed : NaN;
+};
+
+/**
+ * Piece length in meters from the feed params ("Длина, мм", "Длина, м", "Длина"), null when missing.
+ * Without a unit, values above 10 are taken as millimeters.
+ */
+export function pieceLengthFromParams(params: Record<string, unknown> | null | undefined): number | null {
+  if (!params) return null;
+  const key = Object.keys(params).find((name) => /^длина/i.test(name.trim()));
+  if (!key) return null;
+
+  const value = toNumber(params[key]);
+  if (!(value > 0)) return null;
+  if (/мм/i.test(key)) return value / 1000;
+  if (/см/i.test(key)) return value / 100;
+  if (/,\s*м\b|\(м\)/i.test(key)) return value;
+  return value > 10 ? value / 1000 : value;
+}
+
+export function roomGeometry(
+  room: Pick<ProjectRoom, "length" | "width" | "shape" | "doors" | "doorWidth">
+): RoomGeometry {
+  if (room.shape) {
+    const measured = measureShape(room.shape);
+    return {
+      area: measured.area,
+      perimeter: measured.perimeter,
+      skirtingLength: round2(
+        Math.max(0, measured.perimeter + measured.columnsPerimeter - room.doors * room.doorWidth)
+      ),
+    };
+  }
+
+  const length = room.length > 0 ? room.length : 0;
+  const width = room.width > 0 ? room.width : 0;
+  const perimeter = 2 * (length + width);
+  return {
+    area: round2(length * width),
+    perimeter: round2(perimeter),
+    skirtingLength: round2(Math.max(0, perimeter - room.doors * room.doorWidth)),
+  };
+}
+
+/**
+ * Validate raw rooms from a request body. Returns null when a room is malformed.
+ */
+export function parseProjectRooms(raw: unknown): ProjectRoom[] | null {
+  if (!Array.isArray(raw) || raw.length === 0 || raw.length > MAX_ROOMS) return null;
+  const rooms: ProjectRoom[] = [];
+  for (let index = 0; index < raw.length; index++) {
+    const item = raw[index];
+    const shape = item?.shape == null ? null : parseRoomShape(item.shape);
+    if (item?.shape != null && !shape) return null;
+    const measured = shape ? measureShape(shape) : null;
+    const length = measured ? measured.length : toNumber(item?.length);
+    const width = measured ? measured.width : toNumber(item?.width);
+    const doors = item?.doors === undefined ? 1 : toNumber(item.doors);
+    const doorWidth = item?.doorWidth === undefined ? DEFAULT_DOOR_WIDTH : toNumber(item.doorWidth);
+    const thresholds = item?.thresholds === undefined ? 0 : toNumber(item.thresholds);
+    if (
+      !(length > 0 && length <= MAX_DIMENSION) ||
+      !(width > 0 && width <= MAX_DIMENSION) ||
+      !Number.isInteger(doors) || doors < 0 || doors > MAX_COUNT ||
+      !(doorWidth >= 0 && doorWidth <= 10) ||
+      !Number.isInteger(thresholds) || thresholds < 0 || thresholds > MAX_COUNT ||
+      !isInstallationType(item.installationType) ||
+      (item.vendorCode != null && typeof item.vendorCode !== "string")
+    ) {
+      return null;
+    }
+    rooms.push({
+      name: (typeof item.name === "string" && item.name.trim().slice(0, 100)) || `Помещение ${index + 1}`,
+      length,
+      width,
+      shape,
+      doors,
+      doorWidth,
+      thresholds,
+      vendorCode: item.vendorCode?.trim() || null,
+      installationType: item.installationType,
+    });
+  }
+  return rooms;
+}
+
+export function parseProjectAccessories(raw: unknown): ProjectAccessories {
+  const source = (raw && typeof raw === "object" ? raw : {}) as Record<string, unknown>;
+  const accessories = { ...EMPTY_ACCESSORIES };
+  for (const kind of ACCESSORY_KINDS) {
+    const code = source[kind];
+    accessories[kind] = typeof code === "string" && code.trim() ? code.trim() : null;
+  }
+  return accessories;
+}
+
+function pushLine(
+  lines: ProjectLine[],
+  kind: ProjectLineKind,
+  product: ProjectProduct,
+  rooms: string[],
+  amount: number,
+  amountWithReserve: number,
+  quantity: number,
+  unitPrice: number
+) {
+  lines.push({
+    kind,
+    vendorCode: product.vendorCode,
+    productName: product.name,
+    rooms,
+    amount: round2(amount),
+    amountWithReserve: round2(amountWithReserve),
+    quantity,
+    unit: kind === "flooring" || kind === "underlay" ? "уп." : "шт.",
+    unitPrice: round2(unitPrice),
+    cost: round2(quantity * unitPrice),
+  });
+}
+
+/**
+ * Calculate a project. `findProduct` resolves a vendor code to catalog data;
+ * products that are missing or cannot be counted are reported in `issues` and left out.
+ */
+export function calculateProject(
+  rooms: ProjectRoom[],
+  accessories: ProjectAccessories,
+  findProduct: (vendorCode: string) => ProjectProduct | null | undefined
+): ProjectCalculation {
+  const measured = rooms.map((room) => ({ ...room, ...roomGeometry(room) }));
+  const lines: ProjectLine[] = [];
+  const issues: string[] = [];
+
+  // Flooring: one line per product, reserve per room layout
+  const flooring = new Map<string, { product: ProjectProduct; rooms: string[]; area: number; withReserve: number }>();
+  for (const room of measured) {
+    if (!room.vendorCode || room.area <= 0) continue;
+    // Rooms saved before installation types were checked strictly may hold anything here
+    if (!isInstallationType(room.installationType)) {
+      issues.push(`${room.name}: неизвестный способ укладки`);
+      continue;
+    }
+    const product = findProduct(room.vendorCode);
+    if (!product || !product.price || !product.areaPerPackage) {
+      issues.push(`${room.name}: покрытие ${room.vendorCode} не найдено или без цены и размера упаковки`);
+      continue;
+    }
+    const key = product.vendorCode.toLowerCase();
+    const entry = flooring.get(key) || { product, rooms: [], area: 0, withReserve: 0 };
+    entry.rooms.push(room.name);
+    entry.area += room.area;
+    entry.withReserve += room.area * RESERVE_COEFFICIENTS[room.installationType];
+    flooring.set(key, entry);
+  }
+  for (const { product, rooms: names, area, withReserve } of Array.from(flooring.values())) {
+    const packages = Math.ceil(round2(withReserve) / product.areaPerPackage!);
+    pushLine(lines, "flooring", product, names, area, withReserve, packages, product.price! * product.areaPerPackage!);
+  }
+
+  const allNames = measured.map((room) => room.name);
+  const totalArea = measured.reduce((sum, room) => sum + room.area, 0);
+
+  if (accessories.underlay && totalArea > 0) {
+    const product = findProduct(accessories.underlay);
+    if (!product || !product.price || !product.areaPerPackage) {
+      issues.push(`Подложка ${accessories.underlay} не найдена или без цены и площади упаковки`);
+    } else {
+      const withReserve = totalArea * UNDERLAY_RESERVE;
+      const packages = Math.ceil(round2(withReserve) / product.areaPerPackage);
+      pushLine(lines, "underlay", product, allNames, totalArea, withReserve, packages, product.price * product.areaPerPackage);
+    }
+  }
+
+  const skirtingLength = measured.reduce((sum, room) => sum + room.skirtingLength, 0);
+  if (accessories.skirting && skirtingLength > 0) {
+    const product = findProduct(accessories.skirting);
+    if (!product || !product.price || !product.pieceLength) {
+      issues.push(`Плинтус ${accessories.skirting} не найден или без цены и длины планки`);
+    } else {
+      const withReserve = skirtingLength * SKIRTING_RESERVE;
+      const pieces = Math.ceil(round2(withReserve) / product.pieceLength);
+      pushLine(lines, "skirting", product, allNames, skirtingLength, withReserve, pieces, product.price);
+    }
+  }
+
+  const thresholds = measured.reduce((sum, room) => sum + room.thresholds, 0);
+  if (accessories.threshold && thresholds > 0) {
+    const product = findProduct(accessories.threshold);
+    if (!product || !product.price) {
+      issues.push(`Порог ${accessories.threshold} не найден или без цены`);
+    } else {
+      const names = measured.filter((room) => room.thresholds > 0).map((room) => room.name);
+      pushLine(lines, "threshold", product, names, thresholds, thresholds, thresholds, product.price);
+    }
+  }
+
+  return {
+    rooms: measured,
+    lines,
+    issues,
+    totalArea: round2(totalArea),
+    totalPackages: lines.filter((line) => line.unit === "уп.").reduce((sum, line) => sum + line.quantity, 0),
+    totalPieces: lines.filter((line) => line.unit === "шт.").reduce((sum, line) => sum + line.quantity, 0),
+    totalCost: round2(lines.reduce((sum, line) => sum + line.cost, 0)),
+  };
+}
@@ -0,0 +1,153 @@
+/**
+ * Calculator Projects
+ *
+ * Сохранённые в личном кабинете расчёты объектов из нескольких помещений:
+ * 1. Помещения и выбранные аксессуары хранятся как введены, чтобы проект можно было открыть и изменить
+ * 2. Позиции пересчитываются по каталогу при каждом сохранении — цены с клиента не принимаются
+ * 3. Проект с позициями, которые нельзя посчитать, не сохраняется
+ */
+
+import prisma from "@/lib/prisma";
+import { CalculatorProject, Prisma } from "@prisma/client";
+import { findCatalogRows, normalizeVendorCode } from "@/lib/cart";
+import { areaPerPackageFromParams } from "@/lib/calculator";
+import {
+  calculateProject,
+  pieceLengthFromParams,
+  ProjectAccessories,
+  ProjectCalculation,
+  ProjectLine,
+  ProjectProduct,
+  ProjectRoom,
+} from "@/lib/project-calculator";
+
+// Types
+export interface ProjectInput {
+  name: string;
+  comment?: string | null;
+  rooms: ProjectRoom[];
+  accessories: ProjectAccessories;
+}
+
+export interface ProjectView {
+  id: string;
+  name: string;
+  comment: string | null;
+  rooms: ProjectRoom[];
+  accessories: ProjectAccessories;
+  lines: ProjectLine[];
+  totalArea: number;
+  totalCost: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type ProjectResult =
+  | { success: true; project: ProjectView }
+  | { success: false; error: string; status: number };
+
+export function toProjectView(project: CalculatorProject): ProjectView {
+  return {
+    id: project.id,
+    name: project.name,
+    comment: project.comment,
+    rooms: project.rooms as unknown as ProjectRoom[],
+    accessories: project.accessories as unknown as ProjectAccessories,
+    lines: project.lines as unknown as ProjectLine[],
+    totalArea: project.totalArea,
+    totalCost: project.totalCost,
+    createdAt: project.createdAt,
+    updatedAt: project.updatedAt,
+  };
+}
+
+/**
+ * Price a project from the catalog with the shared project formula
+ */
+export async function priceProject(
+  rooms: ProjectRoom[],
+  accessories: ProjectAccessories
+): Promise<ProjectCalculation> {
+  const codes = [
+    ...rooms.map((room) => room.vendorCode),
+    ...Object.values(accessories),
+  ].filter((code): code is string => Boolean(code));
+  const catalog = await findCatalogRows(codes);
+
+  return calculateProject(rooms, accessories, (vendorCode): ProjectProduct | null => {
+    const row = catalog.get(normalizeVendorCode(vendorCode));
+    if (!row) return null;
+    const params = row.params as Record<string, unknown>;
+    return {
+      vendorCode: row.vendorCode,
+      name: row.name,
+      price: row.price,
+      areaPerPackage: row.areaPerPackage || areaPerPackageFromParams(params),
+      pieceLength: pieceLengthFromParams(params),
+    };
+  });
+}
+
+async function buildProjectData(
+  input: ProjectInput
+): Promise<{ data: Omit<Prisma.CalculatorProjectUncheckedCreateInput, "userId"> } | { error: string }> {
+  const name = input.name.trim();
+  if (!name) return { error: "Name is required" };
+
+  const calculation = await priceProject(input.rooms, input.accessories);
+  if (calculation.issues.length > 0) return { error: calculation.issues.join("; ") };
+  if (calculation.lines.length === 0) return { error: "Project has no products" };
+
+  return {
+    data: {
+      name: name.slice(0, 200),
+      comment: input.comment?.trim() || null,
+      rooms: input.rooms as unknown as Prisma.InputJsonValue,
+      accessories: input.accessories as unknown as Prisma.InputJsonValue,
+      lines: calculation.lines as unknown as Prisma.InputJsonValue,
+      totalArea: calculation.totalArea,
+      totalCost: calculation.totalCost,
+    },
+  };
+}
+
+export async function createProject(userId: string, input: ProjectInput): Promise<ProjectResult> {
+  const built = await buildProjectData(input);
+  if ("error" in built) return { success: false, error: built.error, status: 400 };
+
+  const project = await prisma.calculatorProject.create({ data: { userId, ...built.data } });
+  return { success: true, project: toProjectView(project) };
+}
+
+export async function updateProject(
+  userId: string,
+  id: string,
+  input: ProjectInput
+): Promise<ProjectResult> {
+  const existing = await prisma.calculatorProject.findFirst({ where: { id, userId }, select: { id: true } });
+  if (!existing) return { success: false, error: "Project not found", status: 404 };
+
+  const built = await buildProjectData(input);
+  if ("error" in built) return { success: false, error: built.error, status: 400 };
+
+  const project = await prisma.calculatorProject.update({ where: { id }, data: built.data });
+  return { success: true, project: toProjectView(project) };
+}
+
+export async function listProjects(userId: string): Promise<ProjectView[]> {
+  const projects = await prisma.calculatorProject.findMany({
+    where: { userId },
+    orderBy: { updatedAt: "desc" },
+  });
+  return projects.map(toProjectView);
+}
+
+export async function getProject(userId: string, id: string): Promise<ProjectView | null> {
+  const project = await prisma.calculatorProject.findFirst({ where: { id, userId } });
+  return project ? toProjectView(project) : null;
+}
+
+export async function deleteProject(userId: string, id: string): Promise<boolean> {
+  const { count } = await prisma.calculatorProject.deleteMany({ where: { id, userId } });
+  return count > 0;
+}
@@ -0,0 +1,49 @@
+/**
+ * Quote PDF
+ *
+ * PDF коммерческого предложения в браузере: QuoteDocument снимается html2canvas и
+ * раскладывается по страницам A4. Картинкой, а не текстом — стандартные шрифты jsPDF не знают кириллицу.
+ */
+
+const PAGE_MARGIN_MM = 10;
+
+export async function downloadQuotePdf(element: HTMLElement, fileName: string): Promise<void> {
+  // Loaded on demand: both libraries are heavy and only needed for the export
+  const [{ default: html2canvas }, { jsPDF }] = await Promise.all([
+    import("html2canvas"),
+    import("jspdf"),
+  ]);
+
+  const canvas = await html2canvas(element, {
+    scale: 2,
+    backgroundColor: "#ffffff",
+    useCORS: true,
+  });
+
+  const pdf = new jsPDF({ orientation: "portrait", unit: "mm", format: "a4" });
+  const pageWidth = pdf.internal.pageSize.getWidth() - PAGE_MARGIN_MM * 2;
+  const pageHeight = pdf.internal.pageSize.getHeight() - PAGE_MARGIN_MM * 2;
+
+  // Canvas pixels that fit on one page at the page width
+  const sliceHeight = Math.floor((canvas.width * pageHeight) / pageWidth);
+
+  for (let offset = 0, page = 0; offset < canvas.height; offset += sliceHeight, page++) {
+    const height = Math.min(sliceHeight, canvas.height - offset);
+    const slice = document.createElement("canvas");
+    slice.width = canvas.width;
+    slice.height = height;
+    slice.getContext("2d")!.drawImage(canvas, 0, offset, canvas.width, height, 0, 0, canvas.width, height);
+
+    if (page > 0) pdf.addPage();
+    pdf.addImage(
+      slice.toDataURL("image/jpeg", 0.92),
+      "JPEG",
+      PAGE_MARGIN_MM,
+      PAGE_MARGIN_MM,
+      pageWidth,
+      (height * pageWidth) / canvas.width
+    );
+  }
+
+  pdf.save(`${fileName.replace(/[\\/:*?"<>|]+/g, " ").trim() || "quote"}.pdf`);
+}
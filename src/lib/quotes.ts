@@ -0,0 +1,392 @@
+/**
+ * Quotes
+ *
+ * Коммерческие предложения из расчётов калькулятора:
+ * 1. Позиции (артикул, площадь, способ укладки) пересчитываются по каталогу при сохранении — цены с клиента не принимаются
+ * 2. Скидка задаётся на всё предложение, не больше скидки калькулятора
+ * 3. Клиент открывает предложение по ссылке с токеном без входа в приложение
+ * 4. Каждая отправка (ссылка, email, WhatsApp, PDF) пишется в quote_share_logs со снимком предложения
+ * 5. Закупочные цены автора (lib/dealer-pricing) фиксируются при сохранении и видны только ему
+ */
+
+import { randomBytes } from "crypto";
+import prisma from "@/lib/prisma";
+import { checkRateLimit } from "@/lib/rate-limiter";
+import { Prisma, Quote } from "@prisma/client";
+import { findCatalogRows, normalizeVendorCode } from "@/lib/cart";
+import {
+  calculateFlooring,
+  clampDiscount,
+  InstallationType,
+  isInstallationType,
+} from "@/lib/calculator";
+import { appUrl, sendTemplateEmail } from "@/lib/email";
+import { dealerPrice, purchaseTotals, PurchaseTotals, resolveUserPriceType } from "@/lib/dealer-pricing";
+
+// Types
+export interface QuoteLine {
+  vendorCode: string;
+  productName: string;
+  picture: string | null;
+  installationType: InstallationType;
+  area: number;
+  areaWithReserve: number;
+  areaPerPackage: number;
+  packages: number;
+  pricePerM2: number;
+  baseCost: number;
+}
+
+export interface QuoteLineInput {
+  vendorCode: string;
+  area: number;
+  installationType: InstallationType;
+}
+
+export interface QuoteInput {
+  title: string;
+  customerName?: string | null;
+  comment?: string | null;
+  discountPercent?: number;
+  lines: QuoteLineInput[];
+}
+
+// Margin is taken against the discounted total of the lines that have a purchase price
+export interface QuoteDealerPricing extends PurchaseTotals {
+  lines: Array<{ vendorCode: string; purchasePricePerM2: number; purchaseCost: number }>;
+}
+
+export type QuoteShareMethod = "link" | "email" | "whatsapp" | "pdf";
+
+export interface QuoteView {
+  id: string;
+  title: string;
+  customerName: string | null;
+  comment: string | null;
+  lines: QuoteLine[];
+  discountPercent: number;
+  baseCost: number;
+  discountAmount: number;
+  totalCost: number;
+  dealerPricing: QuoteDealerPricing | null;
+  shareUrl: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface SharedQuoteView extends Omit<QuoteView, "id" | "updatedAt" | "dealerPricing"> {
+  sender: { name: string | null; companyName: string | null; phone: string | null; email: string };
+}
+
+export type QuoteResult =
+  | { success: true; quote: QuoteView }
+  | { success: false; error: string; status: number };
+
+export type QuoteShareResult =
+  | { success: true; method: QuoteShareMethod; url: string; whatsappUrl?: string }
+  | { success: false; error: string; status: number };
+
+export const QUOTE_SHARE_METHODS: QuoteShareMethod[] = ["link", "email", "whatsapp", "pdf"];
+
+const MAX_LINES = 50;
+const MAX_AREA = 100000;
+const MAX_SHARE_MESSAGE_LENGTH = 1000;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+export function quoteShareUrl(shareToken: string): string {
+  return `${appUrl()}/shared/quotes/${shareToken}`;
+}
+
+export function toQuoteView(quote: Quote): QuoteView {
+  return {
+    id: quote.id,
+    title: quote.title,
+    customerName: quote.customerName,
+    comment: quote.comment,
+    lines: quote.lines as unknown as QuoteLine[],
+    discountPercent: quote.discountPercent,
+    baseCost: quote.baseCost,
+    discountAmount: quote.discountAmount,
+    totalCost: quote.totalCost,
+    dealerPricing: (quote.dealerPricing as unknown as QuoteDealerPricing | null) || null,
+    shareUrl: quoteShareUrl(quote.shareToken),
+    createdAt: quote.createdAt,
+    updatedAt: quote.updatedAt,
+  };
+}
+
+/**
+ * Validate raw lines from a request body. Returns null when a line is malformed.
+ */
+export function parseQuoteLines(raw: unknown): QuoteLineInput[] | null {
+  if (!Array.isArray(raw) || raw.length === 0 || raw.length > MAX_LINES) return null;
+  const lines: QuoteLineInput[] = [];
+  for (const item of raw) {
+    const area = parseFloat(String(item?.area ?? "").replace(",", "."));
+    if (
+      typeof item?.vendorCode !== "string" ||
+      !item.vendorCode.trim() ||
+      !Number.isFinite(area) ||
+      area <= 0 ||
+      area > MAX_AREA ||
+      !isInstallationType(item.installationType)
+    ) {
+      return null;
+    }
+    lines.push({ vendorCode: item.vendorCode.trim(), area, installationType: item.installationType });
+  }
+  return lines;
+}
+
+/**
+ * Price quote lines from the catalog with the calculator formula,
+ * with purchase prices of the given price type
+ */
+async function priceQuoteLines(
+  inputs: QuoteLineInput[],
+  priceType: string | null
+): Promise<{ lines: QuoteLine[]; purchaseLines: QuoteDealerPricing["lines"] } | { error: string }> {
+  const catalog = await findCatalogRows(inputs.map((line) => line.vendorCode));
+  const lines: QuoteLine[] = [];
+  const purchaseLines: QuoteDealerPricing["lines"] = [];
+
+  for (const input of inputs) {
+    const row = catalog.get(normalizeVendorCode(input.vendorCode));
+    if (!row) return { error: `Product ${input.vendorCode} not found` };
+    if (!row.price || !row.areaPerPackage) {
+      return { error: `Product ${input.vendorCode} has no price or package size` };
+    }
+
+    const results = calculateFlooring({
+      area: input.area,
+      installationType: input.installationType,
+      discountPercent: 0,
+      areaPerPackage: row.areaPerPackage,
+      pricePerM2: row.price,
+    });
+    lines.push({
+      vendorCode: row.vendorCode,
+      productName: row.name,
+      picture: row.picture || null,
+      installationType: input.installationType,
+      area: results.cleanArea,
+      areaWithReserve: results.areaWithReserve,
+      areaPerPackage: row.areaPerPackage,
+      packages: results.packagesNeeded,
+      pricePerM2: row.price,
+      baseCost: results.baseCost,
+    });
+
+    // Purchase cost on the same basis as baseCost: m² with reserve
+    const purchase = dealerPrice(row, priceType);
+    if (purchase) {
+      purchaseLines.push({
+        vendorCode: row.vendorCode,
+        purchasePricePerM2: purchase.purchasePrice,
+        purchaseCost: calculateFlooring({
+          area: input.area,
+          installationType: input.installationType,
+          discountPercent: 0,
+          areaPerPackage: row.areaPerPackage,
+          pricePerM2: purchase.purchasePrice,
+        }).baseCost,
+      });
+    }
+  }
+
+  return { lines, purchaseLines };
+}
+
+function quoteDealerPricing(
+  priceType: string | null,
+  lines: QuoteLine[],
+  purchaseLines: QuoteDealerPricing["lines"],
+  discountPercent: number
+): QuoteDealerPricing | null {
+  const codes = new Set(purchaseLines.map((line) => line.vendorCode));
+  const retail = lines.filter((line) => codes.has(line.vendorCode)).reduce((sum, line) => sum + line.baseCost, 0);
+  const totals = purchaseTotals(
+    priceType,
+    round2(retail * (1 - discountPercent / 100)),
+    purchaseLines.length ? purchaseLines.reduce((sum, line) => sum + line.purchaseCost, 0) : null
+  );
+  return totals && { ...totals, lines: purchaseLines };
+}
+
+export async function createQuote(userId: string, input: QuoteInput): Promise<QuoteResult> {
+  const title = input.title.trim();
+  if (!title) return { success: false, error: "Title is required", status: 400 };
+
+  const priceType = await resolveUserPriceType(userId);
+  const priced = await priceQuoteLines(input.lines, priceType);
+  if ("error" in priced) return { success: false, error: priced.error, status: 400 };
+
+  const discountPercent = clampDiscount(input.discountPercent);
+  const baseCost = round2(priced.lines.reduce((sum, line) => sum + line.baseCost, 0));
+  const discountAmount = round2(baseCost * (discountPercent / 100));
+  const dealerPricing = quoteDealerPricing(priceType, priced.lines, priced.purchaseLines, discountPercent);
+
+  const quote = await prisma.quote.create({
+    data: {
+      userId,
+      title: title.slice(0, 200),
+      customerName: input.customerName?.trim() || null,
+      comment: input.comment?.trim() || null,
+      lines: priced.lines as unknown as Prisma.InputJsonValue,
+      discountPercent,
+      baseCost,
+      discountAmount,
+      totalCost: round2(baseCost - discountAmount),
+      dealerPricing: dealerPricing ? (dealerPricing as unknown as Prisma.InputJsonValue) : Prisma.DbNull,
+      shareToken: randomBytes(16).toString("hex"),
+    },
+  });
+
+  return { success: true, quote: toQuoteView(quote) };
+}
+
+export async function listQuotes(userId: string): Promise<QuoteView[]> {
+  const quotes = await prisma.quote.findMany({
+    where: { userId },
+    orderBy: { createdAt: "desc" },
+  });
+  return quotes.map(toQuoteView);
+}
+
+export async function getQuote(userId: string, id: string): Promise<QuoteView | null> {
+  const quote = await prisma.quote.findFirst({ where: { id, userId } });
+  return quote ? toQuoteView(quote) : null;
+}
+
+export async function deleteQuote(userId: string, id: string): Promise<boolean> {
+  const { count } = await prisma.quote.deleteMany({ where: { id, userId } });
+  return count > 0;
+}
+
+/**
+ * Quote for the public page: no internal ids, with the dealer's contacts
+ */
+export async function getSharedQuote(shareToken: string): Promise<SharedQuoteView | null> {
+  const quote = await prisma.quote.findUnique({
+    where: { shareToken },
+    include: {
+      user: {
+        select: {
+          email: true,
+          fullName: true,
+          displayName: true,
+          phone: true,
+          dealerProfile: { select: { companyName: true } },
+        },
+      },
+    },
+  });
+  if (!quote) return null;
+
+  const { id: _id, updatedAt: _updatedAt, dealerPricing: _dealerPricing, ...view } = toQuoteView(quote);
+  return {
+    ...view,
+    sender: {
+      name: quote.user.fullName || quote.user.displayName,
+      companyName: quote.user.dealerProfile?.companyName || null,
+      phone: quote.user.phone,
+      email: quote.user.email,
+    },
+  };
+}
+
+function quoteText(quote: QuoteView, message?: string | null): string {
+  const rub = (value: number) => `${Math.round(value).toLocaleString("ru-RU")} ₽`;
+  return [
+    message?.trim() || `Коммерческое предложение «${quote.title}»`,
+    "",
+    ...quote.lines.map(
+      (line) => `• ${line.productName} (${line.vendorCode}): ${line.packages} уп., ${line.areaWithReserve} м²`
+    ),
+    "",
+    quote.discountPercent > 0 ? `Скидка ${quote.discountPercent}%` : "",
+    `Итого: ${rub(quote.totalCost)}`,
+    quote.shareUrl,
+  ]
+    .filter((line, index, all) => line !== "" || all[index - 1] !== "")
+    .join("\n");
+}
+
+/**
+ * Share a quote and log it. Email is sent here; the WhatsApp deep link and the PDF file
+ * are opened by the browser, the server only records them.
+ */
+export async function shareQuote(
+  user: { id: string; email: string; fullName: string | null; displayName: string | null },
+  quoteId: string,
+  input: {
+    method: QuoteShareMethod;
+    recipientEmail?: string | null;
+    recipientPhone?: string | null;
+    message?: string | null;
+  }
+): Promise<QuoteShareResult> {
+  const quote = await getQuote(user.id, quoteId);
+  if (!quote) return { success: false, error: "Quote not found", status: 404 };
+
+  if ((input.message?.trim().length || 0) > MAX_SHARE_MESSAGE_LENGTH) {
+    return { success: false, error: `Message is longer than ${MAX_SHARE_MESSAGE_LENGTH} characters`, status: 400 };
+  }
+
+  const recipientEmail = input.recipientEmail?.trim() || null;
+  const phoneDigits = (input.recipientPhone || "").replace(/\D/g, "");
+  let whatsappUrl: string | undefined;
+
+  if (input.method === "email") {
+    if (!recipientEmail || !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(recipientEmail)) {
+      return { success: false, error: "Valid recipient email is required", status: 400 };
+    }
+    // The mail goes out through the company SMTP with the user's own text
+    if (!checkRateLimit(`quote-email:${user.id}`, "quoteEmail").allowed) {
+      return { success: false, error: "Too many emails, try again later", status: 429 };
+    }
+    const result = await sendTemplateEmail(recipientEmail, "quoteShared", {
+      senderName: user.fullName || user.displayName,
+      quoteTitle: quote.title,
+      lines: quote.lines.map((line) => ({
+        productName: line.productName,
+        articleCode: line.vendorCode,
+        quantity: line.packages,
+        unit: "уп.",
+        price: line.packages ? line.baseCost / line.packages : line.baseCost,
+        total: line.baseCost,
+      })),
+      totalCost: quote.totalCost,
+      discountPercent: quote.discountPercent,
+      message: input.message?.trim() || null,
+      quoteUrl: quote.shareUrl,
+    });
+    if (!result.success) {
+      return {
+        success: false,
+        error: result.skipped ? "Email channel is disabled" : result.error,
+        status: result.skipped ? 409 : 502,
+      };
+    }
+  }
+
+  if (input.method === "whatsapp") {
+    const text = encodeURIComponent(quoteText(quote, input.message));
+    whatsappUrl = phoneDigits ? `https://wa.me/${phoneDigits}?text=${text}` : `https://wa.me/?text=${text}`;
+  }
+
+  const { id: _id, shareUrl: _shareUrl, dealerPricing: _dealerPricing, ...snapshot } = quote;
+  await prisma.quoteShareLog.create({
+    data: {
+      userId: user.id,
+      quoteId: quote.id,
+      shareMethod: input.method,
+      recipientEmail: input.method === "email" ? recipientEmail : null,
+      recipientPhone: phoneDigits || null,
+      quoteData: JSON.parse(JSON.stringify(snapshot)) as Prisma.InputJsonValue,
+    },
+  });
+
+  return { success: true, method: input.method, url: quote.shareUrl, whatsappUrl };
+}
@@ -0,0 +1,287 @@
+/**
+ * RAG Service
+ *
+ * Поиск по базе знаний через эмбеддинги вместо выбора заголовков LLM:
+ * 1. Нарезка элементов базы знаний (title + description + content) на чанки
+ * 2. Генерация эмбеддингов и сохранение в KnowledgeChunk
+ * 3. Top-k поиск чанков по косинусному сходству с запросом пользователя
+ */
+
+import prisma from "@/lib/prisma";
+import { KnowledgeType } from "@prisma/client";
+import {
+  generateEmbedding,
+  generateEmbeddings,
+  AIProviderSettings,
+  EMBEDDING_MODEL,
+} from "@/lib/llm";
+import { withCache, knowledgeBaseCache, aiSettingsCache } from "@/lib/cache";
+
+// Types
+export interface RetrievedChunk {
+  knowledgeBaseId: string;
+  chunkIndex: number;
+  content: string;
+  score: number;
+}
+
+interface IndexedChunk {
+  knowledgeBaseId: string;
+  chunkIndex: number;
+  content: string;
+  embedding: number[];
+}
+
+const CHUNK_SIZE = 1200; // characters
+const CHUNK_OVERLAP = 200;
+const EMBEDDING_BATCH_SIZE = 64;
+const DEFAULT_TOP_K = 6;
+const MIN_SIMILARITY = 0.3;
+const CHUNKS_CACHE_KEY = "kb-chunks";
+
+/**
+ * Split text into overlapping chunks, preferring paragraph boundaries
+ */
+export function chunkText(
+  text: string,
+  size: number = CHUNK_SIZE,
+  overlap: number = CHUNK_OVERLAP
+): string[] {
+  const normalized = text.replace(/\r\n/g, "\n").trim();
+  if (!normalized) return [];
+
+  const paragraphs = normalized
+    .split(/\n{2,}/)
+    .map((p) => p.trim())
+    .filter(Boolean);
+
+  const chunks: string[] = [];
+  let current = "";
+
+  const pushCurrent = () => {
+    if (current.trim()) chunks.push(current.trim());
+    current = "";
+  };
+
+  for (const paragraph of paragraphs) {
+    // Long paragraph - slice it with overlap
+    if (paragraph.length > size) {
+      pushCurrent();
+      for (let start = 0; start < paragraph.length; start += size - overlap) {
+        chunks.push(paragraph.slice(start, start + size).trim());
+        if (start + size >= paragraph.length) break;
+      }
+      continue;
+    }
+
+    if (current && current.length + paragraph.length + 2 > size) {
+      const tail = current.slice(-overlap);
+      pushCurrent();
+      current = tail;
+    }
+
+    current = current ? `${current}\n\n${paragraph}` : paragraph;
+  }
+
+  pushCurrent();
+  return chunks;
+}
+
+/**
+ * Cosine similarity between two vectors
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length === 0 || a.length !== b.length) return 0;
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  if (normA === 0 || normB === 0) return 0;
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+/**
+ * Load LLM provider settings for embeddings (cached together with chat settings)
+ */
+export async function getEmbeddingSettings(): Promise<AIProviderSettings> {
+  const aiSettings = await withCache(aiSettingsCache, "ai-settings", () =>
+    prisma.aISettings.findFirst()
+  );
+
+  return {
+    provider: aiSettings?.provider || "openai",
+    apiKey: aiSettings?.apiKey,
+    baseUrl: aiSettings?.baseUrl,
+  };
+}
+
+/**
+ * Drop cached chunks so the next retrieval reads fresh vectors
+ */
+export function invalidateChunkCache(): void {
+  knowledgeBaseCache.delete(CHUNKS_CACHE_KEY);
+}
+
+/**
+ * (Re)build chunks and embeddings for a single knowledge item.
+ * Items that are not AI sources (or are XML feeds) have their chunks removed.
+ * Returns the number of indexed chunks.
+ */
+export async function indexKnowledgeItem(
+  knowledgeBaseId: string,
+  settings?: AIProviderSettings
+): Promise<number> {
+  const item = await prisma.knowledgeBase.findUnique({
+    where: { id: knowledgeBaseId },
+    select: {
+      id: true,
+      title: true,
+      description: true,
+      content: true,
+      type: true,
+      isAiSource: true,
+    },
+  });
+
+  if (!item) return 0;
+
+  if (!item.isAiSource || item.type === KnowledgeType.XML_FEED) {
+    await prisma.$transaction([
+      prisma.knowledgeChunk.deleteMany({ where: { knowledgeBaseId } }),
+      prisma.knowledgeBase.update({
+        where: { id: knowledgeBaseId },
+        data: { indexedAt: null },
+      }),
+    ]);
+    invalidateChunkCache();
+    return 0;
+  }
+
+  const body = [item.description, item.content].filter(Boolean).join("\n\n");
+  const bodyChunks = chunkText(body);
+  // Prefix every chunk with the title so short chunks keep their context
+  const chunks =
+    bodyChunks.length > 0
+      ? bodyChunks.map((chunk) => `${item.title}\n\n${chunk}`)
+      : [item.title];
+
+  const effectiveSettings = settings || (await getEmbeddingSettings());
+  const embeddings: number[][] = [];
+  for (let i = 0; i < chunks.length; i += EMBEDDING_BATCH_SIZE) {
+    const batch = await generateEmbeddings(
+      chunks.slice(i, i + EMBEDDING_BATCH_SIZE),
+      effectiveSettings
+    );
+    if (batch.length === 0) {
+      // No API key configured - nothing to index
+      return 0;
+    }
+    embeddings.push(...batch);
+  }
+
+  await prisma.$transaction([
+    prisma.knowledgeChunk.deleteMany({ where: { knowledgeBaseId } }),
+    prisma.knowledgeChunk.createMany({
+      data: chunks.map((content, chunkIndex) => ({
+        knowledgeBaseId,
+        chunkIndex,
+        content,
+        embedding: embeddings[chunkIndex],
+        embeddingModel: EMBEDDING_MODEL,
+      })),
+    }),
+    prisma.knowledgeBase.update({
+      where: { id: knowledgeBaseId },
+      data: { indexedAt: new Date() },
+    }),
+  ]);
+
+  invalidateChunkCache();
+  console.log(`[RAG] Indexed "${item.title}": ${chunks.length} chunks`);
+
+  return chunks.length;
+}
+
+/**
+ * Rebuild the whole index: every AI source except XML feeds
+ */
+export async function reindexKnowledgeBase(
+  settings?: AIProviderSettings
+): Promise<{ items: number; chunks: number }> {
+  const effectiveSettings = settings || (await getEmbeddingSettings());
+
+  // Remove chunks of items that are no longer AI sources
+  await prisma.knowledgeChunk.deleteMany({
+    where: {
+      knowledgeBase: {
+        OR: [{ isAiSource: false }, { type: KnowledgeType.XML_FEED }],
+      },
+    },
+  });
+
+  const items = await prisma.knowledgeBase.findMany({
+    where: { isAiSource: true, type: { not: KnowledgeType.XML_FEED } },
+    select: { id: true },
+  });
+
+  let chunks = 0;
+  for (const item of items) {
+    chunks += await indexKnowledgeItem(item.id, effectiveSettings);
+  }
+
+  invalidateChunkCache();
+  return { items: items.length, chunks };
+}
+
+/**
+ * Find the top-k chunks most similar to the query
+ */
+export async function retrieveRelevantChunks(
+  query: string,
+  settings?: AIProviderSettings,
+  topK: number = DEFAULT_TOP_K
+): Promise<RetrievedChunk[]> {
+  const chunks = await withCache<IndexedChunk[]>(
+    knowledgeBaseCache,
+    CHUNKS_CACHE_KEY,
+    () =>
+      prisma.knowledgeChunk.findMany({
+        where: { embedding: { isEmpty: false } },
+        select: {
+          knowledgeBaseId: true,
+          chunkIndex: true,
+          content: true,
+          embedding: true,
+        },
+      }),
+    10 * 60 * 1000 // 10 min cache
+  );
+
+  if (chunks.length === 0) return [];
+
+  let queryEmbedding: number[];
+  try {
+    queryEmbedding = await generateEmbedding(query, settings);
+  } catch {
+    return [];
+  }
+
+  if (queryEmbedding.length === 0) return [];
+
+  return chunks
+    .map((chunk) => ({
+      knowledgeBaseId: chunk.knowledgeBaseId,
+      chunkIndex: chunk.chunkIndex,
+      content: chunk.content,
+      score: cosineSimilarity(queryEmbedding, chunk.embedding),
+    }))
+    .filter((chunk) => chunk.score >= MIN_SIMILARITY)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, topK);
+}
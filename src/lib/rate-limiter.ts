@@ -118,6 +118,11 @@ export const RATE_LIMITS = {
     windowMs: 15 * 60 * 1000,
     maxRequests: 10,
   },
+  // Quote emails: 10 per hour per user
+  quoteEmail: {
+    windowMs: 60 * 60 * 1000,
+    maxRequests: 10,
+  },
 } as const;
 
 /**
@@ -0,0 +1,200 @@
+/**
+ * Rewards
+ *
+ * Каталог наград и обмен баллов:
+ * 1. Награда доступна, если она активна, есть в наличии и подходит по тиру дилера
+ * 2. Заявка списывает баллы и резервирует остаток одной транзакцией
+ * 3. Статусы заявки: REQUESTED → APPROVED → ISSUED, отклонение до выдачи возвращает баллы и остаток
+ */
+
+import prisma from "@/lib/prisma";
+import {
+  DealerTier,
+  PointsTransactionType,
+  Prisma,
+  RedemptionStatus,
+  Reward,
+} from "@prisma/client";
+import { addPointsTransaction } from "@/lib/dealer-points";
+
+// Types
+export type RedemptionResult =
+  | { success: true; redemptionId: string; status: RedemptionStatus; balance?: number }
+  | { success: false; error: string; status: number };
+
+export const REDEMPTION_STATUS_TRANSITIONS: Record<RedemptionStatus, RedemptionStatus[]> = {
+  [RedemptionStatus.REQUESTED]: [RedemptionStatus.APPROVED, RedemptionStatus.REJECTED],
+  [RedemptionStatus.APPROVED]: [RedemptionStatus.ISSUED, RedemptionStatus.REJECTED],
+  [RedemptionStatus.ISSUED]: [],
+  [RedemptionStatus.REJECTED]: [],
+};
+
+export function canTransitionRedemption(from: RedemptionStatus, to: RedemptionStatus): boolean {
+  return REDEMPTION_STATUS_TRANSITIONS[from].includes(to);
+}
+
+export function isRewardAvailableForTier(
+  reward: Pick<Reward, "tiers">,
+  tier: DealerTier
+): boolean {
+  return reward.tiers.length === 0 || reward.tiers.includes(tier);
+}
+
+// Thrown inside a transaction to roll it back with a result for the caller
+class RedemptionAborted extends Error {
+  constructor(public result: Extract<RedemptionResult, { success: false }>) {
+    super(result.error);
+  }
+}
+
+/**
+ * Create a redemption request: debit the points and reserve a unit of stock
+ */
+export async function requestRedemption(input: {
+  dealerProfileId: string;
+  tier: DealerTier;
+  rewardId: string;
+  comment?: string | null;
+  createdById: string;
+}): Promise<RedemptionResult> {
+  const reward = await prisma.reward.findUnique({ where: { id: input.rewardId } });
+  if (!reward || !reward.isActive) {
+    return { success: false, error: "Reward not found", status: 404 };
+  }
+  if (!isRewardAvailableForTier(reward, input.tier)) {
+    return { success: false, error: "Reward is not available for your tier", status: 403 };
+  }
+
+  try {
+    return await prisma.$transaction(async (tx) => {
+      if (reward.stock !== null) {
+        const { count } = await tx.reward.updateMany({
+          where: { id: reward.id, stock: { gt: 0 } },
+          data: { stock: { decrement: 1 } },
+        });
+        if (count === 0) {
+          throw new RedemptionAborted({ success: false, error: "Reward is out of stock", status: 409 });
+        }
+      }
+
+      const redemption = await tx.rewardRedemption.create({
+        data: {
+          rewardId: reward.id,
+          dealerProfileId: input.dealerProfileId,
+          rewardTitle: reward.title,
+          pointsCost: reward.pointsCost,
+          comment: input.comment?.trim() || null,
+        },
+      });
+
+      const debit = await addPointsTransaction(
+        {
+          dealerProfileId: input.dealerProfileId,
+          type: PointsTransactionType.REDEMPTION,
+          amount: reward.pointsCost,
+          reason: `Обмен на награду «${reward.title}»`,
+          redemptionId: redemption.id,
+          createdById: input.createdById,
+        },
+        tx
+      );
+      if (!debit.success) {
+        throw new RedemptionAborted(debit);
+      }
+
+      return {
+        success: true as const,
+        redemptionId: redemption.id,
+        status: redemption.status,
+        balance: debit.balance,
+      };
+    });
+  } catch (error) {
+    if (error instanceof RedemptionAborted) return error.result;
+    throw error;
+  }
+}
+
+/**
+ * Move a redemption to a new status. Rejection returns the points and the stock.
+ * The update is conditional on the current status, so a request cannot be processed twice.
+ */
+export async function changeRedemptionStatus(
+  redemptionId: string,
+  toStatus: RedemptionStatus,
+  processedById: string,
+  comment?: string | null
+): Promise<RedemptionResult> {
+  const redemption = await prisma.rewardRedemption.findUnique({
+    where: { id: redemptionId },
+    include: { reward: { select: { stock: true } } },
+  });
+  if (!redemption) {
+    return { success: false, error: "Redemption not found", status: 404 };
+  }
+  if (!canTransitionRedemption(redemption.status, toStatus)) {
+    return {
+      success: false,
+      error: `Transition ${redemption.status} → ${toStatus} is not allowed`,
+      status: 400,
+    };
+  }
+
+  try {
+    return await prisma.$transaction(async (tx) => {
+      const { count } = await tx.rewardRedemption.updateMany({
+        where: { id: redemptionId, status: redemption.status },
+        data: {
+          status: toStatus,
+          processedById,
+          ...(comment?.trim() && { adminComment: comment.trim() }),
+        },
+      });
+      if (count === 0) {
+        throw new RedemptionAborted({
+          success: false,
+          error: "Redemption was processed by someone else, reload the list",
+          status: 409,
+        });
+      }
+
+      if (toStatus === RedemptionStatus.REJECTED) {
+        const refund = await addPointsTransaction(
+          {
+            dealerProfileId: redemption.dealerProfileId,
+            type: PointsTransactionType.ADJUSTMENT,
+            amount: redemption.pointsCost,
+            reason: `Возврат баллов: заявка на «${redemption.rewardTitle}» отклонена`,
+            redemptionId,
+            createdById: processedById,
+          },
+          tx
+        );
+        if (!refund.success) throw new RedemptionAborted(refund);
+
+        if (redemption.reward.stock !== null) {
+          await tx.reward.update({
+            where: { id: redemption.rewardId },
+            data: { stock: { increment: 1 } },
+          });
+        }
+      }
+
+      return { success: true as const, redemptionId, status: toStatus };
+    });
+  } catch (error) {
+    if (error instanceof RedemptionAborted) return error.result;
+    throw error;
+  }
+}
+
+export const redemptionInclude = {
+  dealerProfile: {
+    select: {
+      id: true,
+      companyName: true,
+      user: { select: { email: true, fullName: true, displayName: true } },
+    },
+  },
+  processedBy: { select: { email: true, fullName: true, displayName: true } },
+} satisfies Prisma.RewardRedemptionInclude;
@@ -0,0 +1,303 @@
+/**
+ * Room Shape
+ *
+ * Помещения сложной формы (Г-образные, с эркером, с колоннами) для калькулятора:
+ * 1. Контур — многоугольник в метрах: задаётся длинами стен с направлением или точками на сетке
+ * 2. Последняя стена замыкает контур сама — её длина считается
+ * 3. Колонны вычитаются из площади и добавляют свой периметр к плинтусу,
+ *    вырезы (встроенная мебель, подиумы) только вычитаются из площади
+ * 4. Колонны и вырезы должны лежать внутри контура и не перекрывать друг друга
+ *
+ * Модуль без обращений к БД: используется и в браузере, и на сервере.
+ */
+
+// Types
+export interface ShapePoint {
+  x: number; // m, to the right
+  y: number; // m, down
+}
+
+export type CutoutKind = "column" | "cutout";
+
+export interface ShapeCutout {
+  kind: CutoutKind;
+  x: number;
+  y: number;
+  length: number; // along x
+  width: number; // along y
+}
+
+export interface RoomShape {
+  points: ShapePoint[];
+  cutouts: ShapeCutout[];
+}
+
+export interface ShapeWall {
+  length: number;
+  direction: number; // degrees: 0 right, 90 down, 180 left, 270 up
+}
+
+export interface ShapeMeasurements {
+  area: number;
+  perimeter: number; // walls only
+  columnsPerimeter: number;
+  length: number; // bounding box along x
+  width: number; // bounding box along y
+  closingWall: number;
+  cutoutsValid: boolean; // every cutout inside the contour, none overlapping
+  valid: boolean;
+}
+
+export const WALL_DIRECTIONS: Array<{ angle: number; label: string }> = [
+  { angle: 0, label: "→ вправо" },
+  { angle: 45, label: "↘ вправо-вниз" },
+  { angle: 90, label: "↓ вниз" },
+  { angle: 135, label: "↙ влево-вниз" },
+  { angle: 180, label: "← влево" },
+  { angle: 225, label: "↖ влево-вверх" },
+  { angle: 270, label: "↑ вверх" },
+  { angle: 315, label: "↗ вправо-вверх" },
+];
+
+export const CUTOUT_LABELS: Record<CutoutKind, string> = {
+  column: "Колонна",
+  cutout: "Вырез",
+};
+
+const MAX_POINTS = 60;
+const MAX_CUTOUTS = 20;
+const MAX_COORDINATE = 1000;
+
+const EPSILON = 1e-6;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+const round3 = (value: number) => Math.round(value * 1000) / 1000;
+
+const distance = (a: ShapePoint, b: ShapePoint) => Math.hypot(b.x - a.x, b.y - a.y);
+
+/**
+ * Rectangle room as a shape, the starting point for the editor
+ */
+export function rectangleShape(length: number, width: number): RoomShape {
+  return {
+    points: [
+      { x: 0, y: 0 },
+      { x: length, y: 0 },
+      { x: length, y: width },
+      { x: 0, y: width },
+    ],
+    cutouts: [],
+  };
+}
+
+/**
+ * Walls to contour points from the first corner. A last wall that returns to the start is dropped:
+ * the contour is always closed by a computed wall.
+ */
+export function wallsToPoints(walls: ShapeWall[], origin: ShapePoint = { x: 0, y: 0 }): ShapePoint[] {
+  const points: ShapePoint[] = [origin];
+  for (const wall of walls) {
+    const last = points[points.length - 1];
+    const radians = (wall.direction * Math.PI) / 180;
+    points.push({
+      x: round3(last.x + wall.length * Math.cos(radians)),
+      y: round3(last.y + wall.length * Math.sin(radians)),
+    });
+  }
+  if (points.length > 1 && distance(points[0], points[points.length - 1]) < 0.01) points.pop();
+  return points;
+}
+
+/**
+ * Contour points to walls, without the closing wall
+ */
+export function pointsToWalls(points: ShapePoint[]): ShapeWall[] {
+  const walls: ShapeWall[] = [];
+  for (let i = 1; i < points.length; i++) {
+    const angle = (Math.atan2(points[i].y - points[i - 1].y, points[i].x - points[i - 1].x) * 180) / Math.PI;
+    walls.push({
+      length: round2(distance(points[i - 1], points[i])),
+      direction: Math.round((angle + 360) % 360),
+    });
+  }
+  return walls;
+}
+
+function polygonArea(points: ShapePoint[]): number {
+  let sum = 0;
+  for (let i = 0; i < points.length; i++) {
+    const a = points[i];
+    const b = points[(i + 1) % points.length];
+    sum += a.x * b.y - b.x * a.y;
+  }
+  return Math.abs(sum) / 2;
+}
+
+function segmentsCross(a: ShapePoint, b: ShapePoint, c: ShapePoint, d: ShapePoint): boolean {
+  const cross = (p: ShapePoint, q: ShapePoint, r: ShapePoint) =>
+    (q.x - p.x) * (r.y - p.y) - (q.y - p.y) * (r.x - p.x);
+  const d1 = cross(c, d, a);
+  const d2 = cross(c, d, b);
+  const d3 = cross(a, b, c);
+  const d4 = cross(a, b, d);
+  return ((d1 > 0 && d2 < 0) || (d1 < 0 && d2 > 0)) && ((d3 > 0 && d4 < 0) || (d3 < 0 && d4 > 0));
+}
+
+/**
+ * A contour is usable when it has at least three corners and its walls do not cross
+ */
+export function isSimplePolygon(points: ShapePoint[]): boolean {
+  if (points.length < 3) return false;
+  const n = points.length;
+  for (let i = 0; i < n; i++) {
+    for (let j = i + 2; j < n; j++) {
+      if (i === 0 && j === n - 1) continue; // neighbours through the closing wall
+      if (segmentsCross(points[i], points[(i + 1) % n], points[j], points[(j + 1) % n])) return false;
+    }
+  }
+  return polygonArea(points) > 0;
+}
+
+function pointOnSegment(p: ShapePoint, a: ShapePoint, b: ShapePoint): boolean {
+  const cross = (b.x - a.x) * (p.y - a.y) - (b.y - a.y) * (p.x - a.x);
+  return (
+    Math.abs(cross) < EPSILON &&
+    p.x >= Math.min(a.x, b.x) - EPSILON &&
+    p.x <= Math.max(a.x, b.x) + EPSILON &&
+    p.y >= Math.min(a.y, b.y) - EPSILON &&
+    p.y <= Math.max(a.y, b.y) + EPSILON
+  );
+}
+
+// Points on a wall count as inside
+function pointInPolygon(p: ShapePoint, points: ShapePoint[]): boolean {
+  let inside = false;
+  for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+    const a = points[i];
+    const b = points[j];
+    if (pointOnSegment(p, a, b)) return true;
+    if (a.y > p.y !== b.y > p.y && p.x < ((b.x - a.x) * (p.y - a.y)) / (b.y - a.y) + a.x) inside = !inside;
+  }
+  return inside;
+}
+
+function cutoutCorners(c: ShapeCutout): ShapePoint[] {
+  return [
+    { x: c.x, y: c.y },
+    { x: c.x + c.length, y: c.y },
+    { x: c.x + c.length, y: c.y + c.width },
+    { x: c.x, y: c.y + c.width },
+  ];
+}
+
+/**
+ * A cutout lies inside the contour when its corners do, no wall crosses its sides
+ * and no corner of a concave contour pokes into it
+ */
+function cutoutInsideContour(cutout: ShapeCutout, points: ShapePoint[]): boolean {
+  const corners = cutoutCorners(cutout);
+  if (!corners.every((corner) => pointInPolygon(corner, points))) return false;
+
+  for (let i = 0; i < points.length; i++) {
+    const a = points[i];
+    const b = points[(i + 1) % points.length];
+    for (let k = 0; k < 4; k++) {
+      if (segmentsCross(a, b, corners[k], corners[(k + 1) % 4])) return false;
+    }
+    if (
+      a.x > cutout.x + EPSILON &&
+      a.x < cutout.x + cutout.length - EPSILON &&
+      a.y > cutout.y + EPSILON &&
+      a.y < cutout.y + cutout.width - EPSILON
+    ) {
+      return false;
+    }
+  }
+  return true;
+}
+
+function cutoutsOverlap(a: ShapeCutout, b: ShapeCutout): boolean {
+  const overlapX = Math.min(a.x + a.length, b.x + b.length) - Math.max(a.x, b.x);
+  const overlapY = Math.min(a.y + a.width, b.y + b.width) - Math.max(a.y, b.y);
+  return overlapX > EPSILON && overlapY > EPSILON;
+}
+
+/**
+ * Cutouts are subtracted from the area as they are, so each must lie inside the contour
+ * and must not overlap another one
+ */
+export function cutoutsFit(shape: RoomShape): boolean {
+  const { points, cutouts } = shape;
+  return cutouts.every(
+    (cutout, index) =>
+      cutoutInsideContour(cutout, points) &&
+      cutouts.slice(index + 1).every((other) => !cutoutsOverlap(cutout, other))
+  );
+}
+
+export function measureShape(shape: RoomShape): ShapeMeasurements {
+  const { points } = shape;
+  const simple = isSimplePolygon(points);
+  const cutoutsValid = simple && cutoutsFit(shape);
+  const valid = simple && cutoutsValid;
+  const xs = points.map((p) => p.x);
+  const ys = points.map((p) => p.y);
+
+  let perimeter = 0;
+  for (let i = 0; i < points.length; i++) perimeter += distance(points[i], points[(i + 1) % points.length]);
+
+  const cutoutsArea = shape.cutouts.reduce((sum, c) => sum + c.width * c.length, 0);
+  const columnsPerimeter = shape.cutouts
+    .filter((c) => c.kind === "column")
+    .reduce((sum, c) => sum + 2 * (c.width + c.length), 0);
+
+  return {
+    area: simple ? round2(Math.max(0, polygonArea(points) - cutoutsArea)) : 0,
+    perimeter: simple ? round2(perimeter) : 0,
+    columnsPerimeter: round2(columnsPerimeter),
+    length: points.length ? round2(Math.max(...xs) - Math.min(...xs)) : 0,
+    width: points.length ? round2(Math.max(...ys) - Math.min(...ys)) : 0,
+    closingWall: points.length > 1 ? round2(distance(points[points.length - 1], points[0])) : 0,
+    cutoutsValid,
+    valid,
+  };
+}
+
+/**
+ * Validate a raw shape from a request body. Returns null when it is malformed, not a simple polygon
+ * or has cutouts outside the contour or overlapping each other.
+ */
+export function parseRoomShape(raw: unknown): RoomShape | null {
+  const source = raw as { points?: unknown; cutouts?: unknown } | null;
+  if (!source || !Array.isArray(source.points) || source.points.length > MAX_POINTS) return null;
+  const cutouts = source.cutouts === undefined ? [] : source.cutouts;
+  if (!Array.isArray(cutouts) || cutouts.length > MAX_CUTOUTS) return null;
+
+  const coordinate = (value: unknown) =>
+    typeof value === "number" && Number.isFinite(value) && Math.abs(value) <= MAX_COORDINATE;
+
+  const points: ShapePoint[] = [];
+  for (const point of source.points) {
+    if (!coordinate(point?.x) || !coordinate(point?.y)) return null;
+    points.push({ x: point.x, y: point.y });
+  }
+
+  const parsedCutouts: ShapeCutout[] = [];
+  for (const cutout of cutouts) {
+    if (
+      (cutout?.kind !== "column" && cutout?.kind !== "cutout") ||
+      !coordinate(cutout.x) ||
+      !coordinate(cutout.y) ||
+      !coordinate(cutout.width) ||
+      !coordinate(cutout.length) ||
+      cutout.width <= 0 ||
+      cutout.length <= 0
+    ) {
+      return null;
+    }
+    parsedCutouts.push({ kind: cutout.kind, x: cutout.x, y: cutout.y, width: cutout.width, length: cutout.length });
+  }
+
+  const shape = { points, cutouts: parsedCutouts };
+  return measureShape(shape).valid ? shape : null;
+}
@@ -0,0 +1,640 @@
+/**
+ * Telegram Bot
+ *
+ * Telegram-бот как ещё один вход в чат-ассистента (настройки — интеграция «telegram»):
+ * 1. Привязка: в профиле пользователь получает одноразовый код и открывает бота по ссылке t.me/<бот>?start=<код>
+ * 2. Сообщения привязанных и одобренных пользователей проходят тот же конвейер, что и веб-чат (lib/chat-pipeline)
+ * 3. Карточки product_info и ссылки на скачивание превращаются в сообщения Telegram с фото и кнопками
+ * 4. Переписка сохраняется в chat_sessions под sessionId вида telegram:<chatId>
+ *
+ * Адрес Bot API задаётся в настройках, поэтому вебхук можно проверить с локальной заглушкой API.
+ */
+
+import { randomBytes, randomUUID } from "crypto";
+import prisma from "@/lib/prisma";
+import { Prisma } from "@prisma/client";
+import { getIntegration, saveIntegration, TelegramIntegrationConfig } from "@/lib/integrations";
+import {
+  answerChatMessage,
+  ChatHistoryMessage,
+  ChatReply,
+  DownloadLinkPayload,
+  MultiDownloadLinksPayload,
+  withDealerPrice,
+} from "@/lib/chat-pipeline";
+import { resolveUserPriceType } from "@/lib/dealer-pricing";
+import { ProductInfoPayload } from "@/lib/article-service";
+import { checkRateLimit } from "@/lib/rate-limiter";
+import { aiQueue } from "@/lib/ai-queue";
+import { appUrl } from "@/lib/email";
+
+// Types
+export interface TelegramUser {
+  id: number;
+  is_bot?: boolean;
+  first_name: string;
+  username?: string;
+}
+
+export interface TelegramMessage {
+  message_id: number;
+  from?: TelegramUser;
+  chat: { id: number; type: string };
+  text?: string;
+}
+
+export interface TelegramUpdate {
+  update_id: number;
+  message?: TelegramMessage;
+}
+
+interface InlineButton {
+  text: string;
+  url: string;
+}
+
+// One Bot API call: sendMessage or sendPhoto with its payload (without chat_id)
+export interface TelegramOutgoing {
+  method: "sendMessage" | "sendPhoto";
+  payload: Record<string, unknown>;
+}
+
+export interface TelegramLinkStatus {
+  enabled: boolean;
+  botUsername: string | null;
+  linked: boolean;
+  username: string | null;
+  linkedAt: Date | null;
+}
+
+export class TelegramApiError extends Error {}
+
+const LINK_CODE_TTL = 15 * 60 * 1000;
+const MESSAGE_LIMIT = 4096;
+const CAPTION_LIMIT = 1024;
+const HISTORY_LIMIT = 50;
+const MAX_PARAMS = 8;
+const MAX_WAREHOUSES = 10;
+const MAX_IMAGES = 3;
+
+const PROFILE_PATH = "/account/profile";
+
+// Telegram retries a webhook until it gets 200; remember recent updates to skip the repeats
+const recentUpdates = new Set<number>();
+
+// ============================================================================
+// Bot API
+// ============================================================================
+
+export async function callTelegramApi<T = unknown>(
+  config: Pick<TelegramIntegrationConfig, "botToken" | "apiBaseUrl">,
+  method: string,
+  payload: Record<string, unknown> = {}
+): Promise<T> {
+  if (!config.botToken) {
+    throw new TelegramApiError("Bot token is not set");
+  }
+  const base = (config.apiBaseUrl || "https://api.telegram.org").replace(/\/$/, "");
+  const response = await fetch(`${base}/bot${config.botToken}/${method}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(payload),
+    signal: AbortSignal.timeout(15000),
+  });
+  const data = (await response.json().catch(() => null)) as {
+    ok: boolean;
+    result?: T;
+    description?: string;
+  } | null;
+  if (!data?.ok) {
+    throw new TelegramApiError(data?.description || `Bot API ${method} failed with ${response.status}`);
+  }
+  return data.result as T;
+}
+
+/**
+ * Register the webhook with Bot API: resolves the bot username and issues a fresh secret token
+ */
+export async function setTelegramWebhook(): Promise<{ url: string; botUsername: string }> {
+  const { config } = await getIntegration("telegram");
+  const me = await callTelegramApi<TelegramUser>(config, "getMe");
+  const webhookSecret = randomBytes(24).toString("hex");
+  const url = `${appUrl()}/api/telegram/webhook`;
+
+  await callTelegramApi(config, "setWebhook", {
+    url,
+    secret_token: webhookSecret,
+    allowed_updates: ["message"],
+  });
+  await saveIntegration("telegram", {
+    config: { botUsername: me.username || "", webhookSecret },
+  });
+
+  return { url, botUsername: me.username || "" };
+}
+
+export async function getTelegramWebhookInfo() {
+  const { config } = await getIntegration("telegram");
+  return callTelegramApi<{
+    url: string;
+    pending_update_count: number;
+    last_error_date?: number;
+    last_error_message?: string;
+  }>(config, "getWebhookInfo");
+}
+
+// ============================================================================
+// Account linking
+// ============================================================================
+
+export async function getTelegramLinkStatus(userId: string): Promise<TelegramLinkStatus> {
+  const [{ isEnabled, config }, link] = await Promise.all([
+    getIntegration("telegram"),
+    prisma.telegramLink.findUnique({ where: { userId } }),
+  ]);
+  return {
+    enabled: isEnabled && !!config.botToken && !!config.botUsername,
+    botUsername: config.botUsername || null,
+    linked: !!link?.chatId,
+    username: link?.username || null,
+    linkedAt: link?.linkedAt || null,
+  };
+}
+
+/**
+ * Issue a one-time /start code for the user. Returns null while the bot is not set up.
+ */
+export async function createTelegramLinkCode(
+  userId: string
+): Promise<{ code: string; url: string; expiresAt: Date } | null> {
+  const { isEnabled, config } = await getIntegration("telegram");
+  if (!isEnabled || !config.botToken || !config.botUsername) return null;
+
+  const code = randomBytes(16).toString("hex");
+  const expiresAt = new Date(Date.now() + LINK_CODE_TTL);
+  await prisma.telegramLink.upsert({
+    where: { userId },
+    create: { userId, linkCode: code, linkCodeExpiresAt: expiresAt },
+    update: { linkCode: code, linkCodeExpiresAt: expiresAt },
+  });
+
+  return { code, url: `https://t.me/${config.botUsername}?start=${code}`, expiresAt };
+}
+
+export async function unlinkTelegram(userId: string): Promise<void> {
+  await prisma.telegramLink.deleteMany({ where: { userId } });
+}
+
+async function linkChat(code: string, chatId: string, from?: TelegramUser) {
+  const link = await prisma.telegramLink.findUnique({
+    where: { linkCode: code },
+    include: { user: { select: { fullName: true, displayName: true, email: true } } },
+  });
+  if (!link || !link.linkCodeExpiresAt || link.linkCodeExpiresAt < new Date()) {
+    return null;
+  }
+
+  await prisma.$transaction([
+    // A chat belongs to one account: moving it releases the previous link
+    prisma.telegramLink.updateMany({
+      where: { chatId, NOT: { id: link.id } },
+      data: { chatId: null, linkedAt: null },
+    }),
+    prisma.telegramLink.update({
+      where: { id: link.id },
+      data: {
+        chatId,
+        username: from?.username || null,
+        firstName: from?.first_name || null,
+        linkedAt: new Date(),
+        linkCode: null,
+        linkCodeExpiresAt: null,
+      },
+    }),
+  ]);
+
+  return link.user;
+}
+
+// ============================================================================
+// Rendering
+// ============================================================================
+
+export function escapeTelegramHtml(value: string): string {
+  return value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+const isHttpUrl = (url: unknown): url is string =>
+  typeof url === "string" && /^https?:\/\//i.test(url.trim());
+
+/**
+ * Assistant markdown (bold, links, headings) to Telegram HTML
+ */
+export function markdownToTelegramHtml(text: string): string {
+  return escapeTelegramHtml(text)
+    .replace(/^#{1,6}\s+(.+)$/gm, "<b>$1</b>")
+    .replace(/\*\*(.+?)\*\*/g, "<b>$1</b>")
+    .replace(/\[([^\]]+)\]\((https?:\/\/[^\s)]+)\)/g, (_, label: string, url: string) =>
+      `<a href="${url.replace(/"/g, "&quot;")}">${label}</a>`
+    );
+}
+
+// Tags, entities, line breaks, words with their trailing spaces: a message is never cut inside one
+const HTML_TOKEN = /<[^>]*>|&#?\w+;|\n|[^<&\s]+[^\S\n]*|[^\S\n]+|[<&]/g;
+
+function closingTag(openingTag: string): string {
+  return `</${openingTag.match(/^<(\w+)/)?.[1]}>`;
+}
+
+// Opening tags still open after a token
+function applyTag(open: string[], token: string): string[] {
+  if (token.startsWith("</")) return open.slice(0, -1);
+  if (/^<\w/.test(token)) return [...open, token];
+  return open;
+}
+
+/**
+ * Split Telegram HTML so that no message exceeds the limit. Cuts prefer line breaks,
+ * then word boundaries; spans open at a cut are closed there and reopened in the next message.
+ */
+function splitTelegramHtml(html: string, limit: number): string[] {
+  const tokens = html.match(HTML_TOKEN) || [];
+  const parts: string[] = [];
+  const closing = (open: string[]) => open.map(closingTag).reverse().join("");
+
+  let open: string[] = [];
+  let current: string[] = [];
+  let length = 0;
+  let reopened = 0; // leading tokens of the message that reopen spans from the previous one
+  let lastBreak: { index: number; open: string[] } | null = null;
+
+  const begin = (tags: string[], rest: string[]) => {
+    current = [...tags, ...rest];
+    length = current.join("").length;
+    reopened = tags.length;
+    lastBreak = null;
+  };
+  const flush = (pieces: string[], tags: string[]) => {
+    parts.push(pieces.join("") + closing(tags));
+  };
+
+  for (let i = 0; i < tokens.length; ) {
+    const token = tokens[i];
+    const next = applyTag(open, token);
+    if (length + token.length + closing(next).length <= limit) {
+      if (token === "\n") lastBreak = { index: current.length, open: [...open] };
+      current.push(token);
+      length += token.length;
+      open = next;
+      i++;
+      continue;
+    }
+
+    if (current.length > reopened) {
+      // Cut at the last line break if there is one, dropping the break itself
+      const cut: { index: number; open: string[] } | null = lastBreak;
+      if (cut && cut.index > reopened) {
+        flush(current.slice(0, cut.index), cut.open);
+        begin(cut.open, current.slice(cut.index + 1));
+      } else {
+        flush(current, open);
+        begin(open, []);
+      }
+      continue;
+    }
+
+    // A single word longer than a whole message
+    const room = limit - length - closing(open).length;
+    if (room <= 0 || token.startsWith("<") || token.startsWith("&")) {
+      // Nothing sensible to cut: let Telegram reject it rather than loop
+      current.push(token);
+      length += token.length;
+      open = next;
+      i++;
+      continue;
+    }
+    current.push(token.slice(0, room));
+    tokens[i] = token.slice(room);
+    flush(current, open);
+    begin(open, []);
+  }
+
+  if (current.length > reopened) flush(current, open);
+  return parts.filter((part) => part.trim());
+}
+
+function textMessages(markdown: string, buttons: InlineButton[] = []): TelegramOutgoing[] {
+  const chunks = splitTelegramHtml(markdownToTelegramHtml(markdown), MESSAGE_LIMIT);
+  return chunks.map((chunk, index) => ({
+    method: "sendMessage",
+    payload: {
+      text: chunk,
+      parse_mode: "HTML",
+      ...(index === chunks.length - 1 && buttons.length > 0
+        ? { reply_markup: { inline_keyboard: buttons.map((button) => [button]) } }
+        : {}),
+    },
+  }));
+}
+
+function productInfoMessages(product: ProductInfoPayload["data"]): TelegramOutgoing[] {
+  const params = product.params || {};
+  const lines = [
+    `<b>${escapeTelegramHtml(product.name)}</b>`,
+    `Артикул: <code>${escapeTelegramHtml(product.vendorCode)}</code>`,
+  ];
+  const price = Number(product.price);
+  lines.push(
+    Number.isFinite(price) && price > 0
+      ? `Цена: <b>${price.toLocaleString("ru-RU")} ₽</b>`
+      : `Цена: ${escapeTelegramHtml(product.price)}`
+  );
+  if (product.dealerPrice) {
+    const { purchasePrice, margin, marginPercent } = product.dealerPrice;
+    lines.push(
+      `Ваша цена: <b>${purchasePrice.toLocaleString("ru-RU")} ₽</b> (маржа ${margin.toLocaleString("ru-RU")} ₽, ${marginPercent}%)`
+    );
+  }
+
+  const buttons: InlineButton[] = [];
+  const details: string[] = [];
+  for (const [key, value] of Object.entries(params)) {
+    const keyLower = key.toLowerCase();
+    const match = keyLower.match(/документы файл (\d+)/);
+    if (match && isHttpUrl(value)) {
+      const nameKey = Object.keys(params).find(
+        (k) => k.toLowerCase() === `документы наименование ${match[1]}`
+      );
+      const name = nameKey ? params[nameKey] : null;
+      buttons.push({ text: String(name || `Документ ${match[1]}`), url: value.trim() });
+      continue;
+    }
+    if (
+      keyLower.startsWith("документы") ||
+      keyLower.startsWith("фото") ||
+      ["url", "ссылка на qr", "склады", "остаток_число"].includes(keyLower) ||
+      value === null ||
+      typeof value === "object" ||
+      String(value).trim() === ""
+    ) {
+      continue;
+    }
+    if (details.length < MAX_PARAMS) {
+      details.push(`${escapeTelegramHtml(key)}: ${escapeTelegramHtml(String(value))}`);
+    }
+  }
+  if (details.length > 0) lines.push("", ...details);
+
+  const warehouses = product.warehouses || [];
+  if (warehouses.length > 0) {
+    lines.push("", "<b>Наличие на складах</b>");
+    for (const warehouse of warehouses.slice(0, MAX_WAREHOUSES)) {
+      const place = warehouse.city ? `${warehouse.name} (${warehouse.city})` : warehouse.name;
+      lines.push(
+        `${warehouse.inStock ? "✅" : "⛔️"} ${escapeTelegramHtml(place)}: ${escapeTelegramHtml(warehouse.stockText)}`
+      );
+    }
+    if (warehouses.length > MAX_WAREHOUSES) {
+      lines.push(`…и ещё ${warehouses.length - MAX_WAREHOUSES}`);
+    }
+  }
+
+  const text = lines.join("\n");
+  const replyMarkup =
+    buttons.length > 0
+      ? { reply_markup: { inline_keyboard: buttons.map((button) => [button]) } }
+      : {};
+
+  if (isHttpUrl(product.picture)) {
+    if (text.length <= CAPTION_LIMIT) {
+      return [
+        {
+          method: "sendPhoto",
+          payload: { photo: product.picture, caption: text, parse_mode: "HTML", ...replyMarkup },
+        },
+      ];
+    }
+    return [
+      {
+        method: "sendPhoto",
+        payload: { photo: product.picture, caption: lines[0], parse_mode: "HTML" },
+      },
+      { method: "sendMessage", payload: { text, parse_mode: "HTML", ...replyMarkup } },
+    ];
+  }
+  return [{ method: "sendMessage", payload: { text, parse_mode: "HTML", ...replyMarkup } }];
+}
+
+/**
+ * Turn a chat pipeline reply into Bot API calls: product cards and download links
+ * become messages with photos and URL buttons, everything else is sent as formatted text
+ */
+export function renderTelegramReply(reply: ChatReply): TelegramOutgoing[] {
+  let payload: { type?: string; data?: unknown } | null = null;
+  if (reply.content.trim().startsWith("{")) {
+    try {
+      payload = JSON.parse(reply.content);
+    } catch {
+      payload = null;
+    }
+  }
+
+  if (payload?.type === "product_info") {
+    return productInfoMessages(payload.data as ProductInfoPayload["data"]);
+  }
+
+  if (payload?.type === "download_link") {
+    const data = payload.data as { text: string; url: string | null };
+    return isHttpUrl(data.url)
+      ? textMessages(data.text, [{ text: "Скачать", url: data.url.trim() }])
+      : textMessages(data.text);
+  }
+
+  if (payload?.type === "multi_download_links") {
+    const data = payload.data as { items: Array<{ title: string; url: string | null }> };
+    const buttons = data.items
+      .filter((item) => isHttpUrl(item.url))
+      .map((item) => ({ text: item.title, url: item.url!.trim() }));
+    return textMessages(
+      buttons.length > 0 ? "Материалы для скачивания:" : "Ссылки на материалы пока недоступны.",
+      buttons
+    );
+  }
+
+  const messages = textMessages(reply.content);
+  for (const attachment of reply.attachments.slice(0, MAX_IMAGES)) {
+    if (attachment.type === "image" && isHttpUrl(attachment.url)) {
+      messages.push({
+        method: "sendPhoto",
+        payload: { photo: attachment.url, caption: escapeTelegramHtml(attachment.name), parse_mode: "HTML" },
+      });
+    }
+  }
+  return messages;
+}
+
+// ============================================================================
+// Webhook
+// ============================================================================
+
+const HELP_TEXT = `Я помощник Floor Service. Напишите артикул (например, «наличие AB123»), чтобы получить карточку товара с ценой и остатками, или задайте вопрос — я найду ответ в базе знаний.
+
+/unlink — отвязать Telegram от аккаунта`;
+
+function linkInstructions(): string {
+  return `Чтобы пользоваться ботом, привяжите Telegram к аккаунту: откройте «Личные данные» в приложении и нажмите «Привязать Telegram».\n\n${appUrl()}${PROFILE_PATH}`;
+}
+
+async function loadHistory(sessionId: string): Promise<ChatHistoryMessage[]> {
+  const session = await prisma.chatSession.findUnique({ where: { sessionId } });
+  return ((session?.messages || []) as unknown as ChatHistoryMessage[]).filter(
+    (message) => message && typeof message.content === "string"
+  );
+}
+
+/**
+ * Cards are stored as JSON in content; the model gets a short line instead, as in the web chat
+ */
+function historyEntry(message: ChatHistoryMessage): ChatHistoryMessage {
+  if (message.role !== "assistant" || !message.content.startsWith("{")) return message;
+  let payload: ProductInfoPayload | DownloadLinkPayload | MultiDownloadLinksPayload;
+  try {
+    payload = JSON.parse(message.content);
+  } catch {
+    return message;
+  }
+  switch (payload?.type) {
+    case "product_info":
+      return { role: message.role, content: `${payload.data.name} (арт. ${payload.data.vendorCode})` };
+    case "download_link":
+      return { role: message.role, content: payload.data.text };
+    case "multi_download_links":
+      return { role: message.role, content: payload.data.items.map((item) => item.text).join("\n") };
+    default:
+      return message;
+  }
+}
+
+async function saveExchange(
+  sessionId: string,
+  user: { id: string; email: string },
+  question: string,
+  reply: ChatReply
+) {
+  const now = new Date().toISOString();
+  const history = await loadHistory(sessionId);
+  const messages = [
+    ...history,
+    { id: randomUUID(), role: "user", content: question, timestamp: now },
+    {
+      id: randomUUID(),
+      role: "assistant",
+      content: reply.content,
+      timestamp: now,
+      attachments: reply.attachments,
+    },
+  ].slice(-HISTORY_LIMIT) as unknown as Prisma.InputJsonValue;
+
+  await prisma.chatSession.upsert({
+    where: { sessionId },
+    create: { sessionId, userId: user.id, userEmail: user.email, messages },
+    update: { messages, lastActivity: new Date(), isActive: true },
+  });
+}
+
+async function answer(
+  config: TelegramIntegrationConfig,
+  chatId: string,
+  text: string
+): Promise<TelegramOutgoing[]> {
+  const command = text.match(/^\/(\w+)(?:@\w+)?(?:\s|$)/);
+
+  const link = await prisma.telegramLink.findUnique({
+    where: { chatId },
+    include: {
+      user: { select: { id: true, email: true, role: true, isApproved: true, isBlocked: true } },
+    },
+  });
+
+  if (command?.[1] === "unlink") {
+    if (!link) return textMessages("Этот чат не привязан к аккаунту.");
+    await prisma.telegramLink.delete({ where: { id: link.id } });
+    return textMessages("Telegram отвязан от аккаунта. Привязать снова можно в профиле приложения.");
+  }
+  if (!link) return textMessages(linkInstructions());
+  if (command?.[1] === "start" || command?.[1] === "help") return textMessages(HELP_TEXT);
+
+  const { user } = link;
+  if (user.isBlocked) {
+    return textMessages("Ваш аккаунт заблокирован. Обратитесь к администратору.");
+  }
+  if (!user.isApproved && user.role !== "ADMIN") {
+    return textMessages("Ваш аккаунт ожидает одобрения администратором. Бот станет доступен после одобрения.");
+  }
+  if (!checkRateLimit(`telegram:${chatId}`, "chat").allowed) {
+    return textMessages("Слишком много запросов. Подождите немного.");
+  }
+  if (!aiQueue.hasCapacity()) {
+    return textMessages("Сервис перегружен. Попробуйте через несколько секунд.");
+  }
+
+  await callTelegramApi(config, "sendChatAction", { chat_id: chatId, action: "typing" }).catch(
+    () => undefined
+  );
+
+  const sessionId = `telegram:${chatId}`;
+  const history = await loadHistory(sessionId);
+  const reply = await withDealerPrice(
+    await answerChatMessage(text, history.map(historyEntry)),
+    await resolveUserPriceType(user.id)
+  );
+  await saveExchange(sessionId, user, text, reply);
+  return renderTelegramReply(reply);
+}
+
+/**
+ * Handle one webhook update. Only private text messages are answered.
+ */
+export async function handleTelegramUpdate(
+  config: TelegramIntegrationConfig,
+  update: TelegramUpdate
+): Promise<void> {
+  if (recentUpdates.has(update.update_id)) return;
+  recentUpdates.add(update.update_id);
+  if (recentUpdates.size > 1000) {
+    recentUpdates.delete(recentUpdates.values().next().value as number);
+  }
+
+  const message = update.message;
+  if (!message?.text || message.chat.type !== "private" || message.from?.is_bot) return;
+
+  const chatId = String(message.chat.id);
+  const text = message.text.trim();
+  let outgoing: TelegramOutgoing[];
+
+  try {
+    const start = text.match(/^\/start(?:@\w+)?\s+([\w-]+)$/);
+    if (start) {
+      const user = await linkChat(start[1], chatId, message.from);
+      outgoing = textMessages(
+        user
+          ? `Telegram привязан к аккаунту ${user.fullName || user.displayName || user.email}.\n\n${HELP_TEXT}`
+          : "Код привязки недействителен или устарел. Получите новый в профиле приложения."
+      );
+    } else {
+      outgoing = await answer(config, chatId, text);
+    }
+  } catch (error) {
+    console.error("Error answering Telegram message:", error);
+    outgoing = textMessages("Не удалось получить ответ. Попробуйте позже.");
+  }
+
+  for (const item of outgoing) {
+    try {
+      await callTelegramApi(config, item.method, { chat_id: chatId, ...item.payload });
+    } catch (error) {
+      // e.g. a product picture Telegram cannot fetch: the remaining messages still go out
+      console.error(`Error sending Telegram ${item.method}:`, error);
+    }
+  }
+}
@@ -30,3 +30,7 @@ export function formatDate(date: Date | string): string {
 export function generateSessionId(): string {
   return "chat_" + Date.now() + "_" + Math.random().toString(36).substr(2, 9);
 }
+
+export function normalizeCity(city: string | null | undefined): string {
+  return (city || "").trim().toLowerCase().replace(/ё/g, "е");
+}
@@ -0,0 +1,88 @@
+/**
+ * Warehouse Directory
+ *
+ * Справочник складов вместо захардкоженного маппинга в XML-синхронизации:
+ * 1. Автообнаружение складов из <warehouses> фида и warehouse_id в остатках
+ * 2. Названия складов для карточек товара и калькулятора
+ * 3. Склады города пользователя для фильтрации остатков
+ */
+
+import prisma from "@/lib/prisma";
+import { Warehouse } from "@prisma/client";
+import { withCache, productIndexCache } from "@/lib/cache";
+import { normalizeCity } from "@/lib/utils";
+
+// Types
+export interface DiscoveredWarehouse {
+  code: string;
+  name?: string;
+  city?: string;
+  region?: string;
+  address?: string;
+}
+
+const WAREHOUSES_CACHE_KEY = "warehouses";
+
+/**
+ * All warehouses by code (cached together with the product catalog)
+ */
+export async function getWarehouseDirectory(): Promise<Map<string, Warehouse>> {
+  const warehouses = await withCache(productIndexCache, WAREHOUSES_CACHE_KEY, () =>
+    prisma.warehouse.findMany({ orderBy: { code: "asc" } })
+  );
+  return new Map(warehouses.map((w) => [w.code, w]));
+}
+
+export function invalidateWarehouseCache(): void {
+  productIndexCache.delete(WAREHOUSES_CACHE_KEY);
+}
+
+/**
+ * Add warehouses seen in a feed that are not in the directory yet.
+ * Existing entries are never overwritten - admins own names and cities.
+ */
+export async function discoverWarehouses(
+  discovered: DiscoveredWarehouse[]
+): Promise<Map<string, Warehouse>> {
+  const directory = await getWarehouseDirectory();
+
+  const missing = new Map<string, DiscoveredWarehouse>();
+  for (const warehouse of discovered) {
+    const code = warehouse.code.trim();
+    if (!code || directory.has(code)) continue;
+    // Feed <warehouses> entries come first and carry names - keep them over bare codes
+    if (!missing.has(code)) missing.set(code, { ...warehouse, code });
+  }
+
+  if (missing.size === 0) return directory;
+
+  await prisma.warehouse.createMany({
+    data: Array.from(missing.values()).map((warehouse) => ({
+      code: warehouse.code,
+      name: warehouse.name || `Склад ${warehouse.code}`,
+      city: warehouse.city || null,
+      region: warehouse.region || null,
+      address: warehouse.address || null,
+      isAutoDiscovered: true,
+    })),
+    skipDuplicates: true,
+  });
+
+  console.log(`[Warehouses] Discovered ${missing.size} new warehouses`);
+
+  invalidateWarehouseCache();
+  return getWarehouseDirectory();
+}
+
+/**
+ * Codes of active warehouses in the given city
+ */
+export async function getWarehouseCodesForCity(city: string): Promise<string[]> {
+  const normalized = normalizeCity(city);
+  if (!normalized) return [];
+
+  const directory = await getWarehouseDirectory();
+  return Array.from(directory.values())
+    .filter((w) => w.isActive && normalizeCity(w.city) === normalized)
+    .map((w) => w.code);
+}
@@ -0,0 +1,123 @@
+/**
+ * XML Feed Sync Scheduler
+ *
+ * Автоматическая синхронизация фидов по расписанию (KnowledgeBase.syncIntervalMinutes):
+ * - в Node-процессе запускается из instrumentation.ts и проверяет фиды раз в минуту
+ * - на serverless-хостинге тот же обход вызывается внешним cron через /api/cron/xml-sync
+ *
+ * Тот же планировщик раз в сутки запускает ежедневные задачи (runDailyJobs): пересчёт тиров дилеров
+ * с переносом оборота при смене месяца и фиксацию итогов рейтинга за прошедшие периоды.
+ * Без него эти задачи зависят только от внешнего cron.
+ */
+
+import prisma from "@/lib/prisma";
+import { KnowledgeType, XmlSyncTrigger } from "@prisma/client";
+import { syncXmlFeed } from "@/lib/xml-sync";
+import { recalculateDealerTiers } from "@/lib/dealer-tiers";
+import { freezeLeaderboardSnapshots } from "@/lib/leaderboard";
+
+const CHECK_INTERVAL = 60 * 1000; // 1 minute
+
+let schedulerStarted = false;
+let checkInProgress = false;
+
+// Day each daily job last succeeded; a failed job is retried on the next check
+const dailyJobsDone: Record<string, string> = {};
+
+const DAILY_JOBS: Record<string, (now: Date) => Promise<unknown>> = {
+  dealerTiers: (now) => recalculateDealerTiers({ now }),
+  // After the rollover, so snapshots carry the tiers of the new month
+  leaderboardSnapshots: (now) => freezeLeaderboardSnapshots(now),
+};
+
+/**
+ * Sync every feed whose interval has passed since its last run.
+ * Failed runs count too, so a broken feed is retried on schedule, not every minute.
+ */
+export async function runDueXmlFeedSyncs(
+  now: Date = new Date()
+): Promise<Array<{ feedId: string; success: boolean; error?: string }>> {
+  const feeds = await prisma.knowledgeBase.findMany({
+    where: {
+      type: KnowledgeType.XML_FEED,
+      syncIntervalMinutes: { gt: 0 },
+      url: { not: null },
+    },
+    select: {
+      id: true,
+      title: true,
+      syncIntervalMinutes: true,
+      syncRuns: {
+        orderBy: { startedAt: "desc" },
+        take: 1,
+        select: { startedAt: true },
+      },
+    },
+  });
+
+  const results: Array<{ feedId: string; success: boolean; error?: string }> = [];
+
+  for (const feed of feeds) {
+    const lastRunAt = feed.syncRuns[0]?.startedAt;
+    const intervalMs = (feed.syncIntervalMinutes || 0) * 60 * 1000;
+    if (lastRunAt && now.getTime() - lastRunAt.getTime() < intervalMs) {
+      continue;
+    }
+
+    console.log(`[XmlSyncScheduler] Scheduled sync for: ${feed.title}`);
+    const result = await syncXmlFeed(feed.id, XmlSyncTrigger.SCHEDULED);
+    results.push({
+      feedId: feed.id,
+      success: result.success,
+      error: result.success ? undefined : result.error,
+    });
+  }
+
+  return results;
+}
+
+const dayKey = (date: Date) => `${date.getFullYear()}-${date.getMonth() + 1}-${date.getDate()}`;
+
+/**
+ * Run each daily job once per calendar day, on the first check after midnight.
+ * The jobs are safe to repeat, so an external cron calling the same work does no harm.
+ */
+export async function runDailyJobs(now: Date = new Date()): Promise<void> {
+  const today = dayKey(now);
+  for (const [name, job] of Object.entries(DAILY_JOBS)) {
+    if (dailyJobsDone[name] === today) continue;
+    try {
+      await job(now);
+      dailyJobsDone[name] = today;
+      console.log(`[XmlSyncScheduler] Daily job done: ${name}`);
+    } catch (error) {
+      console.error(`[XmlSyncScheduler] Daily job ${name} failed:`, error);
+    }
+  }
+}
+
+/**
+ * Start the in-process scheduler (once per server process).
+ * Disabled with XML_SYNC_SCHEDULER=false, e.g. when an external cron is used -
+ * the /api/cron endpoints are then required for the daily jobs too.
+ */
+export function startXmlSyncScheduler(): void {
+  if (schedulerStarted || process.env.XML_SYNC_SCHEDULER === "false") return;
+  schedulerStarted = true;
+
+  setInterval(async () => {
+    // Long syncs must not stack up
+    if (checkInProgress) return;
+    checkInProgress = true;
+    try {
+      await runDailyJobs();
+      await runDueXmlFeedSyncs();
+    } catch (error) {
+      console.error("[XmlSyncScheduler] Error:", error);
+    } finally {
+      checkInProgress = false;
+    }
+  }, CHECK_INTERVAL);
+
+  console.log("[XmlSyncScheduler] Started");
+}
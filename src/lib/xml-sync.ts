@@ -0,0 +1,308 @@
+/**
+ * XML Feed Sync
+ *
+ * Синхронизация фидов в каталог товаров:
+ * 1. Загрузка фида по URL или загруженных файлов (YML, CSV, XLSX, CommerceML)
+ * 2. Разбор в единую модель товара (catalog-import) и справочник складов
+ * 3. Сохранение товаров и запись результата в журнал запусков (XmlSyncRun)
+ */
+
+import prisma from "@/lib/prisma";
+import { CatalogFormat, XmlSyncTrigger, XmlSyncStatus } from "@prisma/client";
+import { saveFeedProducts } from "@/lib/product-catalog";
+import { discoverWarehouses } from "@/lib/warehouses";
+import {
+  CatalogFile,
+  ColumnMapping,
+  detectCatalogFormat,
+  downloadCatalogFiles,
+  parseCatalog,
+} from "@/lib/catalog-import";
+
+// Types
+export type XmlSyncResult =
+  | {
+      success: true;
+      runId: string;
+      offersCount: number;
+      productsCount: number;
+      addedCount: number;
+      removedCount: number;
+      changedCount: number;
+      warehousesCount: number;
+      format: CatalogFormat;
+      encoding?: string;
+    }
+  | {
+      success: false;
+      runId?: string;
+      error: string;
+      status: number;
+      debug?: Record<string, unknown>;
+    };
+
+export interface CatalogImportOptions {
+  trigger?: XmlSyncTrigger;
+  // Uploaded files; the feed URL is downloaded when omitted
+  files?: CatalogFile[];
+  // Overrides format detection
+  format?: CatalogFormat;
+  // CSV/XLSX column mapping for this import; saved on the feed only if the import succeeds
+  mapping?: ColumnMapping;
+}
+
+const CHANGES_BATCH_SIZE = 1000;
+
+// Feeds being synced by this process (manual and scheduled runs must not overlap)
+const runningFeeds = new Set<string>();
+
+/**
+ * Mark a run as failed and build the error result
+ */
+async function failRun(
+  runId: string,
+  failure: {
+    error: string;
+    status: number;
+    encoding?: string;
+    offersCount?: number;
+    debug?: Record<string, unknown>;
+  }
+): Promise<XmlSyncResult> {
+  await prisma.xmlSyncRun.update({
+    where: { id: runId },
+    data: {
+      status: XmlSyncStatus.FAILED,
+      finishedAt: new Date(),
+      error: failure.error,
+      encoding: failure.encoding,
+      offersCount: failure.offersCount,
+    },
+  });
+
+  return {
+    success: false,
+    runId,
+    error: failure.error,
+    status: failure.status,
+    debug: failure.debug,
+  };
+}
+
+/**
+ * Fetch, parse and store the feed from its URL. Every run is recorded in XmlSyncRun.
+ */
+export async function syncXmlFeed(
+  knowledgeBaseId: string,
+  trigger: XmlSyncTrigger = XmlSyncTrigger.MANUAL
+): Promise<XmlSyncResult> {
+  return importCatalog(knowledgeBaseId, { trigger });
+}
+
+/**
+ * Parse and store a catalog of any supported format, from the feed URL or uploaded files
+ */
+export async function importCatalog(
+  knowledgeBaseId: string,
+  options: CatalogImportOptions = {}
+): Promise<XmlSyncResult> {
+  const trigger = options.trigger ?? XmlSyncTrigger.MANUAL;
+  const item = await prisma.knowledgeBase.findUnique({
+    where: { id: knowledgeBaseId },
+  });
+
+  if (!item || item.type !== "XML_FEED" || (!item.url && !options.files?.length)) {
+    return {
+      success: false,
+      error: "Invalid item or missing URL for XML feed.",
+      status: 404,
+    };
+  }
+
+  if (runningFeeds.has(knowledgeBaseId)) {
+    return {
+      success: false,
+      error: "Sync is already running for this feed.",
+      status: 409,
+    };
+  }
+
+  const run = await prisma.xmlSyncRun.create({
+    data: {
+      feedId: knowledgeBaseId,
+      trigger,
+      format: options.format ?? item.feedFormat,
+      fileName: options.files?.map((file) => file.name).join(", ") || null,
+    },
+  });
+  runningFeeds.add(knowledgeBaseId);
+
+  try {
+    console.log(`[syncXmlFeed] Starting sync for: ${item.title}`);
+
+    let files = options.files;
+    if (!files?.length) {
+      console.log(`[syncXmlFeed] URL: ${item.url}`);
+      files = await downloadCatalogFiles(item.url!);
+    }
+
+    const format = options.format ?? detectCatalogFormat(files[0]);
+    if (format !== run.format) {
+      await prisma.xmlSyncRun.update({ where: { id: run.id }, data: { format } });
+    }
+
+    const parsed = await parseCatalog(format, files, {
+      mapping: options.mapping ?? (item.columnMapping as ColumnMapping | null),
+    });
+    const encoding = parsed.encoding;
+
+    console.log(`[syncXmlFeed] Found ${parsed.offersCount} offers (${format})`);
+
+    if (parsed.products.length === 0) {
+      return await failRun(run.id, {
+        error: `No offers found in ${format} catalog.`,
+        status: 400,
+        encoding,
+      });
+    }
+
+    // Warehouse directory: warehouses declared by the source plus every code in stock
+    const discovered = [...parsed.warehouses];
+    for (const product of parsed.products) {
+      product.warehouseStocks.forEach((stock) => discovered.push({ code: stock.code }));
+    }
+
+    const directory = await discoverWarehouses(discovered);
+    const warehouses: Record<string, string> = {};
+    for (const { code } of discovered) {
+      const warehouse = directory.get(code);
+      if (warehouse) warehouses[code] = warehouse.name;
+    }
+
+    // Parsers only know warehouse codes - show directory names in the stock params
+    const products = parsed.products.map((product) => {
+      if (product.warehouseStocks.length === 0) return product;
+
+      const warehouseStock: Record<string, string> = {};
+      const warehouseStocks = product.warehouseStocks.map((stock) => {
+        const name = warehouses[stock.code] || stock.name;
+        warehouseStock[name] = stock.stockText;
+        return { ...stock, name };
+      });
+      return {
+        ...product,
+        warehouseStocks,
+        params: { ...product.params, Склады: warehouseStock },
+      };
+    });
+
+    // Generate content for AI
+    const contentForAI = products
+      .map((p) => {
+        const parts = [
+          `Товар: ${p.name}`,
+          `Артикул: ${p.vendorCode}`,
+          p.vendor ? `Производитель: ${p.vendor}` : "",
+          p.price ? `Цена: ${p.price} руб/м²` : "",
+          p.description ? `Описание: ${p.description}` : "",
+        ];
+
+        if (p.params) {
+          Object.entries(p.params).forEach(([key, value]) => {
+            if (key === "Склады" && typeof value === "object") {
+              parts.push(`Остатки по складам:`);
+              Object.entries(value as Record<string, string>).forEach(
+                ([whName, whStock]) => {
+                  parts.push(`  - ${whName}: ${whStock}`);
+                }
+              );
+            } else if (
+              key !== "Остаток_число" &&
+              !key.toLowerCase().startsWith("документы")
+            ) {
+              parts.push(`${key}: ${value}`);
+            }
+          });
+        }
+
+        if (p.documents && p.documents.length > 0) {
+          parts.push(`Документы:`);
+          p.documents.forEach((doc) => {
+            parts.push(`  - ${doc.name}: ${doc.url}`);
+          });
+        }
+
+        return parts.filter(Boolean).join("\n");
+      })
+      .join("\n\n---\n\n");
+
+    // Persist normalized catalog rows (replaces previous products of this feed)
+    const saved = await saveFeedProducts(knowledgeBaseId, products);
+
+    // Update database - xmlData keeps only the sync summary
+    await prisma.knowledgeBase.update({
+      where: { id: knowledgeBaseId },
+      data: {
+        xmlData: {
+          format,
+          warehouses: warehouses,
+          last_synced: new Date().toISOString(),
+          total_products: saved.saved,
+        } as object,
+        content: contentForAI,
+        feedFormat: format,
+        lastSync: new Date(),
+        ...(options.mapping && { columnMapping: options.mapping as object }),
+      },
+    });
+
+    // Store the diff against the previous catalog for the change report
+    for (let i = 0; i < saved.changes.length; i += CHANGES_BATCH_SIZE) {
+      await prisma.xmlSyncChange.createMany({
+        data: saved.changes.slice(i, i + CHANGES_BATCH_SIZE).map((change) => ({
+          ...change,
+          runId: run.id,
+        })),
+      });
+    }
+
+    await prisma.xmlSyncRun.update({
+      where: { id: run.id },
+      data: {
+        status: XmlSyncStatus.SUCCESS,
+        finishedAt: new Date(),
+        offersCount: parsed.offersCount,
+        productsCount: saved.saved,
+        addedCount: saved.added,
+        removedCount: saved.removed,
+        changedCount: saved.changed,
+        encoding,
+      },
+    });
+
+    console.log(
+      `[syncXmlFeed] Successfully synced ${saved.saved} products (${parsed.offersCount} offers): +${saved.added} -${saved.removed} ~${saved.changed}`
+    );
+
+    return {
+      success: true,
+      runId: run.id,
+      offersCount: parsed.offersCount,
+      productsCount: saved.saved,
+      addedCount: saved.added,
+      removedCount: saved.removed,
+      changedCount: saved.changed,
+      warehousesCount: Object.keys(warehouses).length,
+      format,
+      encoding,
+    };
+  } catch (error) {
+    console.error("[syncXmlFeed] Error:", error);
+    return await failRun(run.id, {
+      error: error instanceof Error ? error.message : "Unknown error",
+      status: 500,
+    });
+  } finally {
+    runningFeeds.delete(knowledgeBaseId);
+  }
+}
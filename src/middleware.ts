@@ -3,7 +3,9 @@ import { NextResponse } from "next/server";
 
 // Public routes that don't require authentication
 const publicPages = ["/login", "/register"];
-const publicApiRoutes = ["/api/auth", "/api/public"];
+const publicApiRoutes = ["/api/auth", "/api/public", "/api/cron", "/api/telegram/webhook"];
+// Pages opened from share links, with or without a session
+const sharedPages = ["/shared/"];
 
 export default withAuth(
   function middleware(req) {
@@ -17,8 +19,8 @@ export default withAuth(
     // Check if it's a public API route
     const isPublicApi = publicApiRoutes.some(route => pathname.startsWith(route));
 
-    // Allow public API routes
-    if (isPublicApi) {
+    // Allow public API routes and shared pages
+    if (isPublicApi || sharedPages.some(page => pathname.startsWith(page))) {
       return NextResponse.next();
     }
 
@@ -48,6 +50,11 @@ export default withAuth(
         if (publicApiRoutes.some(route => pathname.startsWith(route))) {
           return true;
         }
+
+        // Allow access to shared pages
+        if (sharedPages.some(page => pathname.startsWith(page))) {
+          return true;
+        }
         
         // Require auth for everything else
         return !!token;
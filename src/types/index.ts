@@ -7,8 +7,14 @@ export type {
   Product,
   ChatMessage,
   ChatSession,
+  ChatStreamEvent,
+  ChatProductCard,
+  ChatDownloadLink,
+  ChatCitation,
   AISettings,
+  DealerPrice,
 } from "@/lib/api";
+import type { DealerPrice } from "@/lib/api";
 
 // Additional types
 export interface ChatPayload {
@@ -23,6 +29,7 @@ export interface ProductInfoData {
   picture: string;
   price: string;
   params: Record<string, unknown>;
+  dealerPrice?: DealerPrice; // purchase price of the current user
 }
 
 export interface DownloadLinkData {